@@ -112,6 +112,13 @@ const kDefault = {
   postUrl: "/cx",
   withCredentials: true,
 
+  // Envelope POSTs carry their requestId as an Idempotency-Key (see
+  // http-idempotency.ts). Retrying is opt-in (`postRetries`): only safe when
+  // the server runs idempotency(), and only keyed POSTs are ever retried.
+  idempotencyHeader: "idempotency-key",
+  postRetries: 0,
+  postRetryMs: 250,
+
   // ContinuUX action attributes
   cxAttr: "data-cx",
   cxOnPrefix: "data-cx-on-",
@@ -122,6 +129,9 @@ const kDefault = {
   // SSE events
   jsEventName: "js",
   patchEventName: "patch",
+  // Final event a draining server sends (see sseShutdownEvent in http.ts).
+  shutdownEventName: "shutdown",
+  maxReconnectMs: 30_000,
 
   // Delegated DOM events (safe defaults)
   events: ["click", "submit", "change", "input", "keydown", "keyup"],
@@ -219,6 +229,15 @@ const clientMeta = (sessionId, reqId, appVersion) => {
   return out;
 };
 
+// A 409 is retried only when idempotency() says the key is still being
+// processed; any other conflict is final.
+const retryable = async (res) => {
+  if ([502, 503, 504].includes(res.status)) return true;
+  if (res.status !== 409) return false;
+  const problem = await res.clone().json().catch(() => null);
+  return problem?.type === "urn:continuux:problem:idempotency-conflict";
+};
+
 const formToObject = (form) => {
   const out = Object.create(null);
   try {
@@ -329,6 +348,9 @@ export class CxAide {
     this.#jsListener = null;
     this.#patchEventName = kDefault.patchEventName;
     this.#patchListener = null;
+    this.#lifecycleListeners = [];
+    this.#reconnectMs = undefined;
+    this.#reconnectTimer = undefined;
 
     this.#handlers = Object.create(null);
     this.#sseListenerByEvent = Object.create(null);
@@ -342,6 +364,8 @@ export class CxAide {
     this.#debug = false;
     this.#preventDefaultSubmit = kDefault.preventDefaultSubmit;
     this.#events = kDefault.events.slice();
+    this.#defaultHeaders = Object.create(null);
+    this.#postRetries = kDefault.postRetries;
   }
 
   /** @type {EventSource|null} */
@@ -362,6 +386,15 @@ export class CxAide {
   /** @type {((ev: MessageEvent) => void)|null} */
   #patchListener;
 
+  /** @type {Array<[string, (ev: Event) => void]>} */
+  #lifecycleListeners;
+
+  /** Set after a server `shutdown` event until the stream reopens. @type {number|undefined} */
+  #reconnectMs;
+
+  /** @type {ReturnType<typeof setTimeout>|undefined} */
+  #reconnectTimer;
+
   /** @type {Record<string, Function>} */
   #handlers;
 
@@ -392,6 +425,12 @@ export class CxAide {
   /** @type {string[]} */
   #events;
 
+  /** @type {Record<string, string>} */
+  #defaultHeaders;
+
+  /** @type {number} */
+  #postRetries;
+
   diag(kind, data) {
     if (!this.#diagnostics) return;
     try {
@@ -469,6 +508,25 @@ export class CxAide {
     this.#preventDefaultSubmit = !!v;
   }
 
+  // Headers sent with every POST (e.g. a CSRF token).
+  setDefaultHeaders(obj) {
+    const out = Object.create(null);
+    if (obj && typeof obj === "object") {
+      for (const [k, v] of Object.entries(obj)) {
+        if (v != null) out[String(k)] = String(v);
+      }
+    }
+    this.#defaultHeaders = out;
+  }
+
+  // Retries for keyed POSTs after network errors, idempotency() 409s (the
+  // same key still processing), or 502/503/504. Default 0: enable only when
+  // the server deduplicates by key, or actions may run twice.
+  setPostRetries(n) {
+    const v = Number(n);
+    if (Number.isFinite(v) && v >= 0) this.#postRetries = Math.floor(v);
+  }
+
   // ----- Custom Element convenience
 
   #root() {
@@ -698,11 +756,56 @@ export class CxAide {
       // ignore
     }
 
+    // Server draining: EventSource reconnects on its own after `retry`, but
+    // gives up for good if the reconnect gets a non-200 (e.g. a 502 from a
+    // load balancer mid-deploy), so reconnect manually with backoff then.
+    const onShutdown = (ev) => {
+      const data = jsonFromEvent(ev);
+      const retryMs = Number(data?.retryMs);
+      this.#reconnectMs = Number.isFinite(retryMs) && retryMs > 0
+        ? retryMs
+        : 1000;
+      this.diag("sse-shutdown", { retryMs: this.#reconnectMs });
+    };
+    const onOpen = () => {
+      if (this.#reconnectMs !== undefined) this.diag("sse-reconnected", {});
+      this.#reconnectMs = undefined;
+    };
+    const onError = () => {
+      const es = this.#es;
+      if (!es || es.readyState !== EventSource.CLOSED) return;
+      if (this.#reconnectMs === undefined) return;
+      const delay = this.#reconnectMs;
+      this.sseDisconnect();
+      this.#reconnectMs = Math.min(delay * 2, kDefault.maxReconnectMs);
+      this.#reconnectTimer = setTimeout(() => {
+        this.#reconnectTimer = undefined;
+        this.sseConnect(opts);
+      }, delay);
+    };
+    this.#lifecycleListeners = [
+      [kDefault.shutdownEventName, onShutdown],
+      ["open", onOpen],
+      ["error", onError],
+    ];
+    for (const [name, listener] of this.#lifecycleListeners) {
+      try {
+        this.#es.addEventListener(name, listener);
+      } catch {
+        // ignore
+      }
+    }
+
     // Typed-ish events (JSON payloads)
     for (const k of Object.keys(this.#handlers)) this.#bindSseHandler(k);
   }
 
   sseDisconnect() {
+    if (this.#reconnectTimer !== undefined) {
+      clearTimeout(this.#reconnectTimer);
+      this.#reconnectTimer = undefined;
+    }
+    this.#reconnectMs = undefined;
     if (!this.#es) return;
 
     // remove listeners first (helps avoid retained closures)
@@ -727,6 +830,15 @@ export class CxAide {
       }
       this.#patchListener = null;
 
+      for (const [name, listener] of this.#lifecycleListeners) {
+        try {
+          this.#es.removeEventListener(name, listener);
+        } catch {
+          // ignore
+        }
+      }
+      this.#lifecycleListeners = [];
+
       for (const [name, listener] of Object.entries(this.#sseListenerByEvent)) {
         try {
           this.#es.removeEventListener(name, listener);
@@ -755,16 +867,37 @@ export class CxAide {
 
     const headers = {
       "content-type": "application/json",
+      ...this.#defaultHeaders,
       ...(opts.headers || {}),
     };
 
-    const res = await fetch(u, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body ?? null),
-      credentials: opts.credentials || "include",
-      keepalive: opts.keepalive !== false,
-    });
+    // Resending is only safe when the server can deduplicate by key.
+    const keyed = Object.keys(headers).some((k) =>
+      k.toLowerCase() === kDefault.idempotencyHeader
+    );
+    const retries = keyed ? this.#postRetries : 0;
+    const payload = JSON.stringify(body ?? null);
+
+    let res;
+    for (let attempt = 0;; attempt++) {
+      try {
+        res = await fetch(u, {
+          method: "POST",
+          headers,
+          body: payload,
+          credentials: opts.credentials || "include",
+          keepalive: opts.keepalive !== false,
+        });
+        if (attempt >= retries || !(await retryable(res))) break;
+        await res.body?.cancel().catch(() => {});
+      } catch (err) {
+        if (attempt >= retries) throw err;
+      }
+      this.diag("post:retry", { url: u, attempt: attempt + 1 });
+      await new Promise((r) =>
+        setTimeout(r, kDefault.postRetryMs * 2 ** attempt)
+      );
+    }
 
     if (!res.ok) {
       const t = await res.text().catch(() => "");
@@ -784,7 +917,11 @@ export class CxAide {
     if (body && typeof body === "object" && Object.keys(body).length) {
       env.signals = Object.assign(env.signals || {}, body);
     }
-    return this.postJson(url, env);
+    return this.postJson(url, env, {
+      headers: {
+        [kDefault.idempotencyHeader]: String(env.client.requestId || ""),
+      },
+    });
   }
 
   // ----- ContinuUX delegated runtime (HTMX/Datastar style)
@@ -891,6 +1028,9 @@ export class CxAide {
     const extraHeaders = Object.assign(Object.create(null), env.headers || {});
     extraHeaders["x-cx-session"] = String(env.client.sessionId || "");
     extraHeaders["x-cx-request"] = String(env.client.requestId || "");
+    extraHeaders[kDefault.idempotencyHeader] = String(
+      env.client.requestId || "",
+    );
 
     try {
       await this.postJson(this.postUrl, env, { headers: extraHeaders });
@@ -970,6 +1110,8 @@ export function createCxUserAgent(opts = {}) {
   if (typeof opts.preventDefaultSubmit === "boolean") {
     aide.setPreventDefaultSubmit(opts.preventDefaultSubmit);
   }
+  if (opts.headers) aide.setDefaultHeaders(opts.headers);
+  if (opts.postRetries != null) aide.setPostRetries(opts.postRetries);
 
   // SSE
   const autoConnect = opts.autoConnect !== false;
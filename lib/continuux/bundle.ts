@@ -27,7 +27,8 @@
  *
  * Key exports:
  * - {@link InMemoryBundler}: bundles an entry module with optional minification,
- *   caches the JS output, and can emit a proper JS module `Response`.
+ *   caches the JS output, and can emit a proper JS module `Response` (or an
+ *   RFC 9457 problem+json response when bundling fails).
  * - {@link autoTsJsBundler}: middleware that:
  *   - only runs on GET requests
  *   - calls `isCandidate(url)` to decide whether the request should be treated as
@@ -50,9 +51,9 @@
  */
 import {
   asError,
+  HttpProblem,
   jsResponse,
   type Middleware,
-  textResponse,
   type VarsRecord,
 } from "./http.ts";
 
@@ -77,9 +78,13 @@ export type InMemoryBundlerConfig = {
   defaultMinify?: boolean;
 };
 
+/** Cumulative counters since construction (not reset by clearCache). */
+export type BundlerStats = { hits: number; misses: number; failures: number };
+
 export class InMemoryBundler {
   readonly #cache = new Map<string, string>();
   readonly #defaultMinify: boolean;
+  readonly #stats: BundlerStats = { hits: 0, misses: 0, failures: 0 };
 
   constructor(cfg: InMemoryBundlerConfig = {}) {
     this.#defaultMinify = cfg.defaultMinify ?? true;
@@ -89,6 +94,10 @@ export class InMemoryBundler {
     return this.#cache.size;
   }
 
+  stats(): BundlerStats {
+    return { ...this.#stats };
+  }
+
   clearCache(): void {
     this.#cache.clear();
   }
@@ -104,7 +113,11 @@ export class InMemoryBundler {
   async bundle(entry: string, opts: BundleOptions = {}): Promise<BundleResult> {
     const cacheKey = opts.cacheKey ?? entry;
     const cached = this.#cache.get(cacheKey);
-    if (cached) return { ok: true, js: cached, cacheKey };
+    if (cached) {
+      this.#stats.hits++;
+      return { ok: true, js: cached, cacheKey };
+    }
+    this.#stats.misses++;
 
     let result: Awaited<ReturnType<typeof Deno.bundle>>;
     try {
@@ -117,6 +130,7 @@ export class InMemoryBundler {
       });
     } catch (err) {
       const e = asError(err);
+      this.#stats.failures++;
       return {
         ok: false,
         status: 500,
@@ -129,6 +143,7 @@ export class InMemoryBundler {
 
     const outputs = result.outputFiles ?? [];
     if (outputs.length === 0) {
+      this.#stats.failures++;
       return {
         ok: false,
         status: 500,
@@ -140,6 +155,7 @@ export class InMemoryBundler {
     const jsFile = outputs.find((f) => f.path.endsWith(".js")) ?? outputs[0];
     const jsText = jsFile?.text?.() ?? "";
     if (!jsText.trim()) {
+      this.#stats.failures++;
       return {
         ok: false,
         status: 500,
@@ -157,20 +173,28 @@ export class InMemoryBundler {
     opts: BundleOptions = {},
   ): Promise<Response> {
     const r = await this.bundle(entry, opts);
-    if (!r.ok) return textResponse(r.message, r.status);
+    if (!r.ok) {
+      return new HttpProblem(r.status, {
+        type: "urn:continuux:problem:bundle",
+        title: "Bundle error",
+        detail: r.message,
+      }).toResponse();
+    }
     const cc = opts.cacheControl ?? "no-store";
     return jsResponse(r.js, cc);
   }
 }
 
 export function autoTsJsBundler<State, Vars extends VarsRecord>(
-  { isCandidate, notFound, jsThrowStatus }: {
+  { isCandidate, notFound, jsThrowStatus, bundler: shared }: {
     isCandidate: (url: URL) => false | string;
     jsThrowStatus?: (suggested: number) => number;
     notFound?: (url: URL, err: unknown) => void;
+    /** Bring your own bundler, e.g. to observe its stats() in metrics. */
+    bundler?: InMemoryBundler;
   },
 ): Middleware<State, Vars> {
-  const bundler = new InMemoryBundler({ defaultMinify: false });
+  const bundler = shared ?? new InMemoryBundler({ defaultMinify: false });
   const jsThrow = (title: string, detail: string) =>
     [
       `// ${title}`,
@@ -0,0 +1,678 @@
+/**
+ * lib/continuux/http-audit.ts
+ *
+ * Tamper-evident audit trail for ContinuUX HTTP applications and cx actions.
+ *
+ * Features:
+ * - createAuditLog(): append-only NDJSON records, each carrying the SHA-256
+ *   hash of its canonical JSON and of the previous record (a hash chain), so
+ *   any edit, reorder, or deletion breaks verification
+ * - Signed checkpoints every N records (and on demand / on close), using an
+ *   HMAC secret or an ECDSA P-256 private key, anchoring the chain head
+ * - verifyAuditLog(): recomputes the chain and checkpoint signatures and
+ *   reports the first broken record and any unsigned tail; a log must start
+ *   at the genesis hash unless `continueFrom` names the previous file's
+ *   signed checkpoint
+ * - Field-level redaction (key names, dotted paths with `*`, RegExps, or a
+ *   predicate) applied before anything is written, so PII never lands
+ * - auditTrail() middleware: records every mutating request (actor from
+ *   vars, route, validated JSON payload, outcome, requestId, timestamp) and
+ *   exposes `c.vars.audit` for custom records
+ * - auditCxActions(): wraps cx handlers to record action name, validated
+ *   payload, and outcome (replacing the generic record for the cx POST)
+ * - auditAuthzDenials(): sink for http-authz.ts denial events
+ * - fileAuditSink() (append-only file, resumes the chain on restart) and
+ *   memoryAuditSink() for tests
+ *
+ *   const log = await createAuditLog({
+ *     sink: fileAuditSink("./audit.ndjson"),
+ *     signer: { key: Deno.env.get("AUDIT_KEY")!, keyId: "2026-01" },
+ *     redact: ["password", "card.number", /ssn/i],
+ *   });
+ *   app.use(auditTrail({ log }));
+ *   const report = await verifyAuditLog(await Deno.readTextFile(path), { key });
+ */
+
+import {
+  type HandlerCtx,
+  type Middleware,
+  type SseEventMap,
+  type VarsRecord,
+} from "./http.ts";
+import { authOf } from "./http-auth.ts";
+import type { AuthzAuditEvent } from "./http-authz.ts";
+import type { CxActionHandlers, CxActionSchemas } from "./interaction-html.ts";
+import type { CxHandlerResult } from "./interaction.ts";
+
+/* =========================
+ * records
+ * ========================= */
+
+export type AuditOutcome = { ok: boolean; status?: number; error?: string };
+
+/** What producers hand to the log; sequence, time, and hashes are added. */
+export type AuditEntry = {
+  /** "http", "cx", "authz", or an application-defined kind. */
+  kind: string;
+  /** e.g. "POST /reports/:id" or a cx action name. */
+  action: string;
+  actor: string | null;
+  requestId?: string;
+  payload?: unknown;
+  outcome?: AuditOutcome;
+  meta?: Record<string, unknown>;
+};
+
+export type AuditEventRecord = AuditEntry & {
+  seq: number;
+  at: string;
+  prev: string;
+  hash: string;
+};
+
+export type AuditCheckpointRecord = {
+  kind: "checkpoint";
+  seq: number;
+  at: string;
+  prev: string;
+  hash: string;
+  keyId?: string;
+  /** base64url signature over `hash`. */
+  sig: string;
+};
+
+export type AuditRecord = AuditEventRecord | AuditCheckpointRecord;
+
+export const auditGenesisHash = "0".repeat(64);
+
+/** Stable JSON: object keys sorted recursively, undefined members dropped. */
+export const canonicalJson = (value: unknown): string =>
+  JSON.stringify(
+    value,
+    (_k, v) =>
+      v && typeof v === "object" && !Array.isArray(v)
+        ? Object.fromEntries(
+          Object.keys(v).sort().filter((k) => v[k] !== undefined).map((
+            k,
+          ) => [k, v[k]]),
+        )
+        : v,
+  );
+
+const encoder = new TextEncoder();
+
+const hex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+const b64url = (buf: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buf))).replace(/\+/g, "-")
+    .replace(/\//g, "_").replace(/=+$/, "");
+
+const fromB64url = (s: string) =>
+  Uint8Array.from(
+    atob(s.replace(/-/g, "+").replace(/_/g, "/")),
+    (ch) => ch.charCodeAt(0),
+  );
+
+// The hash covers every member except `hash` and `sig`.
+const recordHash = async (record: Record<string, unknown>) => {
+  const { hash: _h, sig: _s, ...body } = record;
+  return hex(
+    await crypto.subtle.digest("SHA-256", encoder.encode(canonicalJson(body))),
+  );
+};
+
+/* =========================
+ * signing
+ * ========================= */
+
+/** HMAC secret (string) or ECDSA P-256 key (private to sign, public to verify). */
+export type AuditKey = string | CryptoKey;
+
+export type AuditSigner = { key: AuditKey; keyId?: string };
+
+const ecdsa = { name: "ECDSA", hash: "SHA-256" } as const;
+
+const hmacKey = (secret: string, usage: KeyUsage) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+
+const sign = async (key: AuditKey, data: string) =>
+  typeof key === "string"
+    ? b64url(
+      await crypto.subtle.sign(
+        "HMAC",
+        await hmacKey(key, "sign"),
+        encoder.encode(data),
+      ),
+    )
+    : b64url(await crypto.subtle.sign(ecdsa, key, encoder.encode(data)));
+
+const verifySig = async (key: AuditKey, data: string, sig: string) => {
+  try {
+    return typeof key === "string"
+      ? await crypto.subtle.verify(
+        "HMAC",
+        await hmacKey(key, "verify"),
+        fromB64url(sig),
+        encoder.encode(data),
+      )
+      : await crypto.subtle.verify(
+        ecdsa,
+        key,
+        fromB64url(sig),
+        encoder.encode(data),
+      );
+  } catch {
+    return false;
+  }
+};
+
+/* =========================
+ * redaction
+ * ========================= */
+
+/**
+ * - "password": that key at any depth
+ * - "card.number", "users.*.email": dotted path from the payload root
+ * - /token/i: any key whose name matches
+ * - (path, value) => boolean: anything else
+ */
+export type AuditRedactRule =
+  | string
+  | RegExp
+  | ((path: readonly string[], value: unknown) => boolean);
+
+export const auditRedacted = "[REDACTED]";
+
+export const redactFields = (
+  value: unknown,
+  rules: readonly AuditRedactRule[],
+): unknown => {
+  if (rules.length === 0) return value;
+  const matches = (path: string[], v: unknown) => {
+    const key = path[path.length - 1];
+    return rules.some((rule) => {
+      if (typeof rule === "function") return rule(path, v);
+      if (rule instanceof RegExp) return rule.test(key);
+      if (!rule.includes(".")) return rule === key;
+      const parts = rule.split(".");
+      return parts.length === path.length &&
+        parts.every((p, i) => p === "*" || p === path[i]);
+    });
+  };
+  const walk = (v: unknown, path: string[]): unknown => {
+    if (Array.isArray(v)) return v.map((x, i) => walk(x, [...path, String(i)]));
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([k, x]) => {
+          const p = [...path, k];
+          return [k, matches(p, x) ? auditRedacted : walk(x, p)];
+        }),
+      );
+    }
+    return v;
+  };
+  return walk(value, []);
+};
+
+/* =========================
+ * sinks and log
+ * ========================= */
+
+export type AuditSink = {
+  /** Last record written so far, if any (to resume the chain). */
+  last: () => Promise<AuditRecord | undefined>;
+  append: (line: string) => Promise<void>;
+  close?: () => Promise<void>;
+};
+
+export const memoryAuditSink = (): AuditSink & { lines: string[] } => {
+  const lines: string[] = [];
+  return {
+    lines,
+    last: () =>
+      Promise.resolve(lines.length ? JSON.parse(lines.at(-1)!) : undefined),
+    append: (line) => {
+      lines.push(line);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Append-only NDJSON file. On open, the last line is read so the chain
+ * continues across restarts.
+ */
+export const fileAuditSink = (path: string | URL): AuditSink => {
+  let file: Deno.FsFile | undefined;
+  return {
+    last: async () => {
+      let text: string;
+      try {
+        text = await Deno.readTextFile(path);
+      } catch (err) {
+        if (err instanceof Deno.errors.NotFound) return undefined;
+        throw err;
+      }
+      const lines = text.split("\n").filter((l) => l.trim());
+      return lines.length ? JSON.parse(lines.at(-1)!) : undefined;
+    },
+    append: async (line) => {
+      file ??= await Deno.open(path, { append: true, create: true });
+      const bytes = encoder.encode(line);
+      let written = 0;
+      while (written < bytes.length) {
+        written += await file.write(bytes.subarray(written));
+      }
+    },
+    close: () => {
+      file?.close();
+      file = undefined;
+      return Promise.resolve();
+    },
+  };
+};
+
+export type AuditLogOptions = {
+  sink: AuditSink;
+  /** Without a signer no checkpoints are written (the chain still is). */
+  signer?: AuditSigner;
+  /** Write a checkpoint after this many records. Default 100. */
+  checkpointEvery?: number;
+  /** Applied to `payload` and `meta` of every entry. */
+  redact?: readonly AuditRedactRule[];
+  now?: () => Date;
+};
+
+export type AuditLog = {
+  append: (entry: AuditEntry) => Promise<AuditEventRecord>;
+  /** Sign the current head now. No-op without a signer or new records. */
+  checkpoint: () => Promise<AuditCheckpointRecord | undefined>;
+  head: () => { seq: number; hash: string };
+  /** Checkpoint pending records and close the sink. */
+  close: () => Promise<void>;
+};
+
+export const createAuditLog = async (
+  opts: AuditLogOptions,
+): Promise<AuditLog> => {
+  const { sink, signer } = opts;
+  const every = opts.checkpointEvery ?? 100;
+  const redact = opts.redact ?? [];
+  const now = opts.now ?? (() => new Date());
+
+  const last = await sink.last();
+  let seq = last?.seq ?? 0;
+  let prev = last?.hash ?? auditGenesisHash;
+  let sinceCheckpoint = last && last.kind !== "checkpoint" ? 1 : 0;
+
+  // Appends are serialized so seq and prev stay consistent under concurrency.
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const write = async <R extends AuditRecord>(
+    body: Omit<R, "hash" | "sig">,
+    signIt: boolean,
+  ): Promise<R> => {
+    const hash = await recordHash(body);
+    const record = {
+      ...body,
+      hash,
+      ...(signIt ? { sig: await sign(signer!.key, hash) } : {}),
+    } as unknown as R;
+    await sink.append(`${canonicalJson(record)}\n`);
+    seq = record.seq;
+    prev = hash;
+    return record;
+  };
+
+  const writeCheckpoint = () =>
+    write<AuditCheckpointRecord>({
+      kind: "checkpoint",
+      seq: seq + 1,
+      at: now().toISOString(),
+      prev,
+      ...(signer?.keyId ? { keyId: signer.keyId } : {}),
+    }, true).then((r) => {
+      sinceCheckpoint = 0;
+      return r;
+    });
+
+  const append = (entry: AuditEntry) =>
+    serial(async () => {
+      const record = await write<AuditEventRecord>({
+        ...entry,
+        ...(entry.payload !== undefined
+          ? { payload: redactFields(entry.payload, redact) }
+          : {}),
+        ...(entry.meta
+          ? {
+            meta: redactFields(entry.meta, redact) as Record<string, unknown>,
+          }
+          : {}),
+        seq: seq + 1,
+        at: now().toISOString(),
+        prev,
+      }, false);
+      sinceCheckpoint++;
+      if (signer && sinceCheckpoint >= every) await writeCheckpoint();
+      return record;
+    });
+
+  const checkpoint = () =>
+    serial(async () =>
+      signer && sinceCheckpoint > 0 ? await writeCheckpoint() : undefined
+    );
+
+  return {
+    append,
+    checkpoint,
+    head: () => ({ seq, hash: prev }),
+    close: async () => {
+      await checkpoint();
+      await serial(async () => await sink.close?.());
+    },
+  };
+};
+
+/* =========================
+ * verification
+ * ========================= */
+
+export type AuditVerifyResult = {
+  ok: boolean;
+  records: number;
+  /** Last checkpoint whose signature verified. */
+  lastCheckpoint?: { seq: number; hash: string; keyId?: string };
+  /** Records after the last checkpoint (not yet anchored by a signature). */
+  unsignedTail: number;
+  error?: { line: number; seq?: number; reason: string };
+};
+
+/**
+ * Verify an NDJSON audit log: every record's hash, the chain links and
+ * sequence, and checkpoint signatures (when `key` is given). Keys may be
+ * selected by checkpoint `keyId`.
+ *
+ * The log must start at seq 1 from the genesis hash, so deleting leading
+ * records is detected. A rotated file that continues an older one verifies
+ * only with `continueFrom`: the older file's signed last checkpoint
+ * (`lastCheckpoint` of its report).
+ */
+export const verifyAuditLog = async (
+  ndjson: string,
+  opts: {
+    key?: AuditKey | ((keyId: string | undefined) => AuditKey | undefined);
+    continueFrom?: { seq: number; hash: string };
+  } = {},
+): Promise<AuditVerifyResult> => {
+  const lines = ndjson.split("\n");
+  let prev = opts.continueFrom?.hash ?? auditGenesisHash;
+  let expected = (opts.continueFrom?.seq ?? 0) + 1;
+  let records = 0;
+  let unsignedTail = 0;
+  let lastCheckpoint: AuditVerifyResult["lastCheckpoint"];
+  const fail = (line: number, reason: string, seq?: number) => ({
+    ok: false,
+    records,
+    lastCheckpoint,
+    unsignedTail,
+    error: { line, ...(seq !== undefined ? { seq } : {}), reason },
+  });
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const line = i + 1;
+    let r: AuditRecord;
+    try {
+      r = JSON.parse(lines[i]);
+    } catch {
+      return fail(line, "not JSON");
+    }
+    if (r.seq !== expected) return fail(line, "sequence gap", r.seq);
+    if (r.prev !== prev) return fail(line, "broken chain", r.seq);
+    if ((await recordHash(r)) !== r.hash) {
+      return fail(line, "hash mismatch", r.seq);
+    }
+    if (r.kind === "checkpoint") {
+      const cp = r as AuditCheckpointRecord;
+      const key = typeof opts.key === "function"
+        ? opts.key(cp.keyId)
+        : opts.key;
+      if (key !== undefined) {
+        if (!(await verifySig(key, cp.hash, cp.sig))) {
+          return fail(line, "bad checkpoint signature", r.seq);
+        }
+        lastCheckpoint = {
+          seq: cp.seq,
+          hash: cp.hash,
+          ...(cp.keyId ? { keyId: cp.keyId } : {}),
+        };
+        unsignedTail = 0;
+      }
+    } else {
+      unsignedTail++;
+    }
+    prev = r.hash;
+    expected++;
+    records++;
+  }
+  return { ok: true, records, lastCheckpoint, unsignedTail };
+};
+
+/* =========================
+ * middleware and integrations
+ * ========================= */
+
+/** Handle exposed as `c.vars.audit`. */
+export type AuditHandle = {
+  readonly log: AuditLog;
+  readonly actor: string | null;
+  readonly requestId: string;
+  /** Write a record for this request (actor and requestId filled in). */
+  record: (
+    entry: Omit<AuditEntry, "actor" | "requestId"> & { actor?: string | null },
+  ) => Promise<AuditEventRecord>;
+  /** Skip the generic per-request record (a specific one was written). */
+  handled: () => void;
+};
+
+export type AuditVars = { audit: AuditHandle };
+
+export type AuditTrailOptions<State, Vars extends VarsRecord> = {
+  log: AuditLog;
+  /** Default: the http-auth.ts principal subject, else null. */
+  actor?: (c: HandlerCtx<string, State, Vars>) => string | null;
+  /** Methods recorded automatically. Default POST, PUT, PATCH, DELETE. */
+  methods?: readonly string[];
+  ignore?: (c: HandlerCtx<string, State, Vars>) => boolean;
+  /** JSON bodies up to this size are captured as the payload. Default 64 KiB. */
+  maxPayloadBytes?: number;
+};
+
+const runParser = (parser: unknown, u: unknown): unknown =>
+  typeof parser === "function"
+    ? parser(u)
+    : (parser as { parse: (u: unknown) => unknown }).parse(u);
+
+const isParser = (s: unknown) =>
+  typeof s === "function" ||
+  (!!s && typeof (s as { parse?: unknown }).parse === "function");
+
+/**
+ * Audit middleware. Register after authentication so the actor is known.
+ * The payload is the JSON body, passed through the route's `json` schema
+ * when it has one (the same validated shape the handler sees).
+ */
+export const auditTrail = <State, Vars extends VarsRecord & AuditVars>(
+  opts: AuditTrailOptions<State, Vars>,
+): Middleware<State, Vars> => {
+  const { log } = opts;
+  const methods = new Set(
+    (opts.methods ?? ["POST", "PUT", "PATCH", "DELETE"]).map((m) =>
+      m.toUpperCase()
+    ),
+  );
+  const maxBytes = opts.maxPayloadBytes ?? 64 * 1024;
+  const actorOf = opts.actor ?? ((c) => authOf(c)?.subject ?? null);
+
+  const readPayload = async (c: HandlerCtx<string, State, Vars>) => {
+    const type = c.req.headers.get("content-type") ?? "";
+    const length = Number(c.req.headers.get("content-length") ?? NaN);
+    if (!/\bjson\b/i.test(type) || length > maxBytes || !c.req.body) {
+      return undefined;
+    }
+    try {
+      // Chunked bodies carry no content-length; check the size read.
+      const text = await c.req.clone().text();
+      if (encoder.encode(text).length > maxBytes) return undefined;
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  };
+
+  return async (c, next) => {
+    if (opts.ignore?.(c)) return await next();
+
+    const actor = actorOf(c);
+    let handled = false;
+    c.setVar(
+      "audit",
+      {
+        log,
+        actor,
+        requestId: c.requestId,
+        record: (entry) =>
+          log.append({ actor, requestId: c.requestId, ...entry }),
+        handled: () => {
+          handled = true;
+        },
+      } as Vars["audit"],
+    );
+
+    const method = c.req.method.toUpperCase();
+    if (!methods.has(method)) return await next();
+
+    const raw = await readPayload(c);
+    const action = `${method} ${c.route?.path ?? c.url.pathname}`;
+    const payloadOf = () => {
+      const schema = c.route?.schemas?.json;
+      if (raw === undefined || !isParser(schema)) return raw;
+      try {
+        return runParser(schema, raw);
+      } catch {
+        return undefined;
+      }
+    };
+
+    let res: Response;
+    try {
+      res = await next();
+    } catch (err) {
+      if (!handled) {
+        await log.append({
+          kind: "http",
+          action,
+          actor,
+          requestId: c.requestId,
+          payload: payloadOf(),
+          outcome: {
+            ok: false,
+            status: 500,
+            error: err instanceof Error ? err.message : String(err),
+          },
+        });
+      }
+      throw err;
+    }
+    if (!handled) {
+      await log.append({
+        kind: "http",
+        action,
+        actor,
+        requestId: c.requestId,
+        payload: payloadOf(),
+        outcome: { ok: res.status < 400, status: res.status },
+      });
+    }
+    return res;
+  };
+};
+
+/**
+ * Record cx action dispatches through `vars.audit` (set by auditTrail()):
+ * action name, validated `data`, and the handler result. The generic record
+ * for the envelope POST is then skipped.
+ */
+export const auditCxActions = <
+  State,
+  Vars extends Record<string, unknown> & AuditVars,
+  Schemas extends CxActionSchemas,
+  SseOut extends SseEventMap,
+  Prefix extends string,
+>(
+  handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>,
+): CxActionHandlers<State, Vars, Schemas, SseOut, Prefix> => {
+  const out = { ...handlers };
+  for (const name of Object.keys(handlers) as Array<keyof Schemas & string>) {
+    const inner = handlers[name];
+    out[name] = (async (ctx) => {
+      const audit = ctx.vars.audit as AuditHandle | undefined;
+      if (!audit) return await inner(ctx);
+      audit.handled();
+      let result: CxHandlerResult;
+      try {
+        result = await inner(ctx);
+      } catch (err) {
+        await audit.record({
+          kind: "cx",
+          action: name,
+          payload: ctx.data,
+          outcome: {
+            ok: false,
+            status: 500,
+            error: err instanceof Error ? err.message : String(err),
+          },
+        });
+        throw err;
+      }
+      await audit.record({
+        kind: "cx",
+        action: name,
+        payload: ctx.data,
+        outcome: result.ok
+          ? { ok: true }
+          : { ok: false, status: result.status, error: result.message },
+      });
+      return result;
+    }) as typeof inner;
+  }
+  return out;
+};
+
+/** `createAuthzPolicy({ audit: auditAuthzDenials(log) })`. */
+export const auditAuthzDenials = (log: AuditLog) =>
+async (
+  e: AuthzAuditEvent,
+): Promise<void> => {
+  await log.append({
+    kind: "authz",
+    action: e.target.kind === "route" ? e.target.name : `cx ${e.target.name}`,
+    actor: e.subject,
+    requestId: e.requestId,
+    outcome: { ok: false, status: 403, error: e.reason },
+    meta: { requirement: e.requirement, missing: e.missing, path: e.path },
+  });
+};
@@ -0,0 +1,366 @@
+// lib/continuux/http-audit_test.ts
+//
+// Tests for http-audit.ts.
+//
+// Covered behaviors:
+// - hash-chained records, periodic and on-close signed checkpoints (HMAC and
+//   ECDSA), and resuming the chain from an existing file
+// - verifyAuditLog() detecting edits, deletions (a leading prefix too),
+//   reordering, forged checkpoints, and reporting the unsigned tail; rotated
+//   files verify only via continueFrom
+// - field-level redaction by key, dotted path with wildcards, and RegExp
+// - auditTrail(): mutating requests only, actor from auth vars, validated
+//   payload via the route's json schema, outcome status, thrown errors
+// - auditCxActions() records action name, data, and outcome instead of the
+//   generic envelope record
+// - auditAuthzDenials() feeding http-authz.ts denial events
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "@zod";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import {
+  actionSchemas,
+  createCx,
+  type CxActionHandlers,
+} from "./interaction-html.ts";
+import { CxMiddlewareBuilder, decodeCxEnvelope } from "./interaction.ts";
+import {
+  apiKey,
+  apiKeyTable,
+  authenticate,
+  type AuthVars,
+} from "./http-auth.ts";
+import { createAuthzPolicy } from "./http-authz.ts";
+import {
+  auditAuthzDenials,
+  auditCxActions,
+  type AuditEventRecord,
+  auditGenesisHash,
+  auditRedacted,
+  auditTrail,
+  type AuditVars,
+  createAuditLog,
+  fileAuditSink,
+  memoryAuditSink,
+  redactFields,
+  verifyAuditLog,
+} from "./http-audit.ts";
+
+const key = "audit-secret";
+const fixedNow = () => new Date("2026-03-01T12:00:00Z");
+
+const records = (lines: string[]) =>
+  lines.map((l) => JSON.parse(l) as AuditEventRecord);
+
+Deno.test("http-audit: hash chain, checkpoints, and tamper detection", async () => {
+  const sink = memoryAuditSink();
+  const log = await createAuditLog({
+    sink,
+    signer: { key, keyId: "k1" },
+    checkpointEvery: 3,
+    now: fixedNow,
+  });
+  for (let i = 1; i <= 4; i++) {
+    await log.append({ kind: "app", action: `step${i}`, actor: "ann" });
+  }
+  // 3 events, a checkpoint, then 1 more event.
+  const rs = records(sink.lines);
+  assertEquals(rs.map((r) => r.kind), [
+    "app",
+    "app",
+    "app",
+    "checkpoint",
+    "app",
+  ]);
+  assertEquals(rs[0].prev, auditGenesisHash);
+  assertEquals(rs[1].prev, rs[0].hash);
+  assertEquals(rs.map((r) => r.seq), [1, 2, 3, 4, 5]);
+  assertEquals(log.head(), { seq: 5, hash: rs[4].hash });
+
+  const text = () => sink.lines.join("");
+  let report = await verifyAuditLog(text(), { key });
+  assertEquals(report.ok, true);
+  assertEquals(report.records, 5);
+  assertEquals(report.lastCheckpoint?.seq, 4);
+  assertEquals(report.lastCheckpoint?.keyId, "k1");
+  assertEquals(report.unsignedTail, 1);
+
+  await log.close();
+  report = await verifyAuditLog(text(), { key });
+  assertEquals(report.unsignedTail, 0);
+  assertEquals(report.lastCheckpoint?.seq, 6);
+
+  // Edited field.
+  const edited = [...sink.lines];
+  edited[1] = edited[1].replace('"ann"', '"eve"');
+  report = await verifyAuditLog(edited.join(""), { key });
+  assertEquals(report.ok, false);
+  assertEquals(report.error, { line: 2, seq: 2, reason: "hash mismatch" });
+
+  // A replaced record with a valid hash of its own breaks the next link.
+  const other = memoryAuditSink();
+  await (await createAuditLog({ sink: other })).append({
+    kind: "app",
+    action: "step1",
+    actor: "eve",
+  });
+  report = await verifyAuditLog(
+    [other.lines[0], ...sink.lines.slice(1)].join(""),
+    {
+      key,
+    },
+  );
+  assertEquals(report.error, { line: 2, seq: 2, reason: "broken chain" });
+
+  // Deleted and reordered records.
+  const deleted = sink.lines.filter((_, i) => i !== 2).join("");
+  assertEquals(
+    (await verifyAuditLog(deleted, { key })).error?.reason,
+    "sequence gap",
+  );
+  const reordered = [sink.lines[1], sink.lines[0], ...sink.lines.slice(2)];
+  assertEquals((await verifyAuditLog(reordered.join(""), { key })).ok, false);
+
+  // Deleting a leading prefix is detected; a rotated file continues only
+  // from the previous file's signed checkpoint.
+  const tail = sink.lines.slice(4).join("");
+  assertEquals(
+    (await verifyAuditLog(tail, { key })).error,
+    { line: 1, seq: 5, reason: "sequence gap" },
+  );
+  const head = await verifyAuditLog(sink.lines.slice(0, 4).join(""), { key });
+  assertEquals(
+    (await verifyAuditLog(tail, { key, continueFrom: head.lastCheckpoint }))
+      .ok,
+    true,
+  );
+  assertEquals(
+    (await verifyAuditLog(sink.lines.slice(5).join(""), {
+      key,
+      continueFrom: head.lastCheckpoint,
+    })).ok,
+    false,
+  );
+
+  // Checkpoint signed with another key.
+  report = await verifyAuditLog(text(), { key: "other" });
+  assertEquals(report.error, {
+    line: 4,
+    seq: 4,
+    reason: "bad checkpoint signature",
+  });
+  // Without a key the chain is still checked; nothing counts as signed.
+  report = await verifyAuditLog(text());
+  assertEquals(report.ok, true);
+  assertEquals(report.lastCheckpoint, undefined);
+});
+
+Deno.test("http-audit: ECDSA checkpoints and file sink resume", async () => {
+  const pair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"],
+  ) as CryptoKeyPair;
+  const path = await Deno.makeTempFile({ suffix: ".ndjson" });
+  try {
+    const first = await createAuditLog({
+      sink: fileAuditSink(path),
+      signer: { key: pair.privateKey },
+    });
+    await first.append({ kind: "app", action: "a", actor: null });
+    await first.close();
+
+    const second = await createAuditLog({
+      sink: fileAuditSink(path),
+      signer: { key: pair.privateKey },
+    });
+    assertEquals(second.head().seq, 2);
+    await second.append({ kind: "app", action: "b", actor: null });
+    await second.close();
+
+    const text = await Deno.readTextFile(path);
+    assertEquals(text.trim().split("\n").length, 4);
+    const report = await verifyAuditLog(text, {
+      key: (id) => id === undefined ? pair.publicKey : undefined,
+    });
+    assertEquals(report.ok, true);
+    assertEquals(report.lastCheckpoint?.seq, 4);
+    assertEquals(report.unsignedTail, 0);
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("http-audit: redaction rules", async () => {
+  const payload = {
+    user: { name: "Ann", password: "hunter2" },
+    card: { number: "4111", brand: "visa" },
+    items: [{ sku: "a", note: "x" }, { sku: "b", note: "y" }],
+    apiToken: "t",
+    number: 7,
+  };
+  assertEquals(
+    redactFields(payload, [
+      "password",
+      "card.number",
+      "items.*.note",
+      /token/i,
+    ]),
+    {
+      user: { name: "Ann", password: auditRedacted },
+      card: { number: auditRedacted, brand: "visa" },
+      items: [
+        { sku: "a", note: auditRedacted },
+        { sku: "b", note: auditRedacted },
+      ],
+      apiToken: auditRedacted,
+      number: 7,
+    },
+  );
+
+  const sink = memoryAuditSink();
+  const log = await createAuditLog({ sink, redact: ["password"] });
+  await log.append({
+    kind: "app",
+    action: "signup",
+    actor: null,
+    payload: { email: "a@b.c", password: "hunter2" },
+    meta: { password: "x" },
+  });
+  assert(!sink.lines[0].includes("hunter2"));
+  const [r] = records(sink.lines);
+  assertEquals(r.payload, { email: "a@b.c", password: auditRedacted });
+  assertEquals(r.meta, { password: auditRedacted });
+  assertEquals((await verifyAuditLog(sink.lines.join(""))).ok, true);
+});
+
+type State = Record<string, never>;
+type Vars = AuthVars<Record<string, unknown>> & AuditVars;
+
+const setup = async () => {
+  const sink = memoryAuditSink();
+  const log = await createAuditLog({ sink, redact: ["secret"] });
+  const app = Application.sharedState<State, Vars>({});
+  app.use(authenticate({
+    strategies: [
+      apiKey({
+        verify: apiKeyTable<Record<string, unknown>>([
+          { key: "k-ann", subject: "ann", claims: { roles: ["viewer"] } },
+        ]),
+      }),
+    ],
+  }));
+  app.use(auditTrail<State, Vars>({ log }));
+  const as = { headers: { "x-api-key": "k-ann" } };
+  return { sink, log, app, client: testClient(app), as };
+};
+
+Deno.test("http-audit: auditTrail middleware", async () => {
+  const { sink, app, client, as } = await setup();
+  app.get("/items", (c) => c.text("list"));
+  app.post(
+    "/items/:id",
+    { schemas: { json: z.object({ title: z.string(), secret: z.string() }) } },
+    (c) => c.json({ id: c.params.id, ...c.valid("json") }, { status: 201 }),
+  );
+  app.delete("/items/:id", () => {
+    throw new Error("storage offline");
+  });
+  app.post("/notes", async (c) => {
+    await c.vars.audit.record({
+      kind: "notes",
+      action: "note.created",
+      payload: await c.req.json(),
+    });
+    c.vars.audit.handled();
+    return c.text("ok");
+  });
+
+  await client.get("/items", as);
+  const json = (body: unknown) => ({ ...as, json: body });
+  assertEquals(
+    (await client.post("/items/7", json({ title: "T", secret: "s", extra: 1 })))
+      .status,
+    201,
+  );
+  assertEquals(
+    (await client.post("/items/8", json({ title: 1 }))).status,
+    422,
+  );
+  assertEquals((await client.delete("/items/7")).status, 500);
+  await client.post("/notes", json({ text: "hi" }));
+
+  const rs = records(sink.lines);
+  assertEquals(rs.length, 4);
+  assertEquals(rs[0].kind, "http");
+  assertEquals(rs[0].action, "POST /items/:id");
+  assertEquals(rs[0].actor, "ann");
+  assert(rs[0].requestId);
+  // Schema output: unknown members stripped, then redacted.
+  assertEquals(rs[0].payload, { title: "T", secret: auditRedacted });
+  assertEquals(rs[0].outcome, { ok: true, status: 201 });
+  assertEquals(rs[1].payload, undefined);
+  assertEquals(rs[1].outcome, { ok: false, status: 422 });
+  assertEquals(rs[2].actor, null);
+  assertEquals(rs[2].outcome, {
+    ok: false,
+    status: 500,
+    error: "storage offline",
+  });
+  assertEquals(rs[3].kind, "notes");
+  assertEquals(rs[3].payload, { text: "hi" });
+  assertEquals((await verifyAuditLog(sink.lines.join(""))).ok, true);
+});
+
+Deno.test("http-audit: cx actions and authz denials", async () => {
+  const { sink, log, app, client, as } = await setup();
+  type ServerEvents = { message: string; js: string };
+  const actions = actionSchemas({
+    save: decodeCxEnvelope,
+    admin: decodeCxEnvelope,
+  });
+  const policy = createAuthzPolicy<State, Vars>({
+    roles: { viewer: { permissions: [] }, admin: { permissions: ["*"] } },
+    audit: auditAuthzDenials(log),
+  });
+  const cx = createCx<State, Vars, typeof actions, ServerEvents>(actions);
+  const builder = new CxMiddlewareBuilder<ServerEvents>({
+    hub: cx.server.sseHub(),
+  });
+  const plain: CxActionHandlers<
+    State,
+    Vars,
+    typeof actions,
+    ServerEvents,
+    "action"
+  > = {
+    save: () => ({ ok: true }),
+    admin: () => ({ ok: true }),
+  };
+  app.use(builder.middleware<State, Vars, typeof actions, "action">({
+    interaction: {
+      cx,
+      handlers: auditCxActions(
+        policy.cxActions(plain, { admin: { roles: ["admin"] } }),
+      ),
+    },
+  }));
+
+  assertEquals((await client.cx("action:save", as)).status, 204);
+  assertEquals((await client.cx("action:admin", as)).status, 403);
+
+  const rs = records(sink.lines);
+  assertEquals(rs.map((r) => [r.kind, r.action]), [
+    ["cx", "save"],
+    ["authz", "cx admin"],
+    ["cx", "admin"],
+  ]);
+  assertEquals(rs[0].actor, "ann");
+  assertEquals(rs[0].outcome, { ok: true });
+  assert(rs[0].payload && typeof rs[0].payload === "object");
+  assertEquals(rs[1].outcome?.error, "missing-role");
+  assertEquals(rs[1].meta?.missing, ["admin"]);
+  assertEquals(rs[2].outcome?.status, 403);
+  assertStringIncludes(sink.lines.join(""), '"requestId"');
+});
@@ -0,0 +1,800 @@
+/**
+ * lib/continuux/http-auth.ts
+ *
+ * Authentication middleware for ContinuUX HTTP applications: JWT bearer
+ * tokens, API keys, and HTTP Basic, behind one `authenticate()` middleware
+ * so agents and humans can call the same routes with different credentials.
+ *
+ * Features:
+ * - jwtBearer(): verifies HS256, RS256, and ES256 JWTs with WebCrypto against
+ *   static keys (jwtKeys) or a JWKS file on disk (jwksFile, reloaded when the
+ *   file changes); validates iss, aud, exp, nbf, and iat with clock skew;
+ *   optional claims schema; `alg: none` and algorithm/key mismatches rejected
+ * - apiKey(): header (or query) keys checked by a verify callback or
+ *   apiKeyTable() (SHA-256 digests compared in constant time)
+ * - basic(): RFC 7617 Basic credentials checked by a verify callback
+ * - authenticate(): tries strategies in order, exposes the principal as
+ *   `c.vars.auth`, and answers failures with a 401 problem+json carrying one
+ *   `WWW-Authenticate` challenge per accepted strategy (RFC 6750 error
+ *   parameters for bearer tokens)
+ * - Routes opt in with `RouteMeta.auth`, naming the strategies they accept;
+ *   authSecuritySchemes() emits matching OpenAPI securitySchemes
+ * - verifyJwt() / signJwt() for code outside the request path (tests, service
+ *   tokens)
+ *
+ *   app.use(authenticate({
+ *     strategies: [
+ *       jwtBearer({ keys: jwksFile("./jwks.json"), issuer: "https://idp" }),
+ *       apiKey({ verify: apiKeyTable([{ sha256: "…", subject: "agent-7" }]) }),
+ *     ],
+ *   }));
+ *   app.get("/reports", { meta: { auth: "bearer,apiKey" } }, handler);
+ */
+
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type Middleware,
+  schemaIssues,
+  type SchemaLike,
+  type VarsRecord,
+} from "./http.ts";
+
+/* =========================
+ * JWT primitives
+ * ========================= */
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+export type JwtHeader = {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [key: string]: unknown;
+};
+
+/** Registered claims plus whatever the issuer adds. */
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [key: string]: unknown;
+};
+
+/** An imported verification key. `kid` selects it when the token names one. */
+export type JwtKey = { kid?: string; alg: JwtAlgorithm; key: CryptoKey };
+
+/** Resolves candidate keys for a token header (kid-aware sources may reload). */
+export type JwtKeySource = (header: JwtHeader) => Promise<readonly JwtKey[]>;
+
+/** Static key material: an HMAC secret or a public JWK. */
+export type JwtKeyInput =
+  | { kid?: string; alg: "HS256"; secret: string | Uint8Array<ArrayBuffer> }
+  | { kid?: string; alg?: JwtAlgorithm; jwk: JsonWebKey & { kid?: string } };
+
+export type JwtFailureReason =
+  | "malformed"
+  | "unsupported-algorithm"
+  | "unknown-key"
+  | "invalid-signature"
+  | "expired"
+  | "not-yet-valid"
+  | "invalid-issuer"
+  | "invalid-audience"
+  | "invalid-claims";
+
+export type JwtVerifyOptions<C = JwtClaims> = {
+  keys: JwtKeySource;
+  /** Accepted `iss` value(s). Unchecked when omitted. */
+  issuer?: string | readonly string[];
+  /** The token's `aud` must contain one of these. Unchecked when omitted. */
+  audience?: string | readonly string[];
+  /** Allowed algorithms. Default all supported. */
+  algorithms?: readonly JwtAlgorithm[];
+  /** Leeway for exp/nbf/iat, in seconds. Default 60. */
+  clockSkewSec?: number;
+  /** Reject tokens without `exp`. Default true. */
+  requireExp?: boolean;
+  /** Reject tokens whose `iat` is older than this, in seconds. */
+  maxAgeSec?: number;
+  /** Parser for the payload (Zod schema or function); failures → invalid-claims. */
+  claims?: SchemaLike<C> | ((u: unknown) => C);
+  /** Clock in epoch ms (tests). */
+  now?: () => number;
+};
+
+export type JwtVerifyResult<C = JwtClaims> =
+  | { ok: true; header: JwtHeader; claims: C }
+  | { ok: false; reason: JwtFailureReason; detail: string };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const b64urlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const b64urlDecode = (s: string): Uint8Array<ArrayBuffer> => {
+  if (!/^[A-Za-z0-9_-]*$/.test(s)) throw new Error("invalid base64url");
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/") +
+    "=".repeat((4 - (s.length % 4)) % 4);
+  return Uint8Array.from(atob(b64), (ch) => ch.charCodeAt(0));
+};
+
+const algParams = {
+  HS256: {
+    import: { name: "HMAC", hash: "SHA-256" },
+    sign: { name: "HMAC" },
+  },
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    sign: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+const isAlgorithm = (alg: unknown): alg is JwtAlgorithm =>
+  typeof alg === "string" && Object.hasOwn(algParams, alg);
+
+// JWKS entries often omit `alg`; infer it from the key type.
+const jwkAlgorithm = (jwk: JsonWebKey): JwtAlgorithm | undefined => {
+  if (isAlgorithm(jwk.alg)) return jwk.alg;
+  if (jwk.alg) return undefined;
+  if (jwk.kty === "oct") return "HS256";
+  if (jwk.kty === "RSA") return "RS256";
+  if (jwk.kty === "EC" && jwk.crv === "P-256") return "ES256";
+  return undefined;
+};
+
+const importInput = async (input: JwtKeyInput): Promise<JwtKey> => {
+  if ("secret" in input) {
+    const raw = typeof input.secret === "string"
+      ? encoder.encode(input.secret)
+      : input.secret;
+    const key = await crypto.subtle.importKey(
+      "raw",
+      raw,
+      algParams.HS256.import,
+      false,
+      ["verify"],
+    );
+    return { kid: input.kid, alg: "HS256", key };
+  }
+  const alg = input.alg ?? jwkAlgorithm(input.jwk);
+  if (!alg) {
+    throw new Error(
+      `Unsupported JWK (kty=${input.jwk.kty}, alg=${input.jwk.alg})`,
+    );
+  }
+  // key_ops/use on published keys may not list "verify"; we only verify.
+  const { key_ops: _ops, use: _use, ext: _ext, ...jwk } = input.jwk;
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    algParams[alg].import,
+    false,
+    ["verify"],
+  );
+  return { kid: input.kid ?? input.jwk.kid, alg, key };
+};
+
+/** Static keys, imported once on first use. */
+export const jwtKeys = (inputs: readonly JwtKeyInput[]): JwtKeySource => {
+  let imported: Promise<JwtKey[]> | undefined;
+  return () => imported ??= Promise.all(inputs.map(importInput));
+};
+
+/**
+ * Keys from a JWKS document on disk (`{ "keys": [...] }`). The file is
+ * re-read when its mtime changes, checked at most every `checkMs`, so keys
+ * can be rotated without a restart. Signing-only and unsupported entries are
+ * skipped. A missing or malformed file never throws: the last good key set
+ * keeps serving (none before the first successful load), `onError` hears
+ * about it, and the next check retries.
+ */
+export const jwksFile = (
+  path: string | URL,
+  opts: { checkMs?: number; onError?: (err: unknown) => void } = {},
+): JwtKeySource => {
+  const checkMs = opts.checkMs ?? 5_000;
+  let keys: JwtKey[] = [];
+  let mtime: number | undefined;
+  let checkedAt = -Infinity;
+  let loading: Promise<void> | undefined;
+
+  const load = async () => {
+    checkedAt = performance.now();
+    try {
+      const stat = await Deno.stat(path);
+      const m = stat.mtime?.getTime() ?? 0;
+      if (m === mtime) return;
+      const doc = JSON.parse(await Deno.readTextFile(path)) as {
+        keys?: Array<JsonWebKey & { kid?: string }>;
+      };
+      const entries = (doc.keys ?? []).filter((jwk) =>
+        (jwk.use === undefined || jwk.use === "sig") && jwkAlgorithm(jwk)
+      );
+      keys = await Promise.all(entries.map((jwk) => importInput({ jwk })));
+      mtime = m;
+    } catch (err) {
+      opts.onError?.(err);
+    }
+  };
+
+  return async () => {
+    if (performance.now() - checkedAt >= checkMs) {
+      await (loading ??= load().finally(() => loading = undefined));
+    }
+    return keys;
+  };
+};
+
+/** Sign a JWT; RS256/ES256 need a private CryptoKey, HS256 a secret. */
+export const signJwt = async (
+  claims: JwtClaims,
+  opts: {
+    alg: JwtAlgorithm;
+    key: CryptoKey | string | Uint8Array<ArrayBuffer>;
+    kid?: string;
+    header?: Record<string, unknown>;
+  },
+): Promise<string> => {
+  const header = {
+    alg: opts.alg,
+    typ: "JWT",
+    ...(opts.kid ? { kid: opts.kid } : {}),
+    ...opts.header,
+  };
+  const input = `${b64urlEncode(encoder.encode(JSON.stringify(header)))}.${
+    b64urlEncode(encoder.encode(JSON.stringify(claims)))
+  }`;
+  const key = opts.key instanceof CryptoKey
+    ? opts.key
+    : await crypto.subtle.importKey(
+      "raw",
+      typeof opts.key === "string" ? encoder.encode(opts.key) : opts.key,
+      algParams.HS256.import,
+      false,
+      ["sign"],
+    );
+  const sig = await crypto.subtle.sign(
+    algParams[opts.alg].sign,
+    key,
+    encoder.encode(input),
+  );
+  return `${input}.${b64urlEncode(new Uint8Array(sig))}`;
+};
+
+const runParser = <T>(
+  parser: SchemaLike<T> | ((u: unknown) => T),
+  u: unknown,
+): T => typeof parser === "function" ? parser(u) : parser.parse(u);
+
+const asList = (v: string | readonly string[]) =>
+  typeof v === "string" ? [v] : v;
+
+/** Verify a compact JWS and its registered claims. Never throws. */
+export const verifyJwt = async <C = JwtClaims>(
+  token: string,
+  opts: JwtVerifyOptions<C>,
+): Promise<JwtVerifyResult<C>> => {
+  const fail = (reason: JwtFailureReason, detail: string) =>
+    ({ ok: false, reason, detail }) as const;
+
+  const parts = token.split(".");
+  if (parts.length !== 3 || token.length > 16_384) {
+    return fail("malformed", "Token is not a compact JWS");
+  }
+  let header: JwtHeader;
+  let payload: JwtClaims;
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    header = JSON.parse(decoder.decode(b64urlDecode(parts[0])));
+    payload = JSON.parse(decoder.decode(b64urlDecode(parts[1])));
+    signature = b64urlDecode(parts[2]);
+  } catch {
+    return fail("malformed", "Token segments are not base64url JSON");
+  }
+  if (
+    !header || typeof header !== "object" || !payload ||
+    typeof payload !== "object" || Array.isArray(payload)
+  ) {
+    return fail("malformed", "Token header or payload is not an object");
+  }
+
+  const allowed = opts.algorithms ?? (Object.keys(algParams) as JwtAlgorithm[]);
+  if (!isAlgorithm(header.alg) || !allowed.includes(header.alg)) {
+    return fail(
+      "unsupported-algorithm",
+      `Algorithm not accepted: ${String(header.alg)}`,
+    );
+  }
+  const alg = header.alg;
+
+  // Only keys of the token's algorithm are tried, so an RSA public key can
+  // never be used as an HMAC secret.
+  let keys: readonly JwtKey[];
+  try {
+    keys = await opts.keys(header);
+  } catch {
+    return fail("unknown-key", "Verification keys are unavailable");
+  }
+  const candidates = keys.filter((k) =>
+    k.alg === alg && (header.kid === undefined || k.kid === header.kid)
+  );
+  if (candidates.length === 0) {
+    return fail(
+      "unknown-key",
+      header.kid ? `No key for kid ${header.kid}` : `No ${alg} key`,
+    );
+  }
+  const data = encoder.encode(`${parts[0]}.${parts[1]}`);
+  let valid = false;
+  for (const k of candidates) {
+    const ok = await crypto.subtle
+      .verify(algParams[alg].sign, k.key, signature, data)
+      .catch(() => false);
+    if (ok) {
+      valid = true;
+      break;
+    }
+  }
+  if (!valid) return fail("invalid-signature", "Signature does not verify");
+
+  const now = (opts.now?.() ?? Date.now()) / 1000;
+  const skew = opts.clockSkewSec ?? 60;
+  const numeric = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+  for (const claim of ["exp", "nbf", "iat"] as const) {
+    if (payload[claim] !== undefined && !numeric(payload[claim])) {
+      return fail("malformed", `Claim ${claim} must be a NumericDate`);
+    }
+  }
+  if (payload.exp === undefined && (opts.requireExp ?? true)) {
+    return fail("expired", "Token has no exp claim");
+  }
+  if (payload.exp !== undefined && now - skew >= payload.exp) {
+    return fail("expired", "Token has expired");
+  }
+  if (payload.nbf !== undefined && now + skew < payload.nbf) {
+    return fail("not-yet-valid", "Token is not valid yet");
+  }
+  if (payload.iat !== undefined) {
+    if (now + skew < payload.iat) {
+      return fail("not-yet-valid", "Token was issued in the future");
+    }
+    if (
+      opts.maxAgeSec !== undefined && now - skew > payload.iat + opts.maxAgeSec
+    ) {
+      return fail("expired", "Token is older than the maximum age");
+    }
+  }
+  if (
+    opts.issuer !== undefined &&
+    !asList(opts.issuer).includes(payload.iss ?? "")
+  ) {
+    return fail("invalid-issuer", "Token issuer is not accepted");
+  }
+  if (opts.audience !== undefined) {
+    const aud = payload.aud === undefined ? [] : asList(payload.aud);
+    if (!asList(opts.audience).some((a) => aud.includes(a))) {
+      return fail("invalid-audience", "Token audience is not accepted");
+    }
+  }
+
+  if (!opts.claims) return { ok: true, header, claims: payload as C };
+  try {
+    return { ok: true, header, claims: runParser(opts.claims, payload) };
+  } catch (err) {
+    const issues = schemaIssues(err);
+    return fail(
+      "invalid-claims",
+      issues.map((i) =>
+        i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message
+      ).join("; "),
+    );
+  }
+};
+
+/* =========================
+ * strategies
+ * ========================= */
+
+export type AuthScheme = "jwt" | "api-key" | "basic";
+
+/** Who made the request, as exposed on `c.vars.auth`. */
+export type AuthPrincipal<C = JwtClaims> = {
+  /** Name of the strategy that authenticated the request. */
+  strategy: string;
+  scheme: AuthScheme;
+  subject: string;
+  claims: C;
+};
+
+export type AuthVars<C = JwtClaims> = { auth: AuthPrincipal<C> };
+
+/** Returned by API-key and Basic verify callbacks for accepted credentials. */
+export type AuthIdentity<C> = { subject: string; claims: C };
+
+export type AuthFailureReason =
+  | "missing-credentials"
+  | "invalid-credentials"
+  | JwtFailureReason;
+
+export type AuthAttempt<C> =
+  | { outcome: "absent" }
+  | { outcome: "ok"; principal: AuthPrincipal<C> }
+  | { outcome: "invalid"; reason: AuthFailureReason; detail: string };
+
+/**
+ * Strategies are shared across apps and route groups, so they see the
+ * request context without the app's State/Vars typing.
+ */
+// deno-lint-ignore no-explicit-any
+export type AuthCtx = HandlerCtx<string, any, any>;
+
+export type AuthStrategy<C = JwtClaims> = {
+  /** Matched against `RouteMeta.auth` and used as the OpenAPI scheme key. */
+  name: string;
+  scheme: AuthScheme;
+  /** OpenAPI securityScheme object. */
+  securityScheme: Record<string, unknown>;
+  /** WWW-Authenticate challenge; `failure` is set for rejected credentials. */
+  challenge: (
+    realm: string,
+    failure?: { reason: AuthFailureReason; detail: string },
+  ) => string;
+  authenticate: (c: AuthCtx) => Promise<AuthAttempt<C>>;
+};
+
+const quote = (s: string) => `"${s.replace(/["\\]/g, "\\$&")}"`;
+
+const bearerError = (reason: AuthFailureReason) =>
+  reason === "malformed" ? "invalid_request" : "invalid_token";
+
+/** Token from `Authorization: Bearer <token>`, or undefined. */
+export const bearerToken = (req: Request): string | undefined => {
+  const m = /^Bearer[ ]+([^\s]+)\s*$/i.exec(
+    req.headers.get("authorization") ?? "",
+  );
+  return m?.[1];
+};
+
+export type JwtBearerOptions<C> = JwtVerifyOptions<C> & {
+  /** Strategy name. Default "bearer". */
+  name?: string;
+  /** Principal subject. Default: the `sub` claim. */
+  subject?: (claims: C) => string;
+};
+
+/** Bearer JWT strategy. */
+export const jwtBearer = <C = JwtClaims>(
+  opts: JwtBearerOptions<C>,
+): AuthStrategy<C> => {
+  const name = opts.name ?? "bearer";
+  const subjectOf = opts.subject ??
+    ((claims: C) => String((claims as JwtClaims).sub ?? ""));
+  return {
+    name,
+    scheme: "jwt",
+    securityScheme: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+    challenge: (realm, failure) =>
+      failure
+        ? `Bearer realm=${quote(realm)}, error="${
+          bearerError(failure.reason)
+        }", error_description=${quote(failure.detail)}`
+        : `Bearer realm=${quote(realm)}`,
+    authenticate: async (c) => {
+      const header = c.req.headers.get("authorization");
+      if (!header || !/^Bearer\b/i.test(header)) return { outcome: "absent" };
+      const token = bearerToken(c.req);
+      if (!token) {
+        return {
+          outcome: "invalid",
+          reason: "malformed",
+          detail: "Malformed Bearer authorization header",
+        };
+      }
+      const r = await verifyJwt(token, opts);
+      if (!r.ok) {
+        return { outcome: "invalid", reason: r.reason, detail: r.detail };
+      }
+      return {
+        outcome: "ok",
+        principal: {
+          strategy: name,
+          scheme: "jwt",
+          subject: subjectOf(r.claims),
+          claims: r.claims,
+        },
+      };
+    },
+  };
+};
+
+export type ApiKeyOptions<C> = {
+  /** Strategy name. Default "apiKey". */
+  name?: string;
+  /** Header carrying the key. Default "x-api-key". */
+  header?: string;
+  /** Also accept the key from this query parameter (off by default). */
+  query?: string;
+  verify: (
+    key: string,
+    c: AuthCtx,
+  ) =>
+    | AuthIdentity<C>
+    | undefined
+    | Promise<AuthIdentity<C> | undefined>;
+};
+
+/** API-key strategy. */
+export const apiKey = <C = JwtClaims>(
+  opts: ApiKeyOptions<C>,
+): AuthStrategy<C> => {
+  const name = opts.name ?? "apiKey";
+  const header = (opts.header ?? "x-api-key").toLowerCase();
+  return {
+    name,
+    scheme: "api-key",
+    securityScheme: { type: "apiKey", in: "header", name: header },
+    challenge: (realm) =>
+      `ApiKey realm=${quote(realm)}, header=${quote(header)}`,
+    authenticate: async (c) => {
+      const key = c.req.headers.get(header) ??
+        (opts.query ? c.url.searchParams.get(opts.query) : null);
+      if (key === null) return { outcome: "absent" };
+      const identity = key ? await opts.verify(key, c) : undefined;
+      if (!identity) {
+        return {
+          outcome: "invalid",
+          reason: "invalid-credentials",
+          detail: "API key is not valid",
+        };
+      }
+      return {
+        outcome: "ok",
+        principal: { strategy: name, scheme: "api-key", ...identity },
+      };
+    },
+  };
+};
+
+const sha256Hex = async (s: string) =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(s))),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Verify callback over a fixed key list. Store `sha256` (hex) digests rather
+ * than raw keys where possible; every entry is compared so timing does not
+ * reveal which one matched.
+ */
+export const apiKeyTable = <C = JwtClaims>(
+  entries: ReadonlyArray<
+    ({ key: string } | { sha256: string }) & {
+      subject: string;
+      claims?: C;
+    }
+  >,
+): (key: string) => Promise<AuthIdentity<C> | undefined> => {
+  const digests = Promise.all(
+    entries.map(async (e) =>
+      "sha256" in e ? e.sha256.toLowerCase() : await sha256Hex(e.key)
+    ),
+  );
+  return async (key) => {
+    const digest = await sha256Hex(key);
+    let found: number | undefined;
+    (await digests).forEach((d, i) => {
+      if (timingSafeEqual(d, digest) && found === undefined) found = i;
+    });
+    if (found === undefined) return undefined;
+    const e = entries[found];
+    return { subject: e.subject, claims: (e.claims ?? {}) as C };
+  };
+};
+
+export type BasicOptions<C> = {
+  /** Strategy name. Default "basic". */
+  name?: string;
+  verify: (
+    username: string,
+    password: string,
+    c: AuthCtx,
+  ) =>
+    | AuthIdentity<C>
+    | undefined
+    | Promise<AuthIdentity<C> | undefined>;
+};
+
+/** HTTP Basic strategy (RFC 7617, UTF-8). Only use over HTTPS. */
+export const basic = <C = JwtClaims>(
+  opts: BasicOptions<C>,
+): AuthStrategy<C> => {
+  const name = opts.name ?? "basic";
+  return {
+    name,
+    scheme: "basic",
+    securityScheme: { type: "http", scheme: "basic" },
+    challenge: (realm) => `Basic realm=${quote(realm)}, charset="UTF-8"`,
+    authenticate: async (c) => {
+      const header = c.req.headers.get("authorization");
+      if (!header || !/^Basic\b/i.test(header)) return { outcome: "absent" };
+      let user: string;
+      let pass: string;
+      try {
+        const m = /^Basic[ ]+([A-Za-z0-9+/]+=*)\s*$/i.exec(header);
+        if (!m) throw new Error("malformed");
+        const decoded = new TextDecoder("utf-8", { fatal: true }).decode(
+          Uint8Array.from(atob(m[1]), (ch) => ch.charCodeAt(0)),
+        );
+        const i = decoded.indexOf(":");
+        if (i < 0) throw new Error("malformed");
+        user = decoded.slice(0, i);
+        pass = decoded.slice(i + 1);
+      } catch {
+        return {
+          outcome: "invalid",
+          reason: "malformed",
+          detail: "Malformed Basic authorization header",
+        };
+      }
+      const identity = await opts.verify(user, pass, c);
+      if (!identity) {
+        return {
+          outcome: "invalid",
+          reason: "invalid-credentials",
+          detail: "Username or password is not valid",
+        };
+      }
+      return {
+        outcome: "ok",
+        principal: { strategy: name, scheme: "basic", ...identity },
+      };
+    },
+  };
+};
+
+/* =========================
+ * middleware
+ * ========================= */
+
+export type AuthenticateOptions<State, Vars extends VarsRecord, C> = {
+  strategies: ReadonlyArray<AuthStrategy<C>>;
+  /**
+   * Require credentials on every request. Default false: only routes with
+   * `RouteMeta.auth` (or an http-authz.ts `RouteMeta.authz` requirement)
+   * require them; elsewhere a principal is set when valid credentials are
+   * sent (invalid ones are still rejected).
+   */
+  required?: boolean;
+  /** Challenge realm. Default: the request host. */
+  realm?: string;
+  /** Skip authentication entirely (health checks, public assets). */
+  ignore?: (c: HandlerCtx<string, State, Vars>) => boolean;
+  onFailure?: (
+    c: HandlerCtx<string, State, Vars>,
+    failure: {
+      reason: AuthFailureReason;
+      detail: string;
+      challenges: string[];
+    },
+  ) => Response | Promise<Response>;
+};
+
+/** The authenticated principal, or undefined for anonymous requests. */
+export const authOf = <C = JwtClaims>(
+  // deno-lint-ignore no-explicit-any
+  c: HandlerCtx<any, any, any>,
+): AuthPrincipal<C> | undefined => (c.vars as Partial<AuthVars<C>>).auth;
+
+/** OpenAPI `components.securitySchemes` for http-openapi.ts. */
+export const authSecuritySchemes = (
+  strategies: ReadonlyArray<AuthStrategy<unknown>>,
+): Record<string, Record<string, unknown>> =>
+  Object.fromEntries(strategies.map((s) => [s.name, s.securityScheme]));
+
+/**
+ * Authentication middleware. `RouteMeta.auth` lists accepted strategy names
+ * (comma-separated), or "required" to accept any of them. Naming a strategy
+ * that is not configured throws (a 500) rather than serving the route
+ * unauthenticated. Routes of mount()ed child apps are covered too. Register
+ * before route middleware that reads `c.vars.auth`.
+ */
+export const authenticate = <
+  State,
+  Vars extends VarsRecord & AuthVars<C>,
+  C = JwtClaims,
+>(opts: AuthenticateOptions<State, Vars, C>): Middleware<State, Vars> => {
+  if (opts.strategies.length === 0) {
+    throw new Error("authenticate requires at least one strategy");
+  }
+  const byName = new Map(opts.strategies.map((s) => [s.name, s]));
+
+  const accepted = (c: HandlerCtx<string, State, Vars>) => {
+    const meta = c.route?.meta;
+    if (!meta?.auth) {
+      return {
+        required: (opts.required ?? false) || meta?.authz !== undefined,
+        list: opts.strategies,
+      };
+    }
+    if (meta.auth.trim() === "required") {
+      return { required: true, list: opts.strategies };
+    }
+    const named = meta.auth.split(",").map((n) => {
+      const strategy = byName.get(n.trim());
+      if (!strategy) {
+        throw new Error(
+          `RouteMeta.auth names unknown strategy "${n.trim()}" (registered: ${
+            [...byName.keys()].join(", ")
+          })`,
+        );
+      }
+      return strategy;
+    });
+    return { required: true, list: named };
+  };
+
+  const fail = async (
+    c: HandlerCtx<string, State, Vars>,
+    list: ReadonlyArray<AuthStrategy<C>>,
+    reason: AuthFailureReason,
+    detail: string,
+    failed?: AuthStrategy<C>,
+  ) => {
+    const realm = opts.realm ?? c.url.host;
+    const challenges = list.map((s) =>
+      s.challenge(realm, s === failed ? { reason, detail } : undefined)
+    );
+    if (opts.onFailure) {
+      return await opts.onFailure(c, { reason, detail, challenges });
+    }
+    return new HttpProblem(401, {
+      type: "urn:continuux:problem:unauthorized",
+      detail,
+      extensions: { reason },
+      headers: challenges.map((v) => ["www-authenticate", v]),
+    }).toResponse(c.req);
+  };
+
+  return async (c, next) => {
+    if (opts.ignore?.(c)) return await next();
+    const { required, list } = accepted(c);
+
+    for (const strategy of list) {
+      const attempt = await strategy.authenticate(c);
+      if (attempt.outcome === "absent") continue;
+      if (attempt.outcome === "invalid") {
+        return await fail(c, list, attempt.reason, attempt.detail, strategy);
+      }
+      c.setVar("auth", attempt.principal as Vars["auth"]);
+      return await next();
+    }
+
+    if (required) {
+      return await fail(
+        c,
+        list,
+        "missing-credentials",
+        "Authentication required",
+      );
+    }
+    return await next();
+  };
+};
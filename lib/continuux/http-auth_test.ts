@@ -0,0 +1,425 @@
+// lib/continuux/http-auth_test.ts
+//
+// Tests for http-auth.ts.
+//
+// Covered behaviors:
+// - verifyJwt(): HS256, RS256, ES256 round trips with signJwt(); exp, nbf,
+//   iat, iss, aud with clock skew; alg none, tampered signatures, unknown
+//   kids, and keys of another algorithm are rejected; claims schemas
+// - jwksFile(): kid selection and reload after the file is rewritten; a
+//   missing or malformed file keeps the last good keys and never throws
+// - authenticate(): RouteMeta.auth selects strategies, principals land in
+//   c.vars.auth, optional routes stay anonymous, 401 problem+json with one
+//   WWW-Authenticate challenge per accepted strategy (RFC 6750 errors)
+// - authenticate() covers mount()ed child routes; unknown strategy names in
+//   RouteMeta.auth fail with 500 instead of serving the route
+// - apiKey() with apiKeyTable() and basic() credentials
+// - authSecuritySchemes() feeding OpenAPI securitySchemes
+
+import { z } from "@zod";
+import { assert, assertEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import {
+  apiKey,
+  apiKeyTable,
+  authenticate,
+  authSecuritySchemes,
+  type AuthVars,
+  basic,
+  jwksFile,
+  jwtBearer,
+  type JwtClaims,
+  jwtKeys,
+  signJwt,
+  verifyJwt,
+} from "./http-auth.ts";
+
+const now = Date.UTC(2026, 0, 1) / 1000;
+const clock = () => now * 1000;
+const claims = (extra: JwtClaims = {}): JwtClaims => ({
+  iss: "https://idp.test",
+  aud: "api",
+  sub: "ann",
+  iat: now,
+  exp: now + 300,
+  ...extra,
+});
+
+const rsaPair = () =>
+  crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  ) as Promise<CryptoKeyPair>;
+
+const ecPair = () =>
+  crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  ) as Promise<CryptoKeyPair>;
+
+const publicJwk = (pair: CryptoKeyPair) =>
+  crypto.subtle.exportKey("jwk", pair.publicKey);
+
+Deno.test("http-auth: verifyJwt algorithms and claims", async () => {
+  const rsa = await rsaPair();
+  const ec = await ecPair();
+  const keys = jwtKeys([
+    { kid: "h1", alg: "HS256", secret: "s3cret" },
+    { kid: "r1", jwk: await publicJwk(rsa) },
+    { kid: "e1", jwk: await publicJwk(ec) },
+  ]);
+  const opts = {
+    keys,
+    issuer: "https://idp.test",
+    audience: "api",
+    now: clock,
+  };
+
+  const hs = await signJwt(claims(), {
+    alg: "HS256",
+    key: "s3cret",
+    kid: "h1",
+  });
+  const rs = await signJwt(claims(), {
+    alg: "RS256",
+    key: rsa.privateKey,
+    kid: "r1",
+  });
+  const es = await signJwt(claims({ aud: ["web", "api"] }), {
+    alg: "ES256",
+    key: ec.privateKey,
+  });
+  for (const token of [hs, rs, es]) {
+    const r = await verifyJwt(token, opts);
+    assert(r.ok, token);
+    assertEquals(r.claims.sub, "ann");
+  }
+
+  const reason = async (token: string, o = {}) => {
+    const r = await verifyJwt(token, { ...opts, ...o });
+    return r.ok ? "ok" : r.reason;
+  };
+  const hsSigned = (c: JwtClaims) =>
+    signJwt(c, { alg: "HS256", key: "s3cret" });
+
+  // Clock skew: 30s past exp is still fine with the default 60s leeway.
+  assertEquals(await reason(await hsSigned(claims({ exp: now - 30 }))), "ok");
+  assertEquals(
+    await reason(await hsSigned(claims({ exp: now - 30 })), {
+      clockSkewSec: 0,
+    }),
+    "expired",
+  );
+  assertEquals(
+    await reason(await hsSigned(claims({ nbf: now + 120 }))),
+    "not-yet-valid",
+  );
+  assertEquals(
+    await reason(await hsSigned(claims({ exp: undefined }))),
+    "expired",
+  );
+  assertEquals(
+    await reason(await hsSigned(claims({ iat: now - 3600 })), {
+      maxAgeSec: 600,
+    }),
+    "expired",
+  );
+  assertEquals(
+    await reason(await hsSigned(claims({ iss: "https://evil" }))),
+    "invalid-issuer",
+  );
+  assertEquals(
+    await reason(await hsSigned(claims({ aud: "other" }))),
+    "invalid-audience",
+  );
+  assertEquals(await reason("a.b"), "malformed");
+  assertEquals(await reason(`${hs.slice(0, -4)}AAAA`), "invalid-signature");
+  assertEquals(
+    await reason(await signJwt(claims(), { alg: "HS256", key: "other" })),
+    "invalid-signature",
+  );
+  assertEquals(
+    await reason(
+      await signJwt(claims(), { alg: "HS256", key: "s3cret", kid: "zz" }),
+    ),
+    "unknown-key",
+  );
+  assertEquals(
+    await reason(hs, { algorithms: ["RS256"] }),
+    "unsupported-algorithm",
+  );
+
+  // alg "none" is never accepted.
+  const [, body] = hs.split(".");
+  const none = `${
+    btoa(JSON.stringify({ alg: "none" })).replace(/=+$/, "")
+  }.${body}.`;
+  assertEquals(await reason(none), "unsupported-algorithm");
+
+  // HS256 tokens cannot be checked against RSA keys (algorithm confusion).
+  const rsaOnly = jwtKeys([{ kid: "r1", jwk: await publicJwk(rsa) }]);
+  assertEquals(await reason(hs, { keys: rsaOnly }), "unknown-key");
+
+  // Claims schemas narrow the payload type and reject bad shapes.
+  const schema = z.object({ sub: z.string(), roles: z.array(z.string()) });
+  const typed = await verifyJwt(
+    await hsSigned(claims({ roles: ["admin"] })),
+    { ...opts, claims: schema },
+  );
+  assert(typed.ok);
+  assertEquals(typed.claims.roles, ["admin"]);
+  assertEquals(
+    await reason(await hsSigned(claims()), { claims: schema }),
+    "invalid-claims",
+  );
+});
+
+Deno.test("http-auth: jwksFile kid selection and rotation", async () => {
+  const first = await ecPair();
+  const second = await ecPair();
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  const write = async (entries: Array<[string, CryptoKeyPair]>) =>
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({
+        keys: await Promise.all(
+          entries.map(async ([kid, pair]) => ({
+            ...(await publicJwk(pair)),
+            kid,
+            use: "sig",
+          })),
+        ),
+      }),
+    );
+
+  try {
+    await write([["k1", first]]);
+    const reloadErrors: unknown[] = [];
+    const opts = {
+      keys: jwksFile(path, {
+        checkMs: 0,
+        onError: (err) => reloadErrors.push(err),
+      }),
+      now: clock,
+    };
+    const t1 = await signJwt(claims(), {
+      alg: "ES256",
+      key: first.privateKey,
+      kid: "k1",
+    });
+    const t2 = await signJwt(claims(), {
+      alg: "ES256",
+      key: second.privateKey,
+      kid: "k2",
+    });
+    assert((await verifyJwt(t1, opts)).ok);
+    const before = await verifyJwt(t2, opts);
+    assertEquals(before.ok ? "ok" : before.reason, "unknown-key");
+
+    // Rotate: mtime changes, so the next verification re-reads the file.
+    await new Promise((r) => setTimeout(r, 20));
+    await write([["k2", second]]);
+    await Deno.utime(path, new Date(), new Date(Date.now() + 5_000));
+    assert((await verifyJwt(t2, opts)).ok);
+    const retired = await verifyJwt(t1, opts);
+    assertEquals(retired.ok ? "ok" : retired.reason, "unknown-key");
+
+    // A broken rewrite or a deleted file keeps the last good key set.
+    await Deno.writeTextFile(path, "{ not json");
+    await Deno.utime(path, new Date(), new Date(Date.now() + 10_000));
+    assert((await verifyJwt(t2, opts)).ok);
+    await Deno.remove(path);
+    assert((await verifyJwt(t2, opts)).ok);
+    assertEquals(reloadErrors.length, 2);
+    assert(reloadErrors[0] instanceof SyntaxError);
+    assert(reloadErrors[1] instanceof Deno.errors.NotFound);
+
+    // No key set yet, or a throwing key source: an invalid result, not a throw.
+    const missing = await verifyJwt(t2, {
+      keys: jwksFile(`${path}.missing`),
+      now: clock,
+    });
+    assertEquals(missing.ok ? "ok" : missing.reason, "unknown-key");
+    const failing = await verifyJwt(t2, {
+      keys: () => Promise.reject(new Error("idp down")),
+      now: clock,
+    });
+    assertEquals(failing.ok ? "ok" : failing.reason, "unknown-key");
+
+    const app = Application.sharedState({}).withVars<AuthVars>();
+    app.use(authenticate({
+      strategies: [jwtBearer({ keys: jwksFile(`${path}.missing`) })],
+    }));
+    app.get("/me", { meta: { auth: "bearer" } }, (c) => c.text("me"));
+    const r = await testClient(app).get("/me", {
+      headers: { authorization: `Bearer ${t2}` },
+    });
+    assertEquals(r.status, 401);
+    assertEquals((await r.problem()).status, 401);
+  } finally {
+    await Deno.remove(path).catch(() => {});
+  }
+});
+
+Deno.test("http-auth: authenticate middleware and strategies", async (t) => {
+  const keys = jwtKeys([{ alg: "HS256", secret: "s3cret" }]);
+  const strategies = [
+    jwtBearer({ keys, audience: "api", now: clock }),
+    apiKey({
+      verify: apiKeyTable([{
+        key: "agent-key-1",
+        subject: "agent-7",
+        claims: { roles: ["agent"] },
+      }]),
+    }),
+    basic({
+      verify: (user, pass) =>
+        user === "ops" && pass === "pä:ss"
+          ? { subject: "ops", claims: {} }
+          : undefined,
+    }),
+  ];
+
+  const app = Application.sharedState({}).withVars<AuthVars>();
+  app.use(authenticate({ strategies, realm: "portal" }));
+  const who = (c: { vars: Partial<AuthVars> }) =>
+    c.vars.auth
+      ? `${c.vars.auth.strategy}:${c.vars.auth.subject}`
+      : "anonymous";
+  app.get("/public", (c) => c.text(who(c)));
+  app.get(
+    "/reports",
+    { meta: { auth: "bearer,apiKey" } },
+    (c) => c.text(who(c)),
+  );
+  app.get("/admin", { meta: { auth: "required" } }, (c) => c.text(who(c)));
+  app.get("/typo", { meta: { auth: "bearer,apiKee" } }, (c) => c.text(who(c)));
+  const child = Application.sharedState({}).withVars<AuthVars>();
+  child.get("/jobs", { meta: { auth: "apiKey" } }, (c) => c.text(who(c)));
+  app.mount("/agents", child);
+
+  const client = testClient(app);
+  const bearer = async (c: JwtClaims) => ({
+    authorization: `Bearer ${await signJwt(c, {
+      alg: "HS256",
+      key: "s3cret",
+    })}`,
+  });
+
+  await t.step("optional routes", async () => {
+    assertEquals(await (await client.get("/public")).text(), "anonymous");
+    const r = await client.get("/public", { headers: await bearer(claims()) });
+    assertEquals(await r.text(), "bearer:ann");
+    // Invalid credentials are rejected even where auth is optional.
+    const bad = await client.get("/public", {
+      headers: { "x-api-key": "nope" },
+    });
+    assertEquals(bad.status, 401);
+    assertEquals((await bad.problem()).reason, "invalid-credentials");
+  });
+
+  await t.step("RouteMeta.auth selects strategies", async () => {
+    const missing = await client.get("/reports");
+    assertEquals(missing.status, 401);
+    assertEquals(
+      missing.headers.get("content-type"),
+      "application/problem+json",
+    );
+    const problem = await missing.problem();
+    assertEquals(problem.type, "urn:continuux:problem:unauthorized");
+    assertEquals(problem.reason, "missing-credentials");
+    assertEquals(
+      missing.headers.get("www-authenticate"),
+      'Bearer realm="portal", ApiKey realm="portal", header="x-api-key"',
+    );
+
+    const agent = await client.get("/reports", {
+      headers: { "x-api-key": "agent-key-1" },
+    });
+    assertEquals(await agent.text(), "apiKey:agent-7");
+    const human = await client.get("/reports", {
+      headers: await bearer(claims()),
+    });
+    assertEquals(await human.text(), "bearer:ann");
+
+    // Basic is configured but not accepted here.
+    const ops = await client.get("/reports", {
+      headers: { authorization: `Basic ${btoa("ops:x")}` },
+    });
+    assertEquals(ops.status, 401);
+
+    const expired = await client.get("/reports", {
+      headers: await bearer(claims({ exp: now - 600 })),
+    });
+    assertEquals(expired.status, 401);
+    assertEquals((await expired.problem()).reason, "expired");
+    assertEquals(
+      expired.headers.get("www-authenticate"),
+      'Bearer realm="portal", error="invalid_token", ' +
+        'error_description="Token has expired", ' +
+        'ApiKey realm="portal", header="x-api-key"',
+    );
+
+    const wrongAud = await client.get("/reports", {
+      headers: await bearer(claims({ aud: "other" })),
+    });
+    assertEquals((await wrongAud.problem()).reason, "invalid-audience");
+  });
+
+  await t.step("basic credentials and any-strategy routes", async () => {
+    const utf8 = String.fromCharCode(
+      ...new TextEncoder().encode("ops:pä:ss"),
+    );
+    const ok = await client.get("/admin", {
+      headers: { authorization: `Basic ${btoa(utf8)}` },
+    });
+    assertEquals(await ok.text(), "basic:ops");
+
+    const wrong = await client.get("/admin", {
+      headers: { authorization: `Basic ${btoa("ops:nope")}` },
+    });
+    assertEquals(wrong.status, 401);
+    assertEquals((await wrong.problem()).reason, "invalid-credentials");
+    const malformed = await client.get("/admin", {
+      headers: { authorization: "Basic !!!" },
+    });
+    assertEquals((await malformed.problem()).reason, "malformed");
+    assert(
+      (await client.get("/admin")).headers.get("www-authenticate")!
+        .includes('Basic realm="portal", charset="UTF-8"'),
+    );
+  });
+
+  await t.step("mounted routes and unknown strategy names", async () => {
+    // The parent's middleware sees the child's route meta and fails closed.
+    const missing = await client.get("/agents/jobs");
+    assertEquals(missing.status, 401);
+    assertEquals((await missing.problem()).reason, "missing-credentials");
+    const agent = await client.get("/agents/jobs", {
+      headers: { "x-api-key": "agent-key-1" },
+    });
+    assertEquals(await agent.text(), "apiKey:agent-7");
+
+    // A misspelled strategy is a server error, never an open route.
+    const typo = await client.get("/typo", {
+      headers: { "x-api-key": "agent-key-1" },
+    });
+    assertEquals(typo.status, 500);
+  });
+
+  await t.step("OpenAPI security schemes", () => {
+    assertEquals(authSecuritySchemes(strategies), {
+      bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+      basic: { type: "http", scheme: "basic" },
+    });
+  });
+});
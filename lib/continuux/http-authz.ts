@@ -0,0 +1,455 @@
+/**
+ * lib/continuux/http-authz.ts
+ *
+ * Declarative authorization (RBAC + ABAC) for ContinuUX routes and cx
+ * actions, layered on the principal set by http-auth.ts.
+ *
+ * Features:
+ * - createAuthzPolicy(): role definitions (permissions, inheritance),
+ *   wildcard permissions ("reports:*", "*"), and named predicates over
+ *   `(subject, state, vars, params)` for attribute-based rules
+ * - Routes declare requirements in `RouteMeta.authz` ({ roles, permissions,
+ *   rules }); policy.middleware() enforces them centrally before handlers run
+ * - cx actions declare requirements via policy.cxActions(handlers, {...}),
+ *   the same wrapping pattern as rateLimitCxActions()
+ * - Denials: 403 problem+json (`urn:continuux:problem:forbidden`) for routes,
+ *   a 403 CxHandlerResult for actions, and an `authz.denied` audit event
+ * - Routes of `mount()`ed child apps are enforced by the parent's
+ *   middleware (the parent sees the child's route meta and params)
+ * - Introspection: policy.matrix(app) lists every route, including mounted
+ *   apps' routes, and registered action with allow / deny / conditional per
+ *   role; formatAuthzMatrix() prints it as a Markdown table
+ *
+ *   const policy = createAuthzPolicy<State, Vars>({
+ *     roles: { viewer: { permissions: ["reports:read"] },
+ *              admin: { inherits: ["viewer"], permissions: ["reports:*"] } },
+ *     rules: { ownsProject: ({ subject, params }) => ... },
+ *     audit: (e) => log.write(e),
+ *   });
+ *   app.use(authenticate({ strategies }), policy.middleware());
+ *   app.get("/reports", { meta: { authz: { permissions: ["reports:read"] } } }, h);
+ */
+
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type Middleware,
+  type RouteAuthzPolicy,
+  type RouteInfo,
+  type SseEventMap,
+  type VarsRecord,
+} from "./http.ts";
+import type { AuthVars } from "./http-auth.ts";
+import type { CxActionHandlers, CxActionSchemas } from "./interaction-html.ts";
+import { cxProblemResult } from "./interaction.ts";
+
+/** Who is asking, normalized from the authenticated principal. */
+export type AuthzSubject = {
+  id: string;
+  roles: readonly string[];
+  permissions: readonly string[];
+};
+
+export type AuthzRoleDef = {
+  permissions?: readonly string[];
+  /** Roles whose permissions (and role membership) this role includes. */
+  inherits?: readonly string[];
+};
+
+export type AuthzTarget = { kind: "route" | "action"; name: string };
+
+export type AuthzRuleInput<State, Vars> = {
+  subject: AuthzSubject;
+  state: State;
+  vars: Vars;
+  params: Record<string, string>;
+  target: AuthzTarget;
+  /** Validated cx action payload (actions only). */
+  data?: unknown;
+};
+
+/** ABAC predicate, referenced by name from `RouteAuthzPolicy.rules`. */
+export type AuthzRule<State, Vars> = (
+  input: AuthzRuleInput<State, Vars>,
+) => boolean | Promise<boolean>;
+
+export type AuthzDenialReason =
+  | "unauthenticated"
+  | "missing-role"
+  | "missing-permission"
+  | "rule-failed"
+  | "unknown-rule";
+
+export type AuthzDecision =
+  | { allowed: true }
+  | { allowed: false; reason: AuthzDenialReason; missing: string[] };
+
+/** Emitted for every denial; feed it to an audit log. */
+export type AuthzAuditEvent = {
+  type: "authz.denied";
+  at: string;
+  subject: string | null;
+  target: AuthzTarget;
+  requirement: RouteAuthzPolicy;
+  reason: AuthzDenialReason;
+  missing: string[];
+  method: string;
+  path: string;
+  requestId: string;
+};
+
+export type AuthzAccess = "allow" | "deny" | "conditional";
+
+export type AuthzMatrixRow = {
+  kind: "route" | "action";
+  name: string;
+  /** `RouteMeta.auth` for routes. */
+  auth?: string;
+  requirement?: RouteAuthzPolicy;
+  /** Reachable without credentials. */
+  anonymous: boolean;
+  access: Record<string, AuthzAccess>;
+};
+
+export type AuthzMatrix = { roles: string[]; rows: AuthzMatrixRow[] };
+
+export type AuthzPolicyOptions<State, Vars extends VarsRecord> = {
+  roles?: Record<string, AuthzRoleDef>;
+  rules?: Record<string, AuthzRule<State, Vars>>;
+  /**
+   * Map request vars to a subject. Default: `vars.auth` from http-auth.ts,
+   * with roles from the `roles` claim and permissions from `permissions`,
+   * `scope` (space-separated), or `scp`.
+   */
+  subject?: (vars: Vars, state: State) => AuthzSubject | undefined;
+  audit?: (event: AuthzAuditEvent) => void | Promise<void>;
+  onDenied?: (
+    c: HandlerCtx<string, State, Vars>,
+    decision: Extract<AuthzDecision, { allowed: false }>,
+  ) => Response | Promise<Response>;
+};
+
+export type AuthzPolicy<State, Vars extends VarsRecord> = {
+  subjectOf: (vars: Vars, state: State) => AuthzSubject | undefined;
+  /** Effective roles, including inherited ones. */
+  rolesOf: (subject: AuthzSubject) => Set<string>;
+  /** Does the subject hold a permission, directly or through a role? */
+  can: (subject: AuthzSubject, permission: string) => boolean;
+  check: (
+    requirement: RouteAuthzPolicy,
+    input: Omit<AuthzRuleInput<State, Vars>, "subject"> & {
+      subject: AuthzSubject | undefined;
+    },
+  ) => Promise<AuthzDecision>;
+  /** Enforce `RouteMeta.authz`. Register after authenticate(). */
+  middleware: () => Middleware<State, Vars>;
+  /** Wrap cx handlers with per-action requirements (also listed in matrix). */
+  cxActions: <
+    Schemas extends CxActionSchemas,
+    SseOut extends SseEventMap,
+    Prefix extends string,
+  >(
+    handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>,
+    actions: Partial<Record<keyof Schemas & string, RouteAuthzPolicy>>,
+  ) => CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>;
+  matrix: (
+    source: { routes: (opts?: { mounted?: boolean }) => RouteInfo[] },
+    opts?: { include?: (route: RouteInfo) => boolean },
+  ) => AuthzMatrix;
+};
+
+const claimList = (v: unknown): string[] =>
+  Array.isArray(v)
+    ? v.filter((x): x is string => typeof x === "string")
+    : typeof v === "string"
+    ? v.split(/\s+/).filter(Boolean)
+    : [];
+
+const defaultSubject = (vars: VarsRecord): AuthzSubject | undefined => {
+  const p = (vars as Partial<AuthVars<Record<string, unknown>>>).auth;
+  if (!p) return undefined;
+  const claims = p.claims ?? {};
+  return {
+    id: p.subject,
+    roles: claimList(claims.roles),
+    permissions: [
+      ...claimList(claims.permissions),
+      ...claimList(claims.scope),
+      ...claimList(claims.scp),
+    ],
+  };
+};
+
+/** "reports:*" grants "reports:read"; "*" grants everything. */
+const grants = (granted: string, needed: string) =>
+  granted === needed || granted === "*" ||
+  (granted.endsWith(":*") && needed.startsWith(granted.slice(0, -1)));
+
+const isEmpty = (r: RouteAuthzPolicy) =>
+  !r.roles?.length && !r.permissions?.length && !r.rules?.length;
+
+const defaultInclude = (r: RouteInfo) =>
+  r.method !== "HEAD" && r.method !== "OPTIONS";
+
+export const createAuthzPolicy = <State, Vars extends VarsRecord>(
+  opts: AuthzPolicyOptions<State, Vars> = {},
+): AuthzPolicy<State, Vars> => {
+  const roleDefs = opts.roles ?? {};
+  const rules = opts.rules ?? {};
+  const subjectOf = opts.subject ??
+    ((vars: Vars) => defaultSubject(vars));
+  const declaredActions = new Map<string, RouteAuthzPolicy>();
+
+  // Role closure over `inherits`, cycle-safe.
+  const expand = (roles: Iterable<string>) => {
+    const out = new Set<string>();
+    const stack = [...roles];
+    while (stack.length) {
+      const r = stack.pop()!;
+      if (out.has(r)) continue;
+      out.add(r);
+      stack.push(...(roleDefs[r]?.inherits ?? []));
+    }
+    return out;
+  };
+  const permissionsOfRoles = (roles: Set<string>) =>
+    [...roles].flatMap((r) => roleDefs[r]?.permissions ?? []);
+
+  const rolesOf = (subject: AuthzSubject) => expand(subject.roles);
+  const can = (subject: AuthzSubject, permission: string) =>
+    [...subject.permissions, ...permissionsOfRoles(rolesOf(subject))]
+      .some((g) => grants(g, permission));
+
+  // Static part of a requirement (roles and permissions) for a role set.
+  const staticMissing = (
+    requirement: RouteAuthzPolicy,
+    roles: Set<string>,
+    permissions: readonly string[],
+  ): Extract<AuthzDecision, { allowed: false }> | undefined => {
+    if (
+      requirement.roles?.length && !requirement.roles.some((r) => roles.has(r))
+    ) {
+      return {
+        allowed: false,
+        reason: "missing-role",
+        missing: [...requirement.roles],
+      };
+    }
+    const missing = (requirement.permissions ?? []).filter((p) =>
+      !permissions.some((g) => grants(g, p))
+    );
+    if (missing.length) {
+      return { allowed: false, reason: "missing-permission", missing };
+    }
+    return undefined;
+  };
+
+  const check: AuthzPolicy<State, Vars>["check"] = async (
+    requirement,
+    input,
+  ) => {
+    if (isEmpty(requirement)) return { allowed: true };
+    const { subject } = input;
+    if (!subject) {
+      return { allowed: false, reason: "unauthenticated", missing: [] };
+    }
+    const roles = rolesOf(subject);
+    const denied = staticMissing(requirement, roles, [
+      ...subject.permissions,
+      ...permissionsOfRoles(roles),
+    ]);
+    if (denied) return denied;
+    for (const name of requirement.rules ?? []) {
+      const rule = rules[name];
+      // Fail closed on typos and unregistered rules.
+      if (!rule) {
+        return { allowed: false, reason: "unknown-rule", missing: [name] };
+      }
+      if (!(await rule({ ...input, subject }))) {
+        return { allowed: false, reason: "rule-failed", missing: [name] };
+      }
+    }
+    return { allowed: true };
+  };
+
+  const audit = async (
+    decision: Extract<AuthzDecision, { allowed: false }>,
+    info: Omit<AuthzAuditEvent, "type" | "at" | "reason" | "missing">,
+  ) => {
+    await opts.audit?.({
+      type: "authz.denied",
+      at: new Date().toISOString(),
+      ...info,
+      reason: decision.reason,
+      missing: decision.missing,
+    });
+  };
+
+  const forbidden = (
+    decision: Extract<AuthzDecision, { allowed: false }>,
+    extensions: Record<string, unknown> = {},
+  ) =>
+    new HttpProblem(403, {
+      type: "urn:continuux:problem:forbidden",
+      detail: decision.reason === "unauthenticated"
+        ? "Authentication required"
+        : `Not permitted: ${decision.reason}`,
+      extensions: {
+        reason: decision.reason,
+        missing: decision.missing,
+        ...extensions,
+      },
+    });
+
+  const middleware = (): Middleware<State, Vars> => async (c, next) => {
+    const route = c.route;
+    const requirement = route?.meta?.authz;
+    if (!route || !requirement) return await next();
+
+    const subject = subjectOf(c.vars, c.state);
+    const target: AuthzTarget = {
+      kind: "route",
+      name: `${route.method} ${route.path}`,
+    };
+    const decision = await check(requirement, {
+      subject,
+      state: c.state,
+      vars: c.vars,
+      params: c.params as Record<string, string>,
+      target,
+    });
+    if (decision.allowed) return await next();
+
+    await audit(decision, {
+      subject: subject?.id ?? null,
+      target,
+      requirement,
+      method: c.req.method,
+      path: c.url.pathname,
+      requestId: c.requestId,
+    });
+    if (opts.onDenied) return await opts.onDenied(c, decision);
+    return forbidden(decision).toResponse(c.req);
+  };
+
+  const cxActions: AuthzPolicy<State, Vars>["cxActions"] = (
+    handlers,
+    actions,
+  ) => {
+    const out = { ...handlers };
+    for (const name of Object.keys(handlers) as Array<keyof typeof actions>) {
+      const requirement = actions[name];
+      if (!requirement) continue;
+      declaredActions.set(name, requirement);
+      const inner = handlers[name];
+      out[name] = (async (ctx) => {
+        const subject = subjectOf(ctx.vars, ctx.state);
+        const target: AuthzTarget = { kind: "action", name };
+        const decision = await check(requirement, {
+          subject,
+          state: ctx.state,
+          vars: ctx.vars,
+          params: {},
+          target,
+          data: ctx.data,
+        });
+        if (decision.allowed) return await inner(ctx);
+        await audit(decision, {
+          subject: subject?.id ?? null,
+          target,
+          requirement,
+          method: ctx.req.method,
+          path: new URL(ctx.req.url).pathname,
+          requestId: ctx.requestId,
+        });
+        return cxProblemResult(forbidden(decision, { action: name }));
+      }) as typeof inner;
+    }
+    return out;
+  };
+
+  const accessFor = (requirement?: RouteAuthzPolicy) => {
+    const access: Record<string, AuthzAccess> = {};
+    for (const role of Object.keys(roleDefs)) {
+      if (!requirement || isEmpty(requirement)) {
+        access[role] = "allow";
+        continue;
+      }
+      const roles = expand([role]);
+      access[role] =
+        staticMissing(requirement, roles, permissionsOfRoles(roles))
+          ? "deny"
+          : requirement.rules?.length
+          ? "conditional"
+          : "allow";
+    }
+    return access;
+  };
+
+  const matrix: AuthzPolicy<State, Vars>["matrix"] = (source, mOpts = {}) => {
+    const include = mOpts.include ?? defaultInclude;
+    const routes = source.routes({ mounted: true });
+    const rows: AuthzMatrixRow[] = routes.filter(include).map((r) => {
+      const requirement = r.meta?.authz;
+      return {
+        kind: "route",
+        name: `${r.method} ${r.path}`,
+        ...(r.meta?.auth ? { auth: r.meta.auth } : {}),
+        ...(requirement ? { requirement } : {}),
+        anonymous: !r.meta?.auth && !requirement,
+        access: accessFor(requirement),
+      };
+    });
+    for (const [name, requirement] of declaredActions) {
+      rows.push({
+        kind: "action",
+        name,
+        requirement,
+        anonymous: isEmpty(requirement),
+        access: accessFor(requirement),
+      });
+    }
+    return { roles: Object.keys(roleDefs), rows };
+  };
+
+  return { subjectOf, rolesOf, can, check, middleware, cxActions, matrix };
+};
+
+/** Markdown table: one row per route/action, one column per role. */
+export const formatAuthzMatrix = (m: AuthzMatrix): string => {
+  const describe = (r: AuthzMatrixRow) => {
+    const q = r.requirement;
+    if (!q || isEmpty(q)) return r.auth ? "authenticated" : "";
+    return [
+      q.roles?.length ? `roles: ${q.roles.join(" or ")}` : "",
+      q.permissions?.length ? `permissions: ${q.permissions.join(", ")}` : "",
+      q.rules?.length ? `rules: ${q.rules.join(", ")}` : "",
+    ].filter(Boolean).join("; ");
+  };
+  const header = ["target", "requirement", "anonymous", ...m.roles];
+  const lines = [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...m.rows.map((r) =>
+      `| ${
+        [
+          r.kind === "action" ? `cx ${r.name}` : r.name,
+          describe(r),
+          r.anonymous ? "allow" : "deny",
+          ...m.roles.map((role) => r.access[role]),
+        ].join(" | ")
+      } |`
+    ),
+  ];
+  return `${lines.join("\n")}\n`;
+};
+
+/** Convenience for handlers: is this request's subject allowed `permission`? */
+export const hasPermission = <State, Vars extends VarsRecord>(
+  policy: AuthzPolicy<State, Vars>,
+  c: HandlerCtx<string, State, Vars>,
+  permission: string,
+): boolean => {
+  const subject = policy.subjectOf(c.vars, c.state);
+  return subject ? policy.can(subject, permission) : false;
+};
@@ -0,0 +1,307 @@
+// lib/continuux/http-authz_test.ts
+//
+// Tests for http-authz.ts.
+//
+// Covered behaviors:
+// - RouteMeta.authz roles (any of), permissions (all of, wildcards, role
+//   inheritance), and named ABAC rules over params and vars
+// - enforcement before handlers, 403 problem+json with reason/missing, and
+//   authenticate() requiring credentials on authz routes
+// - unknown rule names fail closed
+// - cx actions wrapped by policy.cxActions(): 403 results and handler skipped
+// - authz.denied audit events for routes and actions
+// - permission matrix and its Markdown rendering
+// - routes of mount()ed child apps: enforced by the parent's middleware
+//   (with the child's params) and listed in the matrix
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import {
+  actionSchemas,
+  createCx,
+  type CxActionHandlers,
+} from "./interaction-html.ts";
+import { CxMiddlewareBuilder, decodeCxEnvelope } from "./interaction.ts";
+import {
+  apiKey,
+  apiKeyTable,
+  authenticate,
+  type AuthVars,
+} from "./http-auth.ts";
+import {
+  type AuthzAuditEvent,
+  createAuthzPolicy,
+  formatAuthzMatrix,
+} from "./http-authz.ts";
+
+type State = { owners: Record<string, string> };
+type Vars = AuthVars<Record<string, unknown>>;
+
+const setup = () => {
+  const state: State = { owners: { p1: "olga" } };
+  const audit: AuthzAuditEvent[] = [];
+  const policy = createAuthzPolicy<State, Vars>({
+    roles: {
+      viewer: { permissions: ["reports:read"] },
+      editor: { inherits: ["viewer"], permissions: ["reports:write"] },
+      admin: { inherits: ["editor"], permissions: ["*"] },
+    },
+    rules: {
+      ownsProject: ({ subject, state, params }) =>
+        state.owners[params.id] === subject.id,
+    },
+    audit: (e) => {
+      audit.push(e);
+    },
+  });
+
+  const users = [
+    { key: "k-viewer", subject: "vera", claims: { roles: ["viewer"] } },
+    { key: "k-editor", subject: "ed", claims: { roles: ["editor"] } },
+    { key: "k-admin", subject: "ada", claims: { roles: "admin" } },
+    {
+      key: "k-owner",
+      subject: "olga",
+      claims: { roles: [], scope: "projects:read" },
+    },
+  ];
+  const app = Application.sharedState<State, Vars>(state);
+  app.use(authenticate({
+    strategies: [
+      apiKey({ verify: apiKeyTable<Record<string, unknown>>(users) }),
+    ],
+  }));
+  app.use(policy.middleware());
+  app.get("/health", (c) => c.text("ok"));
+  app.get(
+    "/reports",
+    { meta: { authz: { permissions: ["reports:read"] } } },
+    (c) => c.text("reports"),
+  );
+  app.post(
+    "/reports",
+    { meta: { authz: { permissions: ["reports:read", "reports:write"] } } },
+    (c) => c.text("saved"),
+  );
+  app.get(
+    "/admin",
+    { meta: { auth: "apiKey", authz: { roles: ["admin"] } } },
+    (c) => c.text("admin"),
+  );
+  app.get(
+    "/projects/:id",
+    {
+      meta: {
+        authz: { permissions: ["projects:read"], rules: ["ownsProject"] },
+      },
+    },
+    (c) => c.text(`project ${c.params.id}`),
+  );
+  app.get(
+    "/typo",
+    { meta: { authz: { rules: ["ownsProjekt"] } } },
+    (c) => c.text("never"),
+  );
+
+  const as = (key: string) => ({ headers: { "x-api-key": key } });
+  return { state, audit, policy, app, client: testClient(app), as };
+};
+
+Deno.test("http-authz: route requirements", async () => {
+  const { audit, client, as } = setup();
+
+  assertEquals(await (await client.get("/health")).text(), "ok");
+  // authz routes require credentials via authenticate().
+  assertEquals((await client.get("/reports")).status, 401);
+
+  assertEquals(
+    await (await client.get("/reports", as("k-viewer"))).text(),
+    "reports",
+  );
+  const denied = await client.post("/reports", as("k-viewer"));
+  assertEquals(denied.status, 403);
+  const problem = await denied.problem();
+  assertEquals(problem.type, "urn:continuux:problem:forbidden");
+  assertEquals(problem.reason, "missing-permission");
+  assertEquals(problem.missing, ["reports:write"]);
+  assertEquals(
+    await (await client.post("/reports", as("k-editor"))).text(),
+    "saved",
+  );
+
+  // Role inheritance and "*" wildcards.
+  assertEquals((await client.get("/admin", as("k-editor"))).status, 403);
+  assertEquals(
+    await (await client.get("/admin", as("k-admin"))).text(),
+    "admin",
+  );
+  assertEquals((await client.get("/projects/p1", as("k-admin"))).status, 403);
+
+  // ABAC: scope-granted permission plus ownership of the :id param.
+  assertEquals(
+    await (await client.get("/projects/p1", as("k-owner"))).text(),
+    "project p1",
+  );
+  const other = await client.get("/projects/p2", as("k-owner"));
+  assertEquals(other.status, 403);
+  assertEquals((await other.problem()).reason, "rule-failed");
+
+  const typo = await client.get("/typo", as("k-admin"));
+  assertEquals((await typo.problem()).reason, "unknown-rule");
+
+  assertEquals(audit.length, 5);
+  const first = audit[0];
+  assertEquals(first.type, "authz.denied");
+  assertEquals(first.subject, "vera");
+  assertEquals(first.target, { kind: "route", name: "POST /reports" });
+  assertEquals(first.method, "POST");
+  assertEquals(first.path, "/reports");
+  assert(first.requestId);
+  assertEquals(audit[3].target.name, "GET /projects/:id");
+  assertEquals(audit[3].missing, ["ownsProject"]);
+});
+
+Deno.test("http-authz: cx actions and permission matrix", async () => {
+  const { audit, policy, app, client, as, state } = setup();
+  type ServerEvents = { message: string; js: string };
+  const actions = actionSchemas({
+    archive: decodeCxEnvelope,
+    ping: decodeCxEnvelope,
+  });
+  const cx = createCx<State, Vars, typeof actions, ServerEvents>(actions);
+  const builder = new CxMiddlewareBuilder<ServerEvents>({
+    hub: cx.server.sseHub(),
+  });
+  let archived = 0;
+  const plain: CxActionHandlers<
+    State,
+    Vars,
+    typeof actions,
+    ServerEvents,
+    "action"
+  > = {
+    archive: () => {
+      archived++;
+      return { ok: true };
+    },
+    ping: () => ({ ok: true }),
+  };
+  app.use(builder.middleware<State, Vars, typeof actions, "action">({
+    interaction: {
+      cx,
+      handlers: policy.cxActions(plain, {
+        archive: { roles: ["editor", "admin"] },
+      }),
+    },
+  }));
+
+  assertEquals((await client.cx("action:ping")).status, 204);
+  const denied = await client.cx("action:archive", as("k-viewer"));
+  assertEquals(denied.status, 403);
+  const problem = await denied.problem();
+  assertEquals(problem.reason, "missing-role");
+  assertEquals(problem.action, "archive");
+  assertEquals(archived, 0);
+  assertEquals(audit.at(-1)!.target, { kind: "action", name: "archive" });
+  assertEquals((await client.cx("action:archive", as("k-editor"))).status, 204);
+  assertEquals(archived, 1);
+  assert(state.owners.p1);
+
+  const matrix = policy.matrix(app);
+  assertEquals(matrix.roles, ["viewer", "editor", "admin"]);
+  const row = (name: string) => matrix.rows.find((r) => r.name === name)!;
+  assertEquals(row("GET /health").anonymous, true);
+  assertEquals(row("GET /reports").access, {
+    viewer: "allow",
+    editor: "allow",
+    admin: "allow",
+  });
+  assertEquals(row("POST /reports").access.viewer, "deny");
+  assertEquals(row("GET /admin").access, {
+    viewer: "deny",
+    editor: "deny",
+    admin: "allow",
+  });
+  assertEquals(row("GET /projects/:id").access.admin, "conditional");
+  assertEquals(row("archive").kind, "action");
+  assertEquals(row("archive").access.viewer, "deny");
+
+  const text = formatAuthzMatrix(matrix);
+  assertStringIncludes(
+    text,
+    "| target | requirement | anonymous | viewer | editor | admin |\n",
+  );
+  assertStringIncludes(
+    text,
+    "| GET /admin | roles: admin | deny | deny | deny | allow |",
+  );
+  assertStringIncludes(
+    text,
+    "| cx archive | roles: editor or admin | deny | deny | allow | allow |",
+  );
+});
+
+Deno.test("http-authz: routes in mounted child apps", async () => {
+  const { state, policy, app, client, as } = setup();
+  const child = Application.sharedState<State, Vars>(state);
+  child.get(
+    "/secret",
+    { meta: { authz: { roles: ["admin"] } } },
+    (c) => c.text("SECRET"),
+  );
+  child.get(
+    "/projects/:id",
+    {
+      meta: {
+        authz: { permissions: ["projects:read"], rules: ["ownsProject"] },
+      },
+    },
+    (c) => c.text(`child project ${c.params.id}`),
+  );
+  const grandchild = Application.sharedState<State, Vars>(state);
+  grandchild.delete(
+    "/purge",
+    { meta: { authz: { permissions: ["reports:write"] } } },
+    (c) => c.text("purged"),
+  );
+  child.mount("/ops", grandchild);
+  app.mount("/admin", child);
+
+  assertEquals((await client.get("/admin/secret")).status, 401);
+  const denied = await client.get("/admin/secret", as("k-viewer"));
+  assertEquals(denied.status, 403);
+  assertEquals((await denied.problem()).reason, "missing-role");
+  assertEquals(
+    await (await client.get("/admin/secret", as("k-admin"))).text(),
+    "SECRET",
+  );
+  // Rules see the child's params.
+  assertEquals(
+    await (await client.get("/admin/projects/p1", as("k-owner"))).text(),
+    "child project p1",
+  );
+  assertEquals(
+    (await client.get("/admin/projects/p2", as("k-owner"))).status,
+    403,
+  );
+  assertEquals((await client.delete("/admin/ops/purge")).status, 401);
+  assertEquals(
+    (await client.delete("/admin/ops/purge", as("k-viewer"))).status,
+    403,
+  );
+  assertEquals(
+    await (await client.delete("/admin/ops/purge", as("k-editor"))).text(),
+    "purged",
+  );
+
+  const names = policy.matrix(app).rows.map((r) => r.name);
+  assert(names.includes("GET /admin/secret"));
+  assert(names.includes("GET /admin/projects/:id"));
+  assert(names.includes("DELETE /admin/ops/purge"));
+  assertEquals(
+    policy.matrix(app).rows.find((r) => r.name === "GET /admin/secret")!
+      .access,
+    { viewer: "deny", editor: "deny", admin: "allow" },
+  );
+});
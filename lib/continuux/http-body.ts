@@ -0,0 +1,139 @@
+/**
+ * lib/continuux/http-body.ts
+ *
+ * Body helpers shared by the HTTP middleware modules (compression, ETags,
+ * the response cache, idempotency, CSRF, metrics, tracing), so each one
+ * recognizes SSE and buffers bodies the same way. Internal: http.ts does
+ * not re-export this module.
+ */
+
+/**
+ * True for `text/event-stream` (SSE) responses, regardless of case or
+ * media-type parameters.
+ */
+export const isEventStream = (res: { headers: Headers }): boolean =>
+  /^\s*text\/event-stream\s*(?:;|$)/i.test(
+    res.headers.get("content-type") ?? "",
+  );
+
+/**
+ * Buffer up to `max` bytes. Returns the bytes, or (when the body is larger)
+ * a stream that replays what was read followed by the remainder.
+ */
+export const readUpTo = async (
+  body: ReadableStream<Uint8Array<ArrayBuffer>>,
+  max: number,
+): Promise<
+  | { bytes: Uint8Array<ArrayBuffer> }
+  | { stream: ReadableStream<Uint8Array<ArrayBuffer>> }
+> => {
+  const reader = body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let size = 0;
+  while (true) {
+    const r = await reader.read();
+    if (r.done) break;
+    chunks.push(r.value);
+    size += r.value.byteLength;
+    if (size > max) {
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk);
+          },
+          async pull(controller) {
+            const next = await reader.read();
+            if (next.done) controller.close();
+            else controller.enqueue(next.value);
+          },
+          cancel: (reason) => reader.cancel(reason),
+        }),
+      };
+    }
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes };
+};
+
+/**
+ * Read at most `limit` bytes of a request body from a clone, so the handler
+ * still streams the whole body. The clone is cancelled without awaiting: a
+ * tee branch's cancel settles only once the other branch is done too.
+ */
+export const requestPrefix = async (
+  req: Request,
+  limit: number,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const reader = req.clone().body?.getReader();
+  const prefix = new Uint8Array(limit);
+  let size = 0;
+  if (!reader) return prefix.subarray(0, 0);
+  try {
+    while (size < limit) {
+      const r = await reader.read();
+      if (r.done) break;
+      const take = r.value.subarray(0, limit - size);
+      prefix.set(take, size);
+      size += take.byteLength;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return prefix.subarray(0, size);
+};
+
+export type StreamEnd = "done" | "error" | "cancel";
+
+/**
+ * Pass a response body through unchanged while observing it: `chunk` sees
+ * each piece as it is sent, and `end` runs exactly once when the stream
+ * finishes, fails, or is cancelled by the client (immediately for responses
+ * without a body). Pulls one chunk at a time, so nothing is read ahead.
+ */
+export const watchStream = (
+  res: Response,
+  watch: {
+    chunk?: (bytes: Uint8Array) => void;
+    end: (how: StreamEnd, err?: unknown) => void;
+  },
+): Response => {
+  if (!res.body) {
+    watch.end("done");
+    return res;
+  }
+  let ended = false;
+  const end = (how: StreamEnd, err?: unknown) => {
+    if (!ended) {
+      ended = true;
+      watch.end(how, err);
+    }
+  };
+  const reader = res.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end("done");
+          controller.close();
+          return;
+        }
+        watch.chunk?.(value);
+        controller.enqueue(value);
+      } catch (err) {
+        end("error", err);
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      end("cancel");
+      return reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+  return new Response(body, res);
+};
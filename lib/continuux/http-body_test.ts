@@ -0,0 +1,87 @@
+// lib/continuux/http-body_test.ts
+//
+// Tests for http-body.ts.
+//
+// Covered behaviors:
+// - isEventStream ignores case and parameters but not look-alike types
+// - readUpTo returns small bodies whole and replays large ones as a stream
+// - requestPrefix reads a bounded prefix and leaves the request body whole
+// - watchStream reports chunks and ends exactly once (done or cancel)
+
+import { assert, assertEquals } from "@std/assert";
+import {
+  isEventStream,
+  readUpTo,
+  requestPrefix,
+  watchStream,
+} from "./http-body.ts";
+
+const withType = (type: string) =>
+  new Response(null, { headers: { "content-type": type } });
+
+const bytesOf = (...chunks: string[]) => {
+  const enc = new TextEncoder();
+  return new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      for (const c of chunks) controller.enqueue(enc.encode(c));
+      controller.close();
+    },
+  });
+};
+
+Deno.test("http-body: isEventStream", () => {
+  for (
+    const type of [
+      "text/event-stream",
+      "Text/Event-Stream; charset=utf-8",
+      " text/event-stream;charset=UTF-8",
+    ]
+  ) {
+    assert(isEventStream(withType(type)), type);
+  }
+  for (const type of ["text/event-streams", "text/html", ""]) {
+    assert(!isEventStream(withType(type)), type);
+  }
+});
+
+Deno.test("http-body: readUpTo", async () => {
+  const small = await readUpTo(bytesOf("ab", "cd"), 4);
+  assert("bytes" in small);
+  assertEquals(new TextDecoder().decode(small.bytes), "abcd");
+
+  const large = await readUpTo(bytesOf("ab", "cd", "ef"), 3);
+  assert("stream" in large);
+  assertEquals(await new Response(large.stream).text(), "abcdef");
+});
+
+Deno.test("http-body: requestPrefix", async () => {
+  const req = new Request("http://localhost/", {
+    method: "POST",
+    body: bytesOf("abc", "def"),
+  });
+  assertEquals(new TextDecoder().decode(await requestPrefix(req, 4)), "abcd");
+  assertEquals(await req.text(), "abcdef");
+  const empty = await requestPrefix(new Request("http://localhost/"), 4);
+  assertEquals(empty.byteLength, 0);
+});
+
+Deno.test("http-body: watchStream", async () => {
+  const ends: string[] = [];
+  let seen = 0;
+  const read = watchStream(new Response(bytesOf("a", "bc")), {
+    chunk: (b) => (seen += b.byteLength),
+    end: (how) => ends.push(how),
+  });
+  assertEquals(await read.text(), "abc");
+  assertEquals(seen, 3);
+
+  const cancelled = watchStream(new Response(bytesOf("a", "b")), {
+    end: (how) => ends.push(how),
+  });
+  const reader = cancelled.body!.getReader();
+  await reader.read();
+  await reader.cancel();
+
+  watchStream(new Response(null), { end: (how) => ends.push(how) });
+  assertEquals(ends, ["done", "cancel", "done"]);
+});
@@ -0,0 +1,335 @@
+/**
+ * lib/continuux/http-compress.ts
+ *
+ * Response compression for ContinuUX HTTP applications.
+ *
+ * Features:
+ * - Negotiates `Accept-Encoding` (q-values, `*`, `identity;q=0`) against the
+ *   encodings the runtime's CompressionStream supports: br, gzip, deflate
+ * - Streams bodies through CompressionStream (no buffering in the middleware)
+ * - Never touches `text/event-stream` (sseSession, cx SSE), already-encoded,
+ *   ranged, bodiless, or `Cache-Control: no-transform` responses
+ * - Size threshold and content-type allowlist
+ * - Appends `Vary: Accept-Encoding`, drops `Content-Length`, and weakens
+ *   strong ETags on compressed responses
+ * - compress(): middleware for `app.use(...)`
+ * - compressTransform(): the same policy as an HttpTransform for
+ *   httpFsRoutes / httpProxy `transforms` pipelines
+ */
+
+import type { HttpTransform, Middleware, VarsRecord } from "./http.ts";
+import { isEventStream } from "./http-body.ts";
+
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+export type CompressOptions = {
+  /**
+   * Encodings to offer, in server preference order (used to break q-value
+   * ties). Unsupported ones are dropped. Default ["br", "gzip", "deflate"].
+   */
+  encodings?: readonly CompressionEncoding[];
+  /**
+   * Minimum body size in bytes. Responses with a smaller Content-Length are
+   * sent as-is; without Content-Length, up to `threshold` bytes are read
+   * ahead to decide, then the rest keeps streaming. Default 1024.
+   */
+  threshold?: number;
+  /**
+   * Content types eligible for compression (matched against the media type,
+   * without parameters). Strings ending in "/" or "/*" match a whole family.
+   * Default: text/*, JSON, JavaScript, XML, SVG, wasm.
+   */
+  contentTypes?: readonly string[];
+};
+
+const formatOf: Record<CompressionEncoding, string> = {
+  br: "brotli",
+  gzip: "gzip",
+  deflate: "deflate",
+};
+
+const defaultContentTypes = [
+  "text/*",
+  "application/json",
+  "application/*+json",
+  "application/javascript",
+  "application/xml",
+  "application/*+xml",
+  "image/svg+xml",
+  "application/wasm",
+] as const;
+
+let supportCache: Set<CompressionEncoding> | undefined;
+
+/** Encodings the current runtime's CompressionStream can produce. */
+export const supportedEncodings = (): ReadonlySet<CompressionEncoding> => {
+  if (supportCache) return supportCache;
+  supportCache = new Set();
+  for (const enc of Object.keys(formatOf) as CompressionEncoding[]) {
+    try {
+      new CompressionStream(formatOf[enc] as CompressionFormat);
+      supportCache.add(enc);
+    } catch {
+      // not available in this runtime
+    }
+  }
+  return supportCache;
+};
+
+/**
+ * Pick an encoding from an Accept-Encoding header. Returns undefined when
+ * identity should be sent (nothing acceptable or no header).
+ */
+export const negotiateEncoding = (
+  acceptEncoding: string | null | undefined,
+  offered: readonly CompressionEncoding[],
+): CompressionEncoding | undefined => {
+  if (!acceptEncoding) return undefined;
+  const q = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [rawName, ...params] = part.trim().split(";");
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+    let weight = 1;
+    for (const p of params) {
+      const m = /^\s*q\s*=\s*([0-9.]+)\s*$/i.exec(p);
+      if (m) weight = Number(m[1]);
+    }
+    if (Number.isFinite(weight)) q.set(name, weight);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestQ = 0;
+  for (const enc of offered) {
+    const weight = q.get(enc) ??
+      (enc === "gzip" ? q.get("x-gzip") : undefined) ??
+      q.get("*") ?? 0;
+    if (weight > bestQ) {
+      best = enc;
+      bestQ = weight;
+    }
+  }
+  return best;
+};
+
+const mediaTypeOf = (res: Response) =>
+  (res.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+
+const typeMatches = (type: string, patterns: readonly string[]) =>
+  patterns.some((p) => {
+    const pat = p.toLowerCase();
+    if (pat.endsWith("/*") || pat.endsWith("/")) {
+      return type.startsWith(pat.slice(0, pat.indexOf("/") + 1));
+    }
+    if (pat.includes("*")) {
+      const [pre, post] = pat.split("*");
+      return type.startsWith(pre) && type.endsWith(post);
+    }
+    return type === pat;
+  });
+
+const appendVary = (headers: Headers, token: string) => {
+  const vary = headers.get("vary");
+  if (!vary) return headers.set("vary", token);
+  const parts = vary.split(",").map((v) => v.trim().toLowerCase());
+  if (parts.includes("*") || parts.includes(token.toLowerCase())) return;
+  headers.set("vary", `${vary}, ${token}`);
+};
+
+type Policy = {
+  offered: CompressionEncoding[];
+  threshold: number;
+  contentTypes: readonly string[];
+};
+
+const policyOf = (opts: CompressOptions): Policy => {
+  const supported = supportedEncodings();
+  return {
+    offered: (opts.encodings ?? ["br", "gzip", "deflate"]).filter((e) =>
+      supported.has(e)
+    ),
+    threshold: opts.threshold ?? 1024,
+    contentTypes: opts.contentTypes ?? defaultContentTypes,
+  };
+};
+
+/**
+ * Whether the response is a candidate at all (independent of the client).
+ * Candidates get `Vary: Accept-Encoding` even when sent uncompressed.
+ */
+const isCandidate = (req: Request, res: Response, p: Policy) => {
+  if (req.method === "HEAD" || !res.body) return false;
+  if (res.status < 200 || res.status === 204 || res.status === 206) {
+    return false;
+  }
+  if (res.status === 304) return false;
+  const h = res.headers;
+  if (h.has("content-encoding") || h.has("content-range")) return false;
+  if (/\bno-transform\b/i.test(h.get("cache-control") ?? "")) return false;
+  if (isEventStream(res)) return false;
+  return typeMatches(mediaTypeOf(res), p.contentTypes);
+};
+
+const compressedHeaders = (
+  headers: Headers,
+  enc: CompressionEncoding,
+): Headers => {
+  const out = new Headers(headers);
+  out.set("content-encoding", enc);
+  out.delete("content-length");
+  appendVary(out, "Accept-Encoding");
+  const etag = out.get("etag");
+  if (etag && !etag.startsWith("W/")) out.set("etag", `W/${etag}`);
+  return out;
+};
+
+const withVary = (res: Response): Response => {
+  try {
+    appendVary(res.headers, "Accept-Encoding");
+    return res;
+  } catch {
+    const out = new Response(res.body, res);
+    appendVary(out.headers, "Accept-Encoding");
+    return out;
+  }
+};
+
+/**
+ * Read chunks until at least `min` bytes are buffered or the stream ends.
+ * Returns the buffered chunks plus a stream that replays them followed by
+ * whatever is left.
+ */
+const peek = async (
+  body: ReadableStream<Uint8Array<ArrayBuffer>>,
+  min: number,
+) => {
+  const reader = body.getReader();
+  const head: Uint8Array<ArrayBuffer>[] = [];
+  let size = 0;
+  let done = false;
+  while (size < min) {
+    const r = await reader.read();
+    if (r.done) {
+      done = true;
+      break;
+    }
+    head.push(r.value);
+    size += r.value.byteLength;
+  }
+  const stream = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      for (const chunk of head) controller.enqueue(chunk);
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const r = await reader.read();
+      if (r.done) controller.close();
+      else controller.enqueue(r.value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+  return { size, done, stream };
+};
+
+/**
+ * Compress a single response for a request, or return it unchanged (apart
+ * from `Vary`) when it is not eligible or the client accepts no offered
+ * encoding.
+ */
+export const compressResponse = (
+  req: Request,
+  res: Response,
+  opts: CompressOptions = {},
+): Promise<Response> => compressWith(req, res, policyOf(opts));
+
+const compressWith = async (
+  req: Request,
+  res: Response,
+  p: Policy,
+): Promise<Response> => {
+  if (!isCandidate(req, res, p)) return res;
+
+  const len = res.headers.get("content-length");
+  if (len !== null && Number(len) < p.threshold) return withVary(res);
+
+  const enc = negotiateEncoding(req.headers.get("accept-encoding"), p.offered);
+  if (!enc) return withVary(res);
+
+  const init = { status: res.status, statusText: res.statusText };
+  let body: ReadableStream<Uint8Array<ArrayBuffer>> = res.body!;
+  if (len === null && p.threshold > 0) {
+    const peeked = await peek(body, p.threshold);
+    if (peeked.done && peeked.size < p.threshold) {
+      return withVary(
+        new Response(peeked.stream, { ...init, headers: res.headers }),
+      );
+    }
+    body = peeked.stream;
+  }
+
+  const stream = new CompressionStream(formatOf[enc] as CompressionFormat);
+  return new Response(body.pipeThrough(stream), {
+    ...init,
+    headers: compressedHeaders(res.headers, enc),
+  });
+};
+
+/**
+ * Compression middleware. Register it early (before routes, fs routes, the
+ * proxy) so it sees their responses; SSE streams pass through untouched.
+ */
+export const compress = <State, Vars extends VarsRecord>(
+  opts: CompressOptions = {},
+): Middleware<State, Vars> => {
+  const policy = policyOf(opts);
+  return async (c, next) => await compressWith(c.req, await next(), policy);
+};
+
+/**
+ * The same policy as an HttpTransform. Transforms work on buffered bodies,
+ * so the threshold is checked against the actual size when Content-Length
+ * is absent. Put it last in a transforms list.
+ */
+export const compressTransform = <State, Vars extends VarsRecord>(
+  opts: CompressOptions = {},
+): HttpTransform<State, Vars> => {
+  const policy = policyOf(opts);
+  return async (ctx) => {
+    const res = ctx.response;
+    if (!isCandidate(ctx.req, res, policy)) return null;
+
+    // Return only the headers compression changes: applyTransforms keeps the
+    // rest (each Set-Cookie included) and drops Content-Length itself.
+    const vary = new Headers();
+    const prior = res.headers.get("vary");
+    if (prior) vary.set("vary", prior);
+    appendVary(vary, "Accept-Encoding");
+    const varyOnly = { headers: { vary: vary.get("vary")! } };
+
+    const len = res.headers.get("content-length");
+    if (len !== null && Number(len) < policy.threshold) return varyOnly;
+    const enc = negotiateEncoding(
+      ctx.req.headers.get("accept-encoding"),
+      policy.offered,
+    );
+    if (!enc) return varyOnly;
+
+    const raw = new Uint8Array(await res.arrayBuffer());
+    if (raw.byteLength < policy.threshold) {
+      return { ...varyOnly, body: raw };
+    }
+    const packed = await new Response(
+      new Blob([raw]).stream().pipeThrough(
+        new CompressionStream(formatOf[enc] as CompressionFormat),
+      ),
+    ).arrayBuffer();
+
+    const headers: Record<string, string> = {
+      ...varyOnly.headers,
+      "content-encoding": enc,
+    };
+    const etag = res.headers.get("etag");
+    if (etag && !etag.startsWith("W/")) headers.etag = `W/${etag}`;
+    return { body: new Uint8Array(packed), headers };
+  };
+};
@@ -0,0 +1,205 @@
+// lib/continuux/http-compress_test.ts
+//
+// Tests for http-compress.ts.
+//
+// Covered behaviors:
+// - Accept-Encoding negotiation (q-values, wildcard, server preference)
+// - gzip / br round-trips through the middleware with Vary + no Content-Length
+// - thresholds, content-type allowlist, and Vary on uncompressed candidates
+// - SSE, HEAD, already-encoded, and no-transform responses pass untouched
+// - strong ETags are weakened on compressed responses
+// - compressTransform inside the httpFsRoutes transforms pipeline
+// - compressTransform keeps every Set-Cookie header of the response
+
+import { assert, assertEquals } from "@std/assert";
+import { Application, applyTransforms, textResponse } from "./http.ts";
+import {
+  compress,
+  compressTransform,
+  negotiateEncoding,
+  supportedEncodings,
+} from "./http-compress.ts";
+import { httpFsRoutes } from "./http-fs-routes.ts";
+
+const big = "<p>Natural DS</p>\n".repeat(200);
+
+const inflate = async (res: Response, format: string) =>
+  await new Response(
+    res.body!.pipeThrough(
+      new DecompressionStream(format as CompressionFormat),
+    ),
+  ).text();
+
+Deno.test("http-compress: negotiateEncoding", () => {
+  const all = ["br", "gzip", "deflate"] as const;
+  assertEquals(negotiateEncoding(undefined, all), undefined);
+  assertEquals(negotiateEncoding("gzip, deflate, br", all), "br");
+  assertEquals(negotiateEncoding("gzip;q=1, br;q=0.5", all), "gzip");
+  assertEquals(negotiateEncoding("br;q=0, *", all), "gzip");
+  assertEquals(negotiateEncoding("identity", all), undefined);
+  assertEquals(negotiateEncoding("x-gzip", ["gzip"]), "gzip");
+  assertEquals(negotiateEncoding("GZIP ; q=0.8", all), "gzip");
+});
+
+Deno.test("http-compress: middleware", async (t) => {
+  const app = Application.sharedState({});
+  app.use(compress({ threshold: 512 }));
+  app.get("/page", () =>
+    new Response(big, {
+      headers: {
+        "content-type": "text/html; charset=utf-8",
+        "content-length": String(big.length),
+        etag: '"v1"',
+      },
+    }));
+  app.get("/small", (c) => c.text("tiny"));
+  app.get("/stream", () =>
+    new Response(
+      ReadableStream.from([big, big]).pipeThrough(new TextEncoderStream()),
+      { headers: { "content-type": "text/html" } },
+    ));
+  app.get("/png", () =>
+    new Response(new Uint8Array(4096), {
+      headers: { "content-type": "image/png" },
+    }));
+  app.get("/raw", () =>
+    new Response(big, {
+      headers: {
+        "content-type": "text/plain",
+        "cache-control": "no-transform",
+      },
+    }));
+  app.get("/events", (c) =>
+    c.sse<{ tick: number }>(async (session) => {
+      await session.sendWhenReady("tick", 1);
+      session.close();
+    }));
+
+  const get = (path: string, ae?: string, method = "GET") =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: ae ? { "accept-encoding": ae } : {},
+      }),
+    );
+
+  await t.step("gzip round-trip", async () => {
+    const r = await get("/page", "gzip");
+    assertEquals(r.headers.get("content-encoding"), "gzip");
+    assertEquals(r.headers.get("content-length"), null);
+    assertEquals(r.headers.get("vary"), "Accept-Encoding");
+    assertEquals(r.headers.get("etag"), 'W/"v1"');
+    assertEquals(await inflate(r, "gzip"), big);
+  });
+
+  await t.step("brotli preferred when offered", async () => {
+    if (!supportedEncodings().has("br")) return;
+    const r = await get("/page", "gzip, br");
+    assertEquals(r.headers.get("content-encoding"), "br");
+    assertEquals(await inflate(r, "brotli"), big);
+  });
+
+  await t.step("no acceptable encoding still varies", async () => {
+    const r = await get("/page");
+    assertEquals(r.headers.get("content-encoding"), null);
+    assertEquals(r.headers.get("vary"), "Accept-Encoding");
+    assertEquals(r.headers.get("etag"), '"v1"');
+    assertEquals(await r.text(), big);
+  });
+
+  await t.step("threshold and content-type allowlist", async () => {
+    const small = await get("/small", "gzip");
+    assertEquals(small.headers.get("content-encoding"), null);
+    assertEquals(small.headers.get("vary"), "Accept-Encoding");
+    assertEquals(await small.text(), "tiny");
+
+    // No Content-Length: decided after reading ahead, rest still streams.
+    const streamed = await get("/stream", "gzip");
+    assertEquals(streamed.headers.get("content-encoding"), "gzip");
+    assertEquals(await inflate(streamed, "gzip"), big + big);
+
+    const png = await get("/png", "gzip");
+    assertEquals(png.headers.get("content-encoding"), null);
+    assertEquals(png.headers.get("vary"), null);
+    await png.body?.cancel();
+  });
+
+  await t.step("no-transform, HEAD, and SSE pass through", async () => {
+    const raw = await get("/raw", "gzip");
+    assertEquals(raw.headers.get("content-encoding"), null);
+    await raw.body?.cancel();
+
+    const head = await get("/page", "gzip", "HEAD");
+    assertEquals(head.headers.get("content-encoding"), null);
+    await head.body?.cancel();
+
+    const sse = await get("/events", "gzip");
+    assert(sse.headers.get("content-type")!.startsWith("text/event-stream"));
+    assertEquals(sse.headers.get("content-encoding"), "identity");
+    assert((await sse.text()).includes("event: tick"));
+  });
+});
+
+Deno.test("http-compress: compressTransform in fs routes", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${root}/index.html`, big);
+    await Deno.writeTextFile(`${root}/tiny.html`, "hi");
+    const app = Application.sharedState({});
+    app.use(httpFsRoutes({
+      mounts: [{ mount: "/", root }],
+      etag: "strong",
+      transforms: [compressTransform()],
+    }));
+    app.notFound(() => textResponse("missing", 404));
+
+    const get = (path: string) =>
+      app.fetch(
+        new Request(`http://localhost${path}`, {
+          headers: { "accept-encoding": "gzip" },
+        }),
+      );
+
+    const page = await get("/");
+    assertEquals(page.headers.get("content-encoding"), "gzip");
+    assertEquals(page.headers.get("content-length"), null);
+    assert(page.headers.get("etag")?.startsWith("W/"));
+    assertEquals(await inflate(page, "gzip"), big);
+
+    const tiny = await get("/tiny");
+    assertEquals(tiny.status, 200);
+    assertEquals(tiny.headers.get("content-encoding"), null);
+    assertEquals(tiny.headers.get("vary"), "Accept-Encoding");
+    assertEquals(await tiny.text(), "hi");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("http-compress: compressTransform keeps Set-Cookie", async () => {
+  const app = Application.sharedState({});
+  app.use(async (c, next) =>
+    await applyTransforms({ ...c, response: await next() }, [
+      compressTransform(),
+    ])
+  );
+  app.get("/", () => {
+    const res = textResponse(big);
+    res.headers.append("set-cookie", "sid=abc; Path=/; HttpOnly");
+    res.headers.append("set-cookie", "theme=dark; Path=/");
+    return res;
+  });
+
+  const res = await app.fetch(
+    new Request("http://localhost/", {
+      headers: { "accept-encoding": "gzip" },
+    }),
+  );
+  assertEquals(res.headers.get("content-encoding"), "gzip");
+  assertEquals(res.headers.get("vary"), "Accept-Encoding");
+  assertEquals(res.headers.getSetCookie(), [
+    "sid=abc; Path=/; HttpOnly",
+    "theme=dark; Path=/",
+  ]);
+  assertEquals(await inflate(res, "gzip"), big);
+});
@@ -0,0 +1,359 @@
+/**
+ * lib/continuux/http-csrf.ts
+ *
+ * CSRF protection middleware for ContinuUX HTTP applications.
+ *
+ * Features:
+ * - One per-client token, exposed to handlers as `c.vars.csrf`
+ * - Pluggable token stores:
+ *   - csrfCookieStore(): double-submit (token in an HttpOnly cookie, the
+ *     page echoes it back), optionally HMAC-signed via app.cookieSecrets()
+ *   - csrfSessionStore(): synchronizer token kept in http-session.ts data
+ * - Unsafe methods must echo the token in a header (cx envelope POSTs) or a
+ *   form field (dialog forms); compared in constant time. Urlencoded bodies
+ *   are read whole; multipart bodies only as far as their first part (at
+ *   most 16 KiB), so uploads still stream to http-multipart.ts
+ * - HTML responses get the hidden field injected into every same-origin
+ *   `<form method="post">` (as its first child, so it is also the first
+ *   multipart part), including streamed pages
+ * - Optional Origin/Referer check against the request origin and an
+ *   allow-list of trusted origins
+ *
+ * Wiring:
+ * - Dialog forms: nothing to do while `injectFormField` is on; otherwise
+ *   `dialog.render({ hiddenFields: c.vars.csrf.hiddenFields() })`
+ * - cx UA: `cx.html.bootModuleScriptTag({ headers: c.vars.csrf.headers() })`
+ *   (or `bootModuleSnippet`) so every envelope POST from browser-ua-aide.js
+ *   carries the token header
+ */
+
+import {
+  type CookieOptions,
+  type HandlerCtx,
+  type HttpMethod,
+  HttpProblem,
+  type Middleware,
+  type VarsRecord,
+} from "./http.ts";
+import { requestPrefix } from "./http-body.ts";
+import { multipartBoundary, multipartParts } from "./http-multipart.ts";
+import type { SessionVars } from "./http-session.ts";
+import * as h from "../natural-html/elements.ts";
+
+export type CsrfTokenStore<State, Vars extends VarsRecord> = {
+  read: (
+    c: HandlerCtx<string, State, Vars>,
+  ) => string | undefined | Promise<string | undefined>;
+  write: (
+    c: HandlerCtx<string, State, Vars>,
+    token: string,
+  ) => void | Promise<void>;
+};
+
+/** Handle exposed as `c.vars.csrf`. */
+export type CsrfHandle = {
+  readonly token: string;
+  readonly headerName: string;
+  readonly fieldName: string;
+  /** For `DialogRenderOptions.hiddenFields`. */
+  hiddenFields: () => Record<string, string>;
+  /** For `bootModuleSnippet({ headers })` or fetch calls. */
+  headers: () => Record<string, string>;
+};
+
+export type CsrfVars = { csrf: CsrfHandle };
+
+export type CsrfFailureReason =
+  | "missing-token"
+  | "token-mismatch"
+  | "origin-mismatch";
+
+export type CsrfOptions<State, Vars extends VarsRecord> = {
+  /** Default: csrfCookieStore(). */
+  store?: CsrfTokenStore<State, Vars>;
+  /** Default "x-csrf-token". */
+  headerName?: string;
+  /** Default "_csrf". */
+  fieldName?: string;
+  /** Methods that are never checked. Default GET, HEAD, OPTIONS. */
+  safeMethods?: readonly HttpMethod[];
+  /**
+   * Reject unsafe requests whose Origin (or Referer) is neither the request
+   * origin nor listed here. Requests with neither header are allowed through
+   * to the token check. Default true.
+   */
+  checkOrigin?: boolean;
+  trustedOrigins?: readonly string[];
+  /**
+   * Add the hidden token field to same-origin POST forms in HTML responses.
+   * Register csrf() after etag() and compression so they see the final
+   * body. Default true.
+   */
+  injectFormField?: boolean;
+  /** Skip protection (e.g. webhook endpoints authenticated otherwise). */
+  ignore?: (c: HandlerCtx<string, State, Vars>) => boolean;
+  onFailure?: (
+    c: HandlerCtx<string, State, Vars>,
+    reason: CsrfFailureReason,
+  ) => Response | Promise<Response>;
+};
+
+const newToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-")
+    .replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const tokenRe = /^[A-Za-z0-9_-]{43}$/;
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Double-submit store: the token lives in a cookie the page cannot be
+ * trusted to set, and must be echoed back in a header or form field.
+ * With `signed: true` the cookie is HMAC-signed using app.cookieSecrets().
+ */
+export const csrfCookieStore = <State, Vars extends VarsRecord>(
+  opts: {
+    cookieName?: string;
+    cookie?: Omit<CookieOptions, "maxAge" | "expires">;
+    signed?: boolean;
+  } = {},
+): CsrfTokenStore<State, Vars> => {
+  const name = opts.cookieName ?? "csrf";
+  const cookie: CookieOptions = {
+    path: "/",
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    ...opts.cookie,
+  };
+  return {
+    read: async (c) =>
+      opts.signed ? await c.getSignedCookie(name) : c.getCookie(name),
+    write: async (c, token) => {
+      if (opts.signed) await c.setSignedCookie(name, token, cookie);
+      else c.setCookie(name, token, cookie);
+    },
+  };
+};
+
+export type CsrfSessionData = { csrfToken?: string };
+
+/**
+ * Synchronizer store: the token is kept in the server-side session (see
+ * http-session.ts), so nothing token-related is sent as a cookie.
+ */
+export const csrfSessionStore = <
+  State,
+  Vars extends VarsRecord & SessionVars<CsrfSessionData>,
+>(): CsrfTokenStore<State, Vars> => ({
+  read: (c) => c.vars.session.data.csrfToken,
+  write: (c, token) => {
+    c.vars.session.data.csrfToken = token;
+  },
+});
+
+const isUrlencodedBody = (req: Request) =>
+  /^application\/x-www-form-urlencoded\b/i.test(
+    req.headers.get("content-type") ?? "",
+  );
+
+const FIRST_PART_BYTES = 16 * 1024;
+
+/**
+ * The token from a multipart body's first part, parsed from a bounded prefix
+ * so the handler still streams the whole upload.
+ */
+const firstPartToken = async (req: Request, fieldName: string) => {
+  let prefix: Uint8Array<ArrayBuffer>;
+  try {
+    prefix = await requestPrefix(req, FIRST_PART_BYTES);
+  } catch {
+    return undefined;
+  }
+  try {
+    const parts = multipartParts(
+      new Request(req.url, {
+        method: "POST",
+        headers: { "content-type": req.headers.get("content-type")! },
+        body: prefix,
+      }),
+      { maxFieldBytes: 1024, maxParts: 1 },
+    );
+    for await (const part of parts) {
+      return part.kind === "field" && part.name === fieldName
+        ? part.value
+        : undefined;
+    }
+  } catch {
+    // a first part cut off by the prefix, or malformed: treated as missing
+  }
+  return undefined;
+};
+
+const formTagRe = /<form\b[^>]*>/gi;
+
+const attrValue = (tag: string, name: string) => {
+  const m = new RegExp(
+    `\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`,
+    "i",
+  ).exec(tag);
+  return m ? (m[1] ?? m[2] ?? m[3]) : undefined;
+};
+
+/**
+ * Stream `body` through `inject`, holding back an unfinished tag at each
+ * chunk end so a `<form ...>` split across chunks is still seen whole.
+ */
+const rewriteHtml = (
+  body: ReadableStream<Uint8Array>,
+  inject: (html: string) => string,
+) => {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let carry = "";
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, ctl) {
+        const text = carry + decoder.decode(chunk, { stream: true });
+        const open = text.lastIndexOf("<");
+        const cut = open > text.lastIndexOf(">") ? open : text.length;
+        carry = text.slice(cut);
+        if (cut > 0) ctl.enqueue(encoder.encode(inject(text.slice(0, cut))));
+      },
+      flush(ctl) {
+        const text = carry + decoder.decode();
+        if (text) ctl.enqueue(encoder.encode(inject(text)));
+      },
+    }),
+  );
+};
+
+const originOf = (req: Request): string | undefined => {
+  const origin = req.headers.get("origin");
+  if (origin && origin !== "null") return origin;
+  const referer = req.headers.get("referer");
+  if (!referer) return origin ?? undefined;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return "null";
+  }
+};
+
+/**
+ * CSRF middleware. Register after session middleware when using
+ * csrfSessionStore(), and before routes or cx middleware that accept POSTs.
+ */
+export const csrf = <State, Vars extends VarsRecord & CsrfVars>(
+  opts: CsrfOptions<State, Vars> = {},
+): Middleware<State, Vars> => {
+  const store = opts.store ?? csrfCookieStore<State, Vars>();
+  const headerName = (opts.headerName ?? "x-csrf-token").toLowerCase();
+  const fieldName = opts.fieldName ?? "_csrf";
+  const safe = new Set<string>(opts.safeMethods ?? ["GET", "HEAD", "OPTIONS"]);
+  const checkOrigin = opts.checkOrigin ?? true;
+  const trusted = new Set(opts.trustedOrigins ?? []);
+  const injectFormField = opts.injectFormField ?? true;
+  const fail = opts.onFailure ??
+    ((c, reason: CsrfFailureReason) =>
+      new HttpProblem(403, {
+        type: "urn:continuux:problem:csrf",
+        detail: `CSRF check failed: ${reason}`,
+        extensions: { reason },
+      }).toResponse(c.req));
+
+  const withFormField = (
+    c: HandlerCtx<string, State, Vars>,
+    res: Response,
+    token: string,
+  ) => {
+    if (
+      !injectFormField || !res.body ||
+      !/^text\/html\b/i.test(res.headers.get("content-type") ?? "") ||
+      res.headers.has("content-encoding")
+    ) {
+      return res;
+    }
+    const field = h.render(
+      h.input({ name: fieldName, type: "hidden", value: token }),
+    );
+    const inject = (html: string) =>
+      html.replace(formTagRe, (tag, at: number) => {
+        if ((attrValue(tag, "method") ?? "get").toLowerCase() !== "post") {
+          return tag;
+        }
+        // Never hand the token to another origin's form action.
+        try {
+          const action = attrValue(tag, "action") ?? "";
+          if (new URL(action, c.url).origin !== c.url.origin) return tag;
+        } catch {
+          return tag;
+        }
+        return html.startsWith(field, at + tag.length) ? tag : tag + field;
+      });
+    const headers = new Headers(res.headers);
+    headers.delete("content-length");
+    return new Response(rewriteHtml(res.body, inject), {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    });
+  };
+
+  return async (c, next) => {
+    if (opts.ignore?.(c)) return await next();
+
+    const stored = await store.read(c);
+    const token = stored && tokenRe.test(stored) ? stored : newToken();
+    if (token !== stored) await store.write(c, token);
+
+    c.setVar(
+      "csrf",
+      {
+        token,
+        headerName,
+        fieldName,
+        hiddenFields: () => ({ [fieldName]: token }),
+        headers: () => ({ [headerName]: token }),
+      } as Vars["csrf"],
+    );
+
+    if (safe.has(c.req.method.toUpperCase())) {
+      return withFormField(c, await next(), token);
+    }
+
+    if (checkOrigin) {
+      const origin = originOf(c.req);
+      if (origin && origin !== c.url.origin && !trusted.has(origin)) {
+        return await fail(c, "origin-mismatch");
+      }
+    }
+
+    // A freshly minted token cannot match anything the client sent.
+    if (token !== stored) return await fail(c, "missing-token");
+
+    let sent = c.req.headers.get(headerName) ?? undefined;
+    if (!sent && isUrlencodedBody(c.req)) {
+      try {
+        const v = (await c.req.clone().formData()).get(fieldName);
+        if (typeof v === "string") sent = v;
+      } catch {
+        // unreadable body: treated as missing
+      }
+    }
+    if (!sent && multipartBoundary(c.req.headers.get("content-type"))) {
+      sent = await firstPartToken(c.req, fieldName);
+    }
+    if (!sent) return await fail(c, "missing-token");
+    if (!timingSafeEqual(sent, token)) return await fail(c, "token-mismatch");
+
+    return withFormField(c, await next(), token);
+  };
+};
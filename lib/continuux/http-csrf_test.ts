@@ -0,0 +1,274 @@
+// lib/continuux/http-csrf_test.ts
+//
+// Tests for http-csrf.ts.
+//
+// Covered behaviors:
+// - safe requests mint a token (cookie store) and expose c.vars.csrf
+// - unsafe requests need the token in the header, the urlencoded form
+//   field, or the first part of a multipart body (the handler still reads
+//   the whole upload)
+// - mismatched, missing, and cross-origin requests are rejected (403)
+// - synchronizer tokens via the session store, signed double-submit cookies
+// - the hidden field is injected into same-origin POST forms of HTML and
+//   streamed HTML responses, never into GET or cross-origin forms
+// - dialog hiddenFields, bootModuleSnippet, and cx.html.bootModuleScriptTag
+//   headers carry the token
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "@zod";
+import * as h from "../natural-html/elements.ts";
+import { createDialog, inputField } from "../natural-html/dialog.ts";
+import { Application } from "./http.ts";
+import {
+  csrf,
+  csrfCookieStore,
+  type CsrfSessionData,
+  csrfSessionStore,
+  type CsrfVars,
+} from "./http-csrf.ts";
+import {
+  memorySessionStore,
+  sessionMiddleware,
+  type SessionVars,
+} from "./http-session.ts";
+import { actionSchemas, createCx } from "./interaction-html.ts";
+import { userAgentAide } from "./interaction.ts";
+
+const cookieOf = (r: Response, name: string) => {
+  const set = r.headers.getSetCookie().find((v) => v.startsWith(`${name}=`));
+  return set ? set.slice(0, set.indexOf(";")) : undefined;
+};
+
+const buildApp = () => {
+  const app = Application.sharedState({}).withVars<CsrfVars>();
+  app.use(csrf({ trustedOrigins: ["https://admin.example"] }));
+  app.get("/form", (c) => c.json({ token: c.vars.csrf.token }));
+  app.post("/save", async (c) => {
+    const ct = c.req.headers.get("content-type") ?? "";
+    const name = ct.includes("form")
+      ? (await c.readFormData()).get("name")
+      : "json";
+    return c.text(`saved ${name}`);
+  });
+  return app;
+};
+
+Deno.test("http-csrf: double-submit cookie store", async (t) => {
+  const app = buildApp();
+  const first = await app.fetch(new Request("http://localhost/form"));
+  const { token } = await first.json();
+  const cookie = cookieOf(first, "csrf")!;
+  assertEquals(cookie, `csrf=${token}`);
+
+  const post = (headers: Record<string, string>, body?: BodyInit) =>
+    app.fetch(
+      new Request("http://localhost/save", { method: "POST", headers, body }),
+    );
+
+  await t.step("second GET reuses the token", async () => {
+    const r = await app.fetch(
+      new Request("http://localhost/form", { headers: { cookie } }),
+    );
+    assertEquals((await r.json()).token, token);
+    assertEquals(cookieOf(r, "csrf"), undefined);
+  });
+
+  await t.step("header token accepted", async () => {
+    const r = await post({ cookie, "x-csrf-token": token }, "{}");
+    assertEquals(await r.text(), "saved json");
+  });
+
+  await t.step(
+    "form field accepted; handler still reads the body",
+    async () => {
+      const form = new URLSearchParams({ _csrf: token, name: "ada" });
+      const r = await post(
+        { cookie, "content-type": "application/x-www-form-urlencoded" },
+        form,
+      );
+      assertEquals(await r.text(), "saved ada");
+    },
+  );
+
+  await t.step("multipart token is read from the first part", async () => {
+    const upload = new File(["x".repeat(64 * 1024)], "scan.txt");
+    const first = new FormData();
+    first.append("_csrf", token);
+    first.append("name", "ada");
+    first.append("scan", upload);
+    const r = await post({ cookie }, first);
+    assertEquals(await r.text(), "saved ada");
+
+    const late = new FormData();
+    late.append("scan", upload);
+    late.append("_csrf", token);
+    late.append("name", "ada");
+    const rejected = await post({ cookie }, late);
+    assertEquals(rejected.status, 403);
+    assertEquals((await rejected.json()).reason, "missing-token");
+
+    const header = await post({ cookie, "x-csrf-token": token }, late);
+    assertEquals(await header.text(), "saved ada");
+  });
+
+  await t.step("missing, wrong, or cookie-less tokens are 403", async () => {
+    for (
+      const headers of [
+        { cookie },
+        { cookie, "x-csrf-token": token.replace(/.$/, "A") + "x" },
+        { "x-csrf-token": token },
+      ]
+    ) {
+      const r = await post(headers as Record<string, string>);
+      assertEquals(r.status, 403, JSON.stringify(headers));
+      await r.body?.cancel();
+    }
+  });
+
+  await t.step("cross-origin rejected, trusted origin allowed", async () => {
+    const bad = await post({
+      cookie,
+      "x-csrf-token": token,
+      origin: "https://evil.example",
+    });
+    assertEquals(bad.status, 403);
+    assertStringIncludes(await bad.text(), "origin-mismatch");
+
+    const ok = await post({
+      cookie,
+      "x-csrf-token": token,
+      origin: "https://admin.example",
+    });
+    assertEquals(ok.status, 200);
+    await ok.body?.cancel();
+  });
+});
+
+Deno.test("http-csrf: synchronizer token in the session", async () => {
+  type Data = CsrfSessionData & { user?: string };
+  const app = Application.sharedState({}).withVars<
+    SessionVars<Data> & CsrfVars
+  >();
+  app.use(sessionMiddleware({
+    store: memorySessionStore<Data>(),
+    init: (): Data => ({}),
+  }));
+  app.use(csrf({ store: csrfSessionStore() }));
+  app.get("/", (c) => c.text(c.vars.csrf.token));
+  app.post("/", (c) => c.text("ok"));
+
+  const r = await app.fetch(new Request("http://localhost/"));
+  const token = await r.text();
+  const sid = cookieOf(r, "sid")!;
+  assertEquals(cookieOf(r, "csrf"), undefined);
+
+  const ok = await app.fetch(
+    new Request("http://localhost/", {
+      method: "POST",
+      headers: { cookie: sid, "x-csrf-token": token },
+    }),
+  );
+  assertEquals(await ok.text(), "ok");
+});
+
+Deno.test("http-csrf: signed cookies reject forged tokens", async () => {
+  const app = Application.sharedState({}).withVars<CsrfVars>();
+  app.cookieSecrets(["s1"]);
+  app.use(csrf({ store: csrfCookieStore({ signed: true }) }));
+  app.get("/", (c) => c.text(c.vars.csrf.token));
+  app.post("/", (c) => c.text("ok"));
+
+  const r = await app.fetch(new Request("http://localhost/"));
+  const token = await r.text();
+  const cookie = cookieOf(r, "csrf")!;
+  assert(cookie.startsWith(`csrf=${token}.`));
+
+  const ok = await app.fetch(
+    new Request("http://localhost/", {
+      method: "POST",
+      headers: { cookie, "x-csrf-token": token },
+    }),
+  );
+  assertEquals(ok.status, 200);
+  await ok.body?.cancel();
+
+  const forged = "A".repeat(43);
+  const bad = await app.fetch(
+    new Request("http://localhost/", {
+      method: "POST",
+      headers: { cookie: `csrf=${forged}`, "x-csrf-token": forged },
+    }),
+  );
+  assertEquals(bad.status, 403);
+  await bad.body?.cancel();
+});
+
+Deno.test("http-csrf: hidden field injection into HTML forms", async () => {
+  const dialog = createDialog("profile", z.object({ name: z.string() }))
+    .field("name", { label: "Name", renderer: inputField() })
+    .build();
+  const app = Application.sharedState({}).withVars<CsrfVars>();
+  app.use(csrf());
+  const page = () =>
+    h.render(h.body(
+      dialog.render({ action: "/profile", method: "post" }),
+      h.form({ method: "get", action: "/search" }),
+      h.form({ method: "POST", action: "https://other.example/hook" }),
+    ));
+  app.get("/page", (c) => c.html(page()));
+  app.get("/stream", (c) => {
+    const html = page();
+    const at = html.indexOf("<form") + 3;
+    return c.stream((async function* () {
+      yield html.slice(0, at);
+      yield html.slice(at);
+    })());
+  });
+  app.get("/json", (c) => c.json({ html: page() }));
+
+  for (const path of ["/page", "/stream"]) {
+    const r = await app.fetch(new Request(`http://localhost${path}`));
+    const token = cookieOf(r, "csrf")!.slice("csrf=".length);
+    const html = await r.text();
+    const field = `<input name="_csrf" type="hidden" value="${token}">`;
+    assertEquals(html.split(field).length, 2, path);
+    assertStringIncludes(html, `method="post">${field}`);
+  }
+
+  const json = await app.fetch(new Request("http://localhost/json"));
+  assert(!(await json.json()).html.includes("_csrf"));
+});
+
+Deno.test("http-csrf: dialog hidden fields and UA boot headers", async () => {
+  const dialog = createDialog("profile", z.object({ name: z.string() }))
+    .field("name", { label: "Name", renderer: inputField() })
+    .build();
+  const aide = userAgentAide();
+  const cx = createCx(actionSchemas({}));
+
+  const app = Application.sharedState({}).withVars<CsrfVars>();
+  app.use(csrf());
+  app.get("/profile", (c) =>
+    c.json({
+      token: c.vars.csrf.token,
+      html: h.render(
+        dialog.render({ hiddenFields: c.vars.csrf.hiddenFields() }),
+      ),
+      boot: aide.bootModuleSnippet({
+        headers: { ...c.vars.csrf.headers(), "x-note": "</script>" },
+      }),
+      tag: h.render(
+        cx.html.bootModuleScriptTag({ headers: c.vars.csrf.headers() }),
+      ),
+    }));
+
+  const r = await app.fetch(new Request("http://localhost/profile"));
+  const { token, html, boot, tag } = await r.json();
+  assertStringIncludes(
+    html,
+    `<input name="_csrf" type="hidden" value="${token}">`,
+  );
+  assertStringIncludes(boot, `"x-csrf-token":"${token}"`);
+  assert(!boot.includes("</script>"));
+  assertStringIncludes(tag, `"x-csrf-token":"${token}"`);
+});
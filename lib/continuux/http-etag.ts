@@ -0,0 +1,194 @@
+/**
+ * lib/continuux/http-etag.ts
+ *
+ * Conditional GET for dynamic handler responses (rendered Natural HTML,
+ * JSON views), complementing the file-based ETags in http-fs-routes.ts.
+ *
+ * Features:
+ * - Body-hash ETags (SHA-256, weak by default) for GET/HEAD 200 responses
+ * - Handler-supplied validators win: an `ETag` or `Last-Modified` header
+ *   already on the response is used as-is (no hashing)
+ * - `If-None-Match` (weak comparison, `*`) and `If-Modified-Since` (only when
+ *   there is no `If-None-Match`) answered with 304 via textResponse
+ * - Per-route policy via `RouteMeta.cache` (see RouteCachePolicy in http.ts),
+ *   including `cache: false` to opt out and a default Cache-Control
+ * - notModified(): early-exit helper so handlers with a cheap validator can
+ *   skip rendering entirely
+ * - Skips SSE, `Cache-Control: no-store`, and bodies over `maxBytes`
+ *
+ * Register etag() after compress() (http-compress.ts) so the hash covers the
+ * uncompressed representation; compression then weakens strong ETags.
+ */
+
+import {
+  type HandlerCtx,
+  type Middleware,
+  type RouteCachePolicy,
+  textResponse,
+  type VarsRecord,
+} from "./http.ts";
+import { isEventStream, readUpTo } from "./http-body.ts";
+
+export type EtagOptions = RouteCachePolicy & {
+  /**
+   * Largest body that will be buffered and hashed; larger (or streamed
+   * beyond this) bodies pass through without an ETag. Default 1 MiB.
+   */
+  maxBytes?: number;
+};
+
+/** Validators a handler can check before doing expensive work. */
+export type ConditionalValidators = {
+  etag?: string;
+  lastModified?: Date | number;
+};
+
+// Headers RFC 9110 §15.4.5 requires (when present) on a 304.
+const notModifiedHeaders = [
+  "cache-control",
+  "content-location",
+  "date",
+  "etag",
+  "expires",
+  "vary",
+  "last-modified",
+  "content-type",
+];
+
+const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+
+/** Weak comparison of an If-None-Match header against an entity tag. */
+export const etagMatches = (ifNoneMatch: string, etag: string): boolean => {
+  const want = opaque(etag);
+  return ifNoneMatch.split(",").some((t) =>
+    t.trim() === "*" || opaque(t) === want
+  );
+};
+
+/** Quote (and optionally weaken) an opaque validator like a version id. */
+export const formatEtag = (value: string, weak = true): string =>
+  `${weak ? "W/" : ""}"${value.replace(/"/g, "")}"`;
+
+const httpDate = (d: Date | number) => new Date(d).toUTCString();
+
+/**
+ * RFC 9110 evaluation order for GET/HEAD: If-None-Match decides when
+ * present, otherwise If-Modified-Since is compared at second precision.
+ */
+const isNotModified = (
+  req: Request,
+  etag: string | null,
+  lastModified: string | null,
+): boolean => {
+  const inm = req.headers.get("if-none-match");
+  if (inm !== null) return etag !== null && etagMatches(inm, etag);
+
+  const ims = req.headers.get("if-modified-since");
+  if (ims === null || lastModified === null) return false;
+  const since = Date.parse(ims);
+  const modified = Date.parse(lastModified);
+  if (Number.isNaN(since) || Number.isNaN(modified)) return false;
+  return Math.floor(modified / 1000) <= Math.floor(since / 1000);
+};
+
+const notModifiedFrom = (headers: Headers): Response => {
+  const keep: Record<string, string> = {};
+  for (const name of notModifiedHeaders) {
+    const v = headers.get(name);
+    if (v !== null) keep[name] = v;
+  }
+  return textResponse("", 304, keep);
+};
+
+/**
+ * For handlers that know their validator up front (a row version, a
+ * dashboard's data timestamp). Returns a 304 to send instead of rendering,
+ * or undefined; either way, put the same validators on the full response.
+ *
+ *   const v = { etag: formatEtag(`v${board.rev}`) };
+ *   return notModified(c, v) ?? c.html(render(board), {
+ *     headers: { etag: v.etag },
+ *   });
+ */
+export const notModified = (
+  c: Pick<HandlerCtx<string, unknown, VarsRecord>, "req">,
+  validators: ConditionalValidators,
+  headers?: HeadersInit,
+): Response | undefined => {
+  const method = c.req.method.toUpperCase();
+  if (method !== "GET" && method !== "HEAD") return undefined;
+  const h = new Headers(headers);
+  if (validators.etag) h.set("etag", validators.etag);
+  if (validators.lastModified !== undefined) {
+    h.set("last-modified", httpDate(validators.lastModified));
+  }
+  return isNotModified(c.req, h.get("etag"), h.get("last-modified"))
+    ? notModifiedFrom(h)
+    : undefined;
+};
+
+const hashEtag = async (
+  body: Uint8Array<ArrayBuffer>,
+  weak: boolean,
+): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", body));
+  const b64 = btoa(String.fromCharCode(...digest.subarray(0, 18)))
+    .replace(/\+/g, "-").replace(/\//g, "_");
+  return formatEtag(b64, weak);
+};
+
+const rebuild = (res: Response, body: BodyInit | null, headers: Headers) =>
+  new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers,
+  });
+
+/**
+ * Conditional GET middleware. Options are defaults; a matched route's
+ * `meta.cache` overrides them (or disables the middleware with `false`).
+ */
+export const etag = <State, Vars extends VarsRecord>(
+  opts: EtagOptions = {},
+): Middleware<State, Vars> => {
+  const maxBytes = opts.maxBytes ?? 1024 * 1024;
+
+  return async (c, next) => {
+    const method = c.req.method.toUpperCase();
+    const routePolicy = c.route?.meta?.cache;
+    if ((method !== "GET" && method !== "HEAD") || routePolicy === false) {
+      return await next();
+    }
+    const policy: RouteCachePolicy = { ...opts, ...routePolicy };
+
+    const res = await next();
+    if (res.status !== 200) return res;
+    const cacheControl = res.headers.get("cache-control") ?? "";
+    if (/\bno-store\b/i.test(cacheControl)) return res;
+    if (isEventStream(res)) return res;
+
+    const headers = new Headers(res.headers);
+    if (!cacheControl && policy.cacheControl) {
+      headers.set("cache-control", policy.cacheControl);
+    }
+
+    // Handler-supplied validators win; their bodies stream through unread.
+    let body: BodyInit | null = res.body;
+    const mode = policy.etag ?? "weak";
+    const validated = headers.has("etag") || headers.has("last-modified");
+    if (!validated && mode && res.body) {
+      const read = await readUpTo(res.body, maxBytes);
+      if ("stream" in read) return rebuild(res, read.stream, headers);
+      headers.set("etag", await hashEtag(read.bytes, mode === "weak"));
+      body = read.bytes;
+    }
+
+    if (
+      isNotModified(c.req, headers.get("etag"), headers.get("last-modified"))
+    ) {
+      if (body instanceof ReadableStream) await body.cancel();
+      return notModifiedFrom(headers);
+    }
+    return rebuild(res, body, headers);
+  };
+};
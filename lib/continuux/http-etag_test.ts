@@ -0,0 +1,172 @@
+// lib/continuux/http-etag_test.ts
+//
+// Tests for http-etag.ts.
+//
+// Covered behaviors:
+// - body-hash ETags are stable across identical re-renders and yield 304s
+// - 304 responses keep validators and caching headers but carry no body
+// - If-Modified-Since against a handler-supplied Last-Modified, whose body is
+//   not hashed
+// - RouteMeta.cache: per-route Cache-Control, strong ETags, and opting out
+// - notModified() lets handlers skip rendering with a cheap validator
+// - non-GET, non-200, SSE, no-store, and oversized bodies pass through
+
+import { assert, assertEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import { etag, etagMatches, formatEtag, notModified } from "./http-etag.ts";
+
+Deno.test("http-etag: etagMatches uses weak comparison", () => {
+  assert(etagMatches('W/"a", "b"', '"b"'));
+  assert(etagMatches('"a"', 'W/"a"'));
+  assert(etagMatches("*", '"x"'));
+  assert(!etagMatches('"a"', '"b"'));
+  assertEquals(formatEtag("v1"), 'W/"v1"');
+  assertEquals(formatEtag("v1", false), '"v1"');
+});
+
+Deno.test("http-etag: middleware", async (t) => {
+  let renders = 0;
+  const board = { rev: 7, updatedAt: Date.UTC(2026, 0, 2, 3, 4, 5) };
+
+  const app = Application.sharedState({});
+  app.use(etag({ maxBytes: 4096 }));
+  app.get("/dashboard", (c) => {
+    renders++;
+    return c.html(`<main>rev ${board.rev}</main>`);
+  });
+  app.get(
+    "/report",
+    { meta: { cache: { etag: "strong", cacheControl: "private, max-age=0" } } },
+    (c) => c.json({ rev: board.rev }),
+  );
+  app.get("/live", { meta: { cache: false } }, (c) => c.text("live"));
+  app.get("/feed", (c) =>
+    c.text("feed", {
+      headers: { "last-modified": new Date(board.updatedAt).toUTCString() },
+    }));
+  app.get("/board", (c) => {
+    const v = { etag: formatEtag(`rev-${board.rev}`) };
+    const early = notModified(c, v);
+    if (early) return early;
+    renders++;
+    return c.html(`<main>${board.rev}</main>`, { headers: { etag: v.etag } });
+  });
+  app.get("/big", (c) => c.text("x".repeat(10_000)));
+  app.get(
+    "/secret",
+    (c) => c.text("s", { headers: { "cache-control": "no-store" } }),
+  );
+  app.get("/events", (c) =>
+    c.sse<{ tick: number }>(async (session) => {
+      await session.sendWhenReady("tick", 1);
+      session.close();
+    }));
+  app.get("/missing", (c) => c.text("nope", { status: 404 }));
+  app.post("/dashboard", (c) => c.text("posted"));
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    app.fetch(new Request(`http://localhost${path}`, { headers }));
+
+  await t.step("identical renders share an ETag and revalidate", async () => {
+    const first = await get("/dashboard");
+    const tag = first.headers.get("etag")!;
+    assert(tag.startsWith('W/"'));
+    assertEquals(await first.text(), "<main>rev 7</main>");
+
+    const again = await get("/dashboard");
+    assertEquals(again.headers.get("etag"), tag);
+    await again.body?.cancel();
+
+    const cached = await get("/dashboard", { "if-none-match": tag });
+    assertEquals(cached.status, 304);
+    assertEquals(cached.body, null);
+    assertEquals(cached.headers.get("etag"), tag);
+    assertEquals(
+      cached.headers.get("content-type"),
+      "text/html; charset=utf-8",
+    );
+    assertEquals(renders, 3);
+
+    board.rev = 8;
+    const changed = await get("/dashboard", { "if-none-match": tag });
+    assertEquals(changed.status, 200);
+    assertEquals(await changed.text(), "<main>rev 8</main>");
+  });
+
+  await t.step("route meta sets strength and Cache-Control", async () => {
+    const r = await get("/report");
+    const tag = r.headers.get("etag")!;
+    assert(tag.startsWith('"'));
+    assertEquals(r.headers.get("cache-control"), "private, max-age=0");
+    await r.body?.cancel();
+
+    const cached = await get("/report", { "if-none-match": tag });
+    assertEquals(cached.status, 304);
+    assertEquals(cached.headers.get("cache-control"), "private, max-age=0");
+
+    const live = await get("/live");
+    assertEquals(live.headers.get("etag"), null);
+    await live.body?.cancel();
+  });
+
+  await t.step(
+    "If-Modified-Since uses the handler's Last-Modified",
+    async () => {
+      const since = new Date(board.updatedAt + 500).toUTCString();
+      const cached = await get("/feed", { "if-modified-since": since });
+      assertEquals(cached.status, 304);
+
+      const older = new Date(board.updatedAt - 60_000).toUTCString();
+      const fresh = await get("/feed", { "if-modified-since": older });
+      assertEquals(await fresh.text(), "feed");
+      // Last-Modified is the validator: the body is not hashed.
+      assertEquals(fresh.headers.get("etag"), null);
+
+      // If-None-Match takes precedence over If-Modified-Since.
+      const both = await get("/feed", {
+        "if-modified-since": since,
+        "if-none-match": '"other"',
+      });
+      assertEquals(both.status, 200);
+      await both.body?.cancel();
+    },
+  );
+
+  await t.step("notModified skips rendering", async () => {
+    const before = renders;
+    const r = await get("/board");
+    const tag = r.headers.get("etag")!;
+    assertEquals(tag, 'W/"rev-8"');
+    await r.body?.cancel();
+
+    const cached = await get("/board", { "if-none-match": tag });
+    assertEquals(cached.status, 304);
+    assertEquals(renders, before + 1);
+  });
+
+  await t.step("responses that are not eligible pass through", async () => {
+    const big = await get("/big");
+    assertEquals(big.headers.get("etag"), null);
+    assertEquals((await big.text()).length, 10_000);
+
+    const secret = await get("/secret");
+    assertEquals(secret.headers.get("etag"), null);
+    await secret.body?.cancel();
+
+    const events = await get("/events");
+    assertEquals(events.headers.get("etag"), null);
+    assert((await events.text()).includes("event: tick"));
+
+    const missing = await get("/missing");
+    assertEquals(missing.headers.get("etag"), null);
+    await missing.body?.cancel();
+
+    const posted = await app.fetch(
+      new Request("http://localhost/dashboard", {
+        method: "POST",
+        headers: { "if-none-match": "*" },
+      }),
+    );
+    assertEquals(await posted.text(), "posted");
+  });
+});
@@ -30,9 +30,9 @@ import {
   applyTransforms,
   type HandlerCtx,
   type HttpMethod,
+  HttpProblem,
   type HttpTransform,
   type Middleware,
-  textResponse,
   type VarsRecord,
 } from "./http.ts";
 
@@ -446,21 +446,25 @@ export function httpFsRoutes<State, Vars extends VarsRecord>(
     }
 
     // Stat the file once for all further decisions.
+    // The route exists in the manifest but the file is gone (or replaced by
+    // a directory) since startup.
+    const gone = () =>
+      new HttpProblem(404, {
+        detail: `No file behind route ${info.template}`,
+        instance: c.url.pathname,
+      }).toResponse(c.req);
     let stat: Deno.FileInfo;
     try {
       stat = await Deno.stat(match.filePath);
-      if (!stat.isFile) {
-        return textResponse("Not found", 404);
-      }
+      if (!stat.isFile) return gone();
     } catch {
-      return textResponse("Not found", 404);
+      return gone();
     }
 
     const headers = new Headers();
 
     // Content-Type from extension, if known.
-    const ct = contentType(match.filename) ?? fallbackMimeFromExt(match.ext) ??
-      undefined;
+    const ct = mimeFromExt(match.ext);
     if (ct) headers.set("content-type", ct);
 
     // Cache-Control, if configured.
@@ -628,6 +632,11 @@ const fallbackMimeFromExt = (ext: string): string | null => {
   }
 };
 
+// Module types first (@std/media-types maps .ts to video/mp2t), then the
+// std table by extension; contentType() takes an extension, not a filename.
+const mimeFromExt = (ext: string): string | undefined =>
+  fallbackMimeFromExt(ext) ?? contentType(ext.toLowerCase()) ?? undefined;
+
 export function httpFsContent<State, Vars extends VarsRecord>(
   opts: FsContentOptions<State, Vars>,
 ): Middleware<State, Vars> {
@@ -789,9 +798,7 @@ export function httpFsContent<State, Vars extends VarsRecord>(
 
     const headers = new Headers();
 
-    const ct = contentType(chosen.filename) ??
-      fallbackMimeFromExt(chosen.ext) ??
-      undefined;
+    const ct = mimeFromExt(chosen.ext);
     if (ct) headers.set("content-type", ct);
 
     if (opts.cacheControl) headers.set("cache-control", opts.cacheControl);
@@ -0,0 +1,147 @@
+/**
+ * lib/continuux/http-i18n.ts
+ *
+ * Locale negotiation middleware for ContinuUX HTTP applications, built on the
+ * catalogs and translators in lib/natural-html/i18n.ts.
+ *
+ * Features:
+ * - Picks one supported locale per request from, in configurable order, a
+ *   path prefix (`/fr/guide`), a query parameter (`?lang=fr`), a cookie, and
+ *   `Accept-Language` (q-values honored, `fr-CA` falls back to `fr`)
+ * - Exposes the translator as `c.vars.i18n` (messages, plural/select, number,
+ *   date, relative time, and list formatting in that locale) and where the
+ *   choice came from as `c.vars.localeSource`
+ * - Persists a locale chosen by path or query to the cookie so later requests
+ *   without a prefix keep it
+ * - Sets `Content-Language`, and `Vary: Accept-Language` when the header can
+ *   decide, so shared caches (http-response-cache.ts) key correctly
+ *
+ * Path prefixes are read, not stripped: declare localized routes as
+ * `/:lang/...` or mount a child app per prefix.
+ *
+ * Natural DS pages and dialogs render localized when given the translator:
+ *
+ *   const i18n = createI18n({ catalogs: [appMessages], locales: ["en", "es", "fr", "de"] });
+ *   app.use(localeMiddleware({ i18n }));
+ *   app.get("/guide", (c) =>
+ *     c.html(H.render(ds.page("NaturalDoc", {}, { i18n: c.vars.i18n, slots }))));
+ */
+
+import {
+  type I18n,
+  negotiateLocale,
+  parseAcceptLanguage,
+  type Translator,
+} from "../natural-html/i18n.ts";
+import type { CookieOptions, Middleware, VarsRecord } from "./http.ts";
+
+export type LocaleSource = "path" | "query" | "cookie" | "header";
+
+export type I18nVars<K extends string = string> = {
+  i18n: Translator<K>;
+  localeSource: LocaleSource | "default";
+};
+
+export type LocaleOptions<K extends string> = {
+  i18n: I18n<K>;
+  /** First source naming a supported locale wins. Default all four, in order. */
+  sources?: readonly LocaleSource[];
+  /** Default "lang". */
+  queryParam?: string;
+  /** Default "locale". */
+  cookieName?: string;
+  /** Merged over { path: "/", sameSite: "Lax", maxAge: 1 year }. */
+  cookie?: CookieOptions;
+  /** Write the cookie when path or query chose the locale. Default true. */
+  persist?: boolean;
+};
+
+const defaultSources: readonly LocaleSource[] = [
+  "path",
+  "query",
+  "cookie",
+  "header",
+];
+
+export const localeMiddleware = <
+  K extends string,
+  State,
+  Vars extends VarsRecord & I18nVars<K>,
+>(opts: LocaleOptions<K>): Middleware<State, Vars> => {
+  const { i18n } = opts;
+  const sources = opts.sources ?? defaultSources;
+  const queryParam = opts.queryParam ?? "lang";
+  const cookieName = opts.cookieName ?? "locale";
+  const persist = opts.persist ?? true;
+  const cookie: CookieOptions = {
+    path: "/",
+    sameSite: "Lax",
+    maxAge: 60 * 60 * 24 * 365,
+    ...opts.cookie,
+  };
+
+  return async (c, next) => {
+    let locale: string | undefined;
+    let source: LocaleSource | "default" = "default";
+    for (const s of sources) {
+      switch (s) {
+        case "path": {
+          const segment = c.url.pathname.split("/")[1];
+          locale = segment ? i18n.supported(segment) : undefined;
+          break;
+        }
+        case "query": {
+          const q = c.query(queryParam);
+          locale = q ? i18n.supported(q) : undefined;
+          break;
+        }
+        case "cookie": {
+          const v = c.getCookie(cookieName);
+          locale = v ? i18n.supported(v) : undefined;
+          break;
+        }
+        case "header": {
+          const header = c.req.headers.get("accept-language");
+          locale = negotiateLocale(
+            parseAcceptLanguage(header),
+            i18n.locales,
+            "",
+          ) || undefined;
+          break;
+        }
+      }
+      if (locale) {
+        source = s;
+        break;
+      }
+    }
+    locale ??= i18n.defaultLocale;
+
+    if (
+      persist && (source === "path" || source === "query") &&
+      c.getCookie(cookieName) !== locale
+    ) {
+      c.setCookie(cookieName, locale, cookie);
+    }
+
+    c.setVar("i18n", i18n.translator(locale) as Vars["i18n"]);
+    c.setVar("localeSource", source as Vars["localeSource"]);
+
+    const res = await next();
+    if (res.status === 101) return res;
+    const h = new Headers(res.headers);
+    if (!h.has("content-language")) h.set("content-language", locale);
+    if (sources.includes("header")) {
+      const vary = h.get("vary");
+      if (!vary) h.set("vary", "Accept-Language");
+      else if (!/(^|,)\s*(accept-language|\*)\s*(,|$)/i.test(vary)) {
+        h.set("vary", `${vary}, Accept-Language`);
+      }
+    }
+    return new Response(res.body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: h,
+    });
+  };
+};
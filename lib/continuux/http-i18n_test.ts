@@ -0,0 +1,223 @@
+// lib/continuux/http-i18n_test.ts
+//
+// Tests for http-i18n.ts.
+//
+// Covered behaviors:
+// - Accept-Language negotiation with q-values and base-language fallback
+// - path prefix and query parameter win over cookie and header, and are
+//   persisted to the locale cookie
+// - cookie beats Accept-Language; unsupported values fall through to the
+//   default locale
+// - Content-Language and Vary: Accept-Language on responses
+// - Natural DS searchBar / footerNav / theme toggle render localized from
+//   c.vars.i18n via the design-system render options, with `<html lang dir>`
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import { type I18nVars, localeMiddleware } from "./http-i18n.ts";
+import {
+  type CatalogKey,
+  createI18n,
+  defineCatalog,
+} from "../natural-html/i18n.ts";
+import {
+  createDesignSystem,
+  defineLayout,
+  type NamingStrategy,
+  type RenderCtx,
+  slots,
+} from "../natural-html/design-system.ts";
+import * as h from "../natural-html/elements.ts";
+import type { RenderInput } from "../natural-html/patterns.ts";
+import {
+  footerNav,
+  naturalDsMessages,
+  searchBar,
+  sidebarHeader,
+} from "../natural-ds/component/mod.ts";
+
+const appMessages = defineCatalog({
+  defaultLocale: "en",
+  messages: {
+    "cart.items":
+      "{n, plural, =0 {Your cart is empty} one {# item} other {# items}}",
+  },
+  translations: {
+    es: {
+      "cart.items":
+        "{n, plural, =0 {Tu carrito está vacío} one {# artículo} other {# artículos}}",
+    },
+    fr: {
+      "cart.items":
+        "{n, plural, =0 {Votre panier est vide} one {# article} other {# articles}}",
+    },
+    de: {
+      "cart.items":
+        "{n, plural, =0 {Ihr Warenkorb ist leer} one {# Artikel} other {# Artikel}}",
+    },
+    ar: {
+      "cart.items":
+        "{n, plural, zero {السلة فارغة} one {عنصر واحد} two {عنصران} few {# عناصر} many {# عنصرًا} other {# عنصر}}",
+    },
+  },
+});
+
+const i18n = createI18n({
+  catalogs: [naturalDsMessages, appMessages],
+  locales: ["en", "es", "fr", "de", "ar"],
+});
+
+// deno-lint-ignore ban-types
+type State = {};
+type Vars = I18nVars<
+  CatalogKey<typeof naturalDsMessages | typeof appMessages>
+>;
+
+const setup = () => {
+  const app = Application.sharedState<State, Vars>({});
+  app.use(localeMiddleware({ i18n }));
+  app.get("/cart", (c) =>
+    c.text(
+      `${c.vars.i18n.locale} ${c.vars.localeSource}: ${
+        c.vars.i18n.t("cart.items", { n: 3 })
+      }`,
+    ));
+  app.get(
+    "/:lang/cart",
+    (c) => c.text(`${c.vars.i18n.locale} ${c.vars.localeSource}`),
+  );
+  return { app, client: testClient(app) };
+};
+
+const lang = (value: string) => ({ headers: { "accept-language": value } });
+
+Deno.test("http-i18n: locale negotiation sources", async (t) => {
+  await t.step("Accept-Language", async () => {
+    const { client } = setup();
+    const fr = await client.get("/cart", lang("fr-CA,fr;q=0.9,en;q=0.5"));
+    assertEquals(await fr.text(), "fr header: 3 articles");
+    assertEquals(fr.headers.get("content-language"), "fr");
+    assertEquals(fr.headers.get("vary"), "Accept-Language");
+
+    const de = await client.get("/cart", lang("ja, de-AT;q=0.8"));
+    assertEquals(await de.text(), "de header: 3 Artikel");
+    const ar = await client.get("/cart", lang("ar-EG"));
+    assertEquals(await ar.text(), "ar header: 3 عناصر");
+
+    const none = await client.get("/cart", lang("ja"));
+    assertEquals(await none.text(), "en default: 3 items");
+    assertEquals(
+      await (await client.get("/cart")).text(),
+      "en default: 3 items",
+    );
+  });
+
+  await t.step("path and query are persisted to the cookie", async () => {
+    const { client } = setup();
+    const prefixed = await client.get("/es/cart", lang("de"));
+    assertEquals(await prefixed.text(), "es path");
+    assertStringIncludes(prefixed.headers.get("set-cookie") ?? "", "locale=es");
+    // Without a prefix the cookie now beats the header.
+    assertEquals(
+      await (await client.get("/cart", lang("de"))).text(),
+      "es cookie: 3 artículos",
+    );
+
+    const switched = await client.get("/cart?lang=FR", lang("de"));
+    assertEquals(await switched.text(), "fr query: 3 articles");
+    assertEquals(
+      await (await client.get("/cart", lang("de"))).text(),
+      "fr cookie: 3 articles",
+    );
+
+    // Unsupported prefix and query values are ignored.
+    assertEquals(
+      await (await client.get("/xx/cart?lang=xx", lang("de"))).text(),
+      "fr cookie",
+    );
+  });
+
+  await t.step("custom source order and cookie name", async () => {
+    const app = Application.sharedState<State, Vars>({});
+    app.use(localeMiddleware({
+      i18n,
+      sources: ["cookie"],
+      cookieName: "lang",
+    }));
+    app.get("/", (c) => c.text(c.vars.i18n.locale));
+    const client = testClient(app);
+    const r = await client.get("/", {
+      headers: { "accept-language": "de", cookie: "lang=ar" },
+    });
+    assertEquals(await r.text(), "ar");
+    assertEquals(r.headers.get("vary"), null);
+    assertEquals(await (await client.get("/", lang("de"))).text(), "en");
+  });
+});
+
+Deno.test("http-i18n: Natural DS components render localized", async () => {
+  const naming: NamingStrategy = {
+    elemIdValue: (suggested) => suggested,
+    elemDataAttr: (key) => `data-${key}`,
+    className: (suggested) => suggested,
+  };
+  const layout = defineLayout({
+    name: "Doc",
+    slots: slots({ required: ["content"] as const }),
+    render: (ctx: RenderCtx<RenderInput, NamingStrategy>, _api, s) =>
+      h.main(s.content(ctx)),
+  });
+  const ds = createDesignSystem<RenderInput>("i18n-doc", naming)
+    .policies({ wrappers: { enabled: false } })
+    .layout(layout)
+    .build();
+
+  const { app, client } = setup();
+  app.get("/doc", (c) =>
+    c.html(h.render(ds.page("Doc", {}, {
+      i18n: c.vars.i18n,
+      slots: {
+        content: (ctx) =>
+          h.div(
+            sidebarHeader(ctx, { label: "Docs" }),
+            searchBar(ctx, {}),
+            footerNav(ctx, {
+              previous: { title: "Intro", href: "/intro" },
+              next: { label: "Up next", title: "Setup", href: "/setup" },
+            }),
+          ),
+      },
+    }))));
+
+  const labels = async (accept: string) => {
+    const html = await (await client.get("/doc", lang(accept))).text();
+    return {
+      html: html.match(/<html[^>]*>/)?.[0],
+      toggle: html.match(/aria-label="([^"]*)"/)?.[1],
+      search: html.match(/search-placeholder">([^<]*)</)?.[1],
+      footer: [...html.matchAll(/footer-label">([^<]*)</g)].map((m) => m[1]),
+    };
+  };
+
+  assertEquals(await labels("en"), {
+    html: '<html dir="ltr" lang="en">',
+    toggle: "Toggle theme",
+    search: "Search",
+    footer: ["Previous", "Up next"],
+  });
+  assertEquals(await labels("de-DE"), {
+    html: '<html dir="ltr" lang="de">',
+    toggle: "Design wechseln",
+    search: "Suchen",
+    footer: ["Zurück", "Up next"],
+  });
+  assertEquals((await labels("es")).search, "Buscar");
+  assertEquals((await labels("fr")).footer, ["Précédent", "Up next"]);
+  assertEquals(await labels("ar"), {
+    html: '<html dir="rtl" lang="ar">',
+    toggle: "تبديل السمة",
+    search: "بحث",
+    footer: ["السابق", "Up next"],
+  });
+});
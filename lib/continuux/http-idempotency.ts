@@ -0,0 +1,308 @@
+/**
+ * lib/continuux/http-idempotency.ts
+ *
+ * `Idempotency-Key` handling for ContinuUX HTTP applications and cx actions.
+ *
+ * Features:
+ * - Middleware honoring the `Idempotency-Key` request header on POST, PUT,
+ *   and PATCH (IETF httpapi idempotency-key draft semantics)
+ * - The first completed response (status, headers, body) is stored under
+ *   the key and replayed byte-for-byte for duplicates, marked with
+ *   `Idempotent-Replayed: true`
+ * - Requests are fingerprinted (method, path, content-type, content-length,
+ *   digest of the first `fingerprintBytes` of the body, so uploads are not
+ *   buffered): reusing a key with a different payload is a 422, a duplicate
+ *   arriving while the first is still running is a 409 with `Retry-After`
+ * - 5xx and 429 responses are not stored, so the client may retry them;
+ *   streaming (SSE) responses are passed through and never stored
+ * - Entries expire after a TTL; keys are scoped per client (the http-auth.ts
+ *   principal, else the http-session.ts session, or a `scope` function) so
+ *   different users cannot collide
+ * - Pluggable store; the bundled in-memory store is LRU-bounded
+ * - cx: browser-ua-aide.js stamps every envelope POST with its requestId as
+ *   the key, so mounting this middleware on the cx POST path makes dispatch
+ *   exactly-once from the user's view; enable UA retries (`postRetries` in
+ *   the boot options) only where it is mounted
+ *
+ *   app.use(idempotency()); // after session and auth middleware
+ *   // or only where it matters:
+ *   app.post("/orders", idempotency({ required: true }), createOrder);
+ */
+
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type RouteMiddleware,
+  type VarsRecord,
+} from "./http.ts";
+import type { AuthVars } from "./http-auth.ts";
+import { isEventStream, requestPrefix } from "./http-body.ts";
+import type { SessionVars } from "./http-session.ts";
+
+export type IdempotentResponse = {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  /** base64 */
+  body: string;
+};
+
+export type IdempotencyEntry =
+  | { state: "pending"; fingerprint: string; expiresAt: number }
+  | {
+    state: "done";
+    fingerprint: string;
+    expiresAt: number;
+    response: IdempotentResponse;
+  };
+
+export type IdempotencyStore = {
+  /**
+   * Atomically claim `key` with a pending entry. Returns the live entry
+   * when the key is already taken (and undefined when the claim succeeded).
+   */
+  begin: (
+    key: string,
+    fingerprint: string,
+    expiresAt: number,
+    now: number,
+  ) =>
+    | IdempotencyEntry
+    | undefined
+    | Promise<IdempotencyEntry | undefined>;
+  complete: (
+    key: string,
+    response: IdempotentResponse,
+    expiresAt: number,
+  ) => void | Promise<void>;
+  /** Drop a pending claim so the request can be retried. */
+  release: (key: string) => void | Promise<void>;
+};
+
+/**
+ * In-memory store. Keys are evicted least-recently-used beyond `maxKeys`;
+ * expired entries are dropped when touched.
+ */
+export const memoryIdempotencyStore = (
+  opts: { maxKeys?: number } = {},
+): IdempotencyStore & {
+  size: () => number;
+  reset: (key?: string) => void;
+} => {
+  const maxKeys = opts.maxKeys ?? 10_000;
+  const entries = new Map<string, IdempotencyEntry>();
+
+  return {
+    begin: (key, fingerprint, expiresAt, now) => {
+      const existing = entries.get(key);
+      if (existing && existing.expiresAt > now) {
+        entries.delete(key);
+        entries.set(key, existing);
+        return existing;
+      }
+      entries.delete(key);
+      entries.set(key, { state: "pending", fingerprint, expiresAt });
+      if (entries.size > maxKeys) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return undefined;
+    },
+    complete: (key, response, expiresAt) => {
+      const pending = entries.get(key);
+      if (!pending) return;
+      entries.set(key, {
+        state: "done",
+        fingerprint: pending.fingerprint,
+        expiresAt,
+        response,
+      });
+    },
+    release: (key) => {
+      if (entries.get(key)?.state === "pending") entries.delete(key);
+    },
+    size: () => entries.size,
+    reset: (key) =>
+      key === undefined ? entries.clear() : void entries.delete(key),
+  };
+};
+
+export type IdempotencyOptions<State, Vars extends VarsRecord> = {
+  /** Default "idempotency-key". */
+  header?: string;
+  /** Default POST, PUT, PATCH. */
+  methods?: readonly string[];
+  /** How long a stored response is replayed. Default 24 hours. */
+  ttlMs?: number;
+  /** Respond 400 when a matching request has no key. Default false. */
+  required?: boolean;
+  /**
+   * Client scope prepended to the key. Default: the authenticated principal
+   * (`vars.auth.subject`), else the session (`vars.session.id`); keys are
+   * global only when neither is set.
+   */
+  scope?: (
+    c: HandlerCtx<string, State, Vars>,
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  /** Default: a private memoryIdempotencyStore(). */
+  store?: IdempotencyStore;
+  /** Responses with bodies above this are not stored. Default 1 MiB. */
+  maxBodyBytes?: number;
+  /**
+   * Request body bytes hashed into the fingerprint; longer bodies are
+   * identified by this prefix and their Content-Length. Default 64 KiB.
+   */
+  fingerprintBytes?: number;
+  now?: () => number;
+};
+
+const maxKeyLength = 255;
+
+const problemType = (name: string) => `urn:continuux:problem:${name}`;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let s = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(s);
+};
+
+const fromBase64 = (s: string) =>
+  Uint8Array.from(atob(s), (ch) => ch.charCodeAt(0));
+
+const fingerprintOf = async (req: Request, url: URL, limit: number) => {
+  const body = await requestPrefix(req, limit);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", body));
+  return [
+    req.method.toUpperCase(),
+    url.pathname + url.search,
+    req.headers.get("content-type") ?? "",
+    req.headers.get("content-length") ?? "",
+    toBase64(digest),
+  ].join("\n");
+};
+
+const defaultScope = (vars: VarsRecord) => {
+  const { auth, session } = vars as Partial<
+    AuthVars<unknown> & SessionVars<unknown>
+  >;
+  if (auth) return `auth:${auth.subject}`;
+  if (session) return `session:${session.id}`;
+  return "";
+};
+
+const replay = (r: IdempotentResponse) => {
+  const headers = new Headers(r.headers);
+  headers.set("idempotent-replayed", "true");
+  return new Response(
+    r.status === 204 || r.status === 304 ? null : fromBase64(r.body),
+    { status: r.status, statusText: r.statusText, headers },
+  );
+};
+
+/**
+ * Idempotency-Key middleware. Use globally with `app.use(idempotency())`
+ * or per route. `Path` is inferred from the route so the same factory fits
+ * both slots.
+ */
+export const idempotency = <
+  State,
+  Vars extends VarsRecord,
+  Path extends string = string,
+>(
+  opts: IdempotencyOptions<State, Vars> = {},
+): RouteMiddleware<Path, State, Vars> => {
+  const header = opts.header ?? "idempotency-key";
+  const methods = new Set(
+    (opts.methods ?? ["POST", "PUT", "PATCH"]).map((m) => m.toUpperCase()),
+  );
+  const ttlMs = opts.ttlMs ?? 24 * 60 * 60 * 1000;
+  const store = opts.store ?? memoryIdempotencyStore();
+  const maxBodyBytes = opts.maxBodyBytes ?? 1024 * 1024;
+  const fingerprintBytes = opts.fingerprintBytes ?? 64 * 1024;
+  const now = opts.now ?? Date.now;
+
+  return async (routeCtx, next) => {
+    const c = routeCtx as unknown as HandlerCtx<string, State, Vars>;
+    if (!methods.has(c.req.method.toUpperCase())) return await next();
+
+    const raw = c.req.headers.get(header)?.trim();
+    if (!raw) {
+      if (!opts.required) return await next();
+      return new HttpProblem(400, {
+        type: problemType("idempotency-key-missing"),
+        detail:
+          `${c.req.method} ${c.url.pathname} requires an ${header} header`,
+      }).toResponse(c.req);
+    }
+    if (raw.length > maxKeyLength) {
+      return new HttpProblem(400, {
+        type: problemType("idempotency-key-invalid"),
+        detail: `${header} must be at most ${maxKeyLength} characters`,
+      }).toResponse(c.req);
+    }
+
+    const scope = opts.scope
+      ? (await opts.scope(c)) ?? ""
+      : defaultScope(c.vars);
+    const key = `${scope}:${raw}`;
+    const fingerprint = await fingerprintOf(c.req, c.url, fingerprintBytes);
+    const existing = await store.begin(
+      key,
+      fingerprint,
+      now() + ttlMs,
+      now(),
+    );
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return new HttpProblem(422, {
+          type: problemType("idempotency-key-reuse"),
+          detail: `${header} was already used for a different request`,
+        }).toResponse(c.req);
+      }
+      if (existing.state === "pending") {
+        return new HttpProblem(409, {
+          type: problemType("idempotency-conflict"),
+          detail: "A request with this key is still being processed",
+          headers: { "retry-after": "1" },
+        }).toResponse(c.req);
+      }
+      return replay(existing.response);
+    }
+
+    let res: Response;
+    try {
+      res = await next();
+    } catch (err) {
+      await store.release(key);
+      throw err;
+    }
+
+    const length = Number(res.headers.get("content-length") ?? NaN);
+    if (
+      res.status >= 500 || res.status === 429 ||
+      isEventStream(res) || length > maxBodyBytes
+    ) {
+      await store.release(key);
+      return res;
+    }
+
+    const body = new Uint8Array(await res.arrayBuffer());
+    if (body.length > maxBodyBytes) {
+      await store.release(key);
+    } else {
+      await store.complete(key, {
+        status: res.status,
+        statusText: res.statusText,
+        // Cookies belong to the original exchange, not to replays.
+        headers: [...res.headers].filter(([k]) => k !== "set-cookie"),
+        body: toBase64(body),
+      }, now() + ttlMs);
+    }
+    return new Response(
+      res.status === 204 || res.status === 304 ? null : body,
+      { status: res.status, statusText: res.statusText, headers: res.headers },
+    );
+  };
+};
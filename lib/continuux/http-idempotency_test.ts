@@ -0,0 +1,237 @@
+// lib/continuux/http-idempotency_test.ts
+//
+// Tests for http-idempotency.ts.
+//
+// Covered behaviors:
+// - first response stored and replayed (status, headers, body) with
+//   Idempotent-Replayed, handler runs once
+// - key reuse with a different payload is a 422 problem
+// - a duplicate while the first request is in flight is a 409 with
+//   Retry-After
+// - 5xx responses and thrown errors release the key for retries
+// - TTL expiry, per-client scope, required keys, and untouched GETs
+// - keys default to the session scope; bodies past fingerprintBytes still
+//   reach the handler whole and replay
+// - cx envelope POSTs keyed by their requestId dispatch exactly once
+
+import { assert, assertEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import {
+  actionSchemas,
+  createCx,
+  type CxActionHandlers,
+} from "./interaction-html.ts";
+import { CxMiddlewareBuilder, decodeCxEnvelope } from "./interaction.ts";
+import { idempotency, memoryIdempotencyStore } from "./http-idempotency.ts";
+import {
+  memorySessionStore,
+  sessionMiddleware,
+  type SessionVars,
+} from "./http-session.ts";
+
+const keyed = (
+  key: string,
+  json: unknown,
+  extra: Record<string, string> = {},
+) => ({
+  headers: { "idempotency-key": key, ...extra },
+  json,
+});
+
+Deno.test("http-idempotency: replay, reuse, and conflicts", async (t) => {
+  let clock = 0;
+  const store = memoryIdempotencyStore();
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+  app.use(idempotency({
+    store,
+    ttlMs: 1000,
+    now: () => clock,
+    scope: (c) => c.req.headers.get("x-tenant"),
+  }));
+
+  let orders = 0;
+  app.post("/orders", async (c) => {
+    const body = await c.req.json();
+    orders++;
+    return c.json({ order: orders, ...body }, {
+      status: 201,
+      headers: { location: `/orders/${orders}` },
+    });
+  });
+  let gate: PromiseWithResolvers<void> | undefined;
+  app.post("/slow", async (c) => {
+    await gate?.promise;
+    return c.text("slow done");
+  });
+  let flaky = 0;
+  app.post("/flaky", (c) => {
+    flaky++;
+    if (flaky === 1) return c.text("unavailable", { status: 503 });
+    if (flaky === 2) throw new Error("boom");
+    return c.text(`ok ${flaky}`);
+  });
+  app.get("/orders", (c) => c.text(`count ${orders}`));
+
+  const client = testClient(app);
+
+  await t.step("duplicates replay the first response", async () => {
+    const first = await client.post("/orders", keyed("k1", { sku: "a" }));
+    assertEquals(first.status, 201);
+    assertEquals(first.headers.get("idempotent-replayed"), null);
+    const firstBody = await first.json();
+
+    const again = await client.post("/orders", keyed("k1", { sku: "a" }));
+    assertEquals(again.status, 201);
+    assertEquals(again.headers.get("idempotent-replayed"), "true");
+    assertEquals(again.headers.get("location"), "/orders/1");
+    assertEquals(await again.json(), firstBody);
+    assertEquals(orders, 1);
+
+    // Without a key, and for GETs, nothing changes.
+    await client.post("/orders", { json: { sku: "a" } });
+    assertEquals(orders, 2);
+    assertEquals(await (await client.get("/orders")).text(), "count 2");
+  });
+
+  await t.step("reusing a key for another payload is a 422", async () => {
+    const r = await client.post("/orders", keyed("k1", { sku: "b" }));
+    assertEquals(r.status, 422);
+    assertEquals(
+      (await r.problem()).type,
+      "urn:continuux:problem:idempotency-key-reuse",
+    );
+    assertEquals(orders, 2);
+  });
+
+  await t.step("scope separates clients; TTL expires entries", async () => {
+    const other = await client.post(
+      "/orders",
+      keyed("k1", { sku: "b" }, { "x-tenant": "acme" }),
+    );
+    assertEquals(other.status, 201);
+    assertEquals(orders, 3);
+
+    clock += 1001;
+    const fresh = await client.post("/orders", keyed("k1", { sku: "b" }));
+    assertEquals(fresh.headers.get("idempotent-replayed"), null);
+    assertEquals(orders, 4);
+  });
+
+  await t.step("in-flight duplicates get a 409", async () => {
+    gate = Promise.withResolvers<void>();
+    const pending = client.post("/slow", keyed("s1", {}));
+    // Let the first request claim the key.
+    await new Promise((r) => setTimeout(r, 10));
+    const dup = await client.post("/slow", keyed("s1", {}));
+    assertEquals(dup.status, 409);
+    assertEquals(dup.headers.get("retry-after"), "1");
+    gate.resolve();
+    assertEquals(await (await pending).text(), "slow done");
+    const replayed = await client.post("/slow", keyed("s1", {}));
+    assertEquals(await replayed.text(), "slow done");
+    assertEquals(replayed.headers.get("idempotent-replayed"), "true");
+  });
+
+  await t.step("5xx and thrown errors are not stored", async () => {
+    assertEquals((await client.post("/flaky", keyed("f1", {}))).status, 503);
+    assertEquals((await client.post("/flaky", keyed("f1", {}))).status, 500);
+    const ok = await client.post("/flaky", keyed("f1", {}));
+    assertEquals(await ok.text(), "ok 3");
+    assertEquals(
+      await (await client.post("/flaky", keyed("f1", {}))).text(),
+      "ok 3",
+    );
+    assertEquals(flaky, 3);
+  });
+});
+
+Deno.test("http-idempotency: session scope and large bodies", async () => {
+  const app = Application.sharedState({}).withVars<SessionVars<unknown>>();
+  app.use(sessionMiddleware({ store: memorySessionStore(), init: () => ({}) }));
+  app.use(idempotency({ fingerprintBytes: 1024 }));
+  let uploads = 0;
+  app.post("/upload", async (c) => {
+    uploads++;
+    return c.text(`${uploads}:${(await c.req.arrayBuffer()).byteLength}`);
+  });
+
+  const alice = testClient(app);
+  const bob = testClient(app);
+  await alice.get("/");
+  await bob.get("/");
+
+  const body = "x".repeat(200 * 1024);
+  const send = (client: typeof alice) =>
+    client.post("/upload", { headers: { "idempotency-key": "u1" }, body });
+  assertEquals(await (await send(alice)).text(), "1:204800");
+  const again = await send(alice);
+  assertEquals(again.headers.get("idempotent-replayed"), "true");
+  assertEquals(await again.text(), "1:204800");
+
+  // Same key from another session is a different request, not a reuse.
+  assertEquals(await (await send(bob)).text(), "2:204800");
+});
+
+Deno.test("http-idempotency: required keys and cx dispatch", async () => {
+  // deno-lint-ignore ban-types
+  type State = {};
+  // deno-lint-ignore ban-types
+  type Vars = {};
+  type ServerEvents = { message: string; js: string };
+  const app = Application.sharedState<State, Vars>({});
+  app.post(
+    "/payments",
+    idempotency({ required: true }),
+    (c) => c.text("paid"),
+  );
+
+  const actions = actionSchemas({ increment: decodeCxEnvelope });
+  const cx = createCx<State, Vars, typeof actions, ServerEvents>(actions);
+  const builder = new CxMiddlewareBuilder<ServerEvents>({
+    hub: cx.server.sseHub(),
+  });
+  let count = 0;
+  const handlers: CxActionHandlers<
+    State,
+    Vars,
+    typeof actions,
+    ServerEvents,
+    "action"
+  > = {
+    increment: () => {
+      count++;
+      return { ok: true };
+    },
+  };
+  app.use("/cx", idempotency());
+  app.use(builder.middleware<State, Vars, typeof actions, "action">({
+    interaction: { cx, handlers },
+  }));
+
+  const client = testClient(app);
+  const missing = await client.post("/payments");
+  assertEquals(missing.status, 400);
+  assertEquals(
+    (await missing.problem()).type,
+    "urn:continuux:problem:idempotency-key-missing",
+  );
+  assertEquals(
+    await (await client.post("/payments", keyed("p1", {}))).text(),
+    "paid",
+  );
+
+  // What browser-ua-aide.js sends: the envelope keyed by its requestId,
+  // possibly more than once after a network failure.
+  const env = client.cxEnvelope("action:increment");
+  const key = String(env.client.requestId);
+  assert(key);
+  for (let i = 0; i < 3; i++) {
+    const r = await client.post("/cx", keyed(key, env));
+    assertEquals(r.status, 204);
+  }
+  assertEquals(count, 1);
+  await client.cx("action:increment");
+  assertEquals(count, 2);
+});
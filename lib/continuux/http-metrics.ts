@@ -0,0 +1,546 @@
+/**
+ * lib/continuux/http-metrics.ts
+ *
+ * Prometheus metrics for ContinuUX applications, without a client library
+ * dependency.
+ *
+ * Features:
+ * - createMetricsRegistry(): counters, gauges, and histograms with labels,
+ *   plus collect-time callbacks for values owned elsewhere (hub sizes,
+ *   bundler cache stats); rendered in the Prometheus text format (0.0.4)
+ * - metrics() middleware: serves the registry at a configurable path and
+ *   records request counts, latency histograms, in-flight requests, and
+ *   active SSE streams, labeled by route template (`RouteInfo.path`), never
+ *   the raw URL, and by method, with non-standard methods folded into
+ *   "OTHER"
+ * - cx action dispatch counts, failures, and latency by action name, and
+ *   proxy upstream latency, statuses, and error kinds (ProxyErrorKind),
+ *   recorded by interaction.ts and http-proxy.ts through `c.vars.metrics`
+ * - observeHubSize() for CxSseHub / WsHub session gauges and
+ *   observeBundler() for InMemoryBundler cache hits and misses
+ *
+ *   const registry = createMetricsRegistry({ defaultLabels: { app: "portal" } });
+ *   observeHubSize(registry, builder.hub, { name: "cx_sse_sessions" });
+ *   app.use(metrics({ registry }));
+ */
+
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type Middleware,
+  type VarsRecord,
+} from "./http.ts";
+import type { InMemoryBundler } from "./bundle.ts";
+import { isEventStream, watchStream } from "./http-body.ts";
+import type { ProxyErrorKind } from "./http-proxy.ts";
+
+/* =========================
+ * registry
+ * ========================= */
+
+export type MetricLabels = Record<string, string | number>;
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export type MetricSample = { labels: MetricLabels; value: number };
+
+type MetricBase = {
+  name: string;
+  help: string;
+  /** Values read at scrape time instead of (or in addition to) recorded ones. */
+  collect?: () => number | MetricSample[];
+};
+
+export type CounterOptions = MetricBase;
+export type GaugeOptions = MetricBase;
+export type HistogramOptions = {
+  name: string;
+  help: string;
+  /** Upper bounds in ascending order. Default: Prometheus client defaults. */
+  buckets?: readonly number[];
+};
+
+export type Counter = {
+  inc: (labels?: MetricLabels, by?: number) => void;
+  value: (labels?: MetricLabels) => number;
+};
+
+export type Gauge = {
+  set: (labels: MetricLabels, value: number) => void;
+  inc: (labels?: MetricLabels, by?: number) => void;
+  dec: (labels?: MetricLabels, by?: number) => void;
+  value: (labels?: MetricLabels) => number;
+};
+
+export type Histogram = {
+  observe: (labels: MetricLabels, value: number) => void;
+  /** Start timing; the returned function observes elapsed seconds. */
+  startTimer: (labels?: MetricLabels) => (more?: MetricLabels) => number;
+  /** Observation count and sum for one series. */
+  value: (labels?: MetricLabels) => { count: number; sum: number };
+};
+
+export type MetricsRegistryOptions = {
+  /** Prepended to every metric name, e.g. "portal_". */
+  prefix?: string;
+  /** Labels added to every sample (app, region, ...). */
+  defaultLabels?: MetricLabels;
+};
+
+export type MetricsRegistry = {
+  counter: (opts: CounterOptions) => Counter;
+  gauge: (opts: GaugeOptions) => Gauge;
+  histogram: (opts: HistogramOptions) => Histogram;
+  /** Prometheus text exposition format. */
+  render: () => string;
+};
+
+export const prometheusContentType = "text/plain; version=0.0.4; charset=utf-8";
+
+export const defaultBuckets = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+] as const;
+
+const metricNameRe = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const labelNameRe = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+const escapeHelp = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+const escapeLabel = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatValue = (v: number) =>
+  Number.isNaN(v)
+    ? "NaN"
+    : v === Infinity
+    ? "+Inf"
+    : v === -Infinity
+    ? "-Inf"
+    : String(v);
+
+const seriesKey = (labels: MetricLabels) =>
+  JSON.stringify(
+    Object.keys(labels).sort().map((k) => [k, String(labels[k])]),
+  );
+
+const formatLabels = (labels: MetricLabels) => {
+  const keys = Object.keys(labels).sort();
+  if (keys.length === 0) return "";
+  return `{${
+    keys.map((k) => {
+      if (!labelNameRe.test(k) || k.startsWith("__")) {
+        throw new Error(`Invalid metric label name: ${k}`);
+      }
+      return `${k}="${escapeLabel(String(labels[k]))}"`;
+    }).join(",")
+  }}`;
+};
+
+type Registered = {
+  type: MetricType;
+  name: string;
+  help: string;
+  lines: () => string[];
+  api: Counter | Gauge | Histogram;
+};
+
+export const createMetricsRegistry = (
+  opts: MetricsRegistryOptions = {},
+): MetricsRegistry => {
+  const prefix = opts.prefix ?? "";
+  const defaults = opts.defaultLabels ?? {};
+  const metrics = new Map<string, Registered>();
+  const withDefaults = (labels: MetricLabels) => ({ ...defaults, ...labels });
+
+  const register = <T extends Registered["api"]>(
+    type: MetricType,
+    rawName: string,
+    help: string,
+    build: (name: string) => Omit<Registered, "type" | "name" | "help">,
+  ): T => {
+    const name = `${prefix}${rawName}`;
+    if (!metricNameRe.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    const existing = metrics.get(name);
+    if (existing) {
+      // Re-registering the same metric (e.g. two middleware instances sharing
+      // a registry) returns the original; a type clash is a programming error.
+      if (existing.type !== type) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing.api as T;
+    }
+    const built = build(name);
+    metrics.set(name, { type, name, help, ...built });
+    return built.api as T;
+  };
+
+  // Counters and gauges share storage: one number per label set.
+  const scalar = (
+    type: "counter" | "gauge",
+    o: MetricBase,
+  ) =>
+    register<Counter & Gauge>(type, o.name, o.help, (name) => {
+      const series = new Map<string, MetricSample>();
+      const add = (labels: MetricLabels, by: number) => {
+        const key = seriesKey(labels);
+        const s = series.get(key) ?? { labels: { ...labels }, value: 0 };
+        s.value += by;
+        series.set(key, s);
+      };
+      const api: Counter & Gauge = {
+        inc: (labels = {}, by = 1) => {
+          if (type === "counter" && by < 0) {
+            throw new Error(`Counter ${name} cannot decrease`);
+          }
+          add(labels, by);
+        },
+        dec: (labels = {}, by = 1) => add(labels, -by),
+        set: (labels, value) => {
+          series.set(seriesKey(labels), { labels: { ...labels }, value });
+        },
+        value: (labels = {}) => series.get(seriesKey(labels))?.value ?? 0,
+      };
+      const lines = () => {
+        const collected = o.collect?.();
+        const samples = typeof collected === "number"
+          ? [{ labels: {}, value: collected }]
+          : collected ?? [];
+        return [...series.values(), ...samples].map((s) =>
+          `${name}${formatLabels(withDefaults(s.labels))} ${
+            formatValue(s.value)
+          }`
+        );
+      };
+      return { lines, api };
+    });
+
+  const histogram = (o: HistogramOptions): Histogram =>
+    register<Histogram>("histogram", o.name, o.help, (name) => {
+      const buckets = [...(o.buckets ?? defaultBuckets)];
+      if (buckets.some((b, i) => i > 0 && b <= buckets[i - 1])) {
+        throw new Error(`Histogram ${name} buckets must be increasing`);
+      }
+      type Series = {
+        labels: MetricLabels;
+        counts: number[];
+        count: number;
+        sum: number;
+      };
+      const series = new Map<string, Series>();
+      const observe = (labels: MetricLabels, value: number) => {
+        const key = seriesKey(labels);
+        let s = series.get(key);
+        if (!s) {
+          s = {
+            labels: { ...labels },
+            counts: buckets.map(() => 0),
+            count: 0,
+            sum: 0,
+          };
+          series.set(key, s);
+        }
+        const i = buckets.findIndex((b) => value <= b);
+        if (i >= 0) s.counts[i]++;
+        s.count++;
+        s.sum += value;
+      };
+      const api: Histogram = {
+        observe,
+        startTimer: (labels = {}) => {
+          const t0 = performance.now();
+          return (more = {}) => {
+            const seconds = (performance.now() - t0) / 1000;
+            observe({ ...labels, ...more }, seconds);
+            return seconds;
+          };
+        },
+        value: (labels = {}) => {
+          const s = series.get(seriesKey(labels));
+          return { count: s?.count ?? 0, sum: s?.sum ?? 0 };
+        },
+      };
+      const lines = () =>
+        [...series.values()].flatMap((s) => {
+          const labels = withDefaults(s.labels);
+          let cumulative = 0;
+          const out = buckets.map((b, i) => {
+            cumulative += s.counts[i];
+            return `${name}_bucket${
+              formatLabels({ ...labels, le: formatValue(b) })
+            } ${cumulative}`;
+          });
+          out.push(
+            `${name}_bucket${
+              formatLabels({ ...labels, le: "+Inf" })
+            } ${s.count}`,
+          );
+          out.push(`${name}_sum${formatLabels(labels)} ${formatValue(s.sum)}`);
+          out.push(`${name}_count${formatLabels(labels)} ${s.count}`);
+          return out;
+        });
+      return { lines, api };
+    });
+
+  const render = () => {
+    const out: string[] = [];
+    for (const m of metrics.values()) {
+      out.push(`# HELP ${m.name} ${escapeHelp(m.help)}`);
+      out.push(`# TYPE ${m.name} ${m.type}`);
+      out.push(...m.lines());
+    }
+    return out.length ? `${out.join("\n")}\n` : "";
+  };
+
+  return {
+    counter: (o) => scalar("counter", o),
+    gauge: (o) => scalar("gauge", o),
+    histogram,
+    render,
+  };
+};
+
+/* =========================
+ * collectors
+ * ========================= */
+
+/**
+ * Gauge reading a hub's live session count at scrape time. Works with
+ * CxSseHub, WsHub, or anything with `size()`.
+ */
+export const observeHubSize = (
+  registry: MetricsRegistry,
+  hub: { size: () => number },
+  opts: { name?: string; help?: string } = {},
+): Gauge =>
+  registry.gauge({
+    name: opts.name ?? "cx_sse_sessions",
+    help: opts.help ?? "Open sessions registered with the hub",
+    collect: () => hub.size(),
+  });
+
+/** Cache hit/miss/failure counters and entry count for an InMemoryBundler. */
+export const observeBundler = (
+  registry: MetricsRegistry,
+  bundler: InMemoryBundler,
+  opts: { name?: string } = {},
+) => {
+  const base = opts.name ?? "bundle";
+  registry.counter({
+    name: `${base}_cache_hits_total`,
+    help: "Bundle requests served from the in-memory cache",
+    collect: () => bundler.stats().hits,
+  });
+  registry.counter({
+    name: `${base}_cache_misses_total`,
+    help: "Bundle requests that ran Deno.bundle",
+    collect: () => bundler.stats().misses,
+  });
+  registry.counter({
+    name: `${base}_failures_total`,
+    help: "Bundle requests that failed",
+    collect: () => bundler.stats().failures,
+  });
+  registry.gauge({
+    name: `${base}_cache_entries`,
+    help: "Bundles held in the in-memory cache",
+    collect: () => bundler.cacheSize,
+  });
+};
+
+/* =========================
+ * middleware
+ * ========================= */
+
+/**
+ * Per-request recorder exposed as `c.vars.metrics`; cx dispatch and the
+ * proxy record through it when metrics() runs earlier in the chain.
+ */
+export type RequestMetrics = {
+  readonly registry: MetricsRegistry;
+  /** `failedStatus` is set when the action result was not ok. */
+  cxAction: (action: string, seconds: number, failedStatus?: number) => void;
+  proxyUpstream: (route: string, seconds: number, status: number) => void;
+  proxyError: (route: string, kind: ProxyErrorKind) => void;
+};
+
+export type MetricsVars = { metrics: RequestMetrics };
+
+/** The request's metrics recorder when metrics() runs earlier in the chain. */
+export const metricsOf = (
+  // deno-lint-ignore no-explicit-any
+  c: HandlerCtx<any, any, any>,
+): RequestMetrics | undefined => {
+  const m = (c.vars as Partial<MetricsVars>).metrics;
+  return m && typeof m.cxAction === "function" ? m : undefined;
+};
+
+export type MetricsOptions<State, Vars extends VarsRecord> = {
+  registry: MetricsRegistry;
+  /** Scrape path. Default "/metrics". */
+  path?: string;
+  /** Latency buckets in seconds for request, cx, and proxy histograms. */
+  buckets?: readonly number[];
+  /** Gate the scrape endpoint (token, network); refused scrapes get 403. */
+  authorize?: (
+    c: HandlerCtx<string, State, Vars>,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Route label. Default: the matched route template; requests answered by
+   * middleware (cx, proxy, fs routes) get "middleware", unmatched 404s
+   * "unmatched".
+   */
+  routeLabel?: (
+    c: HandlerCtx<string, State, Vars>,
+    res: Response,
+  ) => string;
+};
+
+// RFC 9110 methods plus PATCH; anything else is labeled "OTHER" so clients
+// cannot mint unbounded label values.
+const knownMethods = new Set([
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "DELETE",
+  "CONNECT",
+  "OPTIONS",
+  "TRACE",
+  "PATCH",
+]);
+
+/**
+ * Metrics middleware. Register it first (before routes' middleware, cx, and
+ * the proxy) and type the app with `withVars<MetricsVars>()`.
+ */
+export const metrics = <
+  State,
+  Vars extends VarsRecord & MetricsVars,
+>(opts: MetricsOptions<State, Vars>): Middleware<State, Vars> => {
+  const { registry } = opts;
+  const path = opts.path ?? "/metrics";
+  const buckets = opts.buckets ?? defaultBuckets;
+
+  const requests = registry.counter({
+    name: "http_requests_total",
+    help: "HTTP requests by method, route template, and status",
+  });
+  const duration = registry.histogram({
+    name: "http_request_duration_seconds",
+    help: "Time to produce response headers, by method and route template",
+    buckets,
+  });
+  const inFlight = registry.gauge({
+    name: "http_requests_in_flight",
+    help: "Requests currently being handled",
+  });
+  const sseStreams = registry.gauge({
+    name: "http_sse_streams_active",
+    help: "Open SSE response streams by route template",
+  });
+  const cxActions = registry.counter({
+    name: "cx_actions_total",
+    help: "cx action dispatches by action name",
+  });
+  const cxFailures = registry.counter({
+    name: "cx_action_failures_total",
+    help: "cx action dispatches that failed, by action name and status",
+  });
+  const cxDuration = registry.histogram({
+    name: "cx_action_duration_seconds",
+    help: "cx action dispatch time by action name",
+    buckets,
+  });
+  const upstreamDuration = registry.histogram({
+    name: "proxy_upstream_duration_seconds",
+    help: "Time until upstream response headers, by proxy route",
+    buckets,
+  });
+  const upstreamResponses = registry.counter({
+    name: "proxy_upstream_responses_total",
+    help: "Upstream responses by proxy route and status",
+  });
+  const upstreamErrors = registry.counter({
+    name: "proxy_upstream_errors_total",
+    help: "Proxy failures by route and error kind",
+  });
+
+  const recorder: RequestMetrics = {
+    registry,
+    cxAction: (action, seconds, failedStatus) => {
+      cxActions.inc({ action });
+      cxDuration.observe({ action }, seconds);
+      if (failedStatus !== undefined) {
+        cxFailures.inc({ action, status: failedStatus });
+      }
+    },
+    proxyUpstream: (route, seconds, status) => {
+      upstreamDuration.observe({ route }, seconds);
+      upstreamResponses.inc({ route, status });
+    },
+    proxyError: (route, kind) => upstreamErrors.inc({ route, kind }),
+  };
+
+  const labelOf = (c: HandlerCtx<string, State, Vars>, res: Response) =>
+    opts.routeLabel?.(c, res) ??
+      c.route?.path ??
+      (res.status === 404 ? "unmatched" : "middleware");
+
+  return async (c, next) => {
+    if (c.url.pathname === path && c.req.method === "GET") {
+      if (opts.authorize && !(await opts.authorize(c))) {
+        return new HttpProblem(403, {
+          detail: "Metrics scrape not authorized",
+        }).toResponse(c.req);
+      }
+      return new Response(registry.render(), {
+        headers: {
+          "content-type": prometheusContentType,
+          "cache-control": "no-store",
+        },
+      });
+    }
+
+    c.setVar("metrics", recorder as Vars["metrics"]);
+    const upper = c.req.method.toUpperCase();
+    const method = knownMethods.has(upper) ? upper : "OTHER";
+    const t0 = performance.now();
+    inFlight.inc();
+    let res: Response;
+    try {
+      res = await next();
+    } catch (err) {
+      const route = c.route?.path ?? "middleware";
+      requests.inc({ method, route, status: 500 });
+      duration.observe({ method, route }, (performance.now() - t0) / 1000);
+      throw err;
+    } finally {
+      inFlight.dec();
+    }
+
+    const route = labelOf(c, res);
+    requests.inc({ method, route, status: res.status });
+    duration.observe({ method, route }, (performance.now() - t0) / 1000);
+
+    if (isEventStream(res) && res.status < 300) {
+      sseStreams.inc({ route });
+      // Decrement once when the stream ends or the client goes away.
+      return watchStream(res, { end: () => sseStreams.dec({ route }) });
+    }
+    return res;
+  };
+};
@@ -0,0 +1,292 @@
+// lib/continuux/http-metrics_test.ts
+//
+// Tests for http-metrics.ts.
+//
+// Covered behaviors:
+// - registry: counters, gauges, histograms (cumulative buckets, sum, count),
+//   default labels, prefixes, escaping, collect callbacks, re-registration
+// - metrics(): scrape endpoint (content type, authorize), request counts and
+//   latency labeled by route template, unmatched vs middleware-answered
+//   requests, thrown errors, unknown methods folded into OTHER, and active
+//   SSE streams
+// - proxy upstream latency/status and error kinds
+// - cx action counts and failures with bounded action labels, and the SSE hub
+//   session gauge (driven through testClient)
+// - InMemoryBundler hit/miss/failure counters via observeBundler()
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { Application } from "./http.ts";
+import { InMemoryBundler } from "./bundle.ts";
+import { httpProxy } from "./http-proxy.ts";
+import { testClient } from "./http-test-client.ts";
+import { actionSchemas, createCx } from "./interaction-html.ts";
+import { CxMiddlewareBuilder, decodeCxEnvelope } from "./interaction.ts";
+import {
+  createMetricsRegistry,
+  metrics,
+  type MetricsVars,
+  observeBundler,
+  observeHubSize,
+  prometheusContentType,
+} from "./http-metrics.ts";
+
+const lines = (text: string, prefix: string) =>
+  text.split("\n").filter((l) => l.startsWith(prefix));
+
+Deno.test("http-metrics: registry and text format", () => {
+  const registry = createMetricsRegistry({
+    prefix: "app_",
+    defaultLabels: { region: "eu" },
+  });
+  const jobs = registry.counter({ name: "jobs_total", help: "Jobs\nrun" });
+  jobs.inc({ queue: 'a"b' });
+  jobs.inc({ queue: 'a"b' }, 2);
+  jobs.inc();
+  assertEquals(jobs.value({ queue: 'a"b' }), 3);
+
+  const depth = registry.gauge({ name: "depth", help: "Depth" });
+  depth.set({}, 5);
+  depth.dec({}, 2);
+  registry.gauge({
+    name: "workers",
+    help: "Workers",
+    collect: () => [{ labels: { pool: "x" }, value: 4 }],
+  });
+
+  const latency = registry.histogram({
+    name: "latency_seconds",
+    help: "Latency",
+    buckets: [0.1, 1],
+  });
+  latency.observe({}, 0.05);
+  latency.observe({}, 0.5);
+  latency.observe({}, 3);
+
+  // Same name and type returns the existing metric; a type clash throws.
+  assert(registry.counter({ name: "jobs_total", help: "x" }) === jobs);
+  let clash = false;
+  try {
+    registry.gauge({ name: "jobs_total", help: "x" });
+  } catch {
+    clash = true;
+  }
+  assert(clash);
+
+  const text = registry.render();
+  assertStringIncludes(text, "# HELP app_jobs_total Jobs\\nrun\n");
+  assertStringIncludes(text, "# TYPE app_jobs_total counter\n");
+  assertEquals(lines(text, "app_jobs_total"), [
+    'app_jobs_total{queue="a\\"b",region="eu"} 3',
+    'app_jobs_total{region="eu"} 1',
+  ]);
+  assertEquals(lines(text, "app_depth"), ['app_depth{region="eu"} 3']);
+  assertEquals(lines(text, "app_workers"), [
+    'app_workers{pool="x",region="eu"} 4',
+  ]);
+  assertEquals(lines(text, "app_latency_seconds"), [
+    'app_latency_seconds_bucket{le="0.1",region="eu"} 1',
+    'app_latency_seconds_bucket{le="1",region="eu"} 2',
+    'app_latency_seconds_bucket{le="+Inf",region="eu"} 3',
+    'app_latency_seconds_sum{region="eu"} 3.55',
+    'app_latency_seconds_count{region="eu"} 3',
+  ]);
+});
+
+Deno.test("http-metrics: middleware, scrape endpoint, and SSE", async () => {
+  const registry = createMetricsRegistry();
+  const app = Application.sharedState({}).withVars<MetricsVars>();
+  app.use(metrics({
+    registry,
+    authorize: (c) => c.req.headers.get("authorization") === "Bearer scrape",
+  }));
+  app.use(async (c, next) =>
+    c.url.pathname === "/mw" ? c.text("from middleware") : await next()
+  );
+  app.get("/users/:id", (c) => c.json({ id: c.params.id }));
+  app.get("/boom", () => {
+    throw new Error("boom");
+  });
+  app.get("/ticks", (c) =>
+    c.sse<{ tick: number }>(async (session) => {
+      await session.sendWhenReady("tick", 1);
+    }));
+
+  const client = testClient(app);
+  await client.get("/users/1");
+  await client.get("/users/2");
+  await client.get("/nope");
+  await client.get("/mw");
+  assertEquals((await client.get("/boom")).status, 500);
+  // Arbitrary method tokens would otherwise mint unbounded label values.
+  for (const method of ["PURGE", "X-RANDOM-1"]) {
+    const r = await app.fetch(new Request("http://localhost/nope", { method }));
+    await r.body?.cancel();
+  }
+
+  // SSE streams count as active until the body ends or is cancelled.
+  const r = await app.fetch(new Request("http://localhost/ticks"));
+  const scrape = () =>
+    client.get("/metrics", { headers: { authorization: "Bearer scrape" } });
+  assertStringIncludes(
+    await (await scrape()).text(),
+    'http_sse_streams_active{route="/ticks"} 1',
+  );
+  const reader = r.body!.getReader();
+  await reader.read();
+  await reader.cancel();
+
+  assertEquals((await client.get("/metrics")).status, 403);
+  const res = await scrape();
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("content-type"), prometheusContentType);
+  const text = await res.text();
+  assertEquals(lines(text, "http_requests_total"), [
+    'http_requests_total{method="GET",route="/users/:id",status="200"} 2',
+    'http_requests_total{method="GET",route="unmatched",status="404"} 1',
+    'http_requests_total{method="GET",route="middleware",status="200"} 1',
+    'http_requests_total{method="GET",route="/boom",status="500"} 1',
+    'http_requests_total{method="OTHER",route="unmatched",status="404"} 2',
+    'http_requests_total{method="GET",route="/ticks",status="200"} 1',
+  ]);
+  assertStringIncludes(
+    text,
+    'http_request_duration_seconds_count{method="GET",route="/users/:id"} 2',
+  );
+  assertStringIncludes(text, 'http_sse_streams_active{route="/ticks"} 0');
+  // Scrapes are not themselves counted; the in-flight gauge is back to zero.
+  assert(!text.includes('route="/metrics"'));
+  assertEquals(lines(text, "http_requests_in_flight"), [
+    "http_requests_in_flight 0",
+  ]);
+});
+
+Deno.test("http-metrics: proxy upstream latency and errors", async () => {
+  const ac = new AbortController();
+  const upstream = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, signal: ac.signal, onListen: () => {} },
+    () => new Response("nope", { status: 503 }),
+  );
+  const { port } = upstream.addr as Deno.NetAddr;
+
+  try {
+    const registry = createMetricsRegistry();
+    const app = Application.sharedState({}).withVars<MetricsVars>();
+    app.use(metrics({ registry }));
+    app.use(httpProxy({
+      routes: [{
+        name: "billing",
+        match: (c) => c.url.pathname.startsWith("/billing"),
+        target: (c) => `http://127.0.0.1:${port}${c.url.pathname}`,
+      }, {
+        match: (c) => c.url.pathname.startsWith("/broken"),
+        target: () => "not a url",
+      }],
+    }));
+
+    const client = testClient(app);
+    assertEquals((await client.get("/billing/invoices")).status, 503);
+    assertEquals((await client.get("/broken")).status, 502);
+
+    const text = registry.render();
+    assertStringIncludes(
+      text,
+      'proxy_upstream_responses_total{route="billing",status="503"} 1',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_upstream_duration_seconds_count{route="billing"} 1',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_upstream_errors_total{kind="target",route="unnamed"} 1',
+    );
+  } finally {
+    ac.abort();
+    await upstream.finished;
+  }
+});
+
+Deno.test("http-metrics: cx actions and SSE hub sessions", async () => {
+  const state = { count: 0 };
+  type ServerEvents = { message: string; js: string };
+  const actions = actionSchemas({
+    increment: decodeCxEnvelope,
+    reject: decodeCxEnvelope,
+  });
+  const cx = createCx<typeof state, MetricsVars, typeof actions, ServerEvents>(
+    actions,
+  );
+  const hub = cx.server.sseHub();
+  const builder = new CxMiddlewareBuilder<ServerEvents>({ hub });
+
+  const registry = createMetricsRegistry();
+  observeHubSize(registry, hub);
+  const app = Application.sharedState<typeof state, MetricsVars>(state);
+  app.use(metrics({ registry }));
+  app.use(
+    builder.middleware<typeof state, MetricsVars, typeof actions, "action">({
+      onConnect: async ({ session }) => {
+        await session.sendWhenReady("message", "connected");
+      },
+      interaction: {
+        cx,
+        handlers: {
+          increment: () => {
+            state.count++;
+            return { ok: true };
+          },
+          reject: () => ({ ok: false, status: 409, message: "no" }),
+        },
+      },
+    }),
+  );
+
+  const client = testClient(app);
+  await client.cx("action:increment");
+  await client.cx("action:increment");
+  await client.cx("action:reject");
+  await client.cx("action:x-random-1");
+  await client.cx("action:x-random-2");
+
+  await using events = await client.cxSse<ServerEvents>();
+  await events.next();
+  assertEquals(hub.size(), 1);
+  const text = registry.render();
+  assertEquals(lines(text, "cx_actions_total"), [
+    'cx_actions_total{action="increment"} 2',
+    'cx_actions_total{action="reject"} 1',
+    'cx_actions_total{action="unknown"} 2',
+  ]);
+  assertEquals(lines(text, "cx_action_failures_total"), [
+    'cx_action_failures_total{action="reject",status="409"} 1',
+    'cx_action_failures_total{action="unknown",status="404"} 2',
+  ]);
+  assertStringIncludes(
+    text,
+    'cx_action_duration_seconds_count{action="increment"} 2',
+  );
+  assertEquals(lines(text, "cx_sse_sessions"), ["cx_sse_sessions 1"]);
+  assertStringIncludes(
+    text,
+    `http_requests_total{method="POST",route="middleware",status="204"} 2`,
+  );
+});
+
+Deno.test("http-metrics: bundler cache counters", async () => {
+  const bundler = new InMemoryBundler();
+  const registry = createMetricsRegistry();
+  observeBundler(registry, bundler);
+
+  bundler.prime("ua", "export {};");
+  assert((await bundler.bundle("ua")).ok);
+  assert(!(await bundler.bundle("./does-not-exist.ts")).ok);
+  assertEquals(bundler.stats(), { hits: 1, misses: 1, failures: 1 });
+
+  const text = registry.render();
+  assertEquals(lines(text, "bundle_"), [
+    "bundle_cache_hits_total 1",
+    "bundle_cache_misses_total 1",
+    "bundle_failures_total 1",
+    "bundle_cache_entries 1",
+  ]);
+});
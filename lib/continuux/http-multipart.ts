@@ -0,0 +1,692 @@
+/**
+ * lib/continuux/http-multipart.ts
+ *
+ * Streaming multipart/form-data parsing for ContinuUX handlers, for uploads
+ * that `c.readFormData()` (which buffers the whole body) cannot take.
+ *
+ * Features:
+ * - multipartParts(): async generator over fields and file parts; file
+ *   bodies are ReadableStreams read straight off the request body
+ * - Per-file, per-field, and total body size limits, part and file counts,
+ *   and a content-type allowlist for files (`image/*` style families)
+ * - readMultipart(): typed result with small files held in memory and larger
+ *   ones spooled to a temp directory, each with a SHA-256 digest computed
+ *   while streaming
+ * - Non-file fields validated by any SchemaLike (e.g. a Zod object); failures
+ *   are 422 request-validation problems with `target: "multipart"`
+ * - Limit violations and malformed bodies throw HttpProblem (400, 413, 415)
+ *
+ * Both are also available on HandlerCtx as `c.multipart()` and
+ * `c.readMultipart()`.
+ */
+
+import { crypto as stdCrypto } from "@std/crypto";
+import {
+  HttpProblem,
+  schemaIssues,
+  type SchemaLike,
+  validationProblem,
+} from "./http-problem.ts";
+
+export type MultipartLimits = {
+  /** Largest single file in bytes. Default 10 MiB. */
+  maxFileBytes?: number;
+  /** Largest non-file field value in bytes. Default 64 KiB. */
+  maxFieldBytes?: number;
+  /** Largest request body in bytes, framing included. Default 50 MiB. */
+  maxTotalBytes?: number;
+  /** Most parts (fields and files). Default 1000. */
+  maxParts?: number;
+  /** Most file parts. Default 20. */
+  maxFiles?: number;
+  /**
+   * Content types accepted for file parts, matched against the part's
+   * declared media type. Entries ending in "/*" match a family. Default: any.
+   */
+  allowedTypes?: readonly string[];
+};
+
+export type MultipartField = {
+  kind: "field";
+  name: string;
+  value: string;
+  headers: Headers;
+};
+
+export type MultipartFile = {
+  kind: "file";
+  name: string;
+  filename: string;
+  contentType: string;
+  headers: Headers;
+  /**
+   * The file's bytes, streamed from the request. Read it (or leave it) before
+   * asking for the next part; unread bytes are skipped but still count
+   * against the limits.
+   */
+  body: ReadableStream<Uint8Array<ArrayBuffer>>;
+};
+
+export type MultipartPart = MultipartField | MultipartFile;
+
+/** Non-file fields as collected before validation; repeats become arrays. */
+export type MultipartFields = Record<string, string | string[]>;
+
+export type MultipartOptions<F = MultipartFields> = MultipartLimits & {
+  /**
+   * Files up to this many bytes stay in memory; larger ones are spooled to
+   * disk. 0 spools every file. Default 1 MiB.
+   */
+  spoolThreshold?: number;
+  /** Directory for spooled files. Default: a new Deno.makeTempDir(). */
+  spoolDir?: string;
+  /** Parser for the non-file fields, e.g. a Zod object schema. */
+  fields?: SchemaLike<F> | ((u: unknown) => F);
+};
+
+export type UploadedFile = {
+  field: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Hex SHA-256 of the content. */
+  sha256: string;
+  /** Spool file path, or undefined when the file is held in memory. */
+  path?: string;
+  bytes: () => Promise<Uint8Array<ArrayBuffer>>;
+  stream: () => ReadableStream<Uint8Array<ArrayBuffer>>;
+};
+
+export type MultipartResult<F = MultipartFields> = {
+  fields: F;
+  files: UploadedFile[];
+  /** First file uploaded under a field name. */
+  file: (field: string) => UploadedFile | undefined;
+  /** Remove spooled files (and the temp dir, when readMultipart made it). */
+  cleanup: () => Promise<void>;
+  [Symbol.asyncDispose]: () => Promise<void>;
+};
+
+const MAX_HEADER_BYTES = 16 * 1024;
+
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+const multipartProblem = (
+  status: number,
+  code: string,
+  detail: string,
+  extensions: Record<string, unknown> = {},
+) =>
+  new HttpProblem(status, {
+    type: "urn:continuux:problem:multipart",
+    detail,
+    extensions: { code, ...extensions },
+  });
+
+/* =========================
+ * SHA-256 (streamed through @std/crypto)
+ * ========================= */
+
+/**
+ * Streaming SHA-256: `update()` per chunk, then `hex()` once. Chunks flow
+ * through a TransformStream into @std/crypto's digest, which hashes an
+ * async iterable incrementally instead of buffering it. Call `abort()` when
+ * the input fails so the pending digest settles.
+ */
+export const sha256Stream = () => {
+  const pipe = new TransformStream<
+    Uint8Array<ArrayBuffer>,
+    Uint8Array<ArrayBuffer>
+  >();
+  const writer = pipe.writable.getWriter();
+  const digest = stdCrypto.subtle.digest("SHA-256", pipe.readable);
+  digest.catch(() => {});
+
+  const update = (data: Uint8Array<ArrayBuffer>) => writer.write(data);
+  const abort = (reason?: unknown) => writer.abort(reason).catch(() => {});
+  const hex = async () => {
+    await writer.close();
+    return Array.from(
+      new Uint8Array(await digest),
+      (b) => b.toString(16).padStart(2, "0"),
+    ).join("");
+  };
+
+  return { update, hex, abort };
+};
+
+/* =========================
+ * Header helpers
+ * ========================= */
+
+/** The boundary of a multipart/form-data Content-Type, or undefined. */
+export const multipartBoundary = (
+  contentType: string | null | undefined,
+): string | undefined => {
+  if (!contentType) return undefined;
+  const [type, ...params] = splitParams(contentType);
+  if (type.toLowerCase() !== "multipart/form-data") return undefined;
+  const boundary = paramValue(params, "boundary");
+  return boundary && boundary.length <= 70 ? boundary : undefined;
+};
+
+// Split "a; b=c; d="e;f"" on semicolons outside quotes.
+const splitParams = (value: string): string[] => {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '"' && value[i - 1] !== "\\") quoted = !quoted;
+    if (ch === ";" && !quoted) {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+};
+
+const paramValue = (params: string[], name: string): string | undefined => {
+  for (const p of params) {
+    const eq = p.indexOf("=");
+    if (eq < 0 || p.slice(0, eq).trim().toLowerCase() !== name) continue;
+    const raw = p.slice(eq + 1).trim();
+    return raw.startsWith('"') && raw.endsWith('"')
+      ? raw.slice(1, -1).replace(/\\(.)/g, "$1")
+      : raw;
+  }
+  return undefined;
+};
+
+const parseDisposition = (value: string | null) => {
+  if (!value) return undefined;
+  const [kind, ...params] = splitParams(value);
+  if (kind.toLowerCase() !== "form-data") return undefined;
+  let filename = paramValue(params, "filename");
+  // RFC 5987 `filename*=UTF-8''...` wins over the plain parameter.
+  const extended = paramValue(params, "filename*");
+  const m = extended ? /^utf-8'[^']*'(.*)$/i.exec(extended) : null;
+  if (m) {
+    try {
+      filename = decodeURIComponent(m[1]);
+    } catch {
+      // keep the plain filename
+    }
+  }
+  return { name: paramValue(params, "name"), filename };
+};
+
+const typeAllowed = (type: string, allowed: readonly string[]) => {
+  const media = type.split(";")[0].trim().toLowerCase();
+  return allowed.some((p) => {
+    const pat = p.toLowerCase();
+    return pat.endsWith("/*")
+      ? media.startsWith(pat.slice(0, -1))
+      : media === pat;
+  });
+};
+
+const concat = (chunks: Uint8Array[], size: number) => {
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.byteLength;
+  }
+  return out;
+};
+
+/* =========================
+ * Scanner
+ * ========================= */
+
+const indexOf = (hay: Uint8Array, needle: Uint8Array, from: number) => {
+  const first = needle[0];
+  const last = hay.byteLength - needle.byteLength;
+  outer: for (let i = from; i <= last; i++) {
+    if (hay[i] !== first) continue;
+    for (let j = 1; j < needle.byteLength; j++) {
+      if (hay[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const CRLF = enc.encode("\r\n");
+const CRLFCRLF = enc.encode("\r\n\r\n");
+
+const createScanner = (
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  maxTotalBytes: number,
+) => {
+  const reader = body.getReader();
+  // Every delimiter, including the first, is matched as CRLF--boundary; a
+  // leading CRLF is seeded so a body starting with the boundary matches.
+  const delim = enc.encode(`\r\n--${boundary}`);
+  let buf = new Uint8Array(CRLF) as Uint8Array<ArrayBuffer>;
+  let pos = 0;
+  let total = 0;
+
+  const fill = async (): Promise<boolean> => {
+    const r = await reader.read();
+    if (r.done) return false;
+    total += r.value.byteLength;
+    if (total > maxTotalBytes) {
+      throw multipartProblem(
+        413,
+        "body_too_large",
+        `Request body exceeds ${maxTotalBytes} bytes`,
+      );
+    }
+    const next = new Uint8Array(buf.byteLength - pos + r.value.byteLength);
+    next.set(buf.subarray(pos), 0);
+    next.set(r.value, buf.byteLength - pos);
+    buf = next;
+    pos = 0;
+    return true;
+  };
+
+  const truncated = () =>
+    multipartProblem(400, "truncated", "Multipart body ended unexpectedly");
+
+  const ensure = async (n: number) => {
+    while (buf.byteLength - pos < n) {
+      if (!(await fill())) throw truncated();
+    }
+  };
+
+  /** Next chunk of the current part's body, or null at its delimiter. */
+  const readBody = async (): Promise<Uint8Array<ArrayBuffer> | null> => {
+    while (true) {
+      const i = indexOf(buf, delim, pos);
+      if (i === pos) {
+        pos += delim.byteLength;
+        return null;
+      }
+      const end = i >= 0 ? i : buf.byteLength - (delim.byteLength - 1);
+      if (end > pos) {
+        const out = buf.slice(pos, end);
+        pos = end;
+        return out;
+      }
+      if (!(await fill())) throw truncated();
+    }
+  };
+
+  return {
+    /** Skip the preamble up to and including the first delimiter. */
+    start: async () => {
+      while (await readBody() !== null) {
+        // preamble is ignored
+      }
+    },
+
+    /** After a delimiter: true when a part follows, false at the close. */
+    next: async (): Promise<boolean> => {
+      await ensure(2);
+      if (buf[pos] === 0x2d && buf[pos + 1] === 0x2d) return false;
+      // Transport padding (LWSP) may precede the CRLF.
+      while (true) {
+        await ensure(1);
+        if (buf[pos] !== 0x20 && buf[pos] !== 0x09) break;
+        pos++;
+      }
+      await ensure(2);
+      if (buf[pos] !== 0x0d || buf[pos + 1] !== 0x0a) {
+        throw multipartProblem(
+          400,
+          "malformed",
+          "Malformed multipart boundary",
+        );
+      }
+      pos += 2;
+      return true;
+    },
+
+    headers: async (): Promise<Headers> => {
+      await ensure(2);
+      if (buf[pos] === 0x0d && buf[pos + 1] === 0x0a) {
+        pos += 2;
+        return new Headers();
+      }
+      let end: number;
+      while ((end = indexOf(buf, CRLFCRLF, pos)) < 0) {
+        if (buf.byteLength - pos > MAX_HEADER_BYTES) {
+          throw multipartProblem(
+            400,
+            "headers_too_large",
+            `Part headers exceed ${MAX_HEADER_BYTES} bytes`,
+          );
+        }
+        if (!(await fill())) throw truncated();
+      }
+      const text = dec.decode(buf.subarray(pos, end));
+      pos = end + CRLFCRLF.byteLength;
+      const headers = new Headers();
+      for (const line of text.split("\r\n")) {
+        const colon = line.indexOf(":");
+        if (colon <= 0) continue;
+        try {
+          headers.append(
+            line.slice(0, colon).trim(),
+            line.slice(colon + 1).trim(),
+          );
+        } catch {
+          throw multipartProblem(400, "malformed", "Malformed part header");
+        }
+      }
+      return headers;
+    },
+
+    readBody,
+
+    cancel: async () => {
+      try {
+        await reader.cancel();
+      } catch {
+        // ignore
+      }
+    },
+  };
+};
+
+/* =========================
+ * Parsing
+ * ========================= */
+
+/**
+ * Stream the parts of a multipart/form-data request. Throws HttpProblem 415
+ * for other content types, 413 for limit violations, and 400 for malformed
+ * bodies. Breaking out of the loop cancels the rest of the request body.
+ *
+ *   for await (const part of multipartParts(c.req, { maxFileBytes: 5e6 })) {
+ *     if (part.kind === "file") await part.body.pipeTo(sink);
+ *   }
+ */
+export async function* multipartParts(
+  req: Request,
+  limits: MultipartLimits = {},
+): AsyncGenerator<MultipartPart, void, undefined> {
+  const maxFileBytes = limits.maxFileBytes ?? 10 * 1024 * 1024;
+  const maxFieldBytes = limits.maxFieldBytes ?? 64 * 1024;
+  const maxParts = limits.maxParts ?? 1000;
+  const maxFiles = limits.maxFiles ?? 20;
+
+  const boundary = multipartBoundary(req.headers.get("content-type"));
+  if (!boundary) {
+    throw multipartProblem(
+      415,
+      "unsupported_media_type",
+      "Expected a multipart/form-data body with a boundary",
+    );
+  }
+  if (!req.body) {
+    throw multipartProblem(400, "truncated", "Multipart body is empty");
+  }
+
+  const scanner = createScanner(
+    req.body,
+    boundary,
+    limits.maxTotalBytes ?? 50 * 1024 * 1024,
+  );
+  let parts = 0;
+  let files = 0;
+
+  try {
+    await scanner.start();
+    while (await scanner.next()) {
+      if (++parts > maxParts) {
+        throw multipartProblem(
+          413,
+          "too_many_parts",
+          `More than ${maxParts} parts`,
+        );
+      }
+      const headers = await scanner.headers();
+      const disposition = parseDisposition(
+        headers.get("content-disposition"),
+      );
+      if (!disposition?.name) {
+        throw multipartProblem(
+          400,
+          "malformed",
+          "Part without a form-data name",
+        );
+      }
+      const { name, filename } = disposition;
+
+      if (filename === undefined) {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        for (
+          let c = await scanner.readBody();
+          c;
+          c = await scanner.readBody()
+        ) {
+          size += c.byteLength;
+          if (size > maxFieldBytes) {
+            throw multipartProblem(
+              413,
+              "field_too_large",
+              `Field "${name}" exceeds ${maxFieldBytes} bytes`,
+              { field: name },
+            );
+          }
+          chunks.push(c);
+        }
+        const value = dec.decode(concat(chunks, size));
+        yield { kind: "field", name, value, headers };
+        continue;
+      }
+
+      if (++files > maxFiles) {
+        throw multipartProblem(
+          413,
+          "too_many_files",
+          `More than ${maxFiles} files`,
+        );
+      }
+      const contentType = headers.get("content-type") ??
+        "application/octet-stream";
+      if (
+        limits.allowedTypes && !typeAllowed(contentType, limits.allowedTypes)
+      ) {
+        throw multipartProblem(
+          415,
+          "type_not_allowed",
+          `File type ${contentType} is not allowed for "${name}"`,
+          { field: name, contentType },
+        );
+      }
+
+      let size = 0;
+      let done = false;
+      let failure: unknown;
+      let pending: Promise<void> = Promise.resolve();
+      const take = async () => {
+        const c = await scanner.readBody();
+        if (!c) {
+          done = true;
+          return null;
+        }
+        size += c.byteLength;
+        if (size > maxFileBytes) {
+          throw multipartProblem(
+            413,
+            "file_too_large",
+            `File "${filename}" in "${name}" exceeds ${maxFileBytes} bytes`,
+            { field: name, filename },
+          );
+        }
+        return c;
+      };
+
+      // highWaterMark 0: nothing is read until the consumer asks, so the
+      // scanner is never shared between a pull and the skip below.
+      const body = new ReadableStream<Uint8Array<ArrayBuffer>>({
+        pull(controller) {
+          pending = (async () => {
+            try {
+              const c = await take();
+              if (c) controller.enqueue(c);
+              else controller.close();
+            } catch (err) {
+              failure = err;
+              controller.error(err);
+            }
+          })();
+          return pending;
+        },
+      }, { highWaterMark: 0 });
+
+      yield { kind: "file", name, filename, contentType, headers, body };
+
+      await pending;
+      if (failure) throw failure;
+      while (!done) await take();
+    }
+  } finally {
+    await scanner.cancel();
+  }
+}
+
+/* =========================
+ * Buffered/spooled result
+ * ========================= */
+
+/**
+ * Parse a multipart/form-data request into validated fields and uploaded
+ * files. Files over `spoolThreshold` are written to `spoolDir` as they
+ * stream; every file gets a SHA-256 digest. On any failure, spooled files
+ * are removed before the error is rethrown.
+ *
+ *   await using upload = await readMultipart(c.req, {
+ *     fields: z.object({ caseId: z.string() }),
+ *     allowedTypes: ["application/pdf"],
+ *   });
+ *   await archive(upload.fields.caseId, upload.file("document"));
+ */
+export const readMultipart = async <F = MultipartFields>(
+  req: Request,
+  opts: MultipartOptions<F> = {},
+): Promise<MultipartResult<F>> => {
+  const spoolThreshold = opts.spoolThreshold ?? 1024 * 1024;
+  const raw: MultipartFields = {};
+  const files: UploadedFile[] = [];
+  const spooled: string[] = [];
+  let spoolDir = opts.spoolDir;
+  let ownDir = false;
+
+  const cleanup = async () => {
+    for (const path of spooled.splice(0)) {
+      await Deno.remove(path).catch(() => {});
+    }
+    if (ownDir && spoolDir) {
+      await Deno.remove(spoolDir, { recursive: true }).catch(() => {});
+      ownDir = false;
+    }
+  };
+
+  const spoolPath = async () => {
+    if (!spoolDir) {
+      spoolDir = await Deno.makeTempDir({ prefix: "cx-upload-" });
+      ownDir = true;
+    }
+    const path = `${spoolDir}/${crypto.randomUUID()}`;
+    spooled.push(path);
+    return path;
+  };
+
+  try {
+    for await (const part of multipartParts(req, opts)) {
+      if (part.kind === "field") {
+        const prior = raw[part.name];
+        raw[part.name] = prior === undefined
+          ? part.value
+          : Array.isArray(prior)
+          ? [...prior, part.value]
+          : [prior, part.value];
+        continue;
+      }
+
+      const digest = sha256Stream();
+      const held: Uint8Array<ArrayBuffer>[] = [];
+      let size = 0;
+      let path: string | undefined;
+      let writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+
+      try {
+        for await (const chunk of part.body) {
+          await digest.update(chunk);
+          size += chunk.byteLength;
+          if (!writer && size > spoolThreshold) {
+            path = await spoolPath();
+            const file = await Deno.open(path, {
+              write: true,
+              createNew: true,
+            });
+            writer = file.writable.getWriter();
+            for (const c of held.splice(0)) await writer.write(c);
+          }
+          if (writer) await writer.write(chunk);
+          else held.push(chunk);
+        }
+        await writer?.close();
+      } catch (err) {
+        await writer?.abort(err).catch(() => {});
+        await digest.abort(err);
+        throw err;
+      }
+
+      const inMemory = path === undefined ? concat(held, size) : undefined;
+      const spoolFile = path;
+      files.push({
+        field: part.name,
+        filename: part.filename,
+        contentType: part.contentType,
+        size,
+        sha256: await digest.hex(),
+        path: spoolFile,
+        bytes: async () =>
+          inMemory ? inMemory.slice() : await Deno.readFile(spoolFile!),
+        stream: () =>
+          inMemory
+            ? new Blob([inMemory]).stream() as ReadableStream<
+              Uint8Array<ArrayBuffer>
+            >
+            : ReadableStream.from(
+              (async function* () {
+                const file = await Deno.open(spoolFile!);
+                yield* file.readable as ReadableStream<Uint8Array<ArrayBuffer>>;
+              })(),
+            ),
+      });
+    }
+
+    let fields = raw as F;
+    if (opts.fields) {
+      try {
+        fields = typeof opts.fields === "function"
+          ? opts.fields(raw)
+          : opts.fields.parse(raw);
+      } catch (err) {
+        throw validationProblem("multipart", schemaIssues(err), 422);
+      }
+    }
+
+    return {
+      fields,
+      files,
+      file: (field) => files.find((f) => f.field === field),
+      cleanup,
+      [Symbol.asyncDispose]: cleanup,
+    };
+  } catch (err) {
+    await cleanup();
+    throw err;
+  }
+};
@@ -0,0 +1,272 @@
+// lib/continuux/http-multipart_test.ts
+//
+// Tests for http-multipart.ts.
+//
+// Covered behaviors:
+// - streamed SHA-256 matches WebCrypto across chunkings
+// - boundaries split across arbitrary chunk sizes, preamble and epilogue
+// - c.multipart() streams parts; unread file bodies are skipped
+// - c.readMultipart(): in-memory vs spooled files, digests, repeated fields,
+//   Zod field validation, and cleanup of spooled files
+// - limits and allowlist surface as problem+json (413, 415, 422, 400)
+
+import { z } from "@zod";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { Application, HttpProblem } from "./http.ts";
+import {
+  multipartBoundary,
+  multipartParts,
+  readMultipart,
+  sha256Stream,
+} from "./http-multipart.ts";
+
+const enc = new TextEncoder();
+
+const subtleHex = async (bytes: Uint8Array<ArrayBuffer>) =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+
+const pattern = (n: number) => {
+  const out = new Uint8Array(n);
+  for (let i = 0; i < n; i++) out[i] = (i * 31 + 7) & 0xff;
+  return out;
+};
+
+// Hand-built body so chunk boundaries are under test control.
+const rawBody = (boundary: string, parts: string[], preamble = "") =>
+  `${preamble}--${boundary}\r\n${
+    parts.join(`\r\n--${boundary}\r\n`)
+  }\r\n--${boundary}--\r\nepilogue`;
+
+const chunked = (text: string, size: number) => {
+  const bytes = enc.encode(text);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.byteLength; i += size) {
+    chunks.push(bytes.slice(i, i + size));
+  }
+  return ReadableStream.from(chunks);
+};
+
+const formRequest = (form: FormData, path = "/upload") =>
+  new Request(`http://localhost${path}`, { method: "POST", body: form });
+
+Deno.test("http-multipart: sha256Stream matches WebCrypto", async () => {
+  for (const size of [0, 1, 55, 56, 63, 64, 65, 1000, 4097]) {
+    const data = pattern(size);
+    for (const step of [1, 13, 64, 4096]) {
+      const h = sha256Stream();
+      for (let i = 0; i < size; i += step) {
+        await h.update(data.subarray(i, i + step));
+      }
+      assertEquals(
+        await h.hex(),
+        await subtleHex(data),
+        `size ${size} step ${step}`,
+      );
+    }
+  }
+});
+
+Deno.test("http-multipart: boundary parsing and chunk splits", async () => {
+  assertEquals(
+    multipartBoundary('multipart/form-data; boundary="a b"'),
+    "a b",
+  );
+  assertEquals(multipartBoundary("application/json"), undefined);
+
+  const boundary = "----cx-boundary";
+  const text = rawBody(boundary, [
+    'Content-Disposition: form-data; name="title"\r\n\r\nQ3 report',
+    'Content-Disposition: form-data; name="doc"; filename="r.txt"\r\n' +
+    "Content-Type: text/plain\r\n\r\nline one\r\n--not-the-boundary\r\nend",
+    `Content-Disposition: form-data; name="empty"\r\n\r\n`,
+  ], "ignored preamble\r\n");
+
+  for (const size of [1, 3, 7, 64, 4096]) {
+    const req = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "content-type": `multipart/form-data; boundary=${boundary}` },
+      body: chunked(text, size),
+    });
+    const seen: string[] = [];
+    for await (const part of multipartParts(req)) {
+      if (part.kind === "field") seen.push(`${part.name}=${part.value}`);
+      else {
+        assertEquals(part.contentType, "text/plain");
+        seen.push(`${part.name}:${part.filename}=${await new Response(
+          part.body,
+        ).text()}`);
+      }
+    }
+    assertEquals(seen, [
+      "title=Q3 report",
+      "doc:r.txt=line one\r\n--not-the-boundary\r\nend",
+      "empty=",
+    ], `chunk size ${size}`);
+  }
+});
+
+Deno.test("http-multipart: handlers", async (t) => {
+  const spoolDir = await Deno.makeTempDir();
+  const spooled: string[] = [];
+  const app = Application.sharedState({});
+
+  app.post("/parts", async (c) => {
+    const names: string[] = [];
+    for await (const part of c.multipart()) {
+      // File bodies are left unread on purpose.
+      names.push(`${part.kind}:${part.name}`);
+    }
+    return c.json(names);
+  });
+
+  app.post("/upload", async (c) => {
+    await using upload = await c.readMultipart({
+      spoolThreshold: 1024,
+      spoolDir,
+      maxFileBytes: 64 * 1024,
+      allowedTypes: ["application/pdf", "image/*"],
+      fields: z.object({
+        caseId: z.string().min(1),
+        tags: z.array(z.string()).optional(),
+      }),
+    });
+    for (const f of upload.files) if (f.path) spooled.push(f.path);
+    const files = await Promise.all(upload.files.map(async (f) => ({
+      field: f.field,
+      filename: f.filename,
+      size: f.size,
+      sha256: f.sha256,
+      spooled: f.path !== undefined,
+      matches: f.sha256 === await subtleHex(await f.bytes()),
+      streamed: (await new Response(f.stream()).arrayBuffer()).byteLength,
+    })));
+    return c.json({ fields: upload.fields, files });
+  });
+
+  const big = pattern(10_000);
+  const small = pattern(100);
+
+  await t.step("parts stream with unread bodies skipped", async () => {
+    const form = new FormData();
+    form.append("a", "1");
+    form.append("doc", new File([big], "big.pdf", { type: "application/pdf" }));
+    form.append("b", "2");
+    const r = await app.fetch(formRequest(form, "/parts"));
+    assertEquals(await r.json(), ["field:a", "file:doc", "field:b"]);
+  });
+
+  await t.step("readMultipart spools large files with digests", async () => {
+    const form = new FormData();
+    form.append("caseId", "C-17");
+    form.append("tags", "x");
+    form.append("tags", "y");
+    form.append("doc", new File([big], "big.pdf", { type: "application/pdf" }));
+    form.append("thumb", new File([small], "t.png", { type: "image/png" }));
+    const r = await app.fetch(formRequest(form));
+    assertEquals(r.status, 200);
+    const body = await r.json();
+    assertEquals(body.fields, { caseId: "C-17", tags: ["x", "y"] });
+    assertEquals(body.files, [
+      {
+        field: "doc",
+        filename: "big.pdf",
+        size: 10_000,
+        sha256: await subtleHex(big),
+        spooled: true,
+        matches: true,
+        streamed: 10_000,
+      },
+      {
+        field: "thumb",
+        filename: "t.png",
+        size: 100,
+        sha256: await subtleHex(small),
+        spooled: false,
+        matches: true,
+        streamed: 100,
+      },
+    ]);
+    // `await using` removed the spool file once the handler returned.
+    assertEquals(spooled.length, 1);
+    await assertRejects(() => Deno.stat(spooled[0]), Deno.errors.NotFound);
+  });
+
+  await t.step("limits and validation are problems", async () => {
+    const tooBig = new FormData();
+    tooBig.append("caseId", "C-1");
+    tooBig.append(
+      "doc",
+      new File([pattern(70_000)], "huge.pdf", { type: "application/pdf" }),
+    );
+    const r413 = await app.fetch(formRequest(tooBig));
+    assertEquals(r413.status, 413);
+    assertEquals(r413.headers.get("content-type"), "application/problem+json");
+    const p413 = await r413.json();
+    assertEquals(p413.type, "urn:continuux:problem:multipart");
+    assertEquals(p413.code, "file_too_large");
+
+    const wrongType = new FormData();
+    wrongType.append("caseId", "C-1");
+    wrongType.append("doc", new File(["MZ"], "x.exe", { type: "x-app/exe" }));
+    const r415 = await app.fetch(formRequest(wrongType));
+    assertEquals(r415.status, 415);
+    assertEquals((await r415.json()).code, "type_not_allowed");
+
+    const invalid = new FormData();
+    invalid.append("caseId", "");
+    const r422 = await app.fetch(formRequest(invalid));
+    assertEquals(r422.status, 422);
+    const p422 = await r422.json();
+    assertEquals(p422.target, "multipart");
+    assertEquals(p422.issues[0].path, ["caseId"]);
+
+    const json = await app.fetch(
+      new Request("http://localhost/upload", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: "{}",
+      }),
+    );
+    assertEquals(json.status, 415);
+    await json.body?.cancel();
+
+    // No file from a failed upload is left behind.
+    const left = await Array.fromAsync(Deno.readDir(spoolDir));
+    assertEquals(left, []);
+  });
+
+  await Deno.remove(spoolDir, { recursive: true });
+});
+
+Deno.test("http-multipart: truncated bodies and total size", async () => {
+  const boundary = "b";
+  const headers = {
+    "content-type": `multipart/form-data; boundary=${boundary}`,
+  };
+  const cut = new Request("http://localhost/", {
+    method: "POST",
+    headers,
+    body:
+      `--${boundary}\r\nContent-Disposition: form-data; name="a"\r\n\r\nno end`,
+  });
+  const err = await assertRejects(() => readMultipart(cut), HttpProblem);
+  assertEquals(err.status, 400);
+  assertEquals(err.extensions.code, "truncated");
+
+  const long = new Request("http://localhost/", {
+    method: "POST",
+    headers,
+    body: rawBody(boundary, [
+      `Content-Disposition: form-data; name="a"\r\n\r\n${"x".repeat(2000)}`,
+    ]),
+  });
+  const tooLong = await assertRejects(
+    () => readMultipart(long, { maxTotalBytes: 1000 }),
+    HttpProblem,
+  );
+  assertEquals(tooLong.status, 413);
+  assert(tooLong.detail?.includes("1000 bytes"));
+});
@@ -0,0 +1,537 @@
+/**
+ * lib/continuux/http-openapi.ts
+ *
+ * OpenAPI 3.1 document generation for ContinuUX HTTP applications.
+ *
+ * `Application.routes()` already exposes every registered route together with
+ * its `RouteMeta` (summary, description, tags, auth) and `RouteSchemas`
+ * (params, query, json, response). This module turns that route table into a
+ * machine-readable OpenAPI 3.1 contract, and provides a middleware that serves
+ * the contract as JSON plus a minimal Natural HTML reference page.
+ *
+ * How routes map to OpenAPI:
+ * - Path templates are rewritten to OpenAPI syntax: `/users/:id{[0-9]+}`
+ *   becomes `/users/{id}` (the constraint is kept as a `pattern`), `*rest`
+ *   becomes `{rest}`. Templates that collapse onto the same OpenAPI
+ *   operation are reported rather than silently overwritten.
+ * - Path parameters are derived from the template (the same names as
+ *   `RouteInfo.keys`); if `schemas.params` converts to an object schema, its
+ *   per-property schemas are used.
+ * - `schemas.query` object properties become `in: query` parameters.
+ * - `schemas.json` becomes an `application/json` request body.
+ * - `schemas.response` becomes the `200` `application/json` response; routes
+ *   with enforced request schemas also document their 400/422
+ *   `application/problem+json` responses.
+ * - `meta.auth` becomes a security requirement when a matching security
+ *   scheme is declared, and an `x-auth` extension otherwise.
+ *
+ * Schema conversion:
+ * - Schemas are duck-typed, not imported. Anything exposing a
+ *   `toJSONSchema()` method (Zod 4 schemas do) is converted; everything else
+ *   is treated as inert metadata and omitted. Pass `schemaToJson` to plug in a
+ *   different converter.
+ *
+ * This module never mutates the Application and holds no global state; the
+ * document is rebuilt from `routes()` each time it is requested, so routes
+ * registered after the middleware still appear.
+ */
+
+import * as h from "../natural-html/elements.ts";
+import {
+  type HttpMethod,
+  jsonResponse,
+  type Middleware,
+  parsePathTemplate,
+  type RouteInfo,
+  type VarsRecord,
+} from "./http.ts";
+
+/* =========================
+ * Types
+ * ========================= */
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a route schema to JSON Schema. `io` tells the converter whether the
+ * schema describes request input or response output (Zod distinguishes the
+ * two for defaults and transforms). Return undefined if not convertible.
+ */
+export type OpenApiSchemaConverter = (
+  schema: unknown,
+  io: "input" | "output",
+) => JsonSchema | undefined;
+
+export type OpenApiParameter = {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+};
+
+export type OpenApiOperation = {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: JsonSchema }>;
+    }
+  >;
+  security?: Array<Record<string, string[]>>;
+  [extension: `x-${string}`]: unknown;
+};
+
+export type OpenApiPathItem = Partial<
+  Record<Lowercase<HttpMethod>, OpenApiOperation>
+>;
+
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: OpenApiInfo;
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<string, OpenApiPathItem>;
+  components?: { securitySchemes?: Record<string, JsonSchema> };
+  tags?: Array<{ name: string }>;
+};
+
+export type OpenApiInfo = {
+  title: string;
+  version: string;
+  description?: string;
+};
+
+export type OpenApiOptions = {
+  info: OpenApiInfo;
+  servers?: Array<{ url: string; description?: string }>;
+
+  /**
+   * Declared security schemes (OpenAPI `components.securitySchemes`).
+   * A route whose `meta.auth` names one of these gets a security requirement.
+   */
+  securitySchemes?: Record<string, JsonSchema>;
+
+  /**
+   * Route filter. Defaults to every route except HEAD and OPTIONS, which
+   * `app.all()` registers implicitly and which rarely belong in a contract.
+   */
+  include?: (route: RouteInfo) => boolean;
+
+  schemaToJson?: OpenApiSchemaConverter;
+};
+
+/** Anything that can list its routes, typically an `Application`. */
+export type OpenApiRouteSource = { routes: () => RouteInfo[] };
+
+/* =========================
+ * Schema conversion
+ * ========================= */
+
+/**
+ * Default converter: uses a `toJSONSchema()` method when present (Zod 4).
+ * The `$schema` dialect marker is dropped since OpenAPI 3.1 fixes it.
+ */
+export const schemaToJsonSchema: OpenApiSchemaConverter = (schema, io) => {
+  if (schema == null || typeof schema !== "object") return undefined;
+  const s = schema as { toJSONSchema?: (params?: unknown) => unknown };
+  if (typeof s.toJSONSchema !== "function") return undefined;
+  try {
+    const out = s.toJSONSchema({ unrepresentable: "any", io });
+    if (out == null || typeof out !== "object") return undefined;
+    const { $schema: _dialect, ...rest } = out as JsonSchema;
+    return rest;
+  } catch {
+    return undefined;
+  }
+};
+
+/* =========================
+ * Path helpers
+ * ========================= */
+
+type PathParamInfo = { name: string; pattern?: string; wildcard: boolean };
+
+/**
+ * Rewrite a ContinuUX path template into OpenAPI path syntax and report the
+ * parameters it declares (in template order). Templates are parsed by the
+ * router's own parser, so constraints like `:year{\d{4}}` are read whole.
+ */
+export const openApiPath = (
+  template: string,
+): { path: string; params: PathParamInfo[] } => {
+  const params: PathParamInfo[] = [];
+  const out = parsePathTemplate(template).map((seg) => {
+    if (seg.kind === "static") return seg.value;
+    params.push(
+      seg.kind === "param"
+        ? { name: seg.name, pattern: seg.pattern, wildcard: false }
+        : { name: seg.name, wildcard: true },
+    );
+    return `{${seg.name}}`;
+  });
+  return { path: `/${out.join("/")}`, params };
+};
+
+const operationIdFor = (route: RouteInfo): string => {
+  const explicit = route.meta?.operationId;
+  if (typeof explicit === "string" && explicit) return explicit;
+  const slug = parsePathTemplate(route.path)
+    .map((seg) => seg.kind === "static" ? seg.value : seg.name)
+    .map((s) => s.replace(/[^A-Za-z0-9]+/g, "_"))
+    .join("_");
+  return `${route.method.toLowerCase()}_${slug || "root"}`;
+};
+
+const objectProperties = (
+  schema: JsonSchema | undefined,
+): { props: Record<string, JsonSchema>; required: Set<string> } => {
+  const props = (schema?.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set(
+    Array.isArray(schema?.required) ? schema.required as string[] : [],
+  );
+  return { props, required };
+};
+
+/* =========================
+ * Document generation
+ * ========================= */
+
+// Shape of validationErrorResponse() bodies in http.ts (RFC 9457).
+const validationProblem: JsonSchema = {
+  type: "object",
+  required: ["type", "title", "status", "target", "issues"],
+  properties: {
+    type: { type: "string" },
+    title: { type: "string" },
+    status: { type: "integer" },
+    detail: { type: "string" },
+    target: { type: "string" },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["path", "message"],
+        properties: {
+          path: {
+            type: "array",
+            items: { anyOf: [{ type: "string" }, { type: "integer" }] },
+          },
+          message: { type: "string" },
+          code: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const isParser = (s: unknown) =>
+  typeof s === "function" ||
+  (s != null && typeof s === "object" &&
+    typeof (s as { parse?: unknown }).parse === "function");
+
+export function openApiOperation(
+  route: RouteInfo,
+  opts: Pick<OpenApiOptions, "securitySchemes" | "schemaToJson"> = {},
+): OpenApiOperation {
+  const convert = opts.schemaToJson ?? schemaToJsonSchema;
+  const meta = route.meta ?? {};
+  const schemas = route.schemas ?? {};
+
+  const op: OpenApiOperation = {
+    operationId: operationIdFor(route),
+    responses: {},
+  };
+  if (meta.summary) op.summary = meta.summary;
+  if (meta.description) op.description = meta.description;
+  if (meta.tags?.length) op.tags = [...meta.tags];
+  if (meta.deprecated !== undefined && meta.deprecated !== false) {
+    op.deprecated = true;
+  }
+
+  const parameters: OpenApiParameter[] = [];
+
+  // Path params: always derived from the template, refined by schemas.params.
+  const { params: pathParams } = openApiPath(route.path);
+  const paramsSchema = objectProperties(convert(schemas.params, "input"));
+  for (const p of pathParams) {
+    const schema: JsonSchema = paramsSchema.props[p.name]
+      ? { ...paramsSchema.props[p.name] }
+      : { type: "string" };
+    if (p.pattern && schema.pattern == null) {
+      schema.pattern = `^(?:${p.pattern})$`;
+    }
+    parameters.push({
+      name: p.name,
+      in: "path",
+      required: true,
+      ...(p.wildcard
+        ? { description: "Remainder of the path; may contain '/'." }
+        : {}),
+      schema,
+    });
+  }
+
+  const querySchema = objectProperties(convert(schemas.query, "input"));
+  for (const [name, schema] of Object.entries(querySchema.props)) {
+    parameters.push({
+      name,
+      in: "query",
+      required: querySchema.required.has(name),
+      schema,
+    });
+  }
+
+  if (parameters.length > 0) op.parameters = parameters;
+
+  const jsonSchema = convert(schemas.json, "input");
+  if (jsonSchema) {
+    op.requestBody = {
+      required: true,
+      content: { "application/json": { schema: jsonSchema } },
+    };
+  }
+
+  const responseSchema = convert(schemas.response, "output");
+  op.responses = responseSchema
+    ? {
+      "200": {
+        description: "OK",
+        content: { "application/json": { schema: responseSchema } },
+      },
+    }
+    : { default: { description: "Response" } };
+
+  // Enforced schemas (see validateRouteRequest in http.ts) add error shapes.
+  const enforced = [schemas.params, schemas.query, schemas.json].some(
+    isParser,
+  );
+  if (enforced) {
+    op.responses["400"] = {
+      description: "Request validation failed",
+      content: { "application/problem+json": { schema: validationProblem } },
+    };
+  }
+  if (isParser(schemas.json)) {
+    op.responses["422"] = {
+      description: "Request body failed its schema",
+      content: { "application/problem+json": { schema: validationProblem } },
+    };
+  }
+
+  if (meta.auth) {
+    if (opts.securitySchemes?.[meta.auth]) {
+      op.security = [{ [meta.auth]: [] }];
+    } else {
+      op["x-auth"] = meta.auth;
+    }
+  }
+
+  return op;
+}
+
+const defaultInclude = (r: RouteInfo) =>
+  r.method !== "HEAD" && r.method !== "OPTIONS";
+
+/**
+ * Build an OpenAPI 3.1 document from a route source (usually an Application).
+ * Throws when two routes would share an operation (`/users/:id` and
+ * `/users/:id{[0-9]+}` both become `GET /users/{id}`) or produce paths that
+ * differ only in parameter names, which OpenAPI treats as identical.
+ */
+export function openApiDocument(
+  source: OpenApiRouteSource,
+  opts: OpenApiOptions,
+): OpenApiDocument {
+  const include = opts.include ?? defaultInclude;
+  const paths: Record<string, OpenApiPathItem> = {};
+  const tags = new Set<string>();
+  // OpenAPI path with parameter names erased → the first path seen for it.
+  const shapes = new Map<string, string>();
+  const owners = new Map<string, string>();
+
+  for (const route of source.routes()) {
+    if (!include(route)) continue;
+    const { path } = openApiPath(route.path);
+    const shape = path.replace(/\{[^/]*\}/g, "{}");
+    const seen = shapes.get(shape) ?? path;
+    shapes.set(shape, seen);
+    if (seen !== path) {
+      throw new Error(
+        `OpenAPI paths ${seen} and ${path} (from ${route.path}) differ only ` +
+          `in parameter names`,
+      );
+    }
+    const opKey = `${route.method} ${path}`;
+    const owner = owners.get(opKey);
+    if (owner !== undefined) {
+      throw new Error(
+        `OpenAPI operation ${opKey} is produced by both ${owner} and ` +
+          `${route.path}; exclude one via \`include\``,
+      );
+    }
+    owners.set(opKey, route.path);
+    const op = openApiOperation(route, opts);
+    for (const t of op.tags ?? []) tags.add(t);
+    const item = paths[path] ?? (paths[path] = {});
+    item[route.method.toLowerCase() as Lowercase<HttpMethod>] = op;
+  }
+
+  const doc: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: { ...opts.info },
+    paths,
+  };
+  if (opts.servers?.length) doc.servers = [...opts.servers];
+  if (opts.securitySchemes) {
+    doc.components = { securitySchemes: { ...opts.securitySchemes } };
+  }
+  if (tags.size > 0) {
+    doc.tags = Array.from(tags).sort().map((name) => ({ name }));
+  }
+  return doc;
+}
+
+/* =========================
+ * HTML reference page
+ * ========================= */
+
+const referenceCss = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #1f2933; }
+.op { border: 1px solid #d9e2ec; border-radius: 6px; margin: 1rem 0; padding: 0.75rem 1rem; }
+.op.deprecated { opacity: 0.7; }
+.method { display: inline-block; min-width: 4.5rem; font-weight: 700; font-family: ui-monospace, monospace; }
+.path { font-family: ui-monospace, monospace; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+th, td { border-bottom: 1px solid #e4e7eb; padding: 0.25rem 0.75rem 0.25rem 0; text-align: left; }
+pre { background: #f5f7fa; padding: 0.5rem; overflow-x: auto; }
+`;
+
+/**
+ * Render a minimal, dependency-free HTML reference for an OpenAPI document.
+ */
+export function openApiHtml(
+  doc: OpenApiDocument,
+  opts: { jsonHref?: string } = {},
+): string {
+  const schemaBlock = (label: string, schema?: JsonSchema) =>
+    schema
+      ? h.details(
+        h.summary(label),
+        h.pre(h.codeTag(JSON.stringify(schema, null, 2))),
+      )
+      : null;
+
+  const operation = (path: string, method: string, op: OpenApiOperation) =>
+    h.section(
+      { class: op.deprecated ? "op deprecated" : "op", id: op.operationId },
+      h.h3(
+        h.span({ class: "method" }, method.toUpperCase()),
+        " ",
+        h.span({ class: "path" }, path),
+        op.deprecated ? " (deprecated)" : null,
+      ),
+      op.summary ? h.p(h.strong(op.summary)) : null,
+      op.description ? h.p(op.description) : null,
+      op.parameters?.length
+        ? h.table(
+          h.thead(
+            h.tr(h.th("Name"), h.th("In"), h.th("Required"), h.th("Type")),
+          ),
+          h.tbody(
+            h.each(op.parameters, (p) =>
+              h.tr(
+                h.td(h.codeTag(p.name)),
+                h.td(p.in),
+                h.td(p.required ? "yes" : "no"),
+                h.td(String(p.schema.type ?? "")),
+              )),
+          ),
+        )
+        : null,
+      schemaBlock(
+        "Request body",
+        op.requestBody?.content["application/json"]?.schema,
+      ),
+      schemaBlock(
+        "Response",
+        op.responses["200"]?.content?.["application/json"]?.schema,
+      ),
+    );
+
+  return h.render(
+    h.doctype(),
+    h.html(
+      h.head(
+        h.meta({ charset: "utf-8" }),
+        h.title(`${doc.info.title} ${doc.info.version}`),
+        h.styleCss(referenceCss),
+      ),
+      h.body(
+        h.main(
+          h.h1(doc.info.title, " ", h.small(doc.info.version)),
+          doc.info.description ? h.p(doc.info.description) : null,
+          opts.jsonHref
+            ? h.p(h.a({ href: opts.jsonHref }, "OpenAPI JSON"))
+            : null,
+          h.each(Object.entries(doc.paths), ([path, item]) =>
+            h.each(
+              Object.entries(item),
+              ([method, op]) => operation(path, method, op as OpenApiOperation),
+            )),
+        ),
+      ),
+    ),
+  );
+}
+
+/* =========================
+ * Middleware
+ * ========================= */
+
+export type OpenApiMiddlewareOptions = OpenApiOptions & {
+  jsonPath?: string; // default "/openapi.json"
+  htmlPath?: string | false; // default "/openapi"
+};
+
+/**
+ * Serve the OpenAPI document for `source` at `jsonPath` and a reference page
+ * at `htmlPath`. All other requests pass through untouched.
+ *
+ *   app.use(openApiMiddleware(app, { info: { title: "Svc", version: "1" } }));
+ */
+export function openApiMiddleware<State, Vars extends VarsRecord>(
+  source: OpenApiRouteSource,
+  opts: OpenApiMiddlewareOptions,
+): Middleware<State, Vars> {
+  const jsonPath = opts.jsonPath ?? "/openapi.json";
+  const htmlPath = opts.htmlPath === false
+    ? null
+    : (opts.htmlPath ?? "/openapi");
+
+  return async (c, next) => {
+    if (c.req.method !== "GET" && c.req.method !== "HEAD") return await next();
+    const { pathname } = c.url;
+
+    if (pathname === jsonPath) {
+      return jsonResponse(openApiDocument(source, opts), 200, {
+        "cache-control": "no-store",
+      });
+    }
+    if (htmlPath && pathname === htmlPath) {
+      return c.html(openApiHtml(openApiDocument(source, opts), {
+        jsonHref: jsonPath,
+      }));
+    }
+    return await next();
+  };
+}
@@ -0,0 +1,239 @@
+// lib/continuux/http-openapi_test.ts
+//
+// Validation + documentation tests for http-openapi.ts.
+//
+// Covered behaviors:
+// - template rewriting (:param, :param{re}, *wildcard) to OpenAPI paths,
+//   including constraints that contain braces, and operation ids from it
+// - templates colliding on one OpenAPI operation or path shape throw
+// - Zod schemas converted to JSON Schema for params, query, body, response
+// - inert (non-convertible) schemas are ignored
+// - meta → summary/description/tags/security
+// - middleware serves JSON and the HTML reference page, passes through others
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import { z } from "@zod";
+import { Application } from "./http.ts";
+import {
+  openApiDocument,
+  openApiMiddleware,
+  openApiPath,
+} from "./http-openapi.ts";
+
+const info = { title: "Orders", version: "1.2.3" };
+
+const buildApp = () => {
+  const app = Application.sharedState({});
+
+  app.get(
+    "/orders/:id{[0-9]+}",
+    {
+      meta: {
+        summary: "Get order",
+        description: "Fetch a single order",
+        tags: ["orders"],
+        auth: "bearer",
+      },
+      schemas: {
+        params: z.object({ id: z.string().describe("Order number") }),
+        query: z.object({
+          expand: z.enum(["lines", "customer"]),
+          limit: z.number().optional(),
+        }),
+        response: z.object({ id: z.string(), total: z.number() }),
+      },
+    },
+    (c) => c.json({ id: c.params.id, total: 1 }),
+  );
+
+  app.post(
+    "/orders",
+    {
+      meta: { tags: ["orders", "write"], auth: "internal" },
+      schemas: { json: z.object({ sku: z.string(), qty: z.number() }) },
+    },
+    (c) => c.json({}, { status: 201 }),
+  );
+
+  app.get("/files/*path", (c) => c.text(c.params.path));
+
+  app.get(
+    "/inert",
+    { schemas: { response: { kind: "not-a-schema" } } },
+    (c) => c.text("ok"),
+  );
+
+  app.all("/ping", (c) => c.text("pong"));
+
+  return app;
+};
+
+Deno.test("http-openapi: path templates", () => {
+  assertEquals(openApiPath("/orders/:id{[0-9]+}/lines/:line"), {
+    path: "/orders/{id}/lines/{line}",
+    params: [
+      { name: "id", pattern: "[0-9]+", wildcard: false },
+      { name: "line", pattern: undefined, wildcard: false },
+    ],
+  });
+  assertEquals(openApiPath("/files/*path").path, "/files/{path}");
+  assertEquals(openApiPath("/").path, "/");
+  assertEquals(openApiPath("/reports/:year{\\d{4}}/summary"), {
+    path: "/reports/{year}/summary",
+    params: [{ name: "year", pattern: "\\d{4}", wildcard: false }],
+  });
+
+  const app = Application.sharedState({});
+  app.get("/reports/:year{\\d{4}}/summary", (c) => c.text(c.params.year));
+  const doc = openApiDocument(app, { info });
+  assertEquals(
+    doc.paths["/reports/{year}/summary"].get!.operationId,
+    "get_reports_year_summary",
+  );
+});
+
+Deno.test("http-openapi: colliding templates are reported", () => {
+  const constrained = Application.sharedState({});
+  constrained.get("/users/:id", (c) => c.text("any"));
+  constrained.get("/users/:id{[0-9]+}", (c) => c.text("numeric"));
+  assertThrows(
+    () => openApiDocument(constrained, { info }),
+    Error,
+    "GET /users/{id} is produced by both /users/:id and /users/:id{[0-9]+}",
+  );
+  // An include filter resolves it.
+  const doc = openApiDocument(constrained, {
+    info,
+    include: (r) => r.method === "GET" && r.path === "/users/:id",
+  });
+  assertEquals(Object.keys(doc.paths), ["/users/{id}"]);
+
+  const renamed = Application.sharedState({});
+  renamed.get("/users/:id", (c) => c.text("get"));
+  renamed.delete("/users/:userId", (c) => c.text("delete"));
+  assertThrows(
+    () => openApiDocument(renamed, { info }),
+    Error,
+    "differ only in parameter names",
+  );
+});
+
+Deno.test("http-openapi: document from Application.routes()", async (t) => {
+  const doc = openApiDocument(buildApp(), {
+    info,
+    servers: [{ url: "https://orders.example" }],
+    securitySchemes: { bearer: { type: "http", scheme: "bearer" } },
+  });
+
+  await t.step("top-level shape", () => {
+    assertEquals(doc.openapi, "3.1.0");
+    assertEquals(doc.info, info);
+    assertEquals(doc.servers, [{ url: "https://orders.example" }]);
+    assertEquals(doc.tags, [{ name: "orders" }, { name: "write" }]);
+    assertEquals(Object.keys(doc.paths).sort(), [
+      "/files/{path}",
+      "/inert",
+      "/orders",
+      "/orders/{id}",
+      "/ping",
+    ]);
+  });
+
+  await t.step("HEAD and OPTIONS from app.all() are excluded", () => {
+    assertEquals(Object.keys(doc.paths["/ping"]).sort(), [
+      "delete",
+      "get",
+      "patch",
+      "post",
+      "put",
+    ]);
+  });
+
+  await t.step("path + query params and response from Zod", () => {
+    const op = doc.paths["/orders/{id}"].get!;
+    assertEquals(op.operationId, "get_orders_id");
+    assertEquals(op.summary, "Get order");
+    assertEquals(op.description, "Fetch a single order");
+    assertEquals(op.security, [{ bearer: [] }]);
+
+    const [id, expand, limit] = op.parameters!;
+    assertEquals(id.in, "path");
+    assertEquals(id.required, true);
+    assertEquals(id.schema.type, "string");
+    assertEquals(id.schema.description, "Order number");
+    assertEquals(id.schema.pattern, "^(?:[0-9]+)$");
+
+    assertEquals(expand.in, "query");
+    assertEquals(expand.required, true);
+    assertEquals(expand.schema.enum, ["lines", "customer"]);
+    assertEquals(limit.required, false);
+
+    assertEquals(Object.keys(op.responses).sort(), ["200", "400"]);
+    const res = op.responses["200"].content!["application/json"].schema;
+    assertEquals(res.type, "object");
+    assertEquals(res.$schema, undefined);
+  });
+
+  await t.step("request body and unknown auth extension", () => {
+    const op = doc.paths["/orders"].post!;
+    const body = op.requestBody!.content["application/json"].schema;
+    assertEquals(body.required, ["sku", "qty"]);
+    assertEquals(op.security, undefined);
+    assertEquals(op["x-auth"], "internal");
+    assertEquals(Object.keys(op.responses).sort(), ["400", "422", "default"]);
+    const problem =
+      op.responses["422"].content!["application/problem+json"].schema;
+    assertEquals(problem.required, [
+      "type",
+      "title",
+      "status",
+      "target",
+      "issues",
+    ]);
+  });
+
+  await t.step("wildcard param and inert schemas", () => {
+    const files = doc.paths["/files/{path}"].get!;
+    assertEquals(files.parameters![0].name, "path");
+    assertStringIncludes(files.parameters![0].description!, "may contain");
+
+    const inert = doc.paths["/inert"].get!;
+    assertEquals(inert.responses, { default: { description: "Response" } });
+  });
+});
+
+Deno.test("http-openapi: middleware serves JSON and HTML", async (t) => {
+  const app = buildApp();
+  app.use(openApiMiddleware(app, { info }));
+
+  // Registered after the middleware: must still be documented.
+  app.get("/late", { meta: { summary: "Late <route>" } }, (c) => c.text("x"));
+
+  await t.step("JSON document", async () => {
+    const r = await app.fetch(new Request("http://localhost/openapi.json"));
+    assertEquals(r.status, 200);
+    assertStringIncludes(r.headers.get("content-type") ?? "", "json");
+    const doc = await r.json();
+    assertEquals(doc.paths["/late"].get.summary, "Late <route>");
+  });
+
+  await t.step("HTML reference escapes content", async () => {
+    const r = await app.fetch(new Request("http://localhost/openapi"));
+    assertEquals(r.status, 200);
+    const html = await r.text();
+    assertStringIncludes(html, "<title>Orders 1.2.3</title>");
+    assertStringIncludes(html, "/orders/{id}");
+    assertStringIncludes(html, "Late &#x3C;route>");
+    assert(!html.includes("Late <route>"));
+  });
+
+  await t.step("other requests pass through", async () => {
+    const r = await app.fetch(new Request("http://localhost/ping"));
+    assertEquals(await r.text(), "pong");
+  });
+});
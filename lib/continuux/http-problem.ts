@@ -0,0 +1,264 @@
+/**
+ * lib/continuux/http-problem.ts
+ *
+ * Leaf module for the pieces every ContinuUX HTTP module shares: RFC 9457
+ * problem details, schema and validation types, and the shutdown abort
+ * reason. It imports nothing, so http.ts and the modules it builds on
+ * (http-multipart.ts, http-ws.ts) can all depend on it without an import
+ * cycle. Application code keeps importing these from http.ts, which
+ * re-exports them.
+ */
+
+/* =========================
+ * problem details (RFC 9457)
+ * ========================= */
+
+/** RFC 9457 problem details object; extension members are allowed. */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+export type HttpProblemInit = {
+  /** URI reference identifying the problem type. Default "about:blank". */
+  type?: string;
+  /** Default: the standard reason phrase for the status. */
+  title?: string;
+  detail?: string;
+  instance?: string;
+  /** Extra members serialized alongside the standard ones. */
+  extensions?: Record<string, unknown>;
+  /** Extra response headers (e.g. Allow, Retry-After). */
+  headers?: HeadersInit;
+  cause?: unknown;
+};
+
+const reasonPhrases: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+const reasonPhrase = (status: number) =>
+  reasonPhrases[status] ?? (status >= 500 ? "Server Error" : "Client Error");
+
+/**
+ * Throwable HTTP error carrying an RFC 9457 problem. Thrown from a handler or
+ * middleware it becomes the response (via `app.onError`, or by default when
+ * no onError handler is set); elsewhere call `problem.toResponse(req)`.
+ */
+export class HttpProblem extends Error {
+  readonly status: number;
+  readonly type: string;
+  readonly title: string;
+  readonly detail?: string;
+  readonly instance?: string;
+  readonly extensions: Record<string, unknown>;
+  readonly headers?: HeadersInit;
+
+  constructor(status: number, init: HttpProblemInit = {}) {
+    const title = init.title ?? reasonPhrase(status);
+    super(init.detail ?? title, { cause: init.cause });
+    this.name = "HttpProblem";
+    this.status = status;
+    this.type = init.type ?? "about:blank";
+    this.title = title;
+    this.detail = init.detail;
+    this.instance = init.instance;
+    this.extensions = init.extensions ?? {};
+    this.headers = init.headers;
+  }
+
+  /**
+   * Problems pass through; anything else becomes an opaque 500 whose message
+   * is kept as `cause` (for logging) but never sent to the client.
+   */
+  static from(err: unknown): HttpProblem {
+    return err instanceof HttpProblem
+      ? err
+      : new HttpProblem(500, { cause: err });
+  }
+
+  toJSON(): ProblemDetails {
+    return {
+      ...this.extensions,
+      type: this.type,
+      title: this.title,
+      status: this.status,
+      ...(this.detail !== undefined ? { detail: this.detail } : {}),
+      ...(this.instance !== undefined ? { instance: this.instance } : {}),
+    };
+  }
+
+  toResponse(req?: Request): Response {
+    return problemResponse(this, req);
+  }
+}
+
+const acceptQuality = (accept: string, match: (type: string) => boolean) => {
+  let q = 0;
+  for (const part of accept.split(",")) {
+    const [type, ...params] = part.trim().toLowerCase().split(";");
+    if (!match(type.trim())) continue;
+    const qp = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+    q = Math.max(q, qp ? Number(qp.slice(2)) || 0 : 1);
+  }
+  return q;
+};
+
+/** Browsers navigating prefer HTML; fetch() and agents get JSON. */
+const prefersHtml = (req: Request) => {
+  const accept = req.headers.get("accept");
+  if (!accept) return false;
+  const html = acceptQuality(accept, (t) => t === "text/html");
+  const json = acceptQuality(
+    accept,
+    (t) =>
+      t === "application/problem+json" || t === "application/json" ||
+      t === "application/*" || t === "*/*",
+  );
+  return html > json;
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+const problemHtml = (p: ProblemDetails) => {
+  const { type, title, status, detail, instance, ...extensions } = p;
+  const lines = [
+    "<!doctype html>",
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${status} ${escapeHtml(title)}</title></head>`,
+    `<body><main><h1>${escapeHtml(title)}</h1>`,
+  ];
+  if (detail) lines.push(`<p>${escapeHtml(detail)}</p>`);
+  if (type !== "about:blank") {
+    lines.push(`<p>Type: <code>${escapeHtml(type)}</code></p>`);
+  }
+  if (instance) {
+    lines.push(`<p>Instance: <code>${escapeHtml(instance)}</code></p>`);
+  }
+  if (Object.keys(extensions).length > 0) {
+    lines.push(`<pre>${escapeHtml(JSON.stringify(extensions, null, 2))}</pre>`);
+  }
+  lines.push("</main></body></html>");
+  return lines.join("\n");
+};
+
+/**
+ * Render a problem as `application/problem+json`, or as a small HTML page
+ * when `req` is given and the client prefers HTML.
+ */
+export const problemResponse = (
+  problem: HttpProblem,
+  req?: Request,
+  headers?: HeadersInit,
+): Response => {
+  const h = new Headers(problem.headers);
+  new Headers(headers).forEach((v, k) => h.set(k, v));
+  const body = problem.toJSON();
+  if (req && prefersHtml(req)) {
+    h.set("content-type", "text/html; charset=utf-8");
+    return new Response(problemHtml(body), {
+      status: problem.status,
+      headers: h,
+    });
+  }
+  h.set("content-type", "application/problem+json");
+  return new Response(JSON.stringify(body), {
+    status: problem.status,
+    headers: h,
+  });
+};
+
+/* =========================
+ * schemas and validation
+ * ========================= */
+
+export type SchemaLike<T> = { parse: (u: unknown) => T };
+
+export type RouteSchemaTarget = "params" | "query" | "json";
+
+export type InferSchemaOutput<S> = S extends SchemaLike<infer T> ? T
+  : S extends (u: unknown) => infer T ? T
+  : never;
+
+export type RouteValidationIssue = {
+  path: Array<string | number>;
+  message: string;
+  code?: string;
+};
+
+export const asError = (err: unknown) =>
+  err instanceof Error ? err : new Error(String(err));
+
+/**
+ * Normalize a thrown validation error into issues. Zod-style errors carry an
+ * `issues` array; anything else becomes a single root-level issue.
+ */
+export const schemaIssues = (err: unknown): RouteValidationIssue[] => {
+  const issues = (err as { issues?: unknown })?.issues;
+  if (Array.isArray(issues)) {
+    return issues.map((i) => ({
+      path: Array.isArray(i?.path)
+        ? i.path.map((p: unknown) => typeof p === "number" ? p : String(p))
+        : [],
+      message: String(i?.message ?? "Invalid value"),
+      ...(typeof i?.code === "string" ? { code: i.code } : {}),
+    }));
+  }
+  return [{ path: [], message: asError(err).message }];
+};
+
+/**
+ * The HttpProblem behind validationErrorResponse, for code that throws
+ * instead of returning (e.g. multipart field validation).
+ */
+export const validationProblem = (
+  target: RouteSchemaTarget | "response" | "multipart" | "ws",
+  issues: RouteValidationIssue[],
+  status = 400,
+): HttpProblem =>
+  new HttpProblem(status, {
+    type: target === "response"
+      ? "urn:continuux:problem:response-validation"
+      : "urn:continuux:problem:request-validation",
+    title: target === "response"
+      ? "Response validation failed"
+      : "Request validation failed",
+    detail: `${issues.length} issue(s) in ${target}`,
+    extensions: { target, issues },
+  });
+
+/* =========================
+ * shutdown
+ * ========================= */
+
+/** Abort reason of `c.shutdownSignal` once a served app starts draining. */
+export class ServerShutdown extends Error {
+  constructor(readonly retryMs: number) {
+    super("Server is shutting down");
+    this.name = "ServerShutdown";
+  }
+}
@@ -13,8 +13,13 @@
  * - Optional upstream host allow-list and HTTPS-only upstreams
  * - Optional max request body size (defensive against large uploads)
  * - Optional response security headers overlay
- * - Structured error hooks for logging/observability
+ * - Structured error hooks for logging/observability; default errors are
+ *   RFC 9457 problem+json (HttpProblem)
  * - Shared HttpTransform pipeline support (same transforms usable in fs routes)
+ * - With tracing() active (http-trace.ts), each upstream fetch gets a client
+ *   span and the upstream request carries its traceparent
+ * - With metrics() active (http-metrics.ts), upstream latency, statuses, and
+ *   error kinds are recorded per proxy route
  */
 
 import {
@@ -22,13 +27,16 @@ import {
   asError,
   type HandlerCtx,
   HttpMethod,
+  HttpProblem,
+  type HttpProblemInit,
   type HttpTransform,
   type HttpTransformContext,
   type HttpTransformResult,
   type Middleware,
-  textResponse,
   type VarsRecord,
 } from "./http.ts";
+import { metricsOf } from "./http-metrics.ts";
+import { injectTraceHeaders, traceOf } from "./http-trace.ts";
 
 /**
  * How to match a proxy route.
@@ -185,7 +193,7 @@ export type HttpProxyOptions<State, Vars extends VarsRecord> = {
   /**
    * Optional error hook invoked for target errors, upstream timeouts,
    * and fetch errors. If it returns a Response, that response is used.
-   * If it returns void, the default 502/504 responses are used.
+   * If it returns void, the default 502/504 problem+json responses are used.
    */
   onProxyError?: (
     c: HandlerCtx<string, State, Vars>,
@@ -337,12 +345,34 @@ export function httpProxy<State, Vars extends VarsRecord>(
     throw new Error("httpProxy requires at least one ProxyRoute");
   }
 
+  // Default error responses: problem+json tagged with the failure kind.
+  const proxyProblem = (
+    c: HandlerCtx<string, State, Vars>,
+    status: number,
+    kind: ProxyErrorKind,
+    routeName: string | undefined,
+    init: HttpProblemInit,
+  ) =>
+    new HttpProblem(status, {
+      ...init,
+      type: `urn:continuux:problem:proxy-${kind}`,
+      extensions: { route: routeName ?? null, ...init.extensions },
+    }).toResponse(c.req);
+
+  // Metrics label: the route name, else the upstream host.
+  const metricsRoute = (routeName?: string, upstreamUrl?: string) =>
+    routeName ?? (upstreamUrl ? new URL(upstreamUrl).host : "unnamed");
+
   const invokeErrorHook = async (
     c: HandlerCtx<string, State, Vars>,
     kind: ProxyErrorKind,
     info: ProxyErrorInfo,
     fallback: () => Response,
   ): Promise<Response> => {
+    metricsOf(c)?.proxyError(
+      metricsRoute(info.routeName, info.upstreamUrl),
+      kind,
+    );
     if (!onProxyError) return fallback();
     const maybe = await onProxyError(c, kind, info);
     if (maybe instanceof Response) return maybe;
@@ -383,15 +413,10 @@ export function httpProxy<State, Vars extends VarsRecord>(
           error: e,
         },
         () =>
-          textResponse(
-            [
-              "Proxy target error.",
-              "",
-              `Route: ${route.name ?? "(unnamed)"}`,
-              `Error: ${e.message}`,
-            ].join("\n"),
-            502,
-          ),
+          proxyProblem(c, 502, "target", route.name, {
+            title: "Proxy target error",
+            detail: e.message,
+          }),
       );
     }
 
@@ -408,15 +433,9 @@ export function httpProxy<State, Vars extends VarsRecord>(
           error: e,
         },
         () =>
-          textResponse(
-            [
-              "Bad Gateway.",
-              "",
-              `Route: ${route.name ?? "(unnamed)"}`,
-              "Upstream protocol must be HTTPS.",
-            ].join("\n"),
-            502,
-          ),
+          proxyProblem(c, 502, "target", route.name, {
+            detail: "Upstream protocol must be HTTPS.",
+          }),
       );
     }
 
@@ -431,15 +450,9 @@ export function httpProxy<State, Vars extends VarsRecord>(
           error: e,
         },
         () =>
-          textResponse(
-            [
-              "Bad Gateway.",
-              "",
-              `Route: ${route.name ?? "(unnamed)"}`,
-              "Upstream host is not permitted by proxy configuration.",
-            ].join("\n"),
-            502,
-          ),
+          proxyProblem(c, 502, "target", route.name, {
+            detail: "Upstream host is not permitted by proxy configuration.",
+          }),
       );
     }
 
@@ -508,10 +521,9 @@ export function httpProxy<State, Vars extends VarsRecord>(
               error: e,
             },
             () =>
-              textResponse(
-                "Payload Too Large.",
-                413,
-              ),
+              proxyProblem(c, 413, "target", route.name, {
+                detail: `Request body exceeds ${maxRequestBodyBytes} bytes.`,
+              }),
           );
         }
         bodyInit = buf;
@@ -526,10 +538,9 @@ export function httpProxy<State, Vars extends VarsRecord>(
             error: e,
           },
           () =>
-            textResponse(
-              "Unable to read request body.",
-              400,
-            ),
+            proxyProblem(c, 400, "target", route.name, {
+              detail: "Unable to read request body.",
+            }),
         );
       }
     } else {
@@ -550,6 +561,25 @@ export function httpProxy<State, Vars extends VarsRecord>(
       baseRequest = await route.rewriteRequest(c, upstreamUrl, baseRequest);
     }
 
+    // Continue the caller's trace upstream under a client span.
+    const upstreamSpan = traceOf(c)?.startSpan(
+      `proxy ${route.name ?? upstreamUrl.host}`,
+      {
+        kind: "client",
+        attributes: {
+          "http.request.method": method,
+          "url.full": upstreamUrl.toString(),
+          "server.address": upstreamUrl.hostname,
+          ...(route.name ? { "proxy.route": route.name } : {}),
+        },
+      },
+    );
+    if (upstreamSpan) {
+      const traced = new Headers(baseRequest.headers);
+      injectTraceHeaders(traced, upstreamSpan.context);
+      baseRequest = new Request(baseRequest, { headers: traced });
+    }
+
     // Handle timeout with AbortController if configured.
     let controller: AbortController | undefined;
     let timeoutId: number | undefined;
@@ -563,15 +593,22 @@ export function httpProxy<State, Vars extends VarsRecord>(
     }
 
     let upstreamRes: Response;
+    const fetchStarted = performance.now();
     try {
+      // The client's signal also aborts on disconnect and when a draining
+      // server (ServerHandle.shutdown) gives up on in-flight requests.
       upstreamRes = await fetch(baseRequest, {
-        signal: controller?.signal,
+        signal: controller
+          ? AbortSignal.any([req.signal, controller.signal])
+          : req.signal,
       });
     } catch (err) {
       if (timeoutId !== undefined) clearTimeout(timeoutId);
       const e = asError(err);
+      upstreamSpan?.recordError(e);
+      upstreamSpan?.end();
 
-      if (e.name === "AbortError") {
+      if (e.name === "AbortError" && controller?.signal.aborted) {
         return await invokeErrorHook(
           c,
           "upstream-timeout",
@@ -581,15 +618,10 @@ export function httpProxy<State, Vars extends VarsRecord>(
             error: e,
           },
           () =>
-            textResponse(
-              [
-                "Gateway Timeout.",
-                "",
-                `Route: ${route.name ?? "(unnamed)"}`,
-                `Upstream: ${upstreamUrl.toString()}`,
-              ].join("\n"),
-              504,
-            ),
+            proxyProblem(c, 504, "upstream-timeout", route.name, {
+              detail: `Upstream did not respond within ${timeoutMs}ms.`,
+              extensions: { upstream: upstreamUrl.toString() },
+            }),
         );
       }
 
@@ -602,21 +634,29 @@ export function httpProxy<State, Vars extends VarsRecord>(
           error: e,
         },
         () =>
-          textResponse(
-            [
-              "Bad Gateway.",
-              "",
-              `Route: ${route.name ?? "(unnamed)"}`,
-              `Upstream: ${upstreamUrl.toString()}`,
-              "",
-              e.message,
-            ].join("\n"),
-            502,
-          ),
+          proxyProblem(c, 502, "upstream-fetch", route.name, {
+            detail: e.message,
+            extensions: { upstream: upstreamUrl.toString() },
+          }),
       );
     } finally {
       if (timeoutId !== undefined) clearTimeout(timeoutId);
     }
+    metricsOf(c)?.proxyUpstream(
+      metricsRoute(route.name, upstreamUrl.toString()),
+      (performance.now() - fetchStarted) / 1000,
+      upstreamRes.status,
+    );
+    if (upstreamSpan) {
+      upstreamSpan.setAttribute(
+        "http.response.status_code",
+        upstreamRes.status,
+      );
+      if (upstreamRes.status >= 500) {
+        upstreamSpan.setStatus("error", `HTTP ${upstreamRes.status}`);
+      }
+      upstreamSpan.end();
+    }
 
     // Per-route response rewriter (still supported, before transforms).
     let finalRes = upstreamRes;
@@ -460,7 +460,7 @@ Deno.test(
     const res = await app.fetch(req);
     assertEquals(res.status, 413);
     const text = await res.text();
-    assertMatch(text, /Payload Too Large/);
+    assertMatch(text, /Content Too Large/);
   },
 );
 
@@ -0,0 +1,368 @@
+/**
+ * lib/continuux/http-rate-limit.ts
+ *
+ * Rate limiting for ContinuUX HTTP applications and cx actions.
+ *
+ * Features:
+ * - Token bucket (smooth refill, allows bursts up to `limit`) or sliding
+ *   window (weighted previous + current fixed window) per rule
+ * - Middleware usable with `app.use(...)` or as route middleware
+ * - Keys by client IP, server session, or any function over HandlerCtx
+ * - 429 with `Retry-After` plus `RateLimit-Limit` / `RateLimit-Remaining` /
+ *   `RateLimit-Reset` / `RateLimit-Policy` headers
+ * - Per-action budgets for cx handlers (e.g. `action:increment`)
+ * - Pluggable store; the bundled in-memory store is LRU-bounded
+ */
+
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type RouteMiddleware,
+  type SseEventMap,
+  type VarsRecord,
+} from "./http.ts";
+import type { SessionVars } from "./http-session.ts";
+import type { CxActionHandlers, CxActionSchemas } from "./interaction-html.ts";
+import { cxProblemResult } from "./interaction.ts";
+
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export type RateLimitRule = {
+  /** Requests allowed per window (also the token bucket capacity). */
+  limit: number;
+  windowMs: number;
+  /** Default "token-bucket". */
+  algorithm?: RateLimitAlgorithm;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the budget is fully restored. */
+  resetMs: number;
+  /** Milliseconds until the next request would be allowed (0 if allowed). */
+  retryAfterMs: number;
+};
+
+export type RateLimitStore = {
+  consume: (
+    key: string,
+    rule: RateLimitRule,
+    now: number,
+  ) => RateLimitResult | Promise<RateLimitResult>;
+};
+
+type BucketState = { kind: "token-bucket"; tokens: number; at: number };
+type WindowState = {
+  kind: "sliding-window";
+  start: number;
+  count: number;
+  prev: number;
+};
+
+const consumeBucket = (
+  s: BucketState | undefined,
+  rule: RateLimitRule,
+  now: number,
+): [BucketState, RateLimitResult] => {
+  const rate = rule.limit / rule.windowMs;
+  const tokens = s
+    ? Math.min(rule.limit, s.tokens + Math.max(0, now - s.at) * rate)
+    : rule.limit;
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+  return [{ kind: "token-bucket", tokens: left, at: now }, {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.floor(left),
+    resetMs: Math.ceil((rule.limit - left) / rate),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - left) / rate),
+  }];
+};
+
+const consumeWindow = (
+  s: WindowState | undefined,
+  rule: RateLimitRule,
+  now: number,
+): [WindowState, RateLimitResult] => {
+  const w = rule.windowMs;
+  const start = Math.floor(now / w) * w;
+  let prev = 0;
+  let count = 0;
+  if (s && s.start === start) {
+    prev = s.prev;
+    count = s.count;
+  } else if (s && s.start === start - w) {
+    prev = s.count;
+  }
+
+  const weight = 1 - (now - start) / w;
+  const estimate = prev * weight + count;
+  const allowed = estimate + 1 <= rule.limit;
+  if (allowed) count++;
+  const used = prev * weight + count;
+  // This window's hits stop counting once they have decayed out as "prev".
+  const resetMs = count > 0
+    ? start + 2 * w - now
+    : prev > 0
+    ? start + w - now
+    : 0;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Previous-window weight decays linearly; if that cannot free a slot
+    // within this window, the next window is the earliest opportunity.
+    const over = estimate + 1 - rule.limit;
+    const decay = prev > 0 ? (over / prev) * w : Infinity;
+    retryAfterMs = Math.ceil(Math.min(decay, start + w - now));
+  }
+
+  return [{ kind: "sliding-window", start, count, prev }, {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - used)),
+    resetMs: Math.ceil(resetMs),
+    retryAfterMs,
+  }];
+};
+
+/**
+ * In-memory store. Keys are evicted least-recently-used beyond `maxKeys`
+ * so a flood of distinct keys cannot grow memory without bound.
+ */
+export const memoryRateLimitStore = (
+  opts: { maxKeys?: number } = {},
+): {
+  consume: (key: string, rule: RateLimitRule, now: number) => RateLimitResult;
+  size: () => number;
+  reset: (key?: string) => void;
+} => {
+  const maxKeys = opts.maxKeys ?? 10_000;
+  const states = new Map<string, BucketState | WindowState>();
+
+  return {
+    consume: (key, rule, now) => {
+      const prior = states.get(key);
+      states.delete(key);
+      const [next, result] = (rule.algorithm ?? "token-bucket") ===
+          "sliding-window"
+        ? consumeWindow(
+          prior?.kind === "sliding-window" ? prior : undefined,
+          rule,
+          now,
+        )
+        : consumeBucket(
+          prior?.kind === "token-bucket" ? prior : undefined,
+          rule,
+          now,
+        );
+      states.set(key, next);
+      if (states.size > maxKeys) {
+        states.delete(states.keys().next().value!);
+      }
+      return result;
+    },
+    size: () => states.size,
+    reset: (key) =>
+      key === undefined ? states.clear() : void states.delete(key),
+  };
+};
+
+/**
+ * `RateLimit-*` and (when limited) `Retry-After` headers, in seconds.
+ */
+export const rateLimitHeaders = (
+  r: RateLimitResult,
+  rule: RateLimitRule,
+): Record<string, string> => ({
+  "ratelimit-limit": String(r.limit),
+  "ratelimit-remaining": String(r.remaining),
+  "ratelimit-reset": String(Math.ceil(r.resetMs / 1000)),
+  "ratelimit-policy": `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`,
+  ...(r.allowed
+    ? {}
+    : { "retry-after": String(Math.max(1, Math.ceil(r.retryAfterMs / 1000))) }),
+});
+
+export type RateLimitKeyFn<State, Vars extends VarsRecord> = (
+  c: HandlerCtx<string, State, Vars>,
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Common key functions. A key of null/undefined bypasses the limiter; a key
+ * function that throws fails the request instead.
+ */
+export const rateLimitKeys = {
+  /**
+   * Peer IP from `c.remoteAddr`. With `trustProxy`, the left-most
+   * `x-forwarded-for` entry (or `x-real-ip`) wins; only enable that behind a
+   * proxy that overwrites those headers. Fails closed: requests with no
+   * usable peer address (e.g. `app.fetch()` without `remoteAddr`) all share
+   * one `ip:unknown` bucket, so they are limited together rather than
+   * skipped; give such apps an explicit key.
+   */
+  ip: <State, Vars extends VarsRecord>(
+    opts: { trustProxy?: boolean } = {},
+  ): RateLimitKeyFn<State, Vars> =>
+  (c) => {
+    if (opts.trustProxy) {
+      const fwd = c.req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+      const real = c.req.headers.get("x-real-ip")?.trim();
+      if (fwd || real) return `ip:${fwd || real}`;
+    }
+    const addr = c.remoteAddr;
+    if (addr && (addr.transport === "tcp" || addr.transport === "udp")) {
+      return `ip:${addr.hostname}`;
+    }
+    return "ip:unknown";
+  },
+
+  /** Server-issued session id from http-session.ts. */
+  session:
+    <State, Vars extends VarsRecord & SessionVars<unknown>>(): RateLimitKeyFn<
+      State,
+      Vars
+    > =>
+    (c) => c.vars.session ? `session:${c.vars.session.id}` : undefined,
+};
+
+export type RateLimitOptions<State, Vars extends VarsRecord> =
+  & RateLimitRule
+  & {
+    /** Default rateLimitKeys.ip(). */
+    key?: RateLimitKeyFn<State, Vars>;
+    /** Default: a private memoryRateLimitStore(). */
+    store?: RateLimitStore;
+    /** Namespace within a shared store. Default "http". */
+    name?: string;
+    /** Add RateLimit-* headers to allowed responses too. Default true. */
+    headers?: boolean;
+    skip?: (c: HandlerCtx<string, State, Vars>) => boolean;
+    onLimited?: (
+      c: HandlerCtx<string, State, Vars>,
+      result: RateLimitResult,
+    ) => Response | Promise<Response>;
+    now?: () => number;
+  };
+
+const withHeaders = (res: Response, headers: Record<string, string>) => {
+  try {
+    for (const [k, v] of Object.entries(headers)) res.headers.set(k, v);
+    return res;
+  } catch {
+    const out = new Response(res.body, res);
+    for (const [k, v] of Object.entries(headers)) out.headers.set(k, v);
+    return out;
+  }
+};
+
+/**
+ * Rate limiting middleware. Use globally with `app.use(rateLimit(...))` or
+ * per route: `app.post("/login", rateLimit({ limit: 5, windowMs: 60_000 }), h)`.
+ * `Path` is inferred from the route so the same factory fits both slots.
+ */
+export const rateLimit = <
+  State,
+  Vars extends VarsRecord,
+  Path extends string = string,
+>(
+  opts: RateLimitOptions<State, Vars>,
+): RouteMiddleware<Path, State, Vars> => {
+  const rule: RateLimitRule = {
+    limit: opts.limit,
+    windowMs: opts.windowMs,
+    algorithm: opts.algorithm,
+  };
+  const key = opts.key ?? rateLimitKeys.ip<State, Vars>();
+  const store = opts.store ?? memoryRateLimitStore();
+  const name = opts.name ?? "http";
+  const sendHeaders = opts.headers ?? true;
+  const now = opts.now ?? Date.now;
+
+  return async (routeCtx, next) => {
+    const c = routeCtx as unknown as HandlerCtx<string, State, Vars>;
+    if (opts.skip?.(c)) return await next();
+    const k = await key(c);
+    if (k == null) return await next();
+
+    const result = await store.consume(`${name}:${k}`, rule, now());
+    const headers = rateLimitHeaders(result, rule);
+    if (!result.allowed) {
+      const res = opts.onLimited
+        ? await opts.onLimited(c, result)
+        : new HttpProblem(429, {
+          type: "urn:continuux:problem:rate-limit",
+          detail: `Rate limit of ${rule.limit} per ${rule.windowMs}ms exceeded`,
+        }).toResponse(c.req);
+      return withHeaders(res, headers);
+    }
+    const res = await next();
+    return sendHeaders ? withHeaders(res, headers) : res;
+  };
+};
+
+/**
+ * Wrap cx action handlers with per-action budgets. Actions without a rule
+ * (and no `default`) are not limited. Limited dispatches resolve to a 429
+ * CxHandlerResult carrying the same headers as the HTTP middleware.
+ *
+ * The default key is the server-issued session (`vars.session` from
+ * http-session.ts), never the envelope's client-chosen `sessionId`, which a
+ * client could rotate to reset its budget. Without a session the dispatch
+ * fails closed; pass `key` to budget by something else.
+ */
+export const rateLimitCxActions = <
+  State,
+  Vars extends Record<string, unknown>,
+  Schemas extends CxActionSchemas,
+  SseOut extends SseEventMap,
+  Prefix extends string,
+>(
+  handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>,
+  opts: {
+    actions?: Partial<Record<keyof Schemas & string, RateLimitRule>>;
+    default?: RateLimitRule;
+    /** Default: the server session id (see above). */
+    key?: (
+      ctx: { name: string; sessionId: string; req: Request; vars: Vars },
+    ) => string | null | undefined;
+    store?: RateLimitStore;
+    now?: () => number;
+  },
+): CxActionHandlers<State, Vars, Schemas, SseOut, Prefix> => {
+  const store = opts.store ?? memoryRateLimitStore();
+  const now = opts.now ?? Date.now;
+  const key = opts.key ?? ((ctx) => {
+    const session = (ctx.vars as Partial<SessionVars<unknown>>).session;
+    if (session) return `session:${session.id}`;
+    throw new Error(
+      "rateLimitCxActions(): no server session to key by; register " +
+        "sessionMiddleware() (http-session.ts) or pass an explicit key",
+    );
+  });
+  const out = { ...handlers };
+
+  for (const name of Object.keys(handlers) as Array<keyof Schemas & string>) {
+    const rule = opts.actions?.[name] ?? opts.default;
+    if (!rule) continue;
+    const inner = handlers[name];
+    out[name] = (async (ctx) => {
+      const k = key({ ...ctx, name });
+      if (k == null) return await inner(ctx);
+      const r = await store.consume(`cx:${name}:${k}`, rule, now());
+      if (!r.allowed) {
+        return cxProblemResult(
+          new HttpProblem(429, {
+            type: "urn:continuux:problem:rate-limit",
+            detail: `Too Many Requests: ${ctx.spec}`,
+            extensions: { action: name },
+            headers: rateLimitHeaders(r, rule),
+          }),
+        );
+      }
+      return await inner(ctx);
+    }) as typeof inner;
+  }
+  return out;
+};
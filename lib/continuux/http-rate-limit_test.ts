@@ -0,0 +1,239 @@
+// lib/continuux/http-rate-limit_test.ts
+//
+// Tests for http-rate-limit.ts.
+//
+// Covered behaviors:
+// - token bucket bursts, refill, and 429 + Retry-After / RateLimit-* headers
+// - sliding window weighting of the previous window
+// - per-route limits via route middleware; global limits keyed by peer IP,
+//   with peer-less requests sharing one "unknown" bucket
+// - LRU eviction in the memory store
+// - per-action cx budgets surface as 429 responses with headers, keyed by the
+//   server session (not the client's sessionId) and failing closed without it
+
+import { assert, assertEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import {
+  memoryRateLimitStore,
+  rateLimit,
+  rateLimitCxActions,
+  rateLimitKeys,
+  type RateLimitRule,
+} from "./http-rate-limit.ts";
+import {
+  actionSchemas,
+  createCx,
+  type CxActionHandlers,
+} from "./interaction-html.ts";
+import { type CxPatchPayload, decodeCxEnvelope } from "./interaction.ts";
+
+Deno.test("http-rate-limit: memory store algorithms", async (t) => {
+  await t.step("token bucket: burst then smooth refill", () => {
+    const store = memoryRateLimitStore();
+    const rule = { limit: 2, windowMs: 1000 };
+    assertEquals(store.consume("k", rule, 0).remaining, 1);
+    assertEquals(store.consume("k", rule, 0).remaining, 0);
+    const denied = store.consume("k", rule, 0);
+    assertEquals(denied.allowed, false);
+    assertEquals(denied.retryAfterMs, 500);
+    assertEquals(store.consume("k", rule, 499).allowed, false);
+    assert(store.consume("k", rule, 1000).allowed);
+  });
+
+  await t.step("sliding window weighs the previous window", () => {
+    const store = memoryRateLimitStore();
+    const r: RateLimitRule = {
+      limit: 4,
+      windowMs: 1000,
+      algorithm: "sliding-window",
+    };
+    for (let i = 0; i < 4; i++) assert(store.consume("k", r, 100).allowed);
+    assertEquals(store.consume("k", r, 900).allowed, false);
+    // 25% into the next window, 3 of the previous 4 hits still count.
+    const next = store.consume("k", r, 1250);
+    assert(next.allowed);
+    assertEquals(next.remaining, 0);
+    const blocked = store.consume("k", r, 1250);
+    assertEquals(blocked.allowed, false);
+    assertEquals(blocked.retryAfterMs, 250);
+  });
+
+  await t.step("LRU bound on distinct keys", () => {
+    const store = memoryRateLimitStore({ maxKeys: 2 });
+    const rule = { limit: 1, windowMs: 1000 };
+    store.consume("a", rule, 0);
+    store.consume("b", rule, 0);
+    store.consume("a", rule, 0);
+    store.consume("c", rule, 0);
+    assertEquals(store.size(), 2);
+    // "b" was least recently used, so it starts over with a full budget.
+    assert(store.consume("b", rule, 0).allowed);
+  });
+});
+
+Deno.test("http-rate-limit: middleware", async (t) => {
+  let now = 0;
+  const app = Application.sharedState({});
+  app.use(rateLimit({ limit: 3, windowMs: 60_000, now: () => now }));
+  app.get("/open", (c) => c.text("open"));
+  app.post(
+    "/login",
+    rateLimit({ limit: 1, windowMs: 60_000, key: () => "all", now: () => now }),
+    (c) => c.text("welcome"),
+  );
+
+  const from = (ip: string, path = "/open", method = "GET") =>
+    app.fetch(new Request(`http://localhost${path}`, { method }), {
+      remoteAddr: { transport: "tcp", hostname: ip, port: 40000 },
+    });
+
+  await t.step("global limit per peer IP with headers", async () => {
+    const ok = await from("10.0.0.1");
+    await ok.body?.cancel();
+    assertEquals(ok.headers.get("ratelimit-limit"), "3");
+    assertEquals(ok.headers.get("ratelimit-remaining"), "2");
+    assertEquals(ok.headers.get("ratelimit-policy"), "3;w=60");
+
+    await (await from("10.0.0.1")).body?.cancel();
+    await (await from("10.0.0.1")).body?.cancel();
+    const limited = await from("10.0.0.1");
+    assertEquals(limited.status, 429);
+    assertEquals(
+      limited.headers.get("content-type"),
+      "application/problem+json",
+    );
+    assertEquals(limited.headers.get("retry-after"), "20");
+    await limited.body?.cancel();
+
+    const other = await from("10.0.0.2");
+    assertEquals(await other.text(), "open");
+  });
+
+  await t.step(
+    "without a peer address requests share one IP bucket",
+    async () => {
+      const statuses: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const r = await app.fetch(new Request("http://localhost/open"));
+        statuses.push(r.status);
+        assertEquals(r.headers.get("ratelimit-limit"), "3");
+        await r.body?.cancel();
+      }
+      assertEquals(statuses, [200, 200, 200, 429, 429]);
+    },
+  );
+
+  await t.step("route budget is independent of the global one", async () => {
+    now += 60_000;
+    const first = await from("10.0.0.3", "/login", "POST");
+    assertEquals(await first.text(), "welcome");
+    const second = await from("10.0.0.4", "/login", "POST");
+    assertEquals(second.status, 429);
+    await second.body?.cancel();
+  });
+
+  await t.step("trustProxy keys by x-forwarded-for", async () => {
+    const proxied = Application.sharedState({});
+    proxied.use(rateLimit({
+      limit: 1,
+      windowMs: 1000,
+      key: rateLimitKeys.ip({ trustProxy: true }),
+    }));
+    proxied.get("/", (c) => c.text("ok"));
+    const send = (xff: string) =>
+      proxied.fetch(
+        new Request("http://localhost/", {
+          headers: { "x-forwarded-for": xff },
+        }),
+      );
+    assertEquals((await send("1.1.1.1, 10.0.0.1")).status, 200);
+    assertEquals((await send("1.1.1.1")).status, 429);
+    assertEquals((await send("2.2.2.2")).status, 200);
+  });
+});
+
+Deno.test("http-rate-limit: per-action cx budgets", async () => {
+  const actions = actionSchemas({
+    increment: (u: unknown) => decodeCxEnvelope(u),
+    reset: (u: unknown) => decodeCxEnvelope(u),
+  });
+  const cx = createCx<
+    { count: number },
+    Record<string, unknown>,
+    typeof actions
+  >(actions);
+  const state = { count: 0 };
+
+  const plain: CxActionHandlers<
+    { count: number },
+    Record<string, unknown>,
+    typeof actions,
+    { message: string; js: string; patch: CxPatchPayload },
+    "action"
+  > = {
+    increment: () => {
+      state.count++;
+      return { ok: true };
+    },
+    reset: () => {
+      state.count = 0;
+      return { ok: true };
+    },
+  };
+  const handlers = rateLimitCxActions(plain, {
+    actions: { increment: { limit: 2, windowMs: 60_000 } },
+  });
+
+  const envelope = (spec: string, sessionId: string) => ({
+    kind: "cx/interaction",
+    domEvent: "click",
+    spec,
+    element: { tag: "button" },
+    client: {
+      sessionId,
+      requestId: crypto.randomUUID(),
+      href: "http://localhost/",
+      pathname: "/",
+      search: "",
+      ts: Date.now(),
+    },
+  });
+  // `server` stands in for the http-session.ts session on c.vars.
+  const dispatch = (
+    spec: string,
+    sessionId = "s1",
+    server: string | null = "srv-1",
+  ) =>
+    cx.server.dispatchFromRequestJson(
+      new Request("http://localhost/cx", { method: "POST" }),
+      envelope(spec, sessionId),
+      state,
+      server ? { session: { id: server } } : {},
+      handlers,
+    );
+
+  assert((await dispatch("action:increment")).ok);
+  assert((await dispatch("action:increment")).ok);
+  const limited = await dispatch("action:increment");
+  assertEquals(limited.ok, false);
+  const res = cx.server.toResponse(limited);
+  assertEquals(res.status, 429);
+  assertEquals(res.headers.get("retry-after"), "30");
+  const problem = await res.json();
+  assertEquals(problem.detail, "Too Many Requests: action:increment");
+  assertEquals(problem.action, "increment");
+
+  // Rotating the client-chosen sessionId does not reset the budget.
+  assertEquals((await dispatch("action:increment", "s2")).ok, false);
+
+  // Other actions and other server sessions have their own budgets.
+  assert((await dispatch("action:reset")).ok);
+  assert((await dispatch("action:increment", "s2", "srv-2")).ok);
+  assertEquals(state.count, 1);
+
+  // No server session: fail closed instead of keying by the client's id.
+  const anonymous = await dispatch("action:increment", "s3", null);
+  assertEquals(anonymous.ok, false);
+  assertEquals(anonymous.ok ? 0 : anonymous.status, 500);
+  assertEquals(state.count, 1);
+});
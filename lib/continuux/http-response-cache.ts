@@ -0,0 +1,352 @@
+/**
+ * lib/continuux/http-response-cache.ts
+ *
+ * Server-side response cache for expensive GET handlers (Natural DS page
+ * renders, aggregate JSON views), so handlers do not each roll their own
+ * memoization.
+ *
+ * Features:
+ * - Keys on method, host, path and query, plus the request headers a route
+ *   varies on (`vary` option or `RouteMeta.responseCache.vary`); HEAD is
+ *   served from GET entries
+ * - Freshness from the handler's `Cache-Control` (`s-maxage`, `max-age`,
+ *   `stale-while-revalidate`; `no-store` / `no-cache` / `private` are never
+ *   stored), else from the route policy or the cache defaults
+ * - Stale-while-revalidate: a stale entry is served immediately while one
+ *   background refresh per key runs the handler again
+ * - Tag invalidation: tags from `RouteMeta.responseCache.tags`, a `tags(c)`
+ *   function, or a `Cache-Tag` response header (stripped before sending);
+ *   `cache.invalidate(["patients"])` drops every entry carrying a tag
+ * - Entry and byte limits with LRU eviction in the bundled memory store;
+ *   the store is pluggable
+ * - `X-Cache: HIT | STALE | MISS` and `Age` on responses; skips SSE,
+ *   Set-Cookie responses, `Vary: *`, and requests with Authorization
+ * - Requests carrying `Cookie` (sessions, CSRF tokens) are not cached unless
+ *   the route or the cache sets `cookies: true` or varies on "cookie"
+ *
+ * Register after compress() and etag() (http-compress.ts, http-etag.ts) so
+ * the cache stores identity bodies that already carry their ETags, and
+ * conditional requests for cached pages are still answered with 304.
+ *
+ *   const pages = createResponseCache({ ttlMs: 60_000 });
+ *   app.use(pages.middleware());
+ *   app.get("/patients", { meta: { responseCache: { tags: ["patients"] } } },
+ *     (c) => c.html(renderPatients()));
+ *   app.post("/patients", async (c) => { ...; await pages.invalidate(["patients"]); });
+ */
+
+import {
+  type HandlerCtx,
+  type Middleware,
+  type RouteResponseCachePolicy,
+  type VarsRecord,
+} from "./http.ts";
+import { isEventStream, readUpTo } from "./http-body.ts";
+
+export type CachedResponse = {
+  key: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Uint8Array<ArrayBuffer>;
+  tags: string[];
+  storedAt: number;
+  freshUntil: number;
+  /** Served (and refreshed in the background) until this time. */
+  staleUntil: number;
+};
+
+export type ResponseCacheStore = {
+  get: (
+    key: string,
+  ) => CachedResponse | undefined | Promise<CachedResponse | undefined>;
+  set: (entry: CachedResponse) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+  /** Delete every entry carrying any of `tags`; resolves to the count. */
+  deleteTagged: (tags: readonly string[]) => number | Promise<number>;
+  clear: () => void | Promise<void>;
+};
+
+/**
+ * In-memory store, bounded by entry count and total body bytes; the least
+ * recently used entries are evicted first.
+ */
+export const memoryResponseCacheStore = (
+  opts: { maxEntries?: number; maxBytes?: number } = {},
+): ResponseCacheStore & { size: () => number; bytes: () => number } => {
+  const maxEntries = opts.maxEntries ?? 1000;
+  const maxBytes = opts.maxBytes ?? 64 * 1024 * 1024;
+  const entries = new Map<string, CachedResponse>();
+  const byTag = new Map<string, Set<string>>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const e = entries.get(key);
+    if (!e) return;
+    entries.delete(key);
+    bytes -= e.body.byteLength;
+    for (const tag of e.tags) {
+      const keys = byTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) byTag.delete(tag);
+    }
+  };
+
+  return {
+    get: (key) => {
+      const e = entries.get(key);
+      if (!e) return undefined;
+      entries.delete(key);
+      entries.set(key, e);
+      return e;
+    },
+    set: (entry) => {
+      remove(entry.key);
+      if (entry.body.byteLength > maxBytes) return;
+      entries.set(entry.key, entry);
+      bytes += entry.body.byteLength;
+      for (const tag of entry.tags) {
+        let keys = byTag.get(tag);
+        if (!keys) byTag.set(tag, keys = new Set());
+        keys.add(entry.key);
+      }
+      while (entries.size > maxEntries || bytes > maxBytes) {
+        remove(entries.keys().next().value!);
+      }
+    },
+    delete: remove,
+    deleteTagged: (tags) => {
+      const keys = new Set(tags.flatMap((t) => [...byTag.get(t) ?? []]));
+      for (const key of keys) remove(key);
+      return keys.size;
+    },
+    clear: () => {
+      entries.clear();
+      byTag.clear();
+      bytes = 0;
+    },
+    size: () => entries.size,
+    bytes: () => bytes,
+  };
+};
+
+export type ResponseCacheOptions<State, Vars extends VarsRecord> =
+  & Omit<RouteResponseCachePolicy, "tags">
+  & {
+    /** Default: a private memoryResponseCacheStore(). */
+    store?: ResponseCacheStore;
+    /** Tags for every entry, or per request (e.g. from params). */
+    tags?: string[] | ((c: HandlerCtx<string, State, Vars>) => string[]);
+    /** Bodies above this are not stored. Default 1 MiB. */
+    maxEntryBytes?: number;
+    skip?: (c: HandlerCtx<string, State, Vars>) => boolean;
+    now?: () => number;
+  };
+
+export type ResponseCacheStats = {
+  hits: number;
+  stale: number;
+  misses: number;
+  stores: number;
+  revalidations: number;
+  invalidations: number;
+};
+
+export type ResponseCache<State, Vars extends VarsRecord> = {
+  middleware: () => Middleware<State, Vars>;
+  /** Drop entries carrying any of `tags`; resolves to the count removed. */
+  invalidate: (tags: readonly string[]) => Promise<number>;
+  clear: () => Promise<void>;
+  stats: () => ResponseCacheStats;
+};
+
+// Statuses RFC 9111 lets a cache store by default.
+const cacheableStatus = new Set([200, 203, 204, 300, 301, 404, 410]);
+
+const directives = (cacheControl: string) => {
+  const out = new Map<string, string>();
+  for (const part of cacheControl.split(",")) {
+    const [k, v = ""] = part.trim().split("=", 2);
+    if (k) out.set(k.toLowerCase(), v.replace(/^"|"$/g, ""));
+  }
+  return out;
+};
+
+const seconds = (v: string | undefined) => {
+  const n = v === undefined ? NaN : Number(v);
+  return Number.isFinite(n) && n >= 0 ? n * 1000 : undefined;
+};
+
+const headerList = (v: string | null) =>
+  (v ?? "").split(/[\s,]+/).map((s) => s.trim()).filter(Boolean);
+
+export const createResponseCache = <State, Vars extends VarsRecord>(
+  opts: ResponseCacheOptions<State, Vars> = {},
+): ResponseCache<State, Vars> => {
+  const store = opts.store ?? memoryResponseCacheStore();
+  const maxEntryBytes = opts.maxEntryBytes ?? 1024 * 1024;
+  const now = opts.now ?? Date.now;
+  const stats: ResponseCacheStats = {
+    hits: 0,
+    stale: 0,
+    misses: 0,
+    stores: 0,
+    revalidations: 0,
+    invalidations: 0,
+  };
+  const refreshing = new Set<string>();
+  // Bumped on invalidation so fills that started earlier are not stored.
+  let epoch = 0;
+
+  const respond = (e: CachedResponse, state: "HIT" | "STALE") => {
+    const headers = new Headers(e.headers);
+    headers.set("age", String(Math.floor((now() - e.storedAt) / 1000)));
+    headers.set("x-cache", state);
+    return new Response(
+      e.status === 204 ? null : e.body.slice(),
+      { status: e.status, statusText: e.statusText, headers },
+    );
+  };
+
+  const middleware = (): Middleware<State, Vars> => async (c, next) => {
+    const method = c.req.method.toUpperCase();
+    const routePolicy = c.route?.meta?.responseCache;
+    if (
+      (method !== "GET" && method !== "HEAD") || routePolicy === false ||
+      c.req.headers.has("authorization") || opts.skip?.(c)
+    ) {
+      return await next();
+    }
+    const vary = [...new Set([...opts.vary ?? [], ...routePolicy?.vary ?? []])]
+      .map((h) => h.toLowerCase()).sort();
+    if (
+      c.req.headers.has("cookie") && !vary.includes("cookie") &&
+      !(routePolicy?.cookies ?? opts.cookies)
+    ) {
+      return await next();
+    }
+    const policy: RouteResponseCachePolicy = {
+      ttlMs: routePolicy?.ttlMs ?? opts.ttlMs,
+      staleWhileRevalidateMs: routePolicy?.staleWhileRevalidateMs ??
+        opts.staleWhileRevalidateMs,
+    };
+    const key = [
+      `GET ${c.url.host}${c.url.pathname}${c.url.search}`,
+      ...vary.map((h) => `${h}: ${c.req.headers.get(h) ?? ""}`),
+    ].join("\n");
+
+    // Buffer and store `res` when it is cacheable; returns what to send.
+    const fill = async (res: Response, started: number): Promise<Response> => {
+      const headers = new Headers(res.headers);
+      const tags = [
+        ...routePolicy?.tags ?? [],
+        ...(typeof opts.tags === "function" ? opts.tags(c) : opts.tags ?? []),
+        ...headerList(headers.get("cache-tag")),
+      ];
+      headers.delete("cache-tag");
+      const pass = () =>
+        new Response(res.body, {
+          status: res.status,
+          statusText: res.statusText,
+          headers,
+        });
+
+      const cc = directives(headers.get("cache-control") ?? "");
+      const resVary = headerList(headers.get("vary")).map((h) =>
+        h.toLowerCase()
+      );
+      if (
+        !cacheableStatus.has(res.status) || headers.has("set-cookie") ||
+        cc.has("no-store") || cc.has("no-cache") || cc.has("private") ||
+        resVary.some((h) => h === "*" || !vary.includes(h)) ||
+        isEventStream({ headers }) ||
+        Number(headers.get("content-length") ?? 0) > maxEntryBytes
+      ) {
+        return pass();
+      }
+      const ttl = seconds(cc.get("s-maxage")) ?? seconds(cc.get("max-age")) ??
+        policy.ttlMs;
+      if (!ttl) return pass();
+      const swr = seconds(cc.get("stale-while-revalidate")) ??
+        policy.staleWhileRevalidateMs ?? 0;
+
+      const read = res.body
+        ? await readUpTo(res.body, maxEntryBytes)
+        : { bytes: new Uint8Array(0) };
+      if ("stream" in read) {
+        return new Response(read.stream, {
+          status: res.status,
+          statusText: res.statusText,
+          headers,
+        });
+      }
+      const body = read.bytes;
+      if (epoch === started) {
+        const at = now();
+        await store.set({
+          key,
+          status: res.status,
+          statusText: res.statusText,
+          headers: [...headers],
+          body,
+          tags: [...new Set(tags)],
+          storedAt: at,
+          freshUntil: at + ttl,
+          staleUntil: at + ttl + swr,
+        });
+        stats.stores++;
+      }
+      headers.set("x-cache", "MISS");
+      return new Response(res.status === 204 ? null : body, {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+      });
+    };
+
+    const cached = await store.get(key);
+    const at = now();
+    if (cached && at < cached.freshUntil) {
+      stats.hits++;
+      return respond(cached, "HIT");
+    }
+    if (cached && at < cached.staleUntil) {
+      stats.stale++;
+      if (!refreshing.has(key)) {
+        refreshing.add(key);
+        stats.revalidations++;
+        const started = epoch;
+        void (async () => {
+          try {
+            const fresh = await fill(await next(), started);
+            await fresh.body?.cancel();
+          } catch {
+            // keep serving the stale entry until it expires
+          } finally {
+            refreshing.delete(key);
+          }
+        })();
+      }
+      return respond(cached, "STALE");
+    }
+    if (cached) await store.delete(key);
+
+    stats.misses++;
+    const started = epoch;
+    return await fill(await next(), started);
+  };
+
+  return {
+    middleware,
+    invalidate: async (tags) => {
+      epoch++;
+      stats.invalidations++;
+      return await store.deleteTagged(tags);
+    },
+    clear: async () => {
+      epoch++;
+      await store.clear();
+    },
+    stats: () => ({ ...stats }),
+  };
+};
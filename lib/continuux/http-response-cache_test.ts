@@ -0,0 +1,307 @@
+// lib/continuux/http-response-cache_test.ts
+//
+// Tests for http-response-cache.ts.
+//
+// Covered behaviors:
+// - route policy TTL: MISS then HIT (handler runs once), Age and X-Cache,
+//   HEAD served from the GET entry, query strings are distinct keys
+// - handler Cache-Control: s-maxage / max-age freshness, no-store and
+//   private never stored, responses without any policy pass through
+// - stale-while-revalidate serves stale immediately with a single
+//   background refresh, then the refreshed body
+// - tag invalidation from meta, tags(c), and Cache-Tag (header stripped)
+// - Vary: configured request headers split entries; unknown Vary skips
+// - requests with Cookie bypass the cache unless the route sets
+//   `cookies: true` or varies on cookie
+// - memory store LRU eviction by entry count and bytes
+// - composition with etag(): cached pages still answer 304
+
+import { assert, assertEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import { testClient } from "./http-test-client.ts";
+import { etag } from "./http-etag.ts";
+import {
+  type CachedResponse,
+  createResponseCache,
+  memoryResponseCacheStore,
+} from "./http-response-cache.ts";
+
+// deno-lint-ignore ban-types
+type State = {};
+// deno-lint-ignore ban-types
+type Vars = {};
+
+const setup = () => {
+  let clock = 1_000_000;
+  const renders: Record<string, number> = {};
+  const render = (name: string) => (renders[name] = (renders[name] ?? 0) + 1);
+  const cache = createResponseCache<State, Vars>({
+    now: () => clock,
+    tags: (c) => c.params.id ? [`patient:${c.params.id}`] : [],
+  });
+  const app = Application.sharedState<State, Vars>({});
+  app.use(cache.middleware());
+  return {
+    app,
+    cache,
+    renders,
+    render,
+    client: testClient(app),
+    tick: (ms: number) => (clock += ms),
+  };
+};
+
+Deno.test("http-response-cache: freshness and policies", async (t) => {
+  const { app, cache, renders, render, client, tick } = setup();
+  app.get(
+    "/guide",
+    { meta: { responseCache: { ttlMs: 60_000 } } },
+    (c) => c.html(`<main>guide ${render("guide")}</main>`),
+  );
+  app.get("/cc", (c) => {
+    render("cc");
+    return c.text("cc", {
+      headers: { "cache-control": "public, max-age=10, s-maxage=30" },
+    });
+  });
+  app.get("/private", (c) => {
+    render("private");
+    return c.text("p", { headers: { "cache-control": "private, max-age=60" } });
+  });
+  app.get("/plain", (c) => c.text(`plain ${render("plain")}`));
+  app.get(
+    "/off",
+    { meta: { responseCache: false } },
+    (c) =>
+      c.text(`off ${render("off")}`, {
+        headers: { "cache-control": "max-age=60" },
+      }),
+  );
+
+  await t.step("MISS then HIT within the TTL", async () => {
+    const miss = await client.get("/guide");
+    assertEquals(miss.headers.get("x-cache"), "MISS");
+    assertEquals(await miss.text(), "<main>guide 1</main>");
+    tick(5_000);
+    const hit = await client.get("/guide");
+    assertEquals(hit.headers.get("x-cache"), "HIT");
+    assertEquals(hit.headers.get("age"), "5");
+    assert(hit.headers.get("content-type")?.startsWith("text/html"));
+    assertEquals(await hit.text(), "<main>guide 1</main>");
+
+    const head = await client.head("/guide");
+    assertEquals(head.headers.get("x-cache"), "HIT");
+    assertEquals(renders.guide, 1);
+
+    await client.get("/guide?lang=fr");
+    assertEquals(renders.guide, 2);
+
+    tick(60_000);
+    assertEquals(
+      await (await client.get("/guide")).text(),
+      "<main>guide 3</main>",
+    );
+  });
+
+  await t.step("handler Cache-Control decides", async () => {
+    await client.get("/cc");
+    tick(20_000);
+    assertEquals((await client.get("/cc")).headers.get("x-cache"), "HIT");
+    tick(11_000);
+    assertEquals((await client.get("/cc")).headers.get("x-cache"), "MISS");
+    assertEquals(renders.cc, 2);
+
+    await client.get("/private");
+    await client.get("/private");
+    assertEquals(renders.private, 2);
+    await client.get("/plain");
+    const plain = await client.get("/plain");
+    assertEquals(await plain.text(), "plain 2");
+    assertEquals(plain.headers.get("x-cache"), null);
+    await client.get("/off");
+    assertEquals(await (await client.get("/off")).text(), "off 2");
+    assertEquals(cache.stats().hits, 3);
+  });
+});
+
+Deno.test("http-response-cache: stale-while-revalidate", async () => {
+  const { app, cache, client, tick } = setup();
+  let version = 1;
+  let gate: PromiseWithResolvers<void> | undefined;
+  let runs = 0;
+  app.get(
+    "/dashboard",
+    {
+      meta: { responseCache: { ttlMs: 1_000, staleWhileRevalidateMs: 10_000 } },
+    },
+    async (c) => {
+      runs++;
+      await gate?.promise;
+      return c.text(`v${version}`);
+    },
+  );
+
+  assertEquals(await (await client.get("/dashboard")).text(), "v1");
+  version = 2;
+  tick(2_000);
+  gate = Promise.withResolvers<void>();
+  const stale = await client.get("/dashboard");
+  assertEquals(stale.headers.get("x-cache"), "STALE");
+  assertEquals(await stale.text(), "v1");
+  // A second stale read does not start another refresh.
+  assertEquals(await (await client.get("/dashboard")).text(), "v1");
+  assertEquals(runs, 2);
+  gate.resolve();
+  await new Promise((r) => setTimeout(r, 10));
+
+  const fresh = await client.get("/dashboard");
+  assertEquals(fresh.headers.get("x-cache"), "HIT");
+  assertEquals(await fresh.text(), "v2");
+  assertEquals(cache.stats().revalidations, 1);
+
+  // Past the stale window the entry is a plain miss again.
+  tick(20_000);
+  gate = undefined;
+  assertEquals((await client.get("/dashboard")).headers.get("x-cache"), "MISS");
+});
+
+Deno.test("http-response-cache: tags and vary", async () => {
+  const { app, cache, renders, render, client } = setup();
+  app.get(
+    "/patients",
+    { meta: { responseCache: { ttlMs: 60_000, tags: ["patients"] } } },
+    (c) => c.text(`list ${render("list")}`),
+  );
+  app.get(
+    "/patients/:id",
+    { meta: { responseCache: { ttlMs: 60_000 } } },
+    (c) =>
+      c.text(`patient ${c.params.id} ${render(c.params.id)}`, {
+        headers: { "cache-tag": "patients" },
+      }),
+  );
+  app.get(
+    "/greeting",
+    { meta: { responseCache: { ttlMs: 60_000, vary: ["Accept-Language"] } } },
+    (c) =>
+      c.text(`${c.req.headers.get("accept-language")} ${render("greeting")}`, {
+        headers: { vary: "Accept-Language" },
+      }),
+  );
+  app.get(
+    "/ua",
+    { meta: { responseCache: { ttlMs: 60_000 } } },
+    (c) => c.text(`ua ${render("ua")}`, { headers: { vary: "User-Agent" } }),
+  );
+
+  for (let i = 0; i < 2; i++) {
+    await client.get("/patients");
+    const one = await client.get("/patients/1");
+    assertEquals(one.headers.get("cache-tag"), null);
+    await client.get("/patients/2");
+  }
+  assertEquals([renders.list, renders["1"], renders["2"]], [1, 1, 1]);
+
+  assertEquals(await cache.invalidate(["patient:1"]), 1);
+  await client.get("/patients/1");
+  await client.get("/patients/2");
+  assertEquals([renders["1"], renders["2"]], [2, 1]);
+
+  assertEquals(await cache.invalidate(["patients"]), 3);
+  await client.get("/patients");
+  assertEquals(renders.list, 2);
+
+  const lang = (l: string) => ({ headers: { "accept-language": l } });
+  await client.get("/greeting", lang("en"));
+  await client.get("/greeting", lang("fr"));
+  assertEquals(
+    await (await client.get("/greeting", lang("fr"))).text(),
+    "fr 2",
+  );
+  assertEquals(renders.greeting, 2);
+
+  // Varies on a header the cache does not key on: never stored.
+  await client.get("/ua");
+  await client.get("/ua");
+  assertEquals(renders.ua, 2);
+});
+
+Deno.test("http-response-cache: cookie-bearing requests", async () => {
+  const { app, renders, render, client } = setup();
+  const ttl = { ttlMs: 60_000 };
+  app.get(
+    "/me",
+    { meta: { responseCache: ttl } },
+    (c) => c.text(`${c.getCookie("sid")} ${render("me")}`),
+  );
+  app.get(
+    "/terms",
+    { meta: { responseCache: { ...ttl, cookies: true } } },
+    (c) => c.text(`terms ${render("terms")}`),
+  );
+  app.get(
+    "/inbox",
+    { meta: { responseCache: { ...ttl, vary: ["cookie"] } } },
+    (c) => c.text(`${c.getCookie("sid")} ${render("inbox")}`),
+  );
+
+  const as = (sid: string) => ({ headers: { cookie: `sid=${sid}` } });
+  assertEquals(await (await client.get("/me", as("a"))).text(), "a 1");
+  const b = await client.get("/me", as("b"));
+  assertEquals(await b.text(), "b 2");
+  assertEquals(b.headers.get("x-cache"), null);
+
+  await client.get("/terms", as("a"));
+  await client.get("/terms", as("b"));
+  assertEquals(renders.terms, 1);
+
+  await client.get("/inbox", as("a"));
+  await client.get("/inbox", as("a"));
+  assertEquals(await (await client.get("/inbox", as("b"))).text(), "b 2");
+  assertEquals(renders.inbox, 2);
+});
+
+Deno.test("http-response-cache: memory store limits and etag", async () => {
+  const entry = (key: string, size: number): CachedResponse => ({
+    key,
+    status: 200,
+    statusText: "",
+    headers: [],
+    body: new Uint8Array(size),
+    tags: [],
+    storedAt: 0,
+    freshUntil: 1,
+    staleUntil: 1,
+  });
+  const store = memoryResponseCacheStore({ maxEntries: 2, maxBytes: 100 });
+  store.set(entry("a", 10));
+  store.set(entry("b", 10));
+  store.get("a");
+  store.set(entry("c", 10));
+  assertEquals([!!store.get("a"), !!store.get("b"), !!store.get("c")], [
+    true,
+    false,
+    true,
+  ]);
+  store.set(entry("d", 95));
+  assertEquals(store.size(), 1);
+  assertEquals(store.bytes(), 95);
+  store.set(entry("huge", 101));
+  assertEquals(store.get("huge"), undefined);
+
+  let renders = 0;
+  const cache = createResponseCache<State, Vars>({ ttlMs: 60_000 });
+  const app = Application.sharedState<State, Vars>({});
+  app.use(etag());
+  app.use(cache.middleware());
+  app.get("/page", (c) => c.html(`<p>${++renders}</p>`));
+  const client = testClient(app);
+  const first = await client.get("/page");
+  const tag = first.headers.get("etag");
+  assert(tag);
+  const cached = await client.get("/page", {
+    headers: { "if-none-match": tag },
+  });
+  assertEquals(cached.status, 304);
+  assertEquals(renders, 1);
+});
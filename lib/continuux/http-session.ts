@@ -0,0 +1,253 @@
+/**
+ * lib/continuux/http-session.ts
+ *
+ * Server-side sessions for ContinuUX HTTP applications.
+ *
+ * Features:
+ * - Session middleware that issues an opaque, random session id cookie
+ *   (HttpOnly, Secure, SameSite=Lax by default)
+ * - Typed session data exposed as `c.vars.session` (load before, save after)
+ * - Writes only when data changed, the session is new, or expiry rolls
+ * - Rolling or absolute expiry
+ * - `regenerate()` for privilege changes (login, role switch) and `destroy()`
+ * - Pluggable stores: in-memory (single process, tests) and Deno KV (local
+ *   file or default KV), behind the small SessionStore contract
+ *
+ * The session id is server-issued, so it is also the right key for the cx
+ * SSE hub: pass `sessionIdFrom: (c) => c.vars.session.id` to
+ * CxMiddlewareBuilder.middleware() instead of trusting a client string.
+ */
+
+import type { CookieOptions, Middleware, VarsRecord } from "./http.ts";
+
+export type SessionRecord<T> = {
+  data: T;
+  /** Epoch milliseconds. Stores must not return records past this time. */
+  expiresAt: number;
+};
+
+export type SessionStore<T> = {
+  get: (id: string) => Promise<SessionRecord<T> | undefined>;
+  set: (id: string, record: SessionRecord<T>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+};
+
+/**
+ * Handle exposed to handlers. Mutate `data` freely; it is persisted after
+ * the response is produced when it differs from what was loaded.
+ */
+export type Session<T> = {
+  readonly id: string;
+  readonly isNew: boolean;
+  readonly expiresAt: number;
+  data: T;
+  /** Issue a new id for the same data; the old id is deleted on save. */
+  regenerate: () => void;
+  /** Delete the session and expire the cookie. */
+  destroy: () => void;
+};
+
+export type SessionVars<T> = { session: Session<T> };
+
+export type SessionOptions<T> = {
+  store: SessionStore<T>;
+  /** Data for a brand-new session. */
+  init: () => T;
+  /** Default "sid". */
+  cookieName?: string;
+  /** Merged over { path: "/", httpOnly: true, secure: true, sameSite: "Lax" }. */
+  cookie?: Omit<CookieOptions, "maxAge" | "expires">;
+  /** Default 24h. */
+  ttlSeconds?: number;
+  /** Extend expiry on every request (default true). */
+  rolling?: boolean;
+  now?: () => number;
+};
+
+const sessionIdRe = /^[A-Za-z0-9_-]{43}$/;
+
+const newSessionId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-")
+    .replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const snapshot = (v: unknown) => {
+  try {
+    return JSON.stringify(v);
+  } catch {
+    // Not JSON-serializable (e.g. Map in a KV-backed session): always save.
+    return undefined;
+  }
+};
+
+/**
+ * Session middleware. Register it before anything that reads
+ * `c.vars.session`, and type the app with `withVars<SessionVars<T>>()`.
+ */
+export const sessionMiddleware = <
+  T,
+  State,
+  Vars extends VarsRecord & SessionVars<T>,
+>(opts: SessionOptions<T>): Middleware<State, Vars> => {
+  const cookieName = opts.cookieName ?? "sid";
+  const ttlMs = (opts.ttlSeconds ?? 60 * 60 * 24) * 1000;
+  const rolling = opts.rolling ?? true;
+  const now = opts.now ?? Date.now;
+  const cookieOpts: CookieOptions = {
+    path: "/",
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    ...opts.cookie,
+  };
+
+  return async (c, next) => {
+    const fromCookie = c.getCookie(cookieName);
+    const loaded = fromCookie && sessionIdRe.test(fromCookie)
+      ? await opts.store.get(fromCookie)
+      : undefined;
+    const t0 = now();
+    const live = loaded && loaded.expiresAt > t0 ? loaded : undefined;
+
+    let id = live ? fromCookie! : newSessionId();
+    let expiresAt = live && !rolling ? live.expiresAt : t0 + ttlMs;
+    let retired: string | undefined;
+    let destroyed = false;
+    const isNew = !live;
+    const data = live ? live.data : opts.init();
+    const before = isNew ? undefined : snapshot(data);
+
+    const session: Session<T> = {
+      get id() {
+        return id;
+      },
+      isNew,
+      get expiresAt() {
+        return expiresAt;
+      },
+      data,
+      regenerate: () => {
+        if (!isNew && retired === undefined) retired = id;
+        id = newSessionId();
+        if (!rolling) expiresAt = now() + ttlMs;
+      },
+      destroy: () => {
+        destroyed = true;
+      },
+    };
+    c.setVar("session", session as Vars["session"]);
+
+    const res = await next();
+
+    if (destroyed) {
+      await opts.store.delete(id);
+      if (retired) await opts.store.delete(retired);
+      if (fromCookie) c.deleteCookie(cookieName, cookieOpts);
+      return res;
+    }
+
+    if (retired) await opts.store.delete(retired);
+    const changed = before === undefined ||
+      snapshot(session.data) !== before;
+    if (isNew || retired || rolling || changed) {
+      await opts.store.set(id, { data: session.data, expiresAt });
+    }
+    if (isNew || retired || rolling) {
+      c.setCookie(cookieName, id, {
+        ...cookieOpts,
+        maxAge: Math.ceil((expiresAt - now()) / 1000),
+      });
+    }
+    return res;
+  };
+};
+
+/* =========================
+ * stores
+ * ========================= */
+
+/**
+ * Process-local store. Expired records are dropped on read and swept
+ * periodically on write. Suitable for a single instance and for tests.
+ */
+export const memorySessionStore = <T>(
+  opts: { now?: () => number; sweepEvery?: number } = {},
+): SessionStore<T> & { size: () => number } => {
+  const now = opts.now ?? Date.now;
+  const sweepEvery = opts.sweepEvery ?? 256;
+  const records = new Map<string, SessionRecord<T>>();
+  let writes = 0;
+
+  const sweep = () => {
+    const t = now();
+    for (const [id, r] of records) if (r.expiresAt <= t) records.delete(id);
+  };
+
+  return {
+    get: (id) => {
+      const r = records.get(id);
+      if (r && r.expiresAt <= now()) {
+        records.delete(id);
+        return Promise.resolve(undefined);
+      }
+      return Promise.resolve(r);
+    },
+    set: (id, record) => {
+      records.set(id, record);
+      if (++writes % sweepEvery === 0) sweep();
+      return Promise.resolve();
+    },
+    delete: (id) => {
+      records.delete(id);
+      return Promise.resolve();
+    },
+    size: () => records.size,
+  };
+};
+
+export type DenoKvSessionStoreOptions = {
+  /** KV file path; omit for Deno's default database. Ignored if `kv` given. */
+  path?: string;
+  /** Use an already-open KV handle (not closed by close()). */
+  kv?: Deno.Kv;
+  /** Key prefix, default ["continuux", "session"]. */
+  prefix?: Deno.KvKey;
+  now?: () => number;
+};
+
+/**
+ * Deno KV store. Records use `expireIn` so KV reclaims them, and expiry is
+ * re-checked on read since KV deletion is not immediate. Session data must
+ * be structured-cloneable. Requires `--unstable-kv` (or "unstable": ["kv"]).
+ */
+export const denoKvSessionStore = <T>(
+  opts: DenoKvSessionStoreOptions = {},
+): SessionStore<T> & { close: () => Promise<void> } => {
+  const prefix = opts.prefix ?? ["continuux", "session"];
+  const now = opts.now ?? Date.now;
+  let opened: Promise<Deno.Kv> | undefined;
+  const kv = () =>
+    opened ??= opts.kv ? Promise.resolve(opts.kv) : Deno.openKv(opts.path);
+
+  return {
+    get: async (id) => {
+      const entry = await (await kv()).get<SessionRecord<T>>([...prefix, id]);
+      const r = entry.value ?? undefined;
+      return r && r.expiresAt > now() ? r : undefined;
+    },
+    set: async (id, record) => {
+      await (await kv()).set([...prefix, id], record, {
+        expireIn: Math.max(1, record.expiresAt - now()),
+      });
+    },
+    delete: async (id) => {
+      await (await kv()).delete([...prefix, id]);
+    },
+    close: async () => {
+      if (!opened || opts.kv) return;
+      (await opened).close();
+      opened = undefined;
+    },
+  };
+};
@@ -0,0 +1,225 @@
+// lib/continuux/http-session_test.ts
+//
+// Tests for http-session.ts.
+//
+// Covered behaviors:
+// - new sessions issue a secure cookie and persist init() data
+// - data changes persist; unchanged non-rolling sessions are not rewritten
+// - regenerate() rotates the id and deletes the old record
+// - destroy() deletes the record and expires the cookie
+// - expiry (rolling and absolute) and tampered ids start a new session
+// - Deno KV store round-trip against a temp file
+// - cx SSE registrations keyed by the server-issued session id, falling back
+//   to the sessionId query parameter when there is none
+
+import { assert, assertEquals, assertNotEquals } from "@std/assert";
+import { Application } from "./http.ts";
+import {
+  denoKvSessionStore,
+  memorySessionStore,
+  sessionMiddleware,
+  type SessionRecord,
+  type SessionStore,
+  type SessionVars,
+} from "./http-session.ts";
+import { CxMiddlewareBuilder } from "./interaction.ts";
+
+type Cart = { items: string[]; role: "guest" | "admin" };
+
+const sidFrom = (r: Response) => {
+  const set = r.headers.getSetCookie().find((v) => v.startsWith("sid="));
+  return set ? set.slice(4, set.indexOf(";")) : undefined;
+};
+
+const countingStore = <T>(inner: SessionStore<T>) => {
+  const writes: string[] = [];
+  const store: SessionStore<T> = {
+    get: (id) => inner.get(id),
+    set: (id, r: SessionRecord<T>) => {
+      writes.push(id);
+      return inner.set(id, r);
+    },
+    delete: (id) => inner.delete(id),
+  };
+  return { store, writes };
+};
+
+const buildApp = (
+  store: SessionStore<Cart>,
+  opts: { rolling?: boolean; now?: () => number } = {},
+) => {
+  const app = Application.sharedState({}).withVars<SessionVars<Cart>>();
+  app.use(sessionMiddleware({
+    store,
+    init: (): Cart => ({ items: [], role: "guest" }),
+    ttlSeconds: 60,
+    ...opts,
+  }));
+  app.get("/cart", (c) => c.json(c.vars.session.data));
+  app.post("/cart/:item", (c) => {
+    c.vars.session.data.items.push(c.params.item);
+    return c.json(c.vars.session.data);
+  });
+  app.post("/login", (c) => {
+    c.vars.session.regenerate();
+    c.vars.session.data.role = "admin";
+    return c.text(c.vars.session.id);
+  });
+  app.post("/logout", (c) => {
+    c.vars.session.destroy();
+    return c.text("bye");
+  });
+  return app;
+};
+
+const send = (
+  app: { fetch: (r: Request) => Promise<Response> },
+  method: string,
+  path: string,
+  sid?: string,
+) =>
+  app.fetch(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: sid ? { cookie: `sid=${sid}` } : {},
+    }),
+  );
+
+Deno.test("http-session: lifecycle with the memory store", async (t) => {
+  const mem = memorySessionStore<Cart>();
+  const { store, writes } = countingStore(mem);
+  const app = buildApp(store, { rolling: false });
+  let sid = "";
+
+  await t.step("first request issues a secure cookie", async () => {
+    const r = await send(app, "GET", "/cart");
+    assertEquals(await r.json(), { items: [], role: "guest" });
+    const set = r.headers.getSetCookie()[0];
+    assert(set.includes("HttpOnly") && set.includes("Secure"));
+    assert(set.includes("SameSite=Lax") && set.includes("Max-Age=60"));
+    sid = sidFrom(r)!;
+    assertEquals(sid.length, 43);
+    assertEquals(mem.size(), 1);
+  });
+
+  await t.step("changes persist; unchanged requests skip writes", async () => {
+    await (await send(app, "POST", "/cart/apple", sid)).arrayBuffer();
+    const before = writes.length;
+    const r = await send(app, "GET", "/cart", sid);
+    assertEquals((await r.json()).items, ["apple"]);
+    assertEquals(sidFrom(r), undefined);
+    assertEquals(writes.length, before);
+  });
+
+  await t.step("regenerate rotates the id and keeps data", async () => {
+    const r = await send(app, "POST", "/login", sid);
+    const next = await r.text();
+    assertEquals(sidFrom(r), next);
+    assertNotEquals(next, sid);
+    assertEquals(await mem.get(sid), undefined);
+    const cart = await (await send(app, "GET", "/cart", next)).json();
+    assertEquals(cart, { items: ["apple"], role: "admin" });
+    sid = next;
+  });
+
+  await t.step("destroy deletes the record and the cookie", async () => {
+    const r = await send(app, "POST", "/logout", sid);
+    await r.arrayBuffer();
+    assert(r.headers.getSetCookie()[0].startsWith("sid=; Max-Age=0"));
+    assertEquals(mem.size(), 0);
+  });
+
+  await t.step("unknown or malformed ids start a new session", async () => {
+    const r = await send(app, "GET", "/cart", "not-a-session");
+    await r.arrayBuffer();
+    assertNotEquals(sidFrom(r), undefined);
+  });
+});
+
+Deno.test("http-session: rolling and absolute expiry", async () => {
+  let now = 1_000_000;
+  const clock = () => now;
+
+  const rollingStore = memorySessionStore<Cart>({ now: clock });
+  const rolling = buildApp(rollingStore, { now: clock });
+  const first = await send(rolling, "GET", "/cart");
+  await first.arrayBuffer();
+  const sid = sidFrom(first)!;
+  now += 50_000;
+  const kept = await send(rolling, "GET", "/cart", sid);
+  await kept.arrayBuffer();
+  assertEquals(sidFrom(kept), sid);
+  assertEquals((await rollingStore.get(sid))!.expiresAt, now + 60_000);
+
+  const absoluteStore = memorySessionStore<Cart>({ now: clock });
+  const absolute = buildApp(absoluteStore, { rolling: false, now: clock });
+  const a = await send(absolute, "GET", "/cart");
+  await a.arrayBuffer();
+  const aid = sidFrom(a)!;
+  now += 30_000;
+  await (await send(absolute, "POST", "/cart/pear", aid)).arrayBuffer();
+  now += 31_000;
+  const expired = await send(absolute, "GET", "/cart", aid);
+  assertEquals((await expired.json()).items, []);
+  assertNotEquals(sidFrom(expired), aid);
+});
+
+Deno.test("http-session: Deno KV store round-trip", async () => {
+  const dir = await Deno.makeTempDir();
+  const store = denoKvSessionStore<Cart>({ path: `${dir}/sessions.kv` });
+  try {
+    const app = buildApp(store);
+    const r = await send(app, "POST", "/cart/plum");
+    await r.arrayBuffer();
+    const sid = sidFrom(r)!;
+    const cart = await (await send(app, "GET", "/cart", sid)).json();
+    assertEquals(cart.items, ["plum"]);
+
+    await store.set("stale", { data: cart, expiresAt: Date.now() - 1 });
+    assertEquals(await store.get("stale"), undefined);
+  } finally {
+    await store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("http-session: cx SSE keyed by server session", async () => {
+  const cx = new CxMiddlewareBuilder<{ message: string }>();
+  const app = Application.sharedState({}).withVars<SessionVars<Cart>>();
+  app.use(sessionMiddleware({
+    store: memorySessionStore<Cart>(),
+    init: (): Cart => ({ items: [], role: "guest" }),
+  }));
+  app.use(cx.middleware({ sessionIdFrom: (c) => c.vars.session.id }));
+
+  const r = await app.fetch(
+    new Request("http://localhost/cx/sse?sessionId=spoofed"),
+  );
+  const sid = sidFrom(r)!;
+  await new Promise((ok) => setTimeout(ok, 0));
+
+  assertEquals(cx.hub.size(), 1);
+  assertEquals(cx.hub.send("spoofed", "message", "x"), false);
+  assertEquals(cx.hub.send(sid, "message", "hello"), true);
+
+  await r.body!.cancel();
+});
+
+Deno.test("http-session: cx SSE falls back to the query param", async () => {
+  const cx = new CxMiddlewareBuilder<{ message: string }>();
+  const app = Application.sharedState({}).withVars<
+    Partial<SessionVars<Cart>>
+  >();
+  // No session middleware, so sessionIdFrom yields null.
+  app.use(cx.middleware({ sessionIdFrom: (c) => c.vars.session?.id ?? null }));
+
+  const r = await app.fetch(
+    new Request("http://localhost/cx/sse?sessionId=tab-7"),
+  );
+  await new Promise((ok) => setTimeout(ok, 0));
+
+  assertEquals(cx.hub.size(), 1);
+  assertEquals(cx.hub.send("tab-7", "message", "hello"), true);
+
+  await r.body!.cancel();
+});
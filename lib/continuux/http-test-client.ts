@@ -0,0 +1,700 @@
+/**
+ * lib/continuux/http-test-client.ts
+ *
+ * In-process test client for ContinuUX applications: drives `app.fetch`
+ * directly, so tests need no ports, servers, or browsers.
+ *
+ * Features:
+ * - get/post/put/patch/delete/head/options with `query`, `json`, and `form`
+ *   shorthands; default headers per client
+ * - Cookie jar that persists Set-Cookie across calls (Max-Age, Expires, and
+ *   Path honoured; one host)
+ * - Optional redirect following (303 and 301/302 after POST become GET)
+ * - Responses with memoized text(), typed json(), problem(), and html() with
+ *   a small tag/attribute query helper (hidden CSRF fields, data-cx-* attrs)
+ * - sse(): open an SSE endpoint and read typed events with timeouts
+ * - cx helpers: build interaction envelopes, POST them, and open the cx SSE
+ *   channel for the client's session id
+ *
+ *   const client = testClient(app);
+ *   await using events = await client.cxSse<ServerEvents>();
+ *   await client.cx("action:increment");
+ *   const patch = await events.waitFor("patch");
+ */
+
+import type { ProblemDetails, SseEventMap } from "./http.ts";
+import { isEventStream } from "./http-body.ts";
+import type {
+  CxDomEventName,
+  CxElementMeta,
+  CxFormDataObject,
+  CxInteractionEnvelope,
+} from "./interaction.ts";
+
+/** Anything with Application's fetch signature. */
+export type TestFetchTarget = {
+  fetch: (
+    req: Request,
+    info?: { remoteAddr?: Deno.Addr },
+  ) => Promise<Response>;
+};
+
+export type TestClientOptions = {
+  /** Origin for relative paths. Default "http://localhost". */
+  baseUrl?: string;
+  /** Sent with every request; per-call headers win. */
+  headers?: HeadersInit;
+  /** Follow redirects by default. Default false. */
+  followRedirects?: boolean;
+  /** Default 10. */
+  maxRedirects?: number;
+  /** Passed to `app.fetch` as connection info (see HandlerCtx.remoteAddr). */
+  remoteAddr?: Deno.Addr;
+  /** Default timeout for SSE reads. Default 2000. */
+  timeoutMs?: number;
+  /** cx endpoints and session id; defaults match CxMiddlewareBuilder. */
+  cx?: { postUrl?: string; sseUrl?: string; sessionId?: string };
+};
+
+export type TestQueryValue =
+  | string
+  | number
+  | boolean
+  | readonly (string | number | boolean)[]
+  | undefined;
+
+export type TestRequestInit = Omit<RequestInit, "body" | "method"> & {
+  query?: Record<string, TestQueryValue>;
+  /** JSON body (sets content-type). */
+  json?: unknown;
+  /** urlencoded (record or URLSearchParams) or multipart (FormData) body. */
+  form?:
+    | Record<string, string | readonly string[]>
+    | URLSearchParams
+    | FormData;
+  body?: BodyInit | null;
+  followRedirects?: boolean;
+};
+
+export type TestHtmlElement = {
+  tag: string;
+  attrs: Record<string, string>;
+  /** Inner HTML (empty for void elements). */
+  inner: string;
+  /** Inner text with tags stripped and basic entities decoded. */
+  text: string;
+};
+
+export type TestHtml = {
+  source: string;
+  title?: string;
+  /** Elements by tag name, optionally filtered by exact attribute values. */
+  elements: (
+    tag: string,
+    attrs?: Record<string, string>,
+  ) => TestHtmlElement[];
+  byId: (id: string) => TestHtmlElement | undefined;
+};
+
+export type TestResponse = {
+  raw: Response;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  /** Final URL after any followed redirects. */
+  url: string;
+  /** URLs redirected through, in order. */
+  redirects: string[];
+  text: () => Promise<string>;
+  json: <T = unknown>() => Promise<T>;
+  /** problem+json body (see HttpProblem). */
+  problem: () => Promise<ProblemDetails>;
+  html: () => Promise<TestHtml>;
+};
+
+export type TestSseEvent<E extends SseEventMap, K extends keyof E = keyof E> = {
+  event: K;
+  /** JSON-decoded when the data parses as JSON, else the raw text. */
+  data: E[K];
+  id?: string;
+  raw: string;
+};
+
+export type TestSseStream<E extends SseEventMap> = {
+  status: number;
+  headers: Headers;
+  /** Every event received so far (including ones already consumed). */
+  events: TestSseEvent<E>[];
+  /** The next unconsumed event. */
+  next: (opts?: { timeoutMs?: number }) => Promise<TestSseEvent<E>>;
+  /** Consume events until one named `event` (and matching `where`) arrives. */
+  waitFor: <K extends keyof E & string>(
+    event: K,
+    opts?: { timeoutMs?: number; where?: (data: E[K]) => boolean },
+  ) => Promise<E[K]>;
+  /** The next `n` events. */
+  collect: (
+    n: number,
+    opts?: { timeoutMs?: number },
+  ) => Promise<TestSseEvent<E>[]>;
+  /** Resolves once the server ends the stream. */
+  closed: Promise<void>;
+  close: () => Promise<void>;
+  [Symbol.asyncDispose]: () => Promise<void>;
+};
+
+export type TestCookieJar = {
+  get: (name: string) => string | undefined;
+  set: (name: string, value: string, opts?: { path?: string }) => void;
+  delete: (name: string) => void;
+  all: () => Record<string, string>;
+  clear: () => void;
+  /** Cookie header value for a request path. */
+  header: (path: string) => string;
+};
+
+export type TestCxPostInit = {
+  domEvent?: CxDomEventName;
+  element?: Partial<CxElementMeta>;
+  form?: CxFormDataObject;
+  signals?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /** Page the interaction happened on. Default "/". */
+  page?: string;
+};
+
+export type TestClient = {
+  readonly cookies: TestCookieJar;
+  readonly sessionId: string;
+  request: (
+    method: string,
+    path: string,
+    init?: TestRequestInit,
+  ) => Promise<TestResponse>;
+  get: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  head: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  options: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  post: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  put: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  patch: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  delete: (path: string, init?: TestRequestInit) => Promise<TestResponse>;
+  sse: <E extends SseEventMap>(
+    path: string,
+    init?: TestRequestInit,
+  ) => Promise<TestSseStream<E>>;
+  /** Interaction envelope for this client's session. */
+  cxEnvelope: (spec: string, init?: TestCxPostInit) => CxInteractionEnvelope;
+  /** POST an interaction envelope to the cx endpoint. */
+  cx: (spec: string, init?: TestCxPostInit) => Promise<TestResponse>;
+  /** Open the cx SSE channel for this client's session. */
+  cxSse: <E extends SseEventMap>() => Promise<TestSseStream<E>>;
+};
+
+/* =========================
+ * Cookies
+ * ========================= */
+
+type StoredCookie = { value: string; path: string; expires?: number };
+
+const cookieJar = (now: () => number): TestCookieJar & {
+  store: (setCookie: string, requestPath: string) => void;
+} => {
+  const jar = new Map<string, StoredCookie>();
+
+  const live = (name: string) => {
+    const c = jar.get(name);
+    if (c?.expires !== undefined && c.expires <= now()) {
+      jar.delete(name);
+      return undefined;
+    }
+    return c;
+  };
+
+  const decode = (v: string) => {
+    try {
+      return decodeURIComponent(v);
+    } catch {
+      return v;
+    }
+  };
+
+  const pathMatches = (cookiePath: string, path: string) =>
+    path === cookiePath ||
+    path.startsWith(cookiePath.endsWith("/") ? cookiePath : `${cookiePath}/`);
+
+  return {
+    get: (name) => {
+      const c = live(name);
+      return c ? decode(c.value) : undefined;
+    },
+    set: (name, value, opts) => {
+      jar.set(name, {
+        value: encodeURIComponent(value),
+        path: opts?.path ?? "/",
+      });
+    },
+    delete: (name) => void jar.delete(name),
+    all: () => {
+      const out: Record<string, string> = {};
+      for (const name of [...jar.keys()]) {
+        const c = live(name);
+        if (c) out[name] = decode(c.value);
+      }
+      return out;
+    },
+    clear: () => jar.clear(),
+    header: (path) =>
+      [...jar.keys()]
+        .flatMap((name) => {
+          const c = live(name);
+          return c && pathMatches(c.path, path) ? [`${name}=${c.value}`] : [];
+        })
+        .join("; "),
+    store: (setCookie, requestPath) => {
+      const [pair, ...attrs] = setCookie.split(";");
+      const eq = pair.indexOf("=");
+      if (eq <= 0) return;
+      const name = pair.slice(0, eq).trim();
+      const value = pair.slice(eq + 1).trim();
+      // RFC 6265 default-path: the request path up to its last "/".
+      const slash = requestPath.lastIndexOf("/");
+      let path = slash > 0 ? requestPath.slice(0, slash) : "/";
+      let expires: number | undefined;
+      for (const attr of attrs) {
+        const [k, ...rest] = attr.split("=");
+        const key = k.trim().toLowerCase();
+        const v = rest.join("=").trim();
+        if (key === "path" && v.startsWith("/")) path = v;
+        if (key === "max-age" && /^-?\d+$/.test(v)) {
+          expires = now() + Number(v) * 1000;
+        }
+        if (key === "expires" && expires === undefined) {
+          const t = Date.parse(v);
+          if (!Number.isNaN(t)) expires = t;
+        }
+      }
+      if (expires !== undefined && expires <= now()) jar.delete(name);
+      else jar.set(name, { value, path, expires });
+    },
+  };
+};
+
+/* =========================
+ * HTML
+ * ========================= */
+
+const voidTags = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const entities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X"
+        ? parseInt(e.slice(2), 16)
+        : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return entities[e.toLowerCase()] ?? m;
+  });
+
+const attrRe =
+  /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const parseAttrs = (src: string) => {
+  const attrs: Record<string, string> = {};
+  for (const m of src.matchAll(attrRe)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+};
+
+/** Tolerant, regex-level HTML scan; enough for assertions, not a DOM. */
+export const testHtml = (source: string): TestHtml => {
+  const elements = (tag: string, want?: Record<string, string>) => {
+    const name = tag.toLowerCase();
+    const open = new RegExp(`<${name}(?=[\\s/>])([^>]*)>`, "gi");
+    const out: TestHtmlElement[] = [];
+    for (const m of source.matchAll(open)) {
+      const attrs = parseAttrs(m[1].replace(/\/$/, ""));
+      if (want && Object.entries(want).some(([k, v]) => attrs[k] !== v)) {
+        continue;
+      }
+      let inner = "";
+      if (!voidTags.has(name) && !m[1].endsWith("/")) {
+        // Find the matching close tag, counting nested same-name elements.
+        const scan = new RegExp(`<(/?)${name}(?=[\\s/>])[^>]*>`, "gi");
+        scan.lastIndex = m.index + m[0].length;
+        let depth = 1;
+        for (let t = scan.exec(source); t; t = scan.exec(source)) {
+          depth += t[1] ? -1 : 1;
+          if (depth === 0) {
+            inner = source.slice(m.index + m[0].length, t.index);
+            break;
+          }
+        }
+      }
+      const text = decodeEntities(inner.replace(/<[^>]*>/g, "")).trim();
+      out.push({ tag: name, attrs, inner, text });
+    }
+    return out;
+  };
+
+  return {
+    source,
+    title: elements("title")[0]?.text,
+    elements,
+    byId: (id) => {
+      const m = new RegExp(
+        `<([a-z][\\w-]*)[^>]*\\sid=["']?${
+          id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        }["'\\s>]`,
+        "i",
+      ).exec(source);
+      return m ? elements(m[1], { id })[0] : undefined;
+    },
+  };
+};
+
+/* =========================
+ * SSE
+ * ========================= */
+
+const parseSseFrame = <E extends SseEventMap>(
+  raw: string,
+): TestSseEvent<E> | undefined => {
+  let event = "message";
+  let id: string | undefined;
+  const data: string[] = [];
+  let sawField = false;
+  for (const line of raw.split("\n")) {
+    if (line === "" || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon < 0 ? line : line.slice(0, colon);
+    let value = colon < 0 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") id = value;
+    else continue;
+    sawField = true;
+  }
+  // Comments and retry-only frames carry no event.
+  if (!sawField || (data.length === 0 && event === "message")) return undefined;
+  const text = data.join("\n");
+  let decoded: unknown = text;
+  try {
+    decoded = JSON.parse(text);
+  } catch {
+    // plain text payload
+  }
+  return { event, data: decoded as E[keyof E], id, raw };
+};
+
+const openSse = <E extends SseEventMap>(
+  res: Response,
+  defaultTimeout: number,
+): TestSseStream<E> => {
+  const events: TestSseEvent<E>[] = [];
+  let cursor = 0;
+  let ended = false;
+  let failure: unknown;
+  let wake: (() => void) | undefined;
+  const reader = res.body?.pipeThrough(new TextDecoderStream()).getReader();
+
+  const closed = (async () => {
+    let buf = "";
+    try {
+      while (reader) {
+        const r = await reader.read();
+        if (r.done) break;
+        buf += r.value.replace(/\r\n?/g, "\n");
+        let end: number;
+        while ((end = buf.indexOf("\n\n")) >= 0) {
+          const ev = parseSseFrame<E>(buf.slice(0, end));
+          buf = buf.slice(end + 2);
+          if (ev) events.push(ev);
+        }
+        wake?.();
+      }
+    } catch (err) {
+      failure = err;
+    } finally {
+      ended = true;
+      wake?.();
+    }
+  })();
+
+  // A single waiter at a time; a timed-out read leaves nothing behind that
+  // could swallow a later event.
+  const next = (opts: { timeoutMs?: number } = {}) =>
+    new Promise<TestSseEvent<E>>((resolve, reject) => {
+      const ms = opts.timeoutMs ?? defaultTimeout;
+      const timer = setTimeout(() => {
+        wake = undefined;
+        reject(new Error(`SSE read timed out after ${ms}ms`));
+      }, ms);
+      const check = () => {
+        wake = undefined;
+        if (cursor < events.length) {
+          clearTimeout(timer);
+          resolve(events[cursor++]);
+        } else if (ended) {
+          clearTimeout(timer);
+          reject(
+            failure ?? new Error("SSE stream ended before the next event"),
+          );
+        } else wake = check;
+      };
+      check();
+    });
+
+  const close = async () => {
+    await reader?.cancel().catch(() => {});
+    await closed;
+  };
+
+  return {
+    status: res.status,
+    headers: res.headers,
+    events,
+    next,
+    waitFor: async (event, opts = {}) => {
+      const deadline = Date.now() + (opts.timeoutMs ?? defaultTimeout);
+      while (true) {
+        const ev = await next({ timeoutMs: Math.max(1, deadline - Date.now()) })
+          .catch((err) => {
+            throw new Error(`waiting for SSE "${event}": ${err.message}`);
+          });
+        if (ev.event !== event) continue;
+        const data = ev.data as E[typeof event];
+        if (!opts.where || opts.where(data)) return data;
+      }
+    },
+    collect: async (n, opts = {}) => {
+      const deadline = Date.now() + (opts.timeoutMs ?? defaultTimeout);
+      const out: TestSseEvent<E>[] = [];
+      while (out.length < n) {
+        out.push(await next({ timeoutMs: Math.max(1, deadline - Date.now()) }));
+      }
+      return out;
+    },
+    closed,
+    close,
+    [Symbol.asyncDispose]: close,
+  };
+};
+
+/* =========================
+ * Client
+ * ========================= */
+
+const redirectStatuses = new Set([301, 302, 303, 307, 308]);
+
+const testResponse = (
+  raw: Response,
+  url: string,
+  redirects: string[],
+): TestResponse => {
+  let text: Promise<string> | undefined;
+  const readText = () => (text ??= raw.text());
+  return {
+    raw,
+    status: raw.status,
+    ok: raw.ok,
+    headers: raw.headers,
+    url,
+    redirects,
+    text: readText,
+    json: async <T>() => JSON.parse(await readText()) as T,
+    problem: async () => {
+      const type = raw.headers.get("content-type") ?? "";
+      if (!type.startsWith("application/problem+json")) {
+        throw new Error(`expected application/problem+json, got "${type}"`);
+      }
+      return JSON.parse(await readText()) as ProblemDetails;
+    },
+    html: async () => testHtml(await readText()),
+  };
+};
+
+const appendQuery = (url: URL, query?: Record<string, TestQueryValue>) => {
+  for (const [k, v] of Object.entries(query ?? {})) {
+    if (v === undefined) continue;
+    for (const item of Array.isArray(v) ? v : [v]) {
+      url.searchParams.append(k, String(item));
+    }
+  }
+};
+
+/**
+ * Create a client bound to an Application (or anything with its fetch
+ * signature). Requests never touch the network.
+ */
+export const testClient = (
+  app: TestFetchTarget,
+  opts: TestClientOptions = {},
+): TestClient => {
+  const baseUrl = opts.baseUrl ?? "http://localhost";
+  const maxRedirects = opts.maxRedirects ?? 10;
+  const timeoutMs = opts.timeoutMs ?? 2000;
+  const sessionId = opts.cx?.sessionId ?? `test-${crypto.randomUUID()}`;
+  const postUrl = opts.cx?.postUrl ?? "/cx";
+  const sseUrl = opts.cx?.sseUrl ?? "/cx/sse";
+  const jar = cookieJar(Date.now);
+  const info = opts.remoteAddr ? { remoteAddr: opts.remoteAddr } : undefined;
+
+  const build = (method: string, url: URL, init: TestRequestInit) => {
+    const { query: _q, json, form, body, followRedirects: _f, ...rest } = init;
+    const headers = new Headers(opts.headers);
+    new Headers(init.headers).forEach((v, k) => headers.set(k, v));
+    const cookie = jar.header(url.pathname);
+    if (cookie && !headers.has("cookie")) headers.set("cookie", cookie);
+
+    let payload: BodyInit | null | undefined = body;
+    if (json !== undefined) {
+      payload = JSON.stringify(json);
+      if (!headers.has("content-type")) {
+        headers.set("content-type", "application/json");
+      }
+    } else if (form instanceof FormData || form instanceof URLSearchParams) {
+      payload = form;
+    } else if (form) {
+      const params = new URLSearchParams();
+      for (const [k, v] of Object.entries(form)) {
+        for (const item of typeof v === "string" ? [v] : v) {
+          params.append(k, item);
+        }
+      }
+      payload = params;
+    }
+    return new Request(url, { ...rest, method, headers, body: payload });
+  };
+
+  const request = async (
+    method: string,
+    path: string,
+    init: TestRequestInit = {},
+  ): Promise<TestResponse> => {
+    const follow = init.followRedirects ?? opts.followRedirects ?? false;
+    const redirects: string[] = [];
+    let m = method.toUpperCase();
+    let current = init;
+    const url = new URL(path, baseUrl);
+    appendQuery(url, init.query);
+
+    for (let hop = 0;; hop++) {
+      const res = await app.fetch(build(m, url, current), info);
+      for (const sc of res.headers.getSetCookie()) jar.store(sc, url.pathname);
+
+      const location = res.headers.get("location");
+      if (!follow || !redirectStatuses.has(res.status) || !location) {
+        return testResponse(res, url.toString(), redirects);
+      }
+      if (hop >= maxRedirects) {
+        await res.body?.cancel();
+        throw new Error(`more than ${maxRedirects} redirects from ${path}`);
+      }
+      await res.body?.cancel();
+      redirects.push(url.toString());
+      const nextUrl = new URL(location, url);
+      url.href = nextUrl.href;
+      if (
+        res.status === 303 ||
+        ((res.status === 301 || res.status === 302) && m === "POST")
+      ) {
+        m = m === "HEAD" ? "HEAD" : "GET";
+        current = { ...current, json: undefined, form: undefined, body: null };
+      }
+    }
+  };
+
+  const sse = async <E extends SseEventMap>(
+    path: string,
+    init: TestRequestInit = {},
+  ) => {
+    const headers = new Headers(init.headers);
+    if (!headers.has("accept")) headers.set("accept", "text/event-stream");
+    const res = await request("GET", path, { ...init, headers });
+    const type = res.headers.get("content-type") ?? "";
+    if (!isEventStream(res.raw)) {
+      const body = await res.text().catch(() => "");
+      throw new Error(
+        `expected text/event-stream from ${path}, got ${res.status} "${type}": ${
+          body.slice(0, 200)
+        }`,
+      );
+    }
+    return openSse<E>(res.raw, timeoutMs);
+  };
+
+  const cxEnvelope = (
+    spec: string,
+    init: TestCxPostInit = {},
+  ): CxInteractionEnvelope => {
+    const page = new URL(init.page ?? "/", baseUrl);
+    return {
+      kind: "cx/interaction",
+      domEvent: init.domEvent ?? "click",
+      spec,
+      element: { tag: "button", ...init.element },
+      client: {
+        sessionId,
+        requestId: crypto.randomUUID(),
+        href: page.toString(),
+        pathname: page.pathname,
+        search: page.search,
+        ts: Date.now(),
+      },
+      ...(init.form ? { form: init.form } : {}),
+      ...(init.signals ? { signals: init.signals } : {}),
+      ...(init.headers ? { headers: init.headers } : {}),
+    };
+  };
+
+  const verb = (method: string) => (path: string, init?: TestRequestInit) =>
+    request(method, path, init);
+
+  return {
+    cookies: jar,
+    sessionId,
+    request,
+    get: verb("GET"),
+    head: verb("HEAD"),
+    options: verb("OPTIONS"),
+    post: verb("POST"),
+    put: verb("PUT"),
+    patch: verb("PATCH"),
+    delete: verb("DELETE"),
+    sse,
+    cxEnvelope,
+    cx: (spec, init) =>
+      request("POST", postUrl, {
+        json: cxEnvelope(spec, init),
+        headers: init?.headers,
+      }),
+    cxSse: <E extends SseEventMap>() =>
+      sse<E>(sseUrl, { query: { sessionId } }),
+  };
+};
@@ -0,0 +1,218 @@
+// lib/continuux/http-test-client_test.ts
+//
+// Tests for http-test-client.ts.
+//
+// Covered behaviors:
+// - verbs with query/json/form bodies and default headers
+// - cookie jar: persistence, Path scoping, Max-Age=0 removal
+// - redirects: off by default, followed on request (303 becomes GET)
+// - json(), problem(), and html() element queries
+// - SSE: typed events, waitFor with filters, timeouts, and end of stream
+// - an end-to-end cx flow (envelope POST + patch over the cx SSE channel)
+
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { Application, HttpProblem } from "./http.ts";
+import { actionSchemas, createCx } from "./interaction-html.ts";
+import {
+  CxMiddlewareBuilder,
+  type CxPatchPayload,
+  decodeCxEnvelope,
+} from "./interaction.ts";
+import { testClient, testHtml } from "./http-test-client.ts";
+
+Deno.test("http-test-client: requests, cookies, redirects", async (t) => {
+  const app = Application.sharedState({});
+  app.get("/echo", (c) =>
+    c.json({
+      method: c.req.method,
+      query: Object.fromEntries(c.url.searchParams),
+      agent: c.req.headers.get("x-agent"),
+      cookie: c.req.headers.get("cookie"),
+    }));
+  app.post("/echo", async (c) =>
+    c.json({
+      type: c.req.headers.get("content-type"),
+      body: await c.readText(),
+    }));
+  app.post("/login", (c) => {
+    c.setCookie("sid", "abc 123", { path: "/", httpOnly: true });
+    c.setCookie("scoped", "1", { path: "/admin" });
+    return new Response(null, { status: 303, headers: { location: "/me" } });
+  });
+  app.get("/me", (c) => c.json({ sid: c.getCookie("sid") ?? null }));
+  app.post("/logout", (c) => {
+    c.setCookie("sid", "", { path: "/", maxAge: 0 });
+    return c.text("bye");
+  });
+  app.get("/admin/x", (c) => c.text(c.req.headers.get("cookie") ?? ""));
+  app.get("/missing-thing", () => {
+    throw new HttpProblem(404, { detail: "no thing" });
+  });
+  app.get("/page", (c) =>
+    c.html(
+      `<html><head><title>Board &amp; Co</title></head><body>
+        <form><input type="hidden" name="_csrf" value="t0k"><input name="q"></form>
+        <ul id="items"><li data-cx-id="a">One</li><li data-cx-id="b">Two <b>!</b></li></ul>
+      </body></html>`,
+    ));
+
+  const client = testClient(app, { headers: { "x-agent": "tests" } });
+
+  await t.step("verbs, query, and bodies", async () => {
+    const r = await client.get("/echo", { query: { q: "x", n: [1, 2] } });
+    assertEquals(await r.json(), {
+      method: "GET",
+      query: { q: "x", n: "2" },
+      agent: "tests",
+      cookie: null,
+    });
+
+    const json = await client.post("/echo", { json: { a: 1 } });
+    assertEquals(await json.json(), {
+      type: "application/json",
+      body: '{"a":1}',
+    });
+
+    const form = await client.post("/echo", {
+      form: { a: "1", b: ["2", "3"] },
+    });
+    const body = await form.json<{ type: string; body: string }>();
+    assert(body.type.startsWith("application/x-www-form-urlencoded"));
+    assertEquals(body.body, "a=1&b=2&b=3");
+  });
+
+  await t.step("cookies persist and redirects are opt-in", async () => {
+    const manual = await client.post("/login");
+    assertEquals(manual.status, 303);
+    assertEquals(manual.headers.get("location"), "/me");
+    assertEquals(client.cookies.get("sid"), "abc 123");
+
+    const followed = await client.post("/login", { followRedirects: true });
+    assertEquals(followed.status, 200);
+    assertEquals(followed.url, "http://localhost/me");
+    assertEquals(followed.redirects, ["http://localhost/login"]);
+    assertEquals(await followed.json(), { sid: "abc 123" });
+
+    // Path-scoped cookies only go to matching paths.
+    assertEquals(
+      await (await client.get("/admin/x")).text(),
+      "sid=abc%20123; scoped=1",
+    );
+    const echo = await (await client.get("/echo")).json<{ cookie: string }>();
+    assertEquals(echo.cookie, "sid=abc%20123");
+
+    await (await client.post("/logout")).text();
+    assertEquals(client.cookies.get("sid"), undefined);
+  });
+
+  await t.step("problem and html helpers", async () => {
+    const p = await (await client.get("/missing-thing")).problem();
+    assertEquals(p.status, 404);
+    assertEquals(p.detail, "no thing");
+    await assertRejects(() => client.get("/page").then((r) => r.problem()));
+
+    const html = await (await client.get("/page")).html();
+    assertEquals(html.title, "Board & Co");
+    assertEquals(
+      html.elements("input", { name: "_csrf" })[0].attrs.value,
+      "t0k",
+    );
+    assertEquals(
+      html.byId("items")?.text,
+      "OneTwo !",
+    );
+    assertEquals(
+      html.elements("li").map((li) => li.attrs["data-cx-id"]),
+      ["a", "b"],
+    );
+    assertEquals(
+      testHtml("<div><div id=in>x</div></div>").elements("div")[0].inner,
+      "<div id=in>x</div>",
+    );
+  });
+});
+
+Deno.test("http-test-client: SSE reader", async (t) => {
+  const app = Application.sharedState({});
+  type Events = { tick: { n: number }; note: string };
+  app.get("/ticks", (c) =>
+    c.sse<Events>(async (session) => {
+      for (let n = 1; n <= 3; n++) await session.sendWhenReady("tick", { n });
+      await session.sendWhenReady("note", "done");
+      session.close();
+    }));
+  app.get("/quiet", (c) => c.sse<Events>(() => {}));
+  app.get("/plain", (c) => c.text("not sse"));
+
+  const client = testClient(app, { timeoutMs: 500 });
+
+  await t.step("typed events and waitFor", async () => {
+    await using events = await client.sse<Events>("/ticks");
+    assertEquals(events.status, 200);
+    assertEquals((await events.next()).data, { n: 1 });
+    assertEquals(
+      await events.waitFor("tick", { where: (d) => d.n === 3 }),
+      { n: 3 },
+    );
+    assertEquals(await events.waitFor("note"), "done");
+    await events.closed;
+    assertEquals(events.events.length, 4);
+    await assertRejects(() => events.next(), Error, "ended");
+  });
+
+  await t.step("timeouts and non-SSE responses", async () => {
+    await using quiet = await client.sse<Events>("/quiet");
+    await assertRejects(
+      () => quiet.next({ timeoutMs: 50 }),
+      Error,
+      "timed out",
+    );
+    await assertRejects(() => client.sse("/plain"), Error, "text/event-stream");
+  });
+});
+
+Deno.test("http-test-client: cx flow end to end", async () => {
+  const state = { count: 0 };
+  type State = typeof state;
+  type Vars = Record<string, never>;
+  type ServerEvents = { message: string; js: string; patch: CxPatchPayload };
+
+  const actions = actionSchemas({ increment: decodeCxEnvelope });
+  const cx = createCx<State, Vars, typeof actions, ServerEvents>(actions);
+  const builder = new CxMiddlewareBuilder<ServerEvents>({
+    hub: cx.server.sseHub(),
+  });
+
+  const app = Application.sharedState<State, Vars>(state);
+  app.use(builder.middleware<State, Vars, typeof actions, "action">({
+    onConnect: async ({ session, sessionId }) => {
+      await session.sendWhenReady("message", `connected:${sessionId}`);
+    },
+    interaction: {
+      cx,
+      handlers: {
+        increment: ({ sessionId }) => {
+          state.count++;
+          builder.hub.patch(sessionId, {
+            ops: [builder.patch.setText("#count", String(state.count))],
+          });
+          return { ok: true };
+        },
+      },
+    },
+  }));
+
+  const client = testClient(app);
+  await using events = await client.cxSse<ServerEvents>();
+  assertEquals(
+    await events.waitFor("message"),
+    `connected:${client.sessionId}`,
+  );
+
+  const r = await client.cx("action:increment", { element: { id: "inc" } });
+  assertEquals(r.status, 204);
+
+  const patch = await events.waitFor("patch");
+  assertEquals(patch.ops[0], builder.patch.setText("#count", "1"));
+  assertEquals(state.count, 1);
+});
@@ -0,0 +1,681 @@
+/**
+ * lib/continuux/http-trace.ts
+ *
+ * Distributed tracing for ContinuUX applications: W3C Trace Context
+ * propagation and spans exported as OTLP-compatible JSON, without an
+ * OpenTelemetry SDK dependency.
+ *
+ * Features:
+ * - parseTraceparent()/formatTraceparent() and tracestate pass-through
+ *   (https://www.w3.org/TR/trace-context/)
+ * - createTracer(): spans with attributes, events, status, parent/child
+ *   links, head sampling that honours the caller's sampled flag, and batched
+ *   export
+ * - tracing() middleware: a server span per request continued from an
+ *   incoming `traceparent`, exposed as `c.vars.trace`, with route, status,
+ *   and peer attributes and a `Server-Timing` header (total, child spans, and
+ *   the traceparent)
+ * - SSE responses get a span covering the stream's lifetime
+ * - traced(name, mw) wraps a middleware in its own span
+ * - http-proxy.ts and the cx POST dispatch (interaction.ts) add client and
+ *   action spans automatically when `c.vars.trace` is present; upstream
+ *   requests carry the new traceparent
+ * - Exporters: in-memory collector (tests, debug pages) and a file exporter
+ *   writing one OTLP/JSON ExportTraceServiceRequest per line (the layout the
+ *   OpenTelemetry Collector's file receiver reads)
+ *
+ *   const spans = memorySpanExporter();
+ *   const tracer = createTracer({ serviceName: "portal", exporter: spans });
+ *   const app = Application.sharedState({}).withVars<TraceVars>();
+ *   app.use(tracing({ tracer }));
+ */
+
+import type { HandlerCtx, Middleware, VarsRecord } from "./http.ts";
+import { isEventStream, watchStream } from "./http-body.ts";
+
+/* =========================
+ * trace context
+ * ========================= */
+
+export type TraceContext = {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+  /** 16 lowercase hex characters. */
+  spanId: string;
+  /** W3C trace-flags; bit 0 is "sampled". */
+  flags: number;
+  /** Opaque vendor state from `tracestate`, passed through unchanged. */
+  state?: string;
+  /** True when the context came from an incoming header. */
+  remote?: boolean;
+};
+
+const traceparentRe =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const zeroTraceId = "0".repeat(32);
+const zeroSpanId = "0".repeat(16);
+
+/**
+ * Parse a `traceparent` header (and optional `tracestate`). Returns
+ * undefined for anything malformed, per the spec's "restart the trace" rule.
+ */
+export const parseTraceparent = (
+  traceparent: string | null | undefined,
+  tracestate?: string | null,
+): TraceContext | undefined => {
+  const m = traceparentRe.exec((traceparent ?? "").trim());
+  if (!m) return undefined;
+  const [, version, traceId, spanId, flags, rest] = m;
+  if (version === "ff" || (version === "00" && rest)) return undefined;
+  if (traceId === zeroTraceId || spanId === zeroSpanId) return undefined;
+  const state = tracestate?.trim();
+  return {
+    traceId,
+    spanId,
+    flags: parseInt(flags, 16),
+    ...(state && state.length <= 512 ? { state } : {}),
+    remote: true,
+  };
+};
+
+export const formatTraceparent = (ctx: TraceContext) =>
+  `00-${ctx.traceId}-${ctx.spanId}-${
+    (ctx.flags & 0xff).toString(16).padStart(2, "0")
+  }`;
+
+/** Set `traceparent` (and `tracestate` when present) on outgoing headers. */
+export const injectTraceHeaders = (headers: Headers, ctx: TraceContext) => {
+  headers.set("traceparent", formatTraceparent(ctx));
+  if (ctx.state) headers.set("tracestate", ctx.state);
+  else headers.delete("tracestate");
+};
+
+const randomHex = (bytes: number) => {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  if (buf.every((b) => b === 0)) buf[0] = 1;
+  return Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+/* =========================
+ * spans
+ * ========================= */
+
+export type SpanKind =
+  | "internal"
+  | "server"
+  | "client"
+  | "producer"
+  | "consumer";
+
+export type SpanAttributeValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | number[]
+  | boolean[];
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatus = { code: "unset" | "ok" | "error"; message?: string };
+
+export type SpanEvent = {
+  name: string;
+  timeMs: number;
+  attributes?: SpanAttributes;
+};
+
+/** A finished span as handed to exporters. Times are epoch milliseconds. */
+export type SpanRecord = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: SpanKind;
+  startMs: number;
+  endMs: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: SpanStatus;
+};
+
+export type Span = {
+  readonly context: TraceContext;
+  readonly name: string;
+  /** False for spans dropped by sampling; they still propagate context. */
+  readonly recording: boolean;
+  setAttribute: (key: string, value: SpanAttributeValue) => void;
+  setAttributes: (attrs: SpanAttributes) => void;
+  addEvent: (name: string, attributes?: SpanAttributes) => void;
+  setStatus: (code: SpanStatus["code"], message?: string) => void;
+  /** Add an `exception` event and mark the span as failed. */
+  recordError: (err: unknown) => void;
+  /** Idempotent; returns the duration in milliseconds. */
+  end: () => number;
+  isEnded: () => boolean;
+};
+
+export type SpanOptions = {
+  /** Parent span or remote context; omitted starts a new trace. */
+  parent?: Span | TraceContext;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+};
+
+/* =========================
+ * exporters
+ * ========================= */
+
+export type SpanBatch = {
+  /** Resource attributes (service.name etc.). */
+  resource: SpanAttributes;
+  spans: SpanRecord[];
+};
+
+export type SpanExporter = {
+  export: (batch: SpanBatch) => void | Promise<void>;
+};
+
+const otlpKinds: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const otlpStatus = { unset: 0, ok: 1, error: 2 } as const;
+
+const otlpValue = (v: SpanAttributeValue): Record<string, unknown> => {
+  if (Array.isArray(v)) {
+    return { arrayValue: { values: v.map((x) => otlpValue(x)) } };
+  }
+  if (typeof v === "string") return { stringValue: v };
+  if (typeof v === "boolean") return { boolValue: v };
+  return Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v };
+};
+
+const otlpAttributes = (attrs: SpanAttributes) =>
+  Object.entries(attrs).map(([key, value]) => ({
+    key,
+    value: otlpValue(value),
+  }));
+
+// Epoch ms (with a fraction) to a nanosecond string without losing precision.
+const unixNano = (ms: number) => {
+  const whole = Math.floor(ms);
+  const frac = Math.round((ms - whole) * 1e6);
+  return (BigInt(whole) * 1_000_000n + BigInt(frac)).toString();
+};
+
+/**
+ * OTLP/JSON ExportTraceServiceRequest for a batch, as accepted by the
+ * OpenTelemetry Collector's OTLP/HTTP receiver and file receiver.
+ */
+export const toOtlpJson = (batch: SpanBatch, scope = "continuux") => ({
+  resourceSpans: [{
+    resource: { attributes: otlpAttributes(batch.resource) },
+    scopeSpans: [{
+      scope: { name: scope },
+      spans: batch.spans.map((s) => ({
+        traceId: s.traceId,
+        spanId: s.spanId,
+        ...(s.parentSpanId ? { parentSpanId: s.parentSpanId } : {}),
+        ...(s.traceState ? { traceState: s.traceState } : {}),
+        name: s.name,
+        kind: otlpKinds[s.kind],
+        startTimeUnixNano: unixNano(s.startMs),
+        endTimeUnixNano: unixNano(s.endMs),
+        attributes: otlpAttributes(s.attributes),
+        events: s.events.map((e) => ({
+          timeUnixNano: unixNano(e.timeMs),
+          name: e.name,
+          attributes: otlpAttributes(e.attributes ?? {}),
+        })),
+        status: {
+          code: otlpStatus[s.status.code],
+          ...(s.status.message ? { message: s.status.message } : {}),
+        },
+      })),
+    }],
+  }],
+});
+
+export type MemorySpanExporter = SpanExporter & {
+  readonly spans: SpanRecord[];
+  /** Spans of one trace, in end order. */
+  trace: (traceId: string) => SpanRecord[];
+  /** Everything collected so far as one OTLP/JSON document. */
+  otlp: () => ReturnType<typeof toOtlpJson>;
+  clear: () => void;
+};
+
+/** Collects spans in memory; useful in tests and for debug endpoints. */
+export const memorySpanExporter = (
+  opts: { maxSpans?: number } = {},
+): MemorySpanExporter => {
+  const maxSpans = opts.maxSpans ?? 10_000;
+  const spans: SpanRecord[] = [];
+  let resource: SpanAttributes = {};
+  return {
+    spans,
+    export: (batch) => {
+      resource = batch.resource;
+      spans.push(...batch.spans);
+      if (spans.length > maxSpans) spans.splice(0, spans.length - maxSpans);
+    },
+    trace: (traceId) => spans.filter((s) => s.traceId === traceId),
+    otlp: () => toOtlpJson({ resource, spans }),
+    clear: () => {
+      spans.length = 0;
+    },
+  };
+};
+
+/**
+ * Appends each batch to `path` as one line of OTLP/JSON. Writes are
+ * serialized so lines never interleave.
+ */
+export const fileSpanExporter = (path: string): SpanExporter => {
+  let pending: Promise<void> = Promise.resolve();
+  return {
+    export: (batch) =>
+      pending = pending.then(() =>
+        Deno.writeTextFile(path, `${JSON.stringify(toOtlpJson(batch))}\n`, {
+          append: true,
+        })
+      ),
+  };
+};
+
+/* =========================
+ * tracer
+ * ========================= */
+
+export type TracerOptions = {
+  serviceName: string;
+  exporter: SpanExporter;
+  /** Extra resource attributes (service.version, deployment.environment). */
+  resource?: SpanAttributes;
+  /**
+   * Probability of recording a new trace. Continued traces follow the
+   * caller's sampled flag. Default 1.
+   */
+  sampleRatio?: number;
+  /** Export once this many spans have ended. Default 64. */
+  maxBatch?: number;
+  /** Export pending spans at most this long after they end. Default 5000. */
+  flushIntervalMs?: number;
+  /** Epoch milliseconds; injectable for tests. */
+  now?: () => number;
+};
+
+export type Tracer = {
+  readonly serviceName: string;
+  startSpan: (name: string, opts?: SpanOptions) => Span;
+  /** Run `fn` in a child span that ends (and records errors) when it settles. */
+  withSpan: <T>(
+    name: string,
+    opts: SpanOptions,
+    fn: (span: Span) => T | Promise<T>,
+  ) => Promise<T>;
+  /** Export every ended span now. */
+  flush: () => Promise<void>;
+};
+
+const hiResNow = () => performance.timeOrigin + performance.now();
+
+export const createTracer = (opts: TracerOptions): Tracer => {
+  const now = opts.now ?? hiResNow;
+  const ratio = opts.sampleRatio ?? 1;
+  const maxBatch = opts.maxBatch ?? 64;
+  const flushIntervalMs = opts.flushIntervalMs ?? 5000;
+  const resource: SpanAttributes = {
+    "service.name": opts.serviceName,
+    ...opts.resource,
+  };
+
+  let queue: SpanRecord[] = [];
+  let timer: number | undefined;
+  let exporting: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const spans = queue;
+    queue = [];
+    if (spans.length > 0) {
+      exporting = exporting.then(async () => {
+        try {
+          await opts.exporter.export({ resource, spans });
+        } catch (err) {
+          // Tracing must never take the request path down with it.
+          console.error("span export failed", err);
+        }
+      });
+    }
+    return exporting;
+  };
+
+  const enqueue = (record: SpanRecord) => {
+    queue.push(record);
+    if (queue.length >= maxBatch) {
+      void flush();
+      return;
+    }
+    if (timer === undefined) {
+      timer = setTimeout(
+        () => void flush(),
+        flushIntervalMs,
+      ) as unknown as number;
+      Deno.unrefTimer(timer);
+    }
+  };
+
+  const startSpan = (name: string, so: SpanOptions = {}): Span => {
+    const parent = so.parent
+      ? "context" in so.parent ? so.parent.context : so.parent
+      : undefined;
+    const flags = parent ? parent.flags : Math.random() < ratio ? 1 : 0;
+    const context: TraceContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      flags,
+      ...(parent?.state ? { state: parent.state } : {}),
+    };
+    const recording = (flags & 1) === 1;
+    const startMs = now();
+    const attributes: SpanAttributes = { ...so.attributes };
+    const events: SpanEvent[] = [];
+    let status: SpanStatus = { code: "unset" };
+    let endMs: number | undefined;
+
+    const span: Span = {
+      context,
+      name,
+      recording,
+      setAttribute: (key, value) => {
+        if (endMs === undefined) attributes[key] = value;
+      },
+      setAttributes: (attrs) => {
+        if (endMs === undefined) Object.assign(attributes, attrs);
+      },
+      addEvent: (eventName, attrs) => {
+        if (endMs === undefined) {
+          events.push({ name: eventName, timeMs: now(), attributes: attrs });
+        }
+      },
+      setStatus: (code, message) => {
+        if (endMs === undefined) status = { code, message };
+      },
+      recordError: (err) => {
+        const e = err instanceof Error ? err : new Error(String(err));
+        span.addEvent("exception", {
+          "exception.type": e.name,
+          "exception.message": e.message,
+          ...(e.stack ? { "exception.stacktrace": e.stack } : {}),
+        });
+        span.setStatus("error", e.message);
+      },
+      end: () => {
+        if (endMs !== undefined) return endMs - startMs;
+        endMs = now();
+        if (recording) {
+          enqueue({
+            traceId: context.traceId,
+            spanId: context.spanId,
+            ...(parent ? { parentSpanId: parent.spanId } : {}),
+            ...(context.state ? { traceState: context.state } : {}),
+            name,
+            kind: so.kind ?? "internal",
+            startMs,
+            endMs,
+            attributes,
+            events,
+            status,
+          });
+        }
+        return endMs - startMs;
+      },
+      isEnded: () => endMs !== undefined,
+    };
+    return span;
+  };
+
+  const withSpan = async <T>(
+    name: string,
+    so: SpanOptions,
+    fn: (span: Span) => T | Promise<T>,
+  ): Promise<T> => {
+    const span = startSpan(name, so);
+    try {
+      return await fn(span);
+    } catch (err) {
+      span.recordError(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  };
+
+  return { serviceName: opts.serviceName, startSpan, withSpan, flush };
+};
+
+/* =========================
+ * request tracing middleware
+ * ========================= */
+
+/** Per-request tracing handle, exposed as `c.vars.trace`. */
+export type RequestTrace = {
+  readonly tracer: Tracer;
+  /** The request's server span. */
+  readonly span: Span;
+  /** Start a child of the server span; it is reported in Server-Timing. */
+  startSpan: (name: string, opts?: Omit<SpanOptions, "parent">) => Span;
+  withSpan: <T>(
+    name: string,
+    fn: (span: Span) => T | Promise<T>,
+    opts?: Omit<SpanOptions, "parent">,
+  ) => Promise<T>;
+  /** Headers to continue this trace in an outgoing request. */
+  headers: (ctx?: TraceContext) => Headers;
+};
+
+export type TraceVars = { trace: RequestTrace };
+
+/** The request's trace when tracing() runs earlier in the chain. */
+export const traceOf = (
+  // deno-lint-ignore no-explicit-any
+  c: HandlerCtx<any, any, any>,
+): RequestTrace | undefined => {
+  const t = (c.vars as Partial<TraceVars>).trace;
+  return t && typeof t.startSpan === "function" ? t : undefined;
+};
+
+export type TracingOptions<State, Vars extends VarsRecord> = {
+  tracer: Tracer;
+  /** Continue traces from incoming `traceparent` headers. Default true. */
+  trustIncoming?: boolean;
+  /** Add a Server-Timing header. Default true. */
+  serverTiming?: boolean;
+  /** Default `${method} ${route template}` (or the method alone). */
+  spanName?: (c: HandlerCtx<string, State, Vars>) => string;
+  /** Extra attributes for the server span, read before dispatch. */
+  attributes?: (c: HandlerCtx<string, State, Vars>) => SpanAttributes;
+};
+
+// Server-Timing metric names are tokens; the span name goes into desc.
+const timingToken = (s: string) =>
+  s.replace(/[^!#$%&'*+\-.^_`|~0-9A-Za-z]+/g, "_").slice(0, 64) || "span";
+const timingDesc = (s: string) => s.replace(/["\\]/g, "");
+
+// Count SSE events as they stream; the span ends with the stream, or when
+// the client disconnects and the stream is cancelled.
+const traceEventStream = (res: Response, span: Span): Response => {
+  let events = 0;
+  const dec = new TextDecoder();
+  return watchStream(res, {
+    chunk: (value) => {
+      events += dec.decode(value, { stream: true }).match(/^event:/gm)
+        ?.length ?? 0;
+    },
+    end: (how, err) => {
+      if (how === "error") span.recordError(err);
+      if (how === "cancel") span.addEvent("sse.disconnect");
+      span.setAttribute("sse.events", events);
+      span.end();
+    },
+  });
+};
+
+/**
+ * Tracing middleware. Register it first so its span covers the whole chain,
+ * and type the app with `withVars<TraceVars>()` to read `c.vars.trace`.
+ */
+export const tracing = <
+  State,
+  Vars extends VarsRecord & TraceVars,
+>(opts: TracingOptions<State, Vars>): Middleware<State, Vars> => {
+  const { tracer } = opts;
+  const trustIncoming = opts.trustIncoming ?? true;
+  const serverTiming = opts.serverTiming ?? true;
+
+  return async (c, next) => {
+    const incoming = trustIncoming
+      ? parseTraceparent(
+        c.req.headers.get("traceparent"),
+        c.req.headers.get("tracestate"),
+      )
+      : undefined;
+    const method = c.req.method.toUpperCase();
+    const routePath = c.route?.path;
+    const name = opts.spanName?.(c) ??
+      (routePath ? `${method} ${routePath}` : method);
+    const peer = c.remoteAddr?.transport === "tcp"
+      ? (c.remoteAddr as Deno.NetAddr).hostname
+      : undefined;
+    const span = tracer.startSpan(name, {
+      parent: incoming,
+      kind: "server",
+      attributes: {
+        "http.request.method": method,
+        "url.path": c.url.pathname,
+        "url.scheme": c.url.protocol.replace(/:$/, ""),
+        "http.request.id": c.requestId,
+        ...(routePath ? { "http.route": routePath } : {}),
+        ...(c.url.search ? { "url.query": c.url.search.slice(1) } : {}),
+        ...(peer ? { "client.address": peer } : {}),
+        ...(c.req.headers.get("user-agent")
+          ? { "user_agent.original": c.req.headers.get("user-agent")! }
+          : {}),
+        ...opts.attributes?.(c),
+      },
+    });
+
+    const timings: Array<{ name: string; ms: number }> = [];
+    const startSpan = (
+      spanName: string,
+      so: Omit<SpanOptions, "parent"> = {},
+    ): Span => {
+      const child = tracer.startSpan(spanName, { ...so, parent: span });
+      const end = child.end;
+      return {
+        ...child,
+        end: () => {
+          const first = !child.isEnded();
+          const ms = end();
+          if (first) timings.push({ name: spanName, ms });
+          return ms;
+        },
+      };
+    };
+    const trace: RequestTrace = {
+      tracer,
+      span,
+      startSpan,
+      withSpan: async (spanName, fn, so) => {
+        const child = startSpan(spanName, so);
+        try {
+          return await fn(child);
+        } catch (err) {
+          child.recordError(err);
+          throw err;
+        } finally {
+          child.end();
+        }
+      },
+      headers: (ctx = span.context) => {
+        const h = new Headers();
+        injectTraceHeaders(h, ctx);
+        return h;
+      },
+    };
+    c.setVar("trace", trace as Vars["trace"]);
+
+    let res: Response;
+    try {
+      res = await next();
+    } catch (err) {
+      span.recordError(err);
+      span.setAttribute("http.response.status_code", 500);
+      span.end();
+      throw err;
+    }
+
+    span.setAttribute("http.response.status_code", res.status);
+    if (res.status >= 500) span.setStatus("error", `HTTP ${res.status}`);
+    // WebSocket upgrades (101) cannot be rebuilt; the span ends here.
+    if (res.status === 101) {
+      span.end();
+      return res;
+    }
+
+    if (isEventStream(res)) {
+      res = traceEventStream(
+        res,
+        tracer.startSpan(`SSE ${routePath ?? c.url.pathname}`, {
+          parent: span,
+          kind: "producer",
+        }),
+      );
+    }
+
+    const total = span.end();
+    if (!serverTiming) return res;
+    const entries = timings.map((t) =>
+      `${timingToken(t.name)};desc="${timingDesc(t.name)}";dur=${
+        t.ms.toFixed(1)
+      }`
+    );
+    entries.push(`total;dur=${total.toFixed(1)}`);
+    entries.push(`traceparent;desc="${formatTraceparent(span.context)}"`);
+    const headers = new Headers(res.headers);
+    headers.append("server-timing", entries.join(", "));
+    return new Response(res.body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    });
+  };
+};
+
+/**
+ * Wrap a middleware in a span named `name` (a child of the request span when
+ * tracing() is active; otherwise the middleware runs untouched). The span
+ * covers the middleware and everything it awaits downstream; a `next` event
+ * marks where control passed on.
+ */
+export const traced = <State, Vars extends VarsRecord>(
+  name: string,
+  mw: Middleware<State, Vars>,
+): Middleware<State, Vars> =>
+async (c, next) => {
+  const trace = traceOf(c);
+  if (!trace) return await mw(c, next);
+  return await trace.withSpan(name, async (span) =>
+    await mw(c, () => {
+      span.addEvent("next");
+      return next();
+    }));
+};
@@ -0,0 +1,345 @@
+// lib/continuux/http-trace_test.ts
+//
+// Tests for http-trace.ts.
+//
+// Covered behaviors:
+// - traceparent parsing rules (zero ids, version ff, future versions) and
+//   round-trip formatting
+// - tracing(): server span continued from an incoming traceparent, route and
+//   status attributes, child spans via c.vars.trace and traced(), and the
+//   Server-Timing header
+// - sampling: unsampled callers are propagated but not recorded
+// - errors and 5xx mark the server span as failed
+// - SSE responses get a span that ends with the stream
+// - proxy upstream fetches get a client span and carry its traceparent
+// - cx action dispatch spans (driven through testClient)
+// - OTLP/JSON shape and the JSON-lines file exporter
+
+import { assert, assertEquals, assertMatch } from "@std/assert";
+import { Application, HttpProblem } from "./http.ts";
+import { httpProxy } from "./http-proxy.ts";
+import { testClient } from "./http-test-client.ts";
+import { actionSchemas, createCx } from "./interaction-html.ts";
+import { CxMiddlewareBuilder, decodeCxEnvelope } from "./interaction.ts";
+import {
+  createTracer,
+  fileSpanExporter,
+  formatTraceparent,
+  memorySpanExporter,
+  parseTraceparent,
+  type SpanRecord,
+  toOtlpJson,
+  traced,
+  type TraceVars,
+  tracing,
+} from "./http-trace.ts";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+const parentId = "00f067aa0ba902b7";
+const incoming = `00-${traceId}-${parentId}-01`;
+
+const setup = (opts: { sampleRatio?: number } = {}) => {
+  const spans = memorySpanExporter();
+  const tracer = createTracer({
+    serviceName: "portal",
+    exporter: spans,
+    resource: { "service.version": "1.2.3" },
+    ...opts,
+  });
+  const app = Application.sharedState({}).withVars<TraceVars>();
+  app.use(tracing({ tracer }));
+  const named = (name: string) => spans.spans.find((s) => s.name === name);
+  return { spans, tracer, app, named };
+};
+
+Deno.test("http-trace: traceparent parsing", () => {
+  const ctx = parseTraceparent(incoming, " vendor=abc ");
+  assertEquals(ctx, {
+    traceId,
+    spanId: parentId,
+    flags: 1,
+    state: "vendor=abc",
+    remote: true,
+  });
+  assertEquals(formatTraceparent(ctx!), incoming);
+
+  for (
+    const bad of [
+      undefined,
+      "",
+      `00-${"0".repeat(32)}-${parentId}-01`,
+      `00-${traceId}-${"0".repeat(16)}-01`,
+      `ff-${traceId}-${parentId}-01`,
+      `00-${traceId}-${parentId}-01-extra`,
+      `00-${traceId.toUpperCase()}-${parentId}-01`,
+    ]
+  ) {
+    assertEquals(parseTraceparent(bad), undefined, String(bad));
+  }
+  // Future versions may append fields.
+  assertEquals(
+    parseTraceparent(`01-${traceId}-${parentId}-00-more`)?.flags,
+    0,
+  );
+});
+
+Deno.test("http-trace: request spans and Server-Timing", async (t) => {
+  const { spans, tracer, app, named } = setup();
+  app.use(traced("auth", async (_c, next) => await next()));
+  app.get("/users/:id", async (c) => {
+    const user = await c.vars.trace.withSpan(
+      "db.load",
+      () => ({ id: c.params.id }),
+      { attributes: { "db.system": "kv" } },
+    );
+    return c.json(user);
+  });
+  app.get("/boom", () => {
+    throw new Error("kaput");
+  });
+  app.get("/unavailable", () => {
+    throw new HttpProblem(503);
+  });
+
+  await t.step("continues the caller's trace", async () => {
+    const r = await app.fetch(
+      new Request("http://localhost/users/7?full=1", {
+        headers: { traceparent: incoming, tracestate: "vendor=abc" },
+      }),
+    );
+    assertEquals(await r.json(), { id: "7" });
+    await tracer.flush();
+
+    const server = named("GET /users/:id")!;
+    assertEquals(server.traceId, traceId);
+    assertEquals(server.parentSpanId, parentId);
+    assertEquals(server.kind, "server");
+    assertEquals(server.traceState, "vendor=abc");
+    assertEquals(server.attributes["http.route"], "/users/:id");
+    assertEquals(server.attributes["url.query"], "full=1");
+    assertEquals(server.attributes["http.response.status_code"], 200);
+
+    const auth = named("auth")!;
+    const db = named("db.load")!;
+    assertEquals(auth.parentSpanId, server.spanId);
+    assertEquals(db.parentSpanId, server.spanId);
+    assertEquals(db.attributes["db.system"], "kv");
+    assertEquals(auth.events.map((e) => e.name), ["next"]);
+
+    const timing = r.headers.get("server-timing")!;
+    assertMatch(timing, /db\.load;desc="db\.load";dur=[\d.]+/);
+    assertMatch(timing, /auth;desc="auth";dur=[\d.]+/);
+    assertMatch(timing, /total;dur=[\d.]+/);
+    assert(
+      timing.includes(`traceparent;desc="00-${traceId}-${server.spanId}-01"`),
+    );
+  });
+
+  await t.step("failures mark the server span", async () => {
+    spans.clear();
+    const boom = await app.fetch(new Request("http://localhost/boom"));
+    assertEquals(boom.status, 500);
+    await boom.body?.cancel();
+    const down = await app.fetch(new Request("http://localhost/unavailable"));
+    assertEquals(down.status, 503);
+    await down.body?.cancel();
+    await tracer.flush();
+
+    const failed = named("GET /boom")!;
+    assertEquals(failed.status, { code: "error", message: "kaput" });
+    assertEquals(failed.events[0].name, "exception");
+    assertEquals(named("GET /unavailable")!.status.code, "error");
+    // A new trace starts when there is no incoming traceparent.
+    assert(failed.traceId !== traceId);
+  });
+
+  await t.step("unsampled callers are propagated, not recorded", async () => {
+    spans.clear();
+    const r = await app.fetch(
+      new Request("http://localhost/users/1", {
+        headers: { traceparent: `00-${traceId}-${parentId}-00` },
+      }),
+    );
+    await r.body?.cancel();
+    await tracer.flush();
+    assertEquals(spans.spans, []);
+    assertMatch(
+      r.headers.get("server-timing")!,
+      new RegExp(`traceparent;desc="00-${traceId}-[0-9a-f]{16}-00"`),
+    );
+  });
+});
+
+Deno.test("http-trace: sampling ratio and SSE spans", async () => {
+  const none = setup({ sampleRatio: 0 });
+  none.app.get("/x", (c) => c.text("x"));
+  await (await none.app.fetch(new Request("http://localhost/x"))).text();
+  await none.tracer.flush();
+  assertEquals(none.spans.spans.length, 0);
+
+  const { tracer, app, named } = setup();
+  app.get("/ticks", (c) =>
+    c.sse<{ tick: number }>(async (session) => {
+      for (let i = 0; i < 3; i++) await session.sendWhenReady("tick", i);
+      session.close();
+    }));
+  const r = await app.fetch(new Request("http://localhost/ticks"));
+  const server = () => named("GET /ticks");
+  await tracer.flush();
+  // The server span ends with the headers; the SSE span with the stream.
+  assert(server());
+  assertEquals(named("SSE /ticks"), undefined);
+  assertMatch(await r.text(), /event: tick/);
+  await tracer.flush();
+  const sse = named("SSE /ticks")!;
+  assertEquals(sse.parentSpanId, server()!.spanId);
+  assertEquals(sse.kind, "producer");
+  assertEquals(sse.attributes["sse.events"], 3);
+});
+
+Deno.test("http-trace: proxy upstream spans and propagation", async () => {
+  const seen: Array<string | null> = [];
+  const ac = new AbortController();
+  const upstream = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, signal: ac.signal, onListen: () => {} },
+    (req) => {
+      seen.push(req.headers.get("traceparent"));
+      return new Response("upstream ok");
+    },
+  );
+  const { port } = upstream.addr as Deno.NetAddr;
+
+  try {
+    const { tracer, app, named } = setup();
+    app.use(httpProxy({
+      routes: [{
+        name: "billing",
+        match: (c) => c.url.pathname.startsWith("/billing"),
+        target: (c) => `http://127.0.0.1:${port}${c.url.pathname}`,
+      }],
+    }));
+
+    const r = await app.fetch(
+      new Request("http://localhost/billing/invoices", {
+        headers: { traceparent: incoming },
+      }),
+    );
+    assertEquals(await r.text(), "upstream ok");
+    await tracer.flush();
+
+    const client = named("proxy billing")!;
+    const server = named("GET")!;
+    assertEquals(client.kind, "client");
+    assertEquals(client.traceId, traceId);
+    assertEquals(client.parentSpanId, server.spanId);
+    assertEquals(client.attributes["http.response.status_code"], 200);
+    assertEquals(client.attributes["server.address"], "127.0.0.1");
+    assertEquals(seen, [`00-${traceId}-${client.spanId}-01`]);
+  } finally {
+    ac.abort();
+    await upstream.finished;
+  }
+});
+
+Deno.test("http-trace: cx action dispatch spans", async () => {
+  const state = { count: 0 };
+  type ServerEvents = { message: string; js: string };
+  const actions = actionSchemas({ increment: decodeCxEnvelope });
+  const cx = createCx<typeof state, TraceVars, typeof actions, ServerEvents>(
+    actions,
+  );
+  const builder = new CxMiddlewareBuilder<ServerEvents>({
+    hub: cx.server.sseHub(),
+  });
+
+  const spans = memorySpanExporter();
+  const tracer = createTracer({ serviceName: "cx", exporter: spans });
+  const app = Application.sharedState<typeof state, TraceVars>(state);
+  app.use(tracing({ tracer }));
+  app.use(
+    builder.middleware<typeof state, TraceVars, typeof actions, "action">({
+      interaction: {
+        cx,
+        handlers: {
+          increment: () => {
+            state.count++;
+            return { ok: true };
+          },
+        },
+      },
+    }),
+  );
+
+  const client = testClient(app);
+  assertEquals((await client.cx("action:increment")).status, 204);
+  assertEquals((await client.cx("action:missing")).ok, false);
+  await tracer.flush();
+
+  const [ok, missing] = spans.spans.filter((s) => s.name.startsWith("cx "));
+  assertEquals(ok.name, "cx action:increment");
+  assertEquals(ok.attributes["cx.spec"], "action:increment");
+  assertEquals(ok.status.code, "unset");
+  assertEquals(missing.status.code, "error");
+  const servers = spans.spans.filter((s) => s.kind === "server");
+  assertEquals(ok.parentSpanId, servers[0].spanId);
+});
+
+Deno.test("http-trace: OTLP JSON and file exporter", async () => {
+  const record: SpanRecord = {
+    traceId,
+    spanId: parentId,
+    name: "work",
+    kind: "client",
+    startMs: 1_700_000_000_000.25,
+    endMs: 1_700_000_000_001.5,
+    attributes: { n: 1, ratio: 0.5, ok: true, tags: ["a", "b"] },
+    events: [{ name: "tick", timeMs: 1_700_000_000_001 }],
+    status: { code: "error", message: "bad" },
+  };
+  const doc = toOtlpJson({
+    resource: { "service.name": "svc" },
+    spans: [record],
+  });
+  const rs = doc.resourceSpans[0];
+  assertEquals(rs.resource.attributes, [
+    { key: "service.name", value: { stringValue: "svc" } },
+  ]);
+  const span = rs.scopeSpans[0].spans[0];
+  assertEquals(span.kind, 3);
+  assertEquals(span.startTimeUnixNano, "1700000000000250000");
+  assertEquals(span.endTimeUnixNano, "1700000000001500000");
+  assertEquals(span.status, { code: 2, message: "bad" });
+  assertEquals(span.attributes, [
+    { key: "n", value: { intValue: "1" } },
+    { key: "ratio", value: { doubleValue: 0.5 } },
+    { key: "ok", value: { boolValue: true } },
+    {
+      key: "tags",
+      value: {
+        arrayValue: { values: [{ stringValue: "a" }, { stringValue: "b" }] },
+      },
+    },
+  ]);
+  assertEquals(span.events[0].timeUnixNano, "1700000000001000000");
+
+  const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+  try {
+    const tracer = createTracer({
+      serviceName: "file",
+      exporter: fileSpanExporter(path),
+      maxBatch: 2,
+    });
+    for (const name of ["a", "b", "c"]) tracer.startSpan(name).end();
+    await tracer.flush();
+    const lines = (await Deno.readTextFile(path)).trim().split("\n");
+    assertEquals(lines.length, 2);
+    const names = lines.flatMap((l) =>
+      JSON.parse(l).resourceSpans[0].scopeSpans[0].spans.map((
+        s: { name: string },
+      ) => s.name)
+    );
+    assertEquals(names, ["a", "b", "c"]);
+  } finally {
+    await Deno.remove(path);
+  }
+});
@@ -0,0 +1,426 @@
+/**
+ * lib/continuux/http-ws.ts
+ *
+ * Typed WebSocket routes for ContinuUX, for bidirectional, high-frequency UIs
+ * (collaborative cursors, live terminals) where SSE plus POSTs is too chatty.
+ *
+ * Features:
+ * - wsUpgrade(route): a plain Handler, so the upgrade runs behind the same
+ *   app and route middleware (auth, logging, rate limits) as any GET route,
+ *   with the same typed params, state, and vars; `app.ws(path, ...)` is sugar
+ * - Typed inbound/outbound message maps inferred from per-type schemas
+ *   (SchemaLike or `(u) => T`); wire format is JSON `{ "type", "data" }`
+ * - Inbound frames are parsed and validated before `message` runs; bad frames
+ *   get an `error` message carrying a problem+json body and the socket stays
+ *   open. Outbound data is validated on send when an `out` schema exists
+ * - Messages are handled one at a time, in arrival order
+ * - Heartbeats via protocol ping/pong (`heartbeatMs`), an idle timeout for
+ *   sockets that stop sending, and a maximum message size (close 1009)
+ * - On server drain (`c.shutdownSignal`), sockets get a final `shutdown`
+ *   message with a reconnect hint and close with 1001
+ * - createWsHub(): per-session sends and broadcast, analogous to
+ *   createSseHub; routes given a `hub` register and unregister automatically
+ *
+ * Non-upgrade requests to a WebSocket route get a 426 problem. Upgrades need
+ * Deno's original request, so serve the app with `app.serve()` (or pass the
+ * request from Deno.serve straight to `app.fetch`).
+ *
+ *   const hub = createWsHub<WsMessagesOf<typeof out>>();
+ *   app.ws("/rooms/:room", {
+ *     schemas: { in: { cursor: CursorSchema }, out },
+ *     hub,
+ *     message: (msg, ws) =>
+ *       hub.broadcast("cursor", msg.data, { except: ws.id }),
+ *   });
+ */
+
+import type { HandlerCtx, RouteMeta, VarsRecord } from "./http.ts";
+import {
+  HttpProblem,
+  type InferSchemaOutput,
+  schemaIssues,
+  type SchemaLike,
+  ServerShutdown,
+  validationProblem,
+} from "./http-problem.ts";
+
+/** Per-type message schemas; parser entries validate, others are inert. */
+export type WsMessageSchemas = Record<string, unknown>;
+
+export type WsMessageMap = Record<string, unknown>;
+
+export type WsMessagesOf<S extends WsMessageSchemas> = {
+  [K in keyof S & string]: S[K] extends
+    SchemaLike<unknown> | ((u: unknown) => unknown) ? InferSchemaOutput<S[K]>
+    : unknown;
+};
+
+/** Discriminated union of `{ type, data }` envelopes for a message map. */
+export type WsMessage<M extends WsMessageMap> = {
+  [K in keyof M & string]: { type: K; data: M[K] };
+}[keyof M & string];
+
+/**
+ * Type of the message sent for rejected inbound frames; its data is a
+ * ProblemDetails object.
+ */
+export const wsErrorType = "error";
+
+/**
+ * Type of the final message sent when the server drains; its data is
+ * `{"retryMs": n}`, mirroring the SSE `shutdown` event.
+ */
+export const wsShutdownType = "shutdown";
+
+export type WsOptions = {
+  /** Subprotocol to accept. */
+  protocol?: string;
+  /**
+   * Protocol-level ping interval; a peer that misses a pong is closed.
+   * Default 30000. 0 disables.
+   */
+  heartbeatMs?: number;
+  /** Close (1001) when no message arrives for this long. Default: off. */
+  idleTimeoutMs?: number;
+  /** Largest inbound message in bytes; larger closes with 1009. Default 1 MiB. */
+  maxMessageBytes?: number;
+  /** Reconnect hint used when the server drains. Default 1000. */
+  retryMs?: number;
+};
+
+export type WsSession<Out extends WsMessageMap> = {
+  /** Hub key; see `WsRoute.sessionId`. */
+  readonly id: string;
+  readonly socket: WebSocket;
+  /** Aborts once the socket has closed. */
+  readonly signal: AbortSignal;
+  isOpen: () => boolean;
+  /**
+   * Send a typed message. Returns false when the socket is not open. Throws
+   * when the route has an `out` schema for `type` and `data` fails it.
+   */
+  send: <K extends keyof Out & string>(type: K, data: Out[K]) => boolean;
+  /** Send a problem as an `error` message (always available). */
+  error: (problem: HttpProblem) => boolean;
+  close: (code?: number, reason?: string) => void;
+};
+
+export type WsCloseInfo = { code: number; reason: string; wasClean: boolean };
+
+export type WsRoute<
+  Path extends string,
+  State,
+  Vars extends VarsRecord,
+  SIn extends WsMessageSchemas,
+  SOut extends WsMessageSchemas = WsMessageSchemas,
+> = WsOptions & {
+  schemas: { in: SIn; out?: SOut };
+  meta?: RouteMeta;
+  /** Register sessions here while they are open. */
+  hub?: WsHub<WsMessagesOf<SOut>>;
+  /** Session id for hub sends. Default: a random UUID. */
+  sessionId?: (c: HandlerCtx<Path, State, Vars>) => string;
+  open?: (
+    ws: WsSession<WsMessagesOf<SOut>>,
+    c: HandlerCtx<Path, State, Vars>,
+  ) => void | Promise<void>;
+  message: (
+    msg: WsMessage<WsMessagesOf<SIn>>,
+    ws: WsSession<WsMessagesOf<SOut>>,
+    c: HandlerCtx<Path, State, Vars>,
+  ) => void | Promise<void>;
+  /** Binary frames; without this hook they close the socket with 1003. */
+  binary?: (
+    data: Uint8Array<ArrayBuffer>,
+    ws: WsSession<WsMessagesOf<SOut>>,
+    c: HandlerCtx<Path, State, Vars>,
+  ) => void | Promise<void>;
+  close?: (
+    ws: WsSession<WsMessagesOf<SOut>>,
+    info: WsCloseInfo,
+    c: HandlerCtx<Path, State, Vars>,
+  ) => void;
+};
+
+/* =========================
+ * hub
+ * ========================= */
+
+export type WsHub<Out extends WsMessageMap> = {
+  register: (session: WsSession<Out>) => void;
+  unregister: (sessionId: string) => void;
+  send: <K extends keyof Out & string>(
+    sessionId: string,
+    type: K,
+    data: Out[K],
+  ) => boolean;
+  /** Send to every open session; returns how many were sent to. */
+  broadcast: <K extends keyof Out & string>(
+    type: K,
+    data: Out[K],
+    opts?: { except?: string },
+  ) => number;
+  ids: () => string[];
+  size: () => number;
+};
+
+export const createWsHub = <Out extends WsMessageMap>(): WsHub<Out> => {
+  const sessions = new Map<string, WsSession<Out>>();
+
+  const unregister = (sessionId: string) => {
+    sessions.delete(sessionId);
+  };
+
+  const register = (session: WsSession<Out>) => {
+    const prev = sessions.get(session.id);
+    if (prev && prev !== session) prev.close(1000, "replaced");
+    sessions.set(session.id, session);
+    session.signal.addEventListener("abort", () => {
+      if (sessions.get(session.id) === session) sessions.delete(session.id);
+    }, { once: true });
+  };
+
+  const send = <K extends keyof Out & string>(
+    sessionId: string,
+    type: K,
+    data: Out[K],
+  ) => {
+    const s = sessions.get(sessionId);
+    if (!s) return false;
+    const ok = s.send(type, data);
+    if (!ok && !s.isOpen()) sessions.delete(sessionId);
+    return ok;
+  };
+
+  const broadcast = <K extends keyof Out & string>(
+    type: K,
+    data: Out[K],
+    opts: { except?: string } = {},
+  ) => {
+    let n = 0;
+    for (const [id, s] of sessions) {
+      if (id === opts.except) continue;
+      if (s.send(type, data)) n++;
+      else if (!s.isOpen()) sessions.delete(id);
+    }
+    return n;
+  };
+
+  return {
+    register,
+    unregister,
+    send,
+    broadcast,
+    ids: () => [...sessions.keys()],
+    size: () => sessions.size,
+  };
+};
+
+/* =========================
+ * upgrade
+ * ========================= */
+
+const isParser = (
+  s: unknown,
+): s is SchemaLike<unknown> | ((u: unknown) => unknown) =>
+  typeof s === "function" ||
+  (s != null && typeof s === "object" &&
+    typeof (s as { parse?: unknown }).parse === "function");
+
+const parseWith = (
+  s: SchemaLike<unknown> | ((u: unknown) => unknown),
+  u: unknown,
+) => typeof s === "function" ? s(u) : s.parse(u);
+
+const wsProblem = (code: string, detail: string) =>
+  new HttpProblem(400, {
+    type: "urn:continuux:problem:websocket",
+    title: "Invalid WebSocket message",
+    detail,
+    extensions: { code },
+  });
+
+/** True when the request asks for a WebSocket upgrade. */
+export const isWebSocketUpgrade = (req: Request) =>
+  req.headers.get("upgrade")?.toLowerCase() === "websocket";
+
+const decodeInbound = (
+  text: string,
+  schemas: WsMessageSchemas,
+): { type: string; data: unknown } => {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(text);
+  } catch (err) {
+    throw wsProblem("malformed_json", `Malformed JSON: ${String(err)}`);
+  }
+  const type = (frame as { type?: unknown } | null)?.type;
+  if (typeof type !== "string") {
+    throw wsProblem("missing_type", 'Messages must be {"type", "data"}');
+  }
+  if (!Object.hasOwn(schemas, type)) {
+    throw wsProblem("unknown_type", `Unknown message type "${type}"`);
+  }
+  const data = (frame as { data?: unknown }).data;
+  const schema = schemas[type];
+  if (!isParser(schema)) return { type, data };
+  try {
+    return { type, data: parseWith(schema, data) };
+  } catch (err) {
+    const p = validationProblem("ws", schemaIssues(err), 422);
+    p.extensions.messageType = type;
+    throw p;
+  }
+};
+
+/**
+ * Build a Handler that upgrades to a typed WebSocket. Register it like any
+ * other GET handler (or use `app.ws`) so middleware runs before the upgrade;
+ * a middleware that returns its own response (401, 429, ...) prevents it.
+ */
+export const wsUpgrade = <
+  Path extends string,
+  State,
+  Vars extends VarsRecord,
+  SIn extends WsMessageSchemas,
+  SOut extends WsMessageSchemas = WsMessageSchemas,
+>(
+  route: WsRoute<Path, State, Vars, SIn, SOut>,
+) =>
+(c: HandlerCtx<Path, State, Vars>): Response => {
+  type In = WsMessagesOf<SIn>;
+  type Out = WsMessagesOf<SOut>;
+
+  if (!isWebSocketUpgrade(c.req)) {
+    return new HttpProblem(426, {
+      title: "Upgrade Required",
+      detail: "This endpoint only accepts WebSocket connections",
+      headers: { upgrade: "websocket", connection: "Upgrade" },
+    }).toResponse(c.req);
+  }
+
+  const heartbeatMs = route.heartbeatMs ?? 30_000;
+  const maxBytes = route.maxMessageBytes ?? 1024 * 1024;
+  const { socket, response } = Deno.upgradeWebSocket(c.req, {
+    protocol: route.protocol,
+    idleTimeout: Math.ceil(heartbeatMs / 1000),
+  });
+
+  const closed = new AbortController();
+  const outSchemas: WsMessageSchemas = route.schemas.out ?? {};
+  const isOpen = () => socket.readyState === WebSocket.OPEN;
+  const sendFrame = (type: string, data: unknown) => {
+    if (!isOpen()) return false;
+    try {
+      socket.send(JSON.stringify({ type, data }));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  const close = (code = 1000, reason = "") => {
+    if (socket.readyState >= WebSocket.CLOSING) return;
+    try {
+      socket.close(code, reason);
+    } catch {
+      // ignore
+    }
+  };
+
+  const session: WsSession<Out> = {
+    id: route.sessionId?.(c) ?? crypto.randomUUID(),
+    socket,
+    signal: closed.signal,
+    isOpen,
+    send: (type, data) => {
+      const schema = outSchemas[type];
+      return sendFrame(
+        type,
+        isParser(schema) ? parseWith(schema, data) : data,
+      );
+    },
+    error: (problem) => sendFrame(wsErrorType, problem.toJSON()),
+    close,
+  };
+
+  // Report a failed handler without tearing the socket down.
+  const fail = (err: unknown) => {
+    session.error(HttpProblem.from(err));
+  };
+
+  let idleTimer: number | undefined;
+  const touch = () => {
+    if (!route.idleTimeoutMs) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(
+      () => close(1001, "idle timeout"),
+      route.idleTimeoutMs,
+    ) as unknown as number;
+  };
+
+  const onShutdown = () => {
+    const reason = c.shutdownSignal.reason;
+    const retryMs = reason instanceof ServerShutdown
+      ? reason.retryMs
+      : route.retryMs ?? 1000;
+    sendFrame(wsShutdownType, { retryMs });
+    close(1001, "server shutdown");
+  };
+
+  // Handlers run one at a time in arrival order; `open` runs first.
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (fn: () => void | Promise<void>) => {
+    queue = queue.then(fn).catch(fail);
+  };
+
+  socket.binaryType = "arraybuffer";
+
+  socket.onopen = () => {
+    route.hub?.register(session);
+    if (c.shutdownSignal.aborted) return onShutdown();
+    c.shutdownSignal.addEventListener("abort", onShutdown, { once: true });
+    touch();
+    if (route.open) enqueue(() => route.open!(session, c));
+  };
+
+  socket.onmessage = (ev: MessageEvent<string | ArrayBuffer>) => {
+    touch();
+    const raw = ev.data;
+    const size = typeof raw !== "string"
+      ? raw.byteLength
+      : raw.length * 3 <= maxBytes
+      ? raw.length
+      : new TextEncoder().encode(raw).byteLength;
+    if (size > maxBytes) return close(1009, "message too big");
+
+    if (typeof raw !== "string") {
+      const binary = route.binary;
+      if (!binary) return close(1003, "binary messages not accepted");
+      const bytes = new Uint8Array(raw);
+      return enqueue(() => binary(bytes, session, c));
+    }
+
+    let msg: WsMessage<In>;
+    try {
+      msg = decodeInbound(raw, route.schemas.in) as WsMessage<In>;
+    } catch (err) {
+      fail(err);
+      return;
+    }
+    enqueue(() => route.message(msg, session, c));
+  };
+
+  socket.onclose = (ev) => {
+    clearTimeout(idleTimer);
+    c.shutdownSignal.removeEventListener("abort", onShutdown);
+    // Aborting also removes the session from its hub.
+    closed.abort();
+    route.close?.(session, {
+      code: ev.code,
+      reason: ev.reason,
+      wasClean: ev.wasClean,
+    }, c);
+  };
+
+  return response;
+};
@@ -0,0 +1,228 @@
+// lib/continuux/http-ws_test.ts
+//
+// Tests for http-ws.ts.
+//
+// Covered behaviors:
+// - app.ws upgrades behind app and route middleware (vars, typed params) and
+//   a middleware response refuses the upgrade
+// - inbound frames validated per type; malformed, unknown, and invalid frames
+//   get `error` problems without closing; outbound `out` schemas enforced
+// - hub per-session sends, broadcast with `except`, unregister on close
+// - 426 for plain requests, idle timeout, size limit, and drain on shutdown
+
+import { z } from "@zod";
+import { assert, assertEquals } from "@std/assert";
+import { Application, HttpProblem } from "./http.ts";
+import {
+  createWsHub,
+  wsErrorType,
+  type WsMessagesOf,
+  wsShutdownType,
+} from "./http-ws.ts";
+
+const hostname = "127.0.0.1";
+
+type Frame = { type: string; data: unknown };
+
+const problemOf = (f: Frame) => f.data as Record<string, unknown>;
+
+// Minimal client: queued frames plus a close promise.
+const connect = async (url: string) => {
+  const ws = new WebSocket(url);
+  const frames: Frame[] = [];
+  const waiters: Array<() => void> = [];
+  ws.onmessage = (e) => {
+    frames.push(JSON.parse(e.data));
+    waiters.splice(0).forEach((w) => w());
+  };
+  const closed = new Promise<CloseEvent>((r) => ws.onclose = r);
+  await new Promise<void>((resolve, reject) => {
+    ws.onopen = () => resolve();
+    ws.onerror = () => reject(new Error(`connect failed: ${url}`));
+  });
+  const next = async (): Promise<Frame> => {
+    while (frames.length === 0) {
+      await new Promise<void>((r) => waiters.push(r));
+    }
+    return frames.shift()!;
+  };
+  const send = (v: unknown) => ws.send(JSON.stringify(v));
+  return { ws, next, send, closed };
+};
+
+const cursorIn = z.object({ x: z.number(), y: z.number() });
+const out = {
+  hello: z.object({ room: z.string(), user: z.string() }),
+  cursor: z.object({ from: z.string(), x: z.number(), y: z.number() }),
+  count: (u: unknown) => {
+    if (typeof u !== "number" || u < 0) throw new Error("bad count");
+    return u;
+  },
+};
+
+Deno.test("http-ws: typed routes, validation, hub, and shutdown", async (t) => {
+  const app = Application.sharedState({}).withVars<{ user: string }>();
+  const hub = createWsHub<WsMessagesOf<typeof out>>();
+  const closes: number[] = [];
+
+  app.use(async (c, next) => {
+    const user = c.query("user");
+    if (!user) {
+      return new HttpProblem(401, { detail: "user required" }).toResponse();
+    }
+    c.setVar("user", user);
+    return await next();
+  });
+
+  app.ws(
+    "/rooms/:room",
+    async (c, next) => {
+      if (c.params.room === "locked") {
+        return new HttpProblem(403).toResponse();
+      }
+      return await next();
+    },
+    {
+      schemas: {
+        in: { cursor: cursorIn, count: z.number(), ping: undefined },
+        out,
+      },
+      hub,
+      sessionId: (c) => c.getVar("user"),
+      open: (ws, c) => {
+        ws.send("hello", { room: c.params.room, user: c.getVar("user") });
+      },
+      message: (msg, ws, c) => {
+        switch (msg.type) {
+          case "cursor":
+            hub.broadcast(
+              "cursor",
+              { from: c.getVar("user"), ...msg.data },
+              { except: ws.id },
+            );
+            break;
+          case "count":
+            // Negative counts fail the outbound schema and come back as errors.
+            ws.send("count", -msg.data);
+            break;
+          case "ping":
+            ws.send("count", hub.size());
+            break;
+        }
+      },
+      close: (_ws, info) => {
+        closes.push(info.code);
+      },
+    },
+  );
+  app.ws("/idle", {
+    schemas: { in: {} },
+    idleTimeoutMs: 100,
+    maxMessageBytes: 16,
+    message: () => {},
+  });
+
+  const server = app.serve({
+    hostname,
+    port: 0,
+    onListen: () => {},
+    signals: false,
+    reconnectMs: 250,
+  });
+  const { port } = server.addr as Deno.NetAddr;
+  const base = `ws://${hostname}:${port}`;
+
+  await t.step("plain requests and refused upgrades", async () => {
+    const r = await fetch(`http://${hostname}:${port}/rooms/a?user=ann`);
+    assertEquals(r.status, 426);
+    assertEquals(r.headers.get("upgrade"), "websocket");
+    await r.body?.cancel();
+
+    for (const url of [`${base}/rooms/a`, `${base}/rooms/locked?user=ann`]) {
+      let failed = false;
+      try {
+        const c = await connect(url);
+        c.ws.close();
+      } catch {
+        failed = true;
+      }
+      assert(failed, url);
+    }
+  });
+
+  await t.step("typed messages, validation, and hub", async () => {
+    const ann = await connect(`${base}/rooms/a?user=ann`);
+    const bob = await connect(`${base}/rooms/a?user=bob`);
+    assertEquals(await ann.next(), {
+      type: "hello",
+      data: { room: "a", user: "ann" },
+    });
+    assertEquals((await bob.next()).data, { room: "a", user: "bob" });
+    assertEquals(hub.ids().sort(), ["ann", "bob"]);
+
+    ann.send({ type: "cursor", data: { x: 1, y: 2 } });
+    assertEquals(await bob.next(), {
+      type: "cursor",
+      data: { from: "ann", x: 1, y: 2 },
+    });
+
+    ann.send({ type: "cursor", data: { x: "nope" } });
+    const invalid = await ann.next();
+    assertEquals(invalid.type, wsErrorType);
+    assertEquals(problemOf(invalid).status, 422);
+    assertEquals(problemOf(invalid).target, "ws");
+    assertEquals(problemOf(invalid).messageType, "cursor");
+
+    ann.ws.send("{not json");
+    assertEquals(problemOf(await ann.next()).code, "malformed_json");
+    ann.send({ type: "teleport", data: {} });
+    assertEquals(problemOf(await ann.next()).code, "unknown_type");
+
+    // Outbound schema failure surfaces as an opaque 500 problem.
+    ann.send({ type: "count", data: 3 });
+    const bad = await ann.next();
+    assertEquals(bad.type, wsErrorType);
+    assertEquals(problemOf(bad).status, 500);
+
+    // Still open, and messages are answered in order.
+    ann.send({ type: "count", data: -2 });
+    ann.send({ type: "ping" });
+    assertEquals(await ann.next(), { type: "count", data: 2 });
+    assertEquals(await ann.next(), { type: "count", data: 2 });
+
+    assert(hub.send("bob", "count", 7));
+    assertEquals(await bob.next(), { type: "count", data: 7 });
+
+    bob.ws.close(1000);
+    await bob.closed;
+    while (hub.size() !== 1) await new Promise((r) => setTimeout(r, 5));
+    assertEquals(hub.ids(), ["ann"]);
+    assertEquals(hub.send("bob", "count", 1), false);
+    ann.ws.close(1000);
+    await ann.closed;
+  });
+
+  await t.step("idle timeout and size limit", async () => {
+    const idle = await connect(`${base}/idle?user=ann`);
+    assertEquals((await idle.closed).code, 1001);
+
+    const big = await connect(`${base}/idle?user=ann`);
+    big.ws.send("x".repeat(64));
+    assertEquals((await big.closed).code, 1009);
+  });
+
+  await t.step("shutdown sends a final message and closes 1001", async () => {
+    const ann = await connect(`${base}/rooms/b?user=ann`);
+    await ann.next();
+    await server.shutdown({ graceMs: 500 });
+    assertEquals(await ann.next(), {
+      type: wsShutdownType,
+      data: { retryMs: 250 },
+    });
+    assertEquals((await ann.closed).code, 1001);
+    while (hub.size() !== 0) await new Promise((r) => setTimeout(r, 5));
+  });
+
+  await server.finished;
+  assert(closes.includes(1000));
+});
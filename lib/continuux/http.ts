@@ -17,7 +17,12 @@
  *
  * Response helpers:
  * - Convenience helpers for text, HTML, JSON, and JavaScript responses
+ * - `c.stream()` for progressively streamed bodies (e.g. natural-html's
+ *   `renderStream()`), cancelled on disconnect or shutdown and marked
+ *   `Cache-Control: no-store` so buffering middleware passes them through
  * - Correct handling of Fetch edge cases (e.g. 204 / 304 with no body)
+ * - RFC 9457 problem details via `HttpProblem` (problem+json, or HTML for
+ *   browsers) for 404/405, validation failures, and thrown errors
  *
  * Server-Sent Events (SSE):
  * - Type-safe SSE sessions via event maps
@@ -30,6 +35,23 @@
  * - Compile-time inference of path parameters from literal route strings
  * - Middleware with access to matched params
  * - Route grouping via typed base paths
+ * - Prefix-tree dispatch: static > constrained param > param > wildcard,
+ *   with ambiguous templates rejected at registration time
+ * - HEAD answered by GET routes (body stripped), OPTIONS answered with the
+ *   computed `Allow` header, and 405 (never 404) when the path matches under
+ *   another method, including across `mount()`ed child apps
+ * - RouteSchemas parsers enforced before handlers (400/422 with issues),
+ *   parsed values exposed via a typed `c.valid(target)`
+ * - Cookie read/write helpers with HMAC-signed variants and key rotation;
+ *   Set-Cookie headers are merged into whatever Response is returned
+ * - Streaming multipart uploads via `c.multipart()` / `c.readMultipart()`
+ *   with size limits, disk spooling, and digests (see http-multipart.ts)
+ * - Typed WebSocket routes via `app.ws(path, ...)`, upgraded behind the same
+ *   middleware as HTTP routes (see http-ws.ts)
+ * - API versioning via `app.versioning()`: `/v1`-style route groups selected
+ *   by path prefix, `Api-Version` header, or `Accept: ...; version=N`
+ * - `RouteMeta.deprecated` / `sunset` emit `Deprecation`, `Sunset`, and `Link`
+ *   headers; `deprecationReport(app.routes())` lists them with call counts
  *
  * Application state semantics (explicit by construction):
  * - sharedState: one shared mutable object across all requests
@@ -43,6 +65,14 @@
  * - Typed, mutable vars scoped to a single request
  * - Middleware-friendly storage for cross-cutting concerns
  *
+ * Serving and shutdown:
+ * - `app.serve()` returns a ServerHandle; `shutdown({ graceMs })` stops
+ *   accepting connections, sends `c.sse` clients a final `shutdown` event,
+ *   waits for in-flight requests, then aborts the rest
+ * - `serve({ signals: true })` opts in to draining (then exiting) on
+ *   SIGINT/SIGTERM
+ * - Mounted child apps drain with their parent
+ *
  * Observability hooks:
  * - Optional hooks for request start, response completion, timing, and errors
  * - Minimal surface area, no imposed logging or tracing framework
@@ -62,6 +92,49 @@
  * predictable as applications grow.
  */
 
+import {
+  asError,
+  HttpProblem,
+  type InferSchemaOutput,
+  problemResponse,
+  type RouteSchemaTarget,
+  type RouteValidationIssue,
+  schemaIssues,
+  type SchemaLike,
+  ServerShutdown,
+  validationProblem,
+} from "./http-problem.ts";
+import {
+  type MultipartFields,
+  type MultipartLimits,
+  type MultipartOptions,
+  type MultipartPart,
+  multipartParts,
+  type MultipartResult,
+  readMultipart,
+} from "./http-multipart.ts";
+import {
+  isWebSocketUpgrade,
+  type WsMessageSchemas,
+  type WsRoute,
+  wsUpgrade,
+} from "./http-ws.ts";
+
+export {
+  asError,
+  HttpProblem,
+  type HttpProblemInit,
+  type InferSchemaOutput,
+  type ProblemDetails,
+  problemResponse,
+  type RouteSchemaTarget,
+  type RouteValidationIssue,
+  schemaIssues,
+  type SchemaLike,
+  ServerShutdown,
+  validationProblem,
+} from "./http-problem.ts";
+
 // deno-lint-ignore no-explicit-any
 type Any = any;
 
@@ -100,6 +173,62 @@ export const htmlResponse = (
     },
   });
 
+/**
+ * Stream a body as it is produced (HTML by default), e.g. a page from
+ * natural-html's `renderStream()`. String chunks are UTF-8 encoded. When
+ * `signal` aborts, the source is cancelled and the response ends.
+ *
+ * `Cache-Control` defaults to `no-store`, which etag() (http-etag.ts) and
+ * the response cache (http-response-cache.ts) pass through unread; with
+ * any other Cache-Control they may buffer the body and lose the streaming.
+ */
+export const streamResponse = (
+  body: ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>,
+  status = 200,
+  headers?: HeadersInit,
+  signal?: AbortSignal,
+) => {
+  const source: ReadableStream<string | Uint8Array> =
+    body instanceof ReadableStream ? body : ReadableStream.from(body);
+  const reader = source.getReader();
+  const encoder = new TextEncoder();
+  const stop = () => reader.cancel(signal?.reason).catch(() => {});
+  signal?.addEventListener("abort", stop, { once: true });
+
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await reader.read();
+          if (done) {
+            signal?.removeEventListener("abort", stop);
+            controller.close();
+            return;
+          }
+          controller.enqueue(
+            typeof value === "string" ? encoder.encode(value) : value,
+          );
+        } catch (err) {
+          signal?.removeEventListener("abort", stop);
+          controller.error(err);
+        }
+      },
+      cancel(reason) {
+        signal?.removeEventListener("abort", stop);
+        return reader.cancel(reason);
+      },
+    }),
+    {
+      status,
+      headers: {
+        "content-type": "text/html; charset=utf-8",
+        "cache-control": "no-store",
+        ...(headers ?? {}),
+      },
+    },
+  );
+};
+
 export const jsonResponse = (
   obj: unknown,
   status = 200,
@@ -128,14 +257,78 @@ export const jsResponse = (
     },
   });
 
-export const methodNotAllowed = (path: string, allow: string) =>
-  textResponse(
-    ["Method not allowed.", "", `Endpoint: ${path}`, `Allowed: ${allow}`].join(
-      "\n",
-    ),
-    405,
-    { allow },
-  );
+/* =========================
+ * problem details (RFC 9457)
+ * ========================= */
+
+export const methodNotAllowed = (
+  path: string,
+  allow: string,
+  req?: Request,
+) =>
+  new HttpProblem(405, {
+    detail: `Endpoint ${path} does not support this method.`,
+    extensions: { allowed: allow ? allow.split(/\s*,\s*/) : [] },
+    headers: { allow },
+  }).toResponse(req);
+
+/** Set (or, for Vary and Link, append) headers; 101 upgrades are left alone. */
+const withHeaders = (
+  res: Response,
+  entries: readonly [string, string][],
+): Response => {
+  if (entries.length === 0 || res.status === 101) return res;
+  const apply = (h: Headers) => {
+    for (const [name, value] of entries) {
+      if (name === "vary") {
+        const vary = h.get("vary");
+        const listed = vary?.split(",").map((x) => x.trim().toLowerCase());
+        if (!listed?.includes(value) && !listed?.includes("*")) {
+          h.append("vary", value);
+        }
+      } else if (name === "link") h.append(name, value);
+      else h.set(name, value);
+    }
+  };
+  try {
+    apply(res.headers);
+    return res;
+  } catch {
+    const out = new Response(res.body, res);
+    apply(out.headers);
+    return out;
+  }
+};
+
+/** A media-type parameter from the first Accept range that carries it. */
+const acceptParam = (
+  accept: string | null,
+  name: string,
+): string | undefined => {
+  if (!accept) return undefined;
+  for (const range of accept.split(",")) {
+    for (const param of range.split(";").slice(1)) {
+      const eq = param.indexOf("=");
+      if (eq === -1 || param.slice(0, eq).trim().toLowerCase() !== name) {
+        continue;
+      }
+      const value = param.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+      if (value) return value;
+    }
+  }
+  return undefined;
+};
+
+/** Same status and headers, no body (the original body is released). */
+const withoutBody = (res: Response): Response => {
+  if (!res.body) return res;
+  res.body.cancel().catch(() => {});
+  return new Response(null, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+};
 
 export type HttpTransformContext<State, Vars extends VarsRecord> =
   & HandlerCtx<string, State, Vars>
@@ -232,9 +425,6 @@ export type EmptyRecord = Record<PropertyKey, never>;
 export type AnyParams = Record<string, string>;
 export type VarsRecord = Record<string, unknown>;
 
-export const asError = (err: unknown) =>
-  err instanceof Error ? err : new Error(String(err));
-
 /* =========================
  * SSE (type-safe + abort-aware)
  * ========================= */
@@ -250,6 +440,10 @@ export type SseOptions = {
 
   // If provided, session closes when signal aborts (prevents leaked intervals).
   signal?: AbortSignal;
+
+  // If provided, the session sends a final `shutdown` event (with a retry
+  // hint) and closes when this signal aborts. See ServerHandle.shutdown().
+  shutdownSignal?: AbortSignal;
 };
 
 export type SseSession<E extends SseEventMap> = {
@@ -267,6 +461,13 @@ export type SseSession<E extends SseEventMap> = {
   error: (message: string) => boolean;
 };
 
+/**
+ * Name of the final event an SSE stream receives when the server drains;
+ * its data is `{"retryMs": n}`. Clients should reconnect rather than treat
+ * the close as an error (browser-ua-aide.js and hot-reload.ts do).
+ */
+export const sseShutdownEvent = "shutdown";
+
 const enc = new TextEncoder();
 const sseEncode = (s: string) => enc.encode(s);
 
@@ -397,6 +598,23 @@ export const sseSession = <E extends SseEventMap = { message: string }>(
     cleanup.push(() => signal.removeEventListener("abort", onAbort));
   }
 
+  const shutdown = opts.shutdownSignal;
+  if (shutdown) {
+    const onShutdown = () => {
+      const retryMs = shutdown.reason instanceof ServerShutdown
+        ? shutdown.reason.retryMs
+        : opts.retryMs ?? 1000;
+      void ready.then(() => {
+        enqueue(sseRetryFrame(retryMs));
+        enqueue(sseFrame(sseShutdownEvent, JSON.stringify({ retryMs })));
+        close();
+      });
+    };
+    if (shutdown.aborted) onShutdown();
+    else shutdown.addEventListener("abort", onShutdown, { once: true });
+    cleanup.push(() => shutdown.removeEventListener("abort", onShutdown));
+  }
+
   return {
     response,
     ready,
@@ -473,8 +691,11 @@ export type ParamsOf<Path extends string> = IsWideString<Path> extends true
   : [ExtractParamName<Path>] extends [never] ? EmptyRecord
   : { [K in ExtractParamName<Path>]: string };
 
-export type SchemaLike<T> = { parse: (u: unknown) => T };
-
+/**
+ * Route schemas. Entries that are parsers (a `SchemaLike` such as a Zod
+ * schema, or a plain `(u) => T` function) are enforced before the handler
+ * runs; any other value is kept as inert metadata for introspection.
+ */
 export type RouteSchemas = {
   params?: unknown;
   query?: unknown;
@@ -482,17 +703,105 @@ export type RouteSchemas = {
   response?: unknown;
 };
 
+type IsParser<S> = S extends SchemaLike<unknown> ? true
+  : S extends (u: unknown) => unknown ? true
+  : false;
+
+/**
+ * The validated values a handler can read via `c.valid(target)`, inferred
+ * from the parser entries of `RouteSchemas`.
+ */
+export type ValidatedOf<S extends RouteSchemas> = {
+  [
+    K in RouteSchemaTarget as K extends keyof S
+      ? IsParser<S[K]> extends true ? K
+      : never
+      : never
+  ]: InferSchemaOutput<S[K & keyof S]>;
+};
+
+export type ValidatedRecord = Partial<Record<RouteSchemaTarget, unknown>>;
+
+/**
+ * Conditional GET policy for a route, read by the http-etag.ts middleware.
+ * `false` on `RouteMeta.cache` opts the route out entirely.
+ */
+export type RouteCachePolicy = {
+  /** Validator strength for body-hash ETags. Default "weak". */
+  etag?: "weak" | "strong" | false;
+  /** Cache-Control to add when the handler did not set one. */
+  cacheControl?: string;
+};
+
+/**
+ * Server-side response caching for a route, read by the
+ * http-response-cache.ts middleware. A handler's `Cache-Control`
+ * (`s-maxage` / `max-age`, `stale-while-revalidate`) takes precedence.
+ * `false` on `RouteMeta.responseCache` opts the route out entirely.
+ */
+export type RouteResponseCachePolicy = {
+  /** How long a stored response is fresh. */
+  ttlMs?: number;
+  /** How long a stale response may be served while it is refreshed. */
+  staleWhileRevalidateMs?: number;
+  /** Invalidation tags, e.g. ["patients"]. */
+  tags?: string[];
+  /** Request headers the response varies on (added to the cache key). */
+  vary?: string[];
+  /**
+   * Cache requests that carry a `Cookie` header. Default false, since a page
+   * rendered for one session must not be served to another; only set it
+   * when the response ignores cookies, or list "cookie" in `vary`.
+   */
+  cookies?: boolean;
+};
+
+/**
+ * Authorization requirement for a route, enforced by http-authz.ts. All
+ * present clauses must hold.
+ */
+export type RouteAuthzPolicy = {
+  /** The subject must hold at least one of these roles. */
+  roles?: string[];
+  /** The subject must hold every one of these permissions. */
+  permissions?: string[];
+  /** Named predicates registered with the policy (ABAC). */
+  rules?: string[];
+};
+
 export type RouteMeta = {
   summary?: string;
   description?: string;
   tags?: string[];
+  /** Accepted auth strategy names, comma-separated (see http-auth.ts). */
   auth?: string;
+  authz?: RouteAuthzPolicy;
+  cache?: RouteCachePolicy | false;
+  responseCache?: RouteResponseCachePolicy | false;
+  /** API version the route serves, e.g. "1" (see `app.versioning()`). */
+  version?: string;
+  /**
+   * `true`, or the date the route was deprecated. The router adds a
+   * `Deprecation` header (RFC 9745) to every response.
+   */
+  deprecated?: boolean | Date | string;
+  /** When the route stops responding; adds a `Sunset` header (RFC 8594). */
+  sunset?: Date | string;
+  /** Migration notes, sent as `Link: <url>; rel="deprecation"`. */
+  deprecationLink?: string;
+  /** The replacement, sent as `Link: <url>; rel="successor-version"`. */
+  successorLink?: string;
   [key: string]: unknown;
 };
 
-export type RouteConfig = {
+export type RouteConfig<S extends RouteSchemas = RouteSchemas> = {
+  meta?: RouteMeta;
+  schemas?: S;
+};
+
+/** Defaults shared by every route in an `app.route(base, config, fn)` group. */
+export type RouteGroupConfig = {
   meta?: RouteMeta;
-  schemas?: RouteSchemas;
 };
 
 export type ObservabilityHooks<V extends VarsRecord> = {
@@ -505,11 +814,23 @@ export type ObservabilityHooks<V extends VarsRecord> = {
   onError?: (c: HandlerCtx<string, VarsRecord, V>, err: unknown) => void;
 };
 
-export type HandlerCtx<Path extends string, State, Vars extends VarsRecord> = {
+export type HandlerCtx<
+  Path extends string,
+  State,
+  Vars extends VarsRecord,
+  Valid extends ValidatedRecord = EmptyRecord,
+> = {
   req: Request;
   url: URL;
   params: ParamsOf<Path>;
 
+  /**
+   * Values parsed by the route's `RouteSchemas` (params, query, json). Only
+   * targets with a parser schema are available; validation has already
+   * succeeded by the time the handler runs.
+   */
+  valid: <K extends keyof Valid & RouteSchemaTarget>(target: K) => Valid[K];
+
   /**
    * Request state as defined by Application state semantics:
    * - sharedState: shared reference across requests
@@ -526,25 +847,100 @@ export type HandlerCtx<Path extends string, State, Vars extends VarsRecord> = {
   // Basic request correlation.
   requestId: string;
 
+  /**
+   * Peer address when served via `app.serve()` or when `app.fetch(req, info)`
+   * is given connection info; undefined otherwise (e.g. in-process tests).
+   */
+  remoteAddr?: Deno.Addr;
+
+  /**
+   * The route matched for this request (method, template, meta, schemas), or
+   * undefined when no route matched. Available to middleware before dispatch.
+   */
+  route?: RouteInfo;
+
+  /**
+   * API version selected for this request when `app.versioning()` is
+   * configured (path prefix, header, or media-type parameter); undefined for
+   * unversioned routes.
+   */
+  apiVersion?: string;
+
+  /**
+   * Aborts (with a ServerShutdown reason) when the server handle returned by
+   * `app.serve()` starts draining. Long-lived responses should wind down;
+   * `c.sse` streams already send a final `shutdown` event and close.
+   */
+  shutdownSignal: AbortSignal;
+
   text: (body: string, init?: ResponseInit) => Response;
   html: (body: string, init?: ResponseInit) => Response;
   json: (body: unknown, init?: ResponseInit) => Response;
 
+  /**
+   * Stream the body as it is produced; `text/html` unless `init` says
+   * otherwise. Pairs with natural-html's `renderStream()`:
+   * `c.stream(h.renderStream(ds.page(...)))` sends the head and shell at
+   * once and each `h.deferred()` region as it resolves. The source is
+   * cancelled when the client disconnects or the server starts draining.
+   * `Cache-Control: no-store` unless `init` sets one (see streamResponse).
+   */
+  stream: (
+    body: ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>,
+    init?: ResponseInit,
+  ) => Response;
+
   query: (name: string) => string | null;
   queryAll: () => URLSearchParams;
 
+  /**
+   * Cookies. Reads come from the request's `Cookie` header; writes are
+   * collected per request and appended as `Set-Cookie` to whatever Response
+   * the middleware chain returns (including onError responses).
+   * Signed variants use the secrets from `app.cookieSecrets()`.
+   */
+  getCookie: (name: string) => string | undefined;
+  getCookies: () => Record<string, string>;
+  setCookie: (name: string, value: string, opts?: CookieOptions) => void;
+  deleteCookie: (
+    name: string,
+    opts?: Omit<CookieOptions, "maxAge" | "expires">,
+  ) => void;
+  getSignedCookie: (name: string) => Promise<string | undefined>;
+  setSignedCookie: (
+    name: string,
+    value: string,
+    opts?: CookieOptions,
+  ) => Promise<void>;
+
   readText: () => Promise<string>;
   readJson: () => Promise<unknown>;
   readJsonParsed: <T>(parser: (u: unknown) => T) => Promise<T>;
   readJsonWith: <T>(schema: SchemaLike<T>) => Promise<T>;
   readFormData: () => Promise<FormData>;
 
+  /**
+   * Stream a multipart/form-data body part by part (see http-multipart.ts).
+   * Read or skip each file part's body before asking for the next part.
+   */
+  multipart: (limits?: MultipartLimits) => AsyncGenerator<MultipartPart>;
+
+  /**
+   * Parse multipart/form-data without holding large files in memory: files
+   * over `spoolThreshold` spool to disk, each gets a SHA-256 digest, and
+   * non-file fields are validated by `opts.fields`. Call `cleanup()` (or use
+   * `await using`) once spooled files are no longer needed.
+   */
+  readMultipart: <F = MultipartFields>(
+    opts?: MultipartOptions<F>,
+  ) => Promise<MultipartResult<F>>;
+
   sse: <E extends SseEventMap>(
     producer: (
       session: SseSession<E>,
       c: HandlerCtx<Path, State, Vars>,
     ) => void | Promise<void>,
-    opts?: Omit<SseOptions, "signal">,
+    opts?: Omit<SseOptions, "signal" | "shutdownSignal">,
   ) => Response;
 };
 
@@ -552,8 +948,9 @@ export type Handler<
   Path extends string,
   State,
   Vars extends VarsRecord,
+  Valid extends ValidatedRecord = EmptyRecord,
 > = (
-  c: HandlerCtx<Path, State, Vars>,
+  c: HandlerCtx<Path, State, Vars, Valid>,
 ) => Response | Promise<Response>;
 
 export type Middleware<State, Vars extends VarsRecord> = (
@@ -582,9 +979,11 @@ type InternalRoute<State, Vars extends VarsRecord> = {
     state: State,
     vars: Vars,
     requestId: string,
+    scope: RequestScope,
   ) => Promise<Response>;
   meta?: RouteMeta;
   schemas?: RouteSchemas;
+  calls: number;
 };
 
 export type CompiledRoute<State, Vars extends VarsRecord> = InternalRoute<
@@ -598,68 +997,768 @@ export type RouteInfo = {
   keys: string[];
   meta?: RouteMeta;
   schemas?: RouteSchemas;
+  /** Requests dispatched to the route since the app was created. */
+  calls: number;
+};
+
+const routeInfoOf = <State, Vars extends VarsRecord>(
+  r: InternalRoute<State, Vars>,
+): RouteInfo => ({
+  method: r.method,
+  path: r.template,
+  keys: [...r.keys],
+  meta: r.meta,
+  schemas: r.schemas,
+  calls: r.calls,
+});
+
+/* =========================
+ * API versioning and deprecation
+ * ========================= */
+
+export type ApiVersioningOptions = {
+  /** Supported versions, e.g. ["1", "2"]. */
+  versions: string[];
+  /** Version for requests that name none. Default: the last of `versions`. */
+  defaultVersion?: string;
+  /**
+   * Path prefix before the version: "/v" serves version "1" from routes
+   * under "/v1" (typically an `app.route("/v1", ...)` group). Default "/v".
+   */
+  prefix?: string;
+  /** Request header naming the version; echoed on responses. Default "api-version". */
+  header?: string | false;
+  /** Media-type parameter, as in `Accept: application/json; version=2`. Default "version". */
+  mediaTypeParam?: string | false;
+};
+
+export type DeprecatedRouteReport = {
+  method: HttpMethod;
+  path: string;
+  version?: string;
+  /** ISO date, or "true" when no date was given. */
+  deprecated: string;
+  sunset?: string;
+  successorLink?: string;
+  calls: number;
+};
+
+const metaDate = (v: Date | string): Date =>
+  v instanceof Date ? v : new Date(v);
+
+/**
+ * Reject `deprecated` / `sunset` values that are not dates at registration,
+ * rather than sending `@NaN` headers or failing in deprecationReport().
+ */
+const assertDeprecationMeta = (route: string, meta?: RouteMeta) => {
+  if (!meta) return;
+  const check = (name: string, v: unknown, allowBoolean: boolean) => {
+    if (v === undefined || (allowBoolean && typeof v === "boolean")) return;
+    const ok = (v instanceof Date || typeof v === "string") &&
+      !Number.isNaN(metaDate(v).getTime());
+    if (!ok) {
+      throw new Error(
+        `${route}: meta.${name} must be ${
+          allowBoolean ? "a boolean, " : ""
+        }a Date, or a date string; got ${String(v)}`,
+      );
+    }
+  };
+  check("deprecated", meta.deprecated, true);
+  check("sunset", meta.sunset, false);
+};
+
+/**
+ * Deprecation headers for a route: `Deprecation` (RFC 9745 structured date,
+ * or `true`), `Sunset` (RFC 8594 HTTP-date), and `Link` relations.
+ */
+export const deprecationHeaders = (meta?: RouteMeta): [string, string][] => {
+  if (!meta) return [];
+  const out: [string, string][] = [];
+  const dep = meta.deprecated;
+  if (dep !== undefined && dep !== false) {
+    out.push([
+      "deprecation",
+      dep === true ? "true" : `@${Math.floor(metaDate(dep).getTime() / 1000)}`,
+    ]);
+  }
+  if (meta.sunset !== undefined) {
+    out.push(["sunset", metaDate(meta.sunset).toUTCString()]);
+  }
+  if (meta.deprecationLink) {
+    out.push(["link", `<${meta.deprecationLink}>; rel="deprecation"`]);
+  }
+  if (meta.successorLink) {
+    out.push(["link", `<${meta.successorLink}>; rel="successor-version"`]);
+  }
+  return out;
+};
+
+/**
+ * Deprecated (or sunsetting) routes from `app.routes()` with their call
+ * counts, most called first, so retirements can be planned around usage.
+ */
+export const deprecationReport = (
+  routes: readonly RouteInfo[],
+): DeprecatedRouteReport[] =>
+  routes
+    .filter((r) =>
+      (r.meta?.deprecated !== undefined && r.meta.deprecated !== false) ||
+      r.meta?.sunset !== undefined
+    )
+    .map((r) => {
+      const meta = r.meta as RouteMeta;
+      const dep = meta.deprecated;
+      return {
+        method: r.method,
+        path: r.path,
+        ...(meta.version ? { version: meta.version } : {}),
+        deprecated: dep === undefined || dep === false || dep === true
+          ? "true"
+          : metaDate(dep).toISOString(),
+        ...(meta.sunset !== undefined
+          ? { sunset: metaDate(meta.sunset).toISOString() }
+          : {}),
+        ...(meta.successorLink ? { successorLink: meta.successorLink } : {}),
+        calls: r.calls,
+      };
+    })
+    .sort((a, b) =>
+      b.calls - a.calls || a.path.localeCompare(b.path) ||
+      a.method.localeCompare(b.method)
+    );
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * One parsed segment of a path template. These drive the route trie; the
+ * compiled RegExp is kept for introspection and backwards compatibility.
+ */
+export type RouteSegment =
+  | { kind: "static"; value: string }
+  | { kind: "param"; name: string; pattern?: string }
+  | { kind: "wildcard"; name: string };
+
+/**
+ * Compile a path template like:
+ *   /users/:id
+ *   /files/*path
+ *   /orders/:id{[0-9]+}
+ *
+ * Supported patterns:
+ * - :name          → single segment param
+ * - :name{regex}   → param with custom regex; like a plain RegExp route it
+ *                    may span several segments when the regex matches "/"
+ *                    (e.g. :path{.+}), preferring the longest span
+ * - *rest          → wildcard capturing the rest of the path (must be last)
+ */
+const compilePath = (
+  template: string,
+): { re: RegExp; keys: string[]; segments: RouteSegment[] } => {
+  const keys: string[] = [];
+  const segments: RouteSegment[] = [];
+  const parts = template.split("/").filter((p) => p.length > 0);
+  const reParts: string[] = [];
+  let sawWildcard = false;
+
+  parts.forEach((part, idx) => {
+    // Wildcard: *rest
+    if (part.startsWith("*")) {
+      if (sawWildcard) {
+        throw new Error(
+          `Only one wildcard segment is allowed in path: ${template}`,
+        );
+      }
+      if (idx !== parts.length - 1) {
+        throw new Error(
+          `Wildcard segment must be last in path: ${template}`,
+        );
+      }
+      sawWildcard = true;
+      const name = part.slice(1) || "wildcard";
+      keys.push(name);
+      segments.push({ kind: "wildcard", name });
+      reParts.push("(.*)");
+      return;
+    }
+
+    // Param: :id or :id{[0-9]+}
+    if (part.startsWith(":")) {
+      const m = /^:([^{}]+)(?:\{(.+)\})?$/.exec(part);
+      if (!m) {
+        throw new Error(`Invalid param segment in path: ${part}`);
+      }
+      const [, name, pattern] = m;
+      keys.push(name);
+      segments.push({ kind: "param", name, pattern });
+      const body = pattern ?? "[^/]+";
+      reParts.push(`(${body})`);
+      return;
+    }
+
+    // Literal
+    segments.push({ kind: "static", value: part });
+    reParts.push(escapeRe(part));
+  });
+
+  const re = new RegExp(`^/${reParts.join("/")}/?$`);
+  return { re, keys, segments };
+};
+
+/**
+ * Parse a path template into the segments the router dispatches on, e.g.
+ * for tooling that rewrites templates (http-openapi.ts). Throws on templates
+ * the router would reject.
+ */
+export const parsePathTemplate = (template: string): RouteSegment[] =>
+  compilePath(template).segments;
+
+/* =========================
+ * Route trie (prefix tree keyed by path segment)
+ * ========================= */
+
+type RouteTrieNode<R> = {
+  statics: Map<string, RouteTrieNode<R>>;
+  // Constrained params first (registration order), then the plain param.
+  params: Array<{
+    pattern?: string;
+    re: RegExp | null;
+    node: RouteTrieNode<R>;
+  }>;
+  wildcard: Map<HttpMethod, R>;
+  routes: Map<HttpMethod, R>;
+};
+
+const trieNode = <R>(): RouteTrieNode<R> => ({
+  statics: new Map(),
+  params: [],
+  wildcard: new Map(),
+  routes: new Map(),
+});
+
+/**
+ * Split a request pathname into raw segments. A single trailing slash is
+ * optional for every template (matching the compiled RegExp semantics), so
+ * it is stripped here and reported separately for wildcard captures.
+ */
+const splitPathname = (
+  pathname: string,
+): { segs: string[]; trailing: boolean } => {
+  let rest = pathname.startsWith("/") ? pathname.slice(1) : pathname;
+  const trailing = rest.endsWith("/");
+  if (trailing) rest = rest.slice(0, -1);
+  return { segs: rest === "" ? [] : rest.split("/"), trailing };
+};
+
+/**
+ * Prefix tree of routes keyed by path segment, used by Application for
+ * dispatch. Lookup cost is proportional to the path length rather than the
+ * number of registered routes, and precedence is deterministic:
+ *
+ *   static segment  >  constrained :param{re}  >  plain :param  >  *wildcard
+ *
+ * Constrained params at the same position are tried in registration order,
+ * each over its longest matching span of segments first (a regex that
+ * matches "/" may consume several, as in the compiled RegExp). If a preferred branch has no route for the requested method the lookup
+ * backtracks into the next candidate, so `/users/new` (GET only) does not hide
+ * `DELETE /users/:id`.
+ *
+ * Two templates that reduce to the same shape for the same method (for
+ * example `/users/:id` and `/users/:userId`, or a duplicate registration)
+ * are ambiguous and rejected at insert time. So are templates for the same
+ * method that differ only in the regexes of constrained params
+ * (`/users/:id{[0-9]+}` and `/users/:code{[0-9a-f]+}`): regexes cannot be
+ * checked for overlap, and registration order must not pick the winner.
+ * Merge them into one constraint, or tell them apart by a static segment.
+ */
+class RouteTrie<R extends { method: HttpMethod; template: string }> {
+  readonly #root = trieNode<R>();
+  // "METHOD shape" with constraint regexes erased → who claimed it first.
+  readonly #constrained = new Map<string, { template: string; re: string }>();
+
+  insert(route: R, segments: RouteSegment[]): void {
+    const claim = this.#constrainedClaim(route, segments);
+    this.#insert(route, segments);
+    if (claim && !this.#constrained.has(claim.key)) {
+      this.#constrained.set(claim.key, claim.value);
+    }
+  }
+
+  #insert(route: R, segments: RouteSegment[]): void {
+    let node = this.#root;
+
+    for (const seg of segments) {
+      if (seg.kind === "static") {
+        let next = node.statics.get(seg.value);
+        if (!next) {
+          next = trieNode<R>();
+          node.statics.set(seg.value, next);
+        }
+        node = next;
+        continue;
+      }
+
+      if (seg.kind === "param") {
+        let edge = node.params.find((p) => p.pattern === seg.pattern);
+        if (!edge) {
+          edge = {
+            pattern: seg.pattern,
+            re: seg.pattern ? new RegExp(`^(?:${seg.pattern})$`) : null,
+            node: trieNode<R>(),
+          };
+          // Keep the plain (unconstrained) param last.
+          const plainIdx = node.params.findIndex((p) => !p.pattern);
+          if (seg.pattern && plainIdx >= 0) {
+            node.params.splice(plainIdx, 0, edge);
+          } else {
+            node.params.push(edge);
+          }
+        }
+        node = edge.node;
+        continue;
+      }
+
+      this.#claim(node.wildcard, route);
+      return;
+    }
+
+    this.#claim(node.routes, route);
+  }
+
+  /**
+   * Find the highest-precedence route for `method` matching `pathname`.
+   * Captured values are returned positionally, in template key order.
+   */
+  lookup(
+    method: HttpMethod,
+    pathname: string,
+  ): { route: R; values: string[] } | null {
+    let found: { route: R; values: string[] } | null = null;
+    this.#search(pathname, (routes, values) => {
+      const route = routes.get(method);
+      if (!route) return false;
+      found = { route, values: [...values] };
+      return true;
+    });
+    return found;
+  }
+
+  /**
+   * Collect every method that has a route matching `pathname`.
+   */
+  methodsFor(pathname: string): Set<HttpMethod> {
+    const methods = new Set<HttpMethod>();
+    this.#search(pathname, (routes) => {
+      for (const m of routes.keys()) methods.add(m);
+      return false;
+    });
+    return methods;
+  }
+
+  #constrainedClaim(route: R, segments: RouteSegment[]) {
+    const patterns = segments.flatMap((s) =>
+      s.kind === "param" && s.pattern ? [s.pattern] : []
+    );
+    if (patterns.length === 0) return undefined;
+    const shape = segments.map((s) =>
+      s.kind === "static"
+        ? `/${s.value}`
+        : s.kind === "wildcard"
+        ? "/*"
+        : s.pattern
+        ? "/{}"
+        : "/:"
+    ).join("");
+    const key = `${route.method} ${shape}`;
+    const value = { template: route.template, re: JSON.stringify(patterns) };
+    const existing = this.#constrained.get(key);
+    // Identical constraints fall through to #claim as a plain duplicate.
+    if (existing && existing.re !== value.re) {
+      throw new Error(
+        `Ambiguous route: ${route.method} ${route.template} overlaps ${existing.template}; constrained params at the same position need one combined pattern`,
+      );
+    }
+    return { key, value };
+  }
+
+  #claim(routes: Map<HttpMethod, R>, route: R): void {
+    const existing = routes.get(route.method);
+    if (existing) {
+      throw new Error(
+        `Ambiguous route: ${route.method} ${route.template} conflicts with ${existing.template}`,
+      );
+    }
+    routes.set(route.method, route);
+  }
+
+  // Depth-first walk in precedence order. `visit` returns true to stop.
+  #search(
+    pathname: string,
+    visit: (routes: Map<HttpMethod, R>, values: string[]) => boolean,
+  ): void {
+    const { segs, trailing } = splitPathname(pathname);
+    const values: string[] = [];
+
+    const walk = (node: RouteTrieNode<R>, i: number): boolean => {
+      if (i === segs.length) {
+        if (node.routes.size > 0 && visit(node.routes, values)) return true;
+        // A wildcard may capture an empty remainder only when a "/" follows.
+        if (node.wildcard.size > 0 && (i === 0 || trailing)) {
+          values.push("");
+          if (visit(node.wildcard, values)) return true;
+          values.pop();
+        }
+        return false;
+      }
+
+      const seg = segs[i];
+
+      const stat = node.statics.get(seg);
+      if (stat && walk(stat, i + 1)) return true;
+
+      for (const p of node.params) {
+        if (!p.re) {
+          if (seg.length === 0) continue;
+          values.push(seg);
+          if (walk(p.node, i + 1)) return true;
+          values.pop();
+          continue;
+        }
+        // Longest span first, as the greedy compiled RegExp would.
+        for (let j = segs.length; j > i; j--) {
+          const span = j === i + 1 ? seg : segs.slice(i, j).join("/");
+          if (!p.re.test(span)) continue;
+          values.push(span);
+          if (walk(p.node, j)) return true;
+          values.pop();
+        }
+      }
+
+      if (node.wildcard.size > 0) {
+        values.push(segs.slice(i).join("/") + (trailing ? "/" : ""));
+        if (visit(node.wildcard, values)) return true;
+        values.pop();
+      }
+
+      return false;
+    };
+
+    walk(this.#root, 0);
+  }
+}
+
+/* =========================
+ * Route schema enforcement
+ * ========================= */
+
+const isParser = (
+  s: unknown,
+): s is SchemaLike<unknown> | ((u: unknown) => unknown) =>
+  typeof s === "function" ||
+  (s != null && typeof s === "object" &&
+    typeof (s as { parse?: unknown }).parse === "function");
+
+const runParser = (
+  s: SchemaLike<unknown> | ((u: unknown) => unknown),
+  u: unknown,
+): unknown => typeof s === "function" ? s(u) : s.parse(u);
+
+/**
+ * Consistent problem+json body for request/response validation failures:
+ *   { type, title, status, detail, target, issues: [{ path, message, code? }] }
+ */
+export const validationErrorResponse = (
+  target: RouteSchemaTarget | "response",
+  issues: RouteValidationIssue[],
+  status = 400,
+) => problemResponse(validationProblem(target, issues, status));
+
+const searchParamsToObject = (sp: URLSearchParams) => {
+  const out: Record<string, string | string[]> = {};
+  for (const key of new Set(sp.keys())) {
+    const all = sp.getAll(key);
+    out[key] = all.length > 1 ? all : all[0];
+  }
+  return out;
+};
+
+/**
+ * Enforce params/query/json parsers. Parsed values are stored in `valid`.
+ * Returns a 400 (params, query, malformed JSON) or 422 (JSON body rejected
+ * by its schema) response, or null when everything passed. The body is read
+ * from a clone so handlers can still call `c.readJson()`.
+ */
+const validateRouteRequest = async (
+  schemas: RouteSchemas | undefined,
+  req: Request,
+  url: URL,
+  params: AnyParams,
+  valid: ValidatedRecord,
+): Promise<Response | null> => {
+  if (!schemas) return null;
+
+  const check = (target: RouteSchemaTarget, input: unknown, status: number) => {
+    const s = schemas[target];
+    if (!isParser(s)) return null;
+    try {
+      valid[target] = runParser(s, input);
+      return null;
+    } catch (err) {
+      return validationErrorResponse(target, schemaIssues(err), status);
+    }
+  };
+
+  const paramsErr = check("params", { ...params }, 400);
+  if (paramsErr) return paramsErr;
+
+  const queryErr = check("query", searchParamsToObject(url.searchParams), 400);
+  if (queryErr) return queryErr;
+
+  if (isParser(schemas.json)) {
+    let body: unknown;
+    try {
+      const text = await req.clone().text();
+      body = text.trim() === "" ? undefined : JSON.parse(text);
+    } catch (err) {
+      return validationErrorResponse("json", [{
+        path: [],
+        message: `Malformed JSON body: ${asError(err).message}`,
+        code: "malformed_json",
+      }], 400);
+    }
+    const jsonErr = check("json", body, 422);
+    if (jsonErr) return jsonErr;
+  }
+
+  return null;
+};
+
+const validateRouteResponse = async (
+  schemas: RouteSchemas | undefined,
+  res: Response,
+): Promise<Response> => {
+  const s = schemas?.response;
+  if (!isParser(s) || res.body == null) return res;
+  if (!/\bjson\b/i.test(res.headers.get("content-type") ?? "")) return res;
+  try {
+    runParser(s, await res.clone().json());
+    return res;
+  } catch (err) {
+    await res.body.cancel().catch(() => {});
+    return validationErrorResponse("response", schemaIssues(err), 500);
+  }
+};
+
+/* =========================
+ * cookies
+ * ========================= */
+
+export type CookieSameSite = "Strict" | "Lax" | "None";
+
+export type CookieOptions = {
+  path?: string;
+  domain?: string;
+  /** Seconds; 0 or negative expires the cookie immediately. */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: CookieSameSite;
+  /** CHIPS partitioned cookie; requires `secure`. */
+  partitioned?: boolean;
+};
+
+// RFC 6265 cookie-name is an RFC 7230 token.
+const cookieNameRe = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const cookieAttrRe = /^[\x21-\x3A\x3C-\x7E]*$/;
+
+const decodeCookieValue = (v: string) => {
+  const raw = v.length >= 2 && v.startsWith('"') && v.endsWith('"')
+    ? v.slice(1, -1)
+    : v;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Parse a `Cookie` request header. The first occurrence of a name wins
+ * (browsers send the most specific path first); malformed pairs are skipped.
+ */
+export const parseCookieHeader = (
+  header: string | null | undefined,
+): Record<string, string> => {
+  const out: Record<string, string> = Object.create(null);
+  if (!header) return out;
+  for (const part of header.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) continue;
+    const name = part.slice(0, eq).trim();
+    if (!cookieNameRe.test(name) || name in out) continue;
+    out[name] = decodeCookieValue(part.slice(eq + 1).trim());
+  }
+  return out;
+};
+
+/**
+ * Build a `Set-Cookie` header value. Invalid names/attributes and option
+ * combinations browsers would silently drop (SameSite=None or Partitioned
+ * without Secure, `__Host-` / `__Secure-` prefix rules) throw instead.
+ */
+export const serializeCookie = (
+  name: string,
+  value: string,
+  opts: CookieOptions = {},
+): string => {
+  if (!cookieNameRe.test(name)) {
+    throw new Error(`Invalid cookie name: ${JSON.stringify(name)}`);
+  }
+  for (const k of ["path", "domain"] as const) {
+    const v = opts[k];
+    if (v !== undefined && !cookieAttrRe.test(v)) {
+      throw new Error(`Invalid cookie ${k} for ${name}: ${JSON.stringify(v)}`);
+    }
+  }
+  if (opts.sameSite === "None" && !opts.secure) {
+    throw new Error(`Cookie ${name}: SameSite=None requires secure`);
+  }
+  if (opts.partitioned && !opts.secure) {
+    throw new Error(`Cookie ${name}: partitioned requires secure`);
+  }
+  if (name.startsWith("__Secure-") && !opts.secure) {
+    throw new Error(`Cookie ${name}: __Secure- prefix requires secure`);
+  }
+  if (
+    name.startsWith("__Host-") &&
+    (!opts.secure || opts.domain !== undefined || opts.path !== "/")
+  ) {
+    throw new Error(
+      `Cookie ${name}: __Host- prefix requires secure, path "/", no domain`,
+    );
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (opts.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.max(0, Math.floor(opts.maxAge))}`);
+  }
+  if (opts.expires) parts.push(`Expires=${opts.expires.toUTCString()}`);
+  if (opts.domain) parts.push(`Domain=${opts.domain}`);
+  if (opts.path) parts.push(`Path=${opts.path}`);
+  if (opts.httpOnly) parts.push("HttpOnly");
+  if (opts.secure) parts.push("Secure");
+  if (opts.sameSite) parts.push(`SameSite=${opts.sameSite}`);
+  if (opts.partitioned) parts.push("Partitioned");
+  return parts.join("; ");
+};
+
+const b64url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromB64url = (s: string): Uint8Array<ArrayBuffer> | null => {
+  try {
+    const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(bin, (ch) => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const hmacKey = (secret: string, usage: KeyUsage) =>
+  crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+
+/**
+ * Sign a cookie value as `value.signature` (HMAC-SHA256, base64url). The
+ * cookie name is part of the signed payload so a signed value cannot be
+ * replayed under a different name.
+ */
+export const signCookieValue = async (
+  name: string,
+  value: string,
+  secret: string,
+): Promise<string> => {
+  const sig = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret, "sign"),
+    new TextEncoder().encode(`${name}=${value}`),
+  );
+  return `${value}.${b64url(new Uint8Array(sig))}`;
+};
+
+/**
+ * Verify a value produced by signCookieValue against each secret in turn
+ * (newest first, for rotation). Returns the unsigned value, or undefined
+ * when no secret matches.
+ */
+export const verifyCookieValue = async (
+  name: string,
+  signed: string,
+  secrets: readonly string[],
+): Promise<string | undefined> => {
+  const dot = signed.lastIndexOf(".");
+  if (dot < 0) return undefined;
+  const value = signed.slice(0, dot);
+  const sig = fromB64url(signed.slice(dot + 1));
+  if (!sig) return undefined;
+  const data = new TextEncoder().encode(`${name}=${value}`);
+  for (const secret of secrets) {
+    const key = await hmacKey(secret, "verify");
+    if (await crypto.subtle.verify("HMAC", key, sig, data)) return value;
+  }
+  return undefined;
 };
 
-const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-
 /**
- * Compile a path template like:
- *   /users/:id
- *   /files/*path
- *   /orders/:id{[0-9]+}
- *
- * Supported patterns:
- * - :name          → single segment param
- * - :name{regex}   → single segment param with custom regex
- * - *rest          → wildcard capturing the rest of the path (must be last)
+ * Outgoing cookies for one request. Setting the same (name, path, domain)
+ * twice keeps the last value, matching how the browser would apply them.
  */
-const compilePath = (
-  template: string,
-): { re: RegExp; keys: string[] } => {
-  const keys: string[] = [];
-  const parts = template.split("/").filter((p) => p.length > 0);
-  const reParts: string[] = [];
-  let sawWildcard = false;
+class ResponseCookies {
+  readonly #pending = new Map<string, string>();
 
-  parts.forEach((part, idx) => {
-    // Wildcard: *rest
-    if (part.startsWith("*")) {
-      if (sawWildcard) {
-        throw new Error(
-          `Only one wildcard segment is allowed in path: ${template}`,
-        );
-      }
-      if (idx !== parts.length - 1) {
-        throw new Error(
-          `Wildcard segment must be last in path: ${template}`,
-        );
-      }
-      sawWildcard = true;
-      const name = part.slice(1) || "wildcard";
-      keys.push(name);
-      reParts.push("(.*)");
-      return;
-    }
+  set(name: string, value: string, opts: CookieOptions): void {
+    this.#pending.set(
+      `${name};${opts.path ?? ""};${opts.domain ?? ""}`,
+      serializeCookie(name, value, opts),
+    );
+  }
 
-    // Param: :id or :id{[0-9]+}
-    if (part.startsWith(":")) {
-      const m = /^:([^{}]+)(?:\{(.+)\})?$/.exec(part);
-      if (!m) {
-        throw new Error(`Invalid param segment in path: ${part}`);
+  /**
+   * Append pending Set-Cookie headers to `res`. Responses with immutable
+   * headers (e.g. from fetch or Response.redirect) are re-wrapped.
+   */
+  applyTo(res: Response): Response {
+    if (this.#pending.size === 0) return res;
+    let out = res;
+    try {
+      for (const v of this.#pending.values()) {
+        out.headers.append("set-cookie", v);
+      }
+    } catch {
+      out = new Response(res.body, res);
+      for (const v of this.#pending.values()) {
+        out.headers.append("set-cookie", v);
       }
-      const [, name, pattern] = m;
-      keys.push(name);
-      const body = pattern ?? "[^/]+";
-      reParts.push(`(${body})`);
-      return;
     }
+    this.#pending.clear();
+    return out;
+  }
+}
 
-    // Literal
-    reParts.push(escapeRe(part));
-  });
-
-  const re = new RegExp(`^/${reParts.join("/")}/?$`);
-  return { re, keys };
+/** Per-request plumbing shared by every ctx built during one fetch(). */
+type RequestScope = {
+  cookies: ResponseCookies;
+  remoteAddr?: Deno.Addr;
+  shutdownSignal: AbortSignal;
+  route?: RouteInfo;
+  apiVersion?: string;
 };
 
 const withBase = (base: string, path: string): string => {
@@ -719,6 +1818,52 @@ export const composeMiddleware = <State, Vars extends VarsRecord>(
   return run(0);
 };
 
+/* =========================
+ * Serving and graceful shutdown
+ * ========================= */
+
+export type ServeOptions =
+  & Pick<
+    Parameters<typeof Deno.serve>[0],
+    "port" | "hostname" | "onListen"
+  >
+  & {
+    /**
+     * Opt in to signals that trigger `shutdown()` followed by `Deno.exit(0)`;
+     * `true` means ["SIGINT", "SIGTERM"]. The listeners are removed on the
+     * first signal, so a second one kills the process immediately. Off by
+     * default so callers with their own signal handling are left alone.
+     */
+    signals?: readonly Deno.Signal[] | boolean;
+    /** Default grace period for shutdown(). Default 10000. */
+    graceMs?: number;
+    /** Reconnect hint sent to SSE clients when draining. Default 1000. */
+    reconnectMs?: number;
+  };
+
+export type ServerHandle = {
+  readonly addr: Deno.Addr;
+  /** Resolves once the listener is closed and every connection finished. */
+  readonly finished: Promise<void>;
+  /** Requests whose responses have not been fully delivered yet. */
+  inFlight: () => number;
+  /**
+   * Stop accepting connections, send SSE clients a final `shutdown` event,
+   * wait up to `graceMs` for in-flight requests, then abort the rest (their
+   * `c.req.signal` aborts and unfinished response bodies are cut).
+   * Idempotent: later calls return the same promise.
+   */
+  shutdown: (opts?: { graceMs?: number }) => Promise<void>;
+};
+
+// Cut a streaming body when the signal aborts; status and headers are kept.
+// A response produced after the abort (the handler's reaction to it) is sent.
+const abortableBody = (res: Response, signal: AbortSignal): Response => {
+  if (!res.body || signal.aborted) return res;
+  const body = res.body.pipeThrough(new TransformStream(), { signal });
+  return new Response(body, res);
+};
+
 /* =========================
  * Application state semantics (explicit)
  * ========================= */
@@ -744,13 +1889,26 @@ export class Application<
   Vars extends VarsRecord = EmptyRecord,
 > {
   readonly #routes: InternalRoute<State, Vars>[] = [];
+  readonly #trie = new RouteTrie<InternalRoute<State, Vars>>();
   readonly #mw: Array<{ base: string; fn: Middleware<State, Vars> }> = [];
+  readonly #mounts: Array<{ base: string; child: Application<State, Vars> }> =
+    [];
   readonly #stateProvider: StateProvider<State>;
   #onErrorHandler?: (
     err: unknown,
     c: HandlerCtx<string, State, Vars>,
   ) => Response | Promise<Response>;
   #notFoundHandler?: Handler<string, State, Vars>;
+  #validateResponses = false;
+  #cookieSecrets: readonly string[] = [];
+  #versioning?: {
+    versions: readonly string[];
+    defaultVersion: string;
+    prefix: string;
+    header?: string;
+    mediaTypeParam?: string;
+  };
+  #shutdown = new AbortController();
 
   private constructor(stateProvider: StateProvider<State>) {
     this.#stateProvider = stateProvider;
@@ -816,7 +1974,10 @@ export class Application<
 
   /**
    * Set a global error handler that receives any thrown error and
-   * the current request context, and returns a Response.
+   * the current request context, and returns a Response. Without one,
+   * thrown errors become problem+json responses (see HttpProblem), except
+   * in a `mount()`ed child, where they propagate to the parent app;
+   * handlers can do the same with `HttpProblem.from(err).toResponse(c.req)`.
    */
   onError(
     fn: (
@@ -828,6 +1989,61 @@ export class Application<
     return this;
   }
 
+  /**
+   * Check handler responses against `schemas.response` (JSON bodies only).
+   * A mismatch becomes a 500 listing the issues. Intended for dev and tests
+   * so handler drift is caught early; it buffers every checked body.
+   */
+  validateResponses(enabled = true): this {
+    this.#validateResponses = enabled;
+    return this;
+  }
+
+  /**
+   * Secrets for `c.setSignedCookie` / `c.getSignedCookie`. The first secret
+   * signs; all of them verify, so rotate by prepending a new secret and
+   * dropping the oldest once its cookies have expired.
+   */
+  cookieSecrets(secrets: readonly string[]): this {
+    if (secrets.length === 0 || secrets.some((s) => s.length === 0)) {
+      throw new Error("cookieSecrets(secrets) requires non-empty secrets");
+    }
+    this.#cookieSecrets = [...secrets];
+    return this;
+  }
+
+  /**
+   * Serve versioned route groups (`/v1`, `/v2`, ...) by path prefix, header,
+   * or media-type parameter. A request for `/patients` with
+   * `Api-Version: 1` (or `Accept: application/json; version=1`) dispatches
+   * to `/v1/patients`; without either it goes to the default version, and
+   * paths with no versioned route fall through to unversioned routes.
+   * Unsupported requested versions are a 400 problem.
+   */
+  versioning(opts: ApiVersioningOptions): this {
+    if (opts.versions.length === 0) {
+      throw new Error("versioning(opts) requires at least one version");
+    }
+    const defaultVersion = opts.defaultVersion ?? opts.versions.at(-1)!;
+    if (!opts.versions.includes(defaultVersion)) {
+      throw new Error(
+        `versioning(opts): default version "${defaultVersion}" is not listed`,
+      );
+    }
+    this.#versioning = {
+      versions: [...opts.versions],
+      defaultVersion,
+      prefix: opts.prefix ?? "/v",
+      header: opts.header === false
+        ? undefined
+        : (opts.header ?? "api-version").toLowerCase(),
+      mediaTypeParam: opts.mediaTypeParam === false
+        ? undefined
+        : (opts.mediaTypeParam ?? "version").toLowerCase(),
+    };
+    return this;
+  }
+
   /**
    * Set a global not-found handler for unmatched routes.
    */
@@ -839,22 +2055,49 @@ export class Application<
   /**
    * Mount a child Application under a base path. The child Application
    * has its own state semantics and routes; the base path is stripped
-   * from the URL path before dispatching to the child.
+   * from the URL path before dispatching to the child. The child answers
+   * HEAD, OPTIONS, and 405 like any app; when it has no route for the
+   * request but this app does, this app's routes handle it, and a 405 from
+   * both advertises the union of their allowed methods.
+   *
+   * This app's middleware sees the child's matched route as `c.route` (path
+   * prefixed with `base`) and its params, so route-meta driven middleware
+   * such as authenticate() and policy.middleware() covers child routes. The
+   * child starts from a copy of the vars set so far (e.g. `c.vars.auth`).
    */
   mount(base: string, child: Application<State, Vars>): this {
     const baseNorm = base.endsWith("/") ? base.slice(0, -1) : base;
     if (!baseNorm) {
       throw new Error("mount(base, child) requires non-empty base path");
     }
+    this.#mounts.push({ base: baseNorm, child });
 
-    this.use(baseNorm, async (c, _next) => {
+    this.use(baseNorm, async (c, next) => {
       const url = new URL(c.req.url);
-      if (!url.pathname.startsWith(baseNorm)) {
-        return methodNotAllowed(url.pathname, "");
+      const path = url.pathname;
+      if (!path.startsWith(baseNorm)) {
+        return methodNotAllowed(path, "");
       }
-      url.pathname = url.pathname.slice(baseNorm.length) || "/";
+      url.pathname = path.slice(baseNorm.length) || "/";
       const req2 = new Request(url.toString(), c.req);
-      return await child.fetch(req2);
+      const res = await child.#fetch(
+        req2,
+        { remoteAddr: c.remoteAddr },
+        { shutdownSignal: c.shutdownSignal, vars: c.vars },
+      );
+
+      const own = this.#methods(path);
+      if (own.size === 0 || (res.status !== 404 && res.status !== 405)) {
+        return res;
+      }
+      await res.body?.cancel();
+      const method = c.req.method.toUpperCase() as HttpMethod;
+      if (res.status === 404 || this.#match(method, path)) return await next();
+      const allow = new Set([
+        ...own,
+        ...(res.headers.get("allow") ?? "").split(/\s*,\s*/).filter(Boolean),
+      ]);
+      return methodNotAllowed(path, Array.from(allow).sort().join(", "), c.req);
     });
 
     return this;
@@ -885,10 +2128,10 @@ export class Application<
       >,
     ]
   ): this;
-  get<Path extends string>(
+  get<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   get<Path extends string>(path: Path, ...args: unknown[]): this {
     return this.#routeWithVerb("GET", path, args);
@@ -909,10 +2152,10 @@ export class Application<
       >,
     ]
   ): this;
-  post<Path extends string>(
+  post<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   post<Path extends string>(path: Path, ...args: unknown[]): this {
     return this.#routeWithVerb("POST", path, args);
@@ -933,10 +2176,10 @@ export class Application<
       >,
     ]
   ): this;
-  put<Path extends string>(
+  put<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   put<Path extends string>(path: Path, ...args: unknown[]): this {
     return this.#routeWithVerb("PUT", path, args);
@@ -957,10 +2200,10 @@ export class Application<
       >,
     ]
   ): this;
-  patch<Path extends string>(
+  patch<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   patch<Path extends string>(path: Path, ...args: unknown[]): this {
     return this.#routeWithVerb("PATCH", path, args);
@@ -981,10 +2224,10 @@ export class Application<
       >,
     ]
   ): this;
-  delete<Path extends string>(
+  delete<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   delete<Path extends string>(path: Path, ...args: unknown[]): this {
     return this.#routeWithVerb("DELETE", path, args);
@@ -1005,10 +2248,10 @@ export class Application<
       >,
     ]
   ): this;
-  all<Path extends string>(
+  all<Path extends string, S extends RouteSchemas>(
     path: Path,
-    config: RouteConfig,
-    handler: Handler<Path, State, Vars>,
+    config: RouteConfig<S>,
+    handler: Handler<Path, State, Vars, ValidatedOf<S>>,
   ): this;
   all<Path extends string>(path: Path, ...args: unknown[]): this {
     const methods: HttpMethod[] = [
@@ -1026,34 +2269,111 @@ export class Application<
     return this;
   }
 
+  /**
+   * Register a typed WebSocket route (see http-ws.ts). The upgrade is a GET
+   * route, so app and route middleware run first and can refuse it.
+   */
+  ws<
+    Path extends string,
+    SIn extends WsMessageSchemas,
+    SOut extends WsMessageSchemas = WsMessageSchemas,
+  >(
+    path: Path,
+    route: WsRoute<Path, State, Vars, SIn, SOut>,
+  ): this;
+  ws<
+    Path extends string,
+    SIn extends WsMessageSchemas,
+    SOut extends WsMessageSchemas = WsMessageSchemas,
+  >(
+    path: Path,
+    ...args: [
+      ...RouteMiddleware<Path, State, Vars>[],
+      WsRoute<Path, State, Vars, SIn, SOut>,
+    ]
+  ): this;
+  ws<Path extends string>(path: Path, ...args: unknown[]): this {
+    const route = args.at(-1) as
+      | WsRoute<Path, State, Vars, WsMessageSchemas>
+      | undefined;
+    if (!route || typeof route !== "object") {
+      throw new Error(`ws(${path}) requires a WebSocket route definition`);
+    }
+    const mws = args.slice(0, -1) as RouteMiddleware<Path, State, Vars>[];
+    return this.#add(
+      "GET",
+      path,
+      wsUpgrade(route),
+      { meta: route.meta },
+      mws,
+    );
+  }
+
+  /**
+   * Group routes under a base path. With a config, its `meta` is the default
+   * for every route in the group (route meta wins per key), e.g.
+   * `app.route("/v1", { meta: { version: "1", deprecated: true } }, ...)`.
+   */
+  route<Base extends string>(
+    base: Base,
+    fn: (r: RouteBuilder<State, Vars, Base>) => void,
+  ): this;
   route<Base extends string>(
     base: Base,
+    config: RouteGroupConfig,
     fn: (r: RouteBuilder<State, Vars, Base>) => void,
+  ): this;
+  route<Base extends string>(
+    base: Base,
+    a: RouteGroupConfig | ((r: RouteBuilder<State, Vars, Base>) => void),
+    b?: (r: RouteBuilder<State, Vars, Base>) => void,
   ): this {
-    fn(new RouteBuilder<State, Vars, Base>(this, base));
+    const [config, fn] = typeof a === "function" ? [undefined, a] : [a, b!];
+    fn(new RouteBuilder<State, Vars, Base>(this, base, config));
     return this;
   }
 
   /**
    * Introspect all registered routes (method, path, keys, meta, schemas).
+   * With `mounted`, routes of `mount()`ed child apps follow, their paths
+   * prefixed with the mount base.
    */
-  routes(): RouteInfo[] {
-    return this.#routes.map((r) => ({
-      method: r.method,
-      path: r.template,
-      keys: [...r.keys],
-      meta: r.meta,
-      schemas: r.schemas,
-    }));
+  routes(opts: { mounted?: boolean } = {}): RouteInfo[] {
+    const own = this.#routes.map(routeInfoOf);
+    if (!opts.mounted) return own;
+    return [
+      ...own,
+      ...this.#mounts.flatMap(({ base, child }) =>
+        child.routes(opts).map((r) => ({ ...r, path: withBase(base, r.path) }))
+      ),
+    ];
+  }
+
+  fetch(
+    req: Request,
+    info?: { remoteAddr?: Deno.Addr },
+  ): Promise<Response> {
+    return this.#fetch(req, info);
   }
 
-  async fetch(req: Request): Promise<Response> {
+  // `parent` is set when a parent app dispatches here via mount(): its
+  // shutdown signal also drains this app's SSE streams and handlers, and
+  // errors the child has no onError for propagate to the parent's chain (its
+  // onError and observe hooks) instead of being rendered here.
+  async #fetch(
+    req: Request,
+    info: { remoteAddr?: Deno.Addr } | undefined,
+    parent?: { shutdownSignal: AbortSignal; vars: Vars },
+  ): Promise<Response> {
     const url = new URL(req.url);
     const method = req.method.toUpperCase() as HttpMethod;
-    const path = url.pathname;
+    const versioned = this.#versioned(req, url.pathname);
+    if (versioned instanceof HttpProblem) return versioned.toResponse(req);
+    const path = versioned.path;
 
     const match = this.#match(method, path);
-    const params = match?.params ?? ({} as AnyParams);
+    const resolved = this.#resolve(method, path);
+    const params = resolved?.params ?? ({} as AnyParams);
 
     const mw = this.#mw
       .filter((m) =>
@@ -1065,11 +2385,21 @@ export class Application<
       .map((m) => m.fn);
 
     const requestId = genRequestId();
-    const vars = Object.create(null) as Vars;
+    const vars = Object.assign(Object.create(null), parent?.vars) as Vars;
     const state = this.#stateProvider.getState(req);
+    const scope: RequestScope = {
+      cookies: new ResponseCookies(),
+      remoteAddr: info?.remoteAddr,
+      shutdownSignal: parent
+        ? AbortSignal.any([this.#shutdown.signal, parent.shutdownSignal])
+        : this.#shutdown.signal,
+      route: resolved?.route,
+      apiVersion: versioned.version ?? match?.route.meta?.version,
+    };
 
     const dispatch = (): Promise<Response> => {
       if (match) {
+        match.route.calls++;
         return match.route.handler(
           req,
           url,
@@ -1077,11 +2407,17 @@ export class Application<
           state,
           vars,
           requestId,
+          scope,
         );
       }
 
       const allow = this.#allowList(path);
-      if (allow) return Promise.resolve(methodNotAllowed(path, allow));
+      if (allow && method === "OPTIONS") {
+        return Promise.resolve(
+          new Response(null, { status: 204, headers: { allow } }),
+        );
+      }
+      if (allow) return Promise.resolve(methodNotAllowed(path, allow, req));
 
       if (this.#notFoundHandler) {
         const ctx = this.#ctx(
@@ -1091,12 +2427,14 @@ export class Application<
           state,
           vars,
           requestId,
+          scope,
         ) as HandlerCtx<string, State, Vars>;
         return Promise.resolve(this.#notFoundHandler(ctx));
       }
 
       return Promise.resolve(
-        textResponse(`Not found: ${req.method} ${path}`, 404),
+        new HttpProblem(404, { detail: `No route for ${req.method} ${path}` })
+          .toResponse(req),
       );
     };
 
@@ -1109,65 +2447,233 @@ export class Application<
         state,
         vars,
         requestId,
+        scope,
       );
       const fn = mw[i];
       return Promise.resolve(fn(ctx, () => run(i + 1)));
     };
 
+    // Version and deprecation signaling for the matched route, on every
+    // response including middleware short-circuits and errors.
+    const signals: [string, string][] = deprecationHeaders(match?.route.meta);
+    if (scope.apiVersion && this.#versioning?.header) {
+      signals.push([this.#versioning.header, scope.apiVersion]);
+    }
+    for (const v of versioned.vary) signals.push(["vary", v]);
+
+    // HEAD responses keep status and headers but never carry a body.
+    const finish = (res: Response) =>
+      scope.cookies.applyTo(
+        withHeaders(method === "HEAD" ? withoutBody(res) : res, signals),
+      );
+
     try {
-      return await run(0);
+      return finish(await run(0));
     } catch (err) {
-      if (this.#onErrorHandler) {
-        const ctx = this.#ctx(
-          req,
-          url,
-          params,
-          state,
-          vars,
-          requestId,
-        ) as HandlerCtx<string, State, Vars>;
+      // Without an onError handler, a mounted child rethrows to its parent;
+      // the top-level app renders HttpProblem errors as themselves and
+      // anything else as an opaque 500 problem.
+      if (!this.#onErrorHandler) {
+        if (parent) throw err;
+        return finish(HttpProblem.from(err).toResponse(req));
+      }
+      const ctx = this.#ctx(
+        req,
+        url,
+        params,
+        state,
+        vars,
+        requestId,
+        scope,
+      ) as HandlerCtx<string, State, Vars>;
+      try {
+        return finish(await this.#onErrorHandler(err, ctx));
+      } catch (handlerErr) {
+        return finish(HttpProblem.from(handlerErr).toResponse(req));
+      }
+    }
+  }
+
+  /**
+   * Serve with Deno.serve and return a handle for graceful shutdown. With
+   * `signals`, SIGINT/SIGTERM drain the server and exit (see ServeOptions).
+   */
+  serve(options: ServeOptions = {}): ServerHandle {
+    const { signals, graceMs, reconnectMs, ...listen } = options;
+    if (this.#shutdown.signal.aborted) this.#shutdown = new AbortController();
+    const drain = this.#shutdown;
+    const inFlight = new Set<AbortController>();
+
+    const server = Deno.serve(listen, async (req, info) => {
+      const abort = new AbortController();
+      const done = () => void inFlight.delete(abort);
+      inFlight.add(abort);
+      info.completed.then(done, done);
+      try {
+        // Upgrades need Deno's original request; sockets follow
+        // c.shutdownSignal rather than the request signal.
+        const res = await this.fetch(
+          isWebSocketUpgrade(req) ? req : new Request(req, {
+            signal: AbortSignal.any([req.signal, abort.signal]),
+          }),
+          info,
+        );
+        return abortableBody(res, abort.signal);
+      } catch (err) {
+        done();
+        throw err;
+      }
+    });
+
+    const signalNames = signals === true
+      ? (["SIGINT", "SIGTERM"] as const)
+      : signals || [];
+    const onSignal = () => {
+      void shutdown().finally(() => Deno.exit(0));
+    };
+    const unlisten = () => {
+      for (const name of signalNames) {
         try {
-          return await this.#onErrorHandler(err, ctx);
+          Deno.removeSignalListener(name, onSignal);
         } catch {
-          return textResponse("Internal Server Error", 500);
+          // ignore
         }
       }
-      throw err;
+    };
+    for (const name of signalNames) {
+      try {
+        Deno.addSignalListener(name, onSignal);
+      } catch {
+        // not supported on this platform (e.g. SIGTERM on Windows)
+      }
     }
+    void server.finished.then(unlisten, unlisten);
+
+    let draining: Promise<void> | undefined;
+    const shutdown = (opts: { graceMs?: number } = {}) =>
+      draining ??= (async () => {
+        unlisten();
+        const reason = new ServerShutdown(reconnectMs ?? 1000);
+        drain.abort(reason);
+        const closed = server.shutdown();
+
+        let timer: number | undefined;
+        const expired = await Promise.race([
+          closed.then(() => false),
+          new Promise<boolean>((resolve) => {
+            timer = setTimeout(
+              () => resolve(true),
+              opts.graceMs ?? graceMs ?? 10_000,
+            ) as unknown as number;
+          }),
+        ]);
+        clearTimeout(timer);
+        if (expired) {
+          for (const a of inFlight) a.abort(reason);
+          await closed;
+        }
+      })();
+
+    return {
+      addr: server.addr,
+      finished: server.finished,
+      inFlight: () => inFlight.size,
+      shutdown,
+    };
   }
 
-  serve(
-    options?: Pick<
-      Parameters<typeof Deno.serve>[0],
-      "port" | "hostname" | "onListen"
-    >,
-  ): void {
-    Deno.serve(options ?? {}, (req) => this.fetch(req));
+  // Methods answered for `path`: registered ones, HEAD wherever GET is, and
+  // OPTIONS for any routed path.
+  #methods(path: string): Set<HttpMethod> {
+    const methods = this.#trie.methodsFor(path);
+    if (methods.size === 0) return methods;
+    if (methods.has("GET")) methods.add("HEAD");
+    methods.add("OPTIONS");
+    return methods;
   }
 
   #allowList(path: string): string {
-    const methods = new Set<HttpMethod>();
-    for (const r of this.#routes) {
-      if (path.match(r.re)) methods.add(r.method);
+    return Array.from(this.#methods(path)).sort().join(", ");
+  }
+
+  // Route path under app.versioning(): a version prefix already in the path
+  // wins, then the header, the media-type parameter, and the default
+  // version. Paths without any versioned route are left alone.
+  #versioned(
+    req: Request,
+    path: string,
+  ): { path: string; version?: string; vary: string[] } | HttpProblem {
+    const v = this.#versioning;
+    if (!v) return { path, vary: [] };
+    for (const version of v.versions) {
+      const base = `${v.prefix}${version}`;
+      if (path === base || path.startsWith(`${base}/`)) {
+        return { path, version, vary: [] };
+      }
+    }
+    const under = (version: string) =>
+      `${v.prefix}${version}${path === "/" ? "" : path}`;
+    if (!v.versions.some((ver) => this.#trie.methodsFor(under(ver)).size)) {
+      return { path, vary: [] };
+    }
+
+    const vary: string[] = [];
+    let requested: string | undefined;
+    if (v.header) {
+      vary.push(v.header);
+      requested = req.headers.get(v.header)?.trim() || undefined;
+    }
+    if (v.mediaTypeParam) {
+      vary.push("accept");
+      requested ??= acceptParam(req.headers.get("accept"), v.mediaTypeParam);
     }
-    return Array.from(methods).sort().join(", ");
+    if (requested !== undefined && !v.versions.includes(requested)) {
+      return new HttpProblem(400, {
+        type: "urn:continuux:problem:unsupported-api-version",
+        detail: `API version "${requested}" is not supported`,
+        extensions: { supported: [...v.versions] },
+      });
+    }
+    const version = requested ?? v.defaultVersion;
+    return { path: under(version), version, vary };
+  }
+
+  // The route a request ends up at, for `c.route` in middleware: a mounted
+  // child's route when the child answers the path (mounts dispatch first),
+  // otherwise this app's own.
+  #resolve(
+    method: HttpMethod,
+    path: string,
+  ): { route: RouteInfo; params: AnyParams } | undefined {
+    for (const { base, child } of this.#mounts) {
+      if (path !== base && !path.startsWith(`${base}/`)) continue;
+      const found = child.#resolve(method, path.slice(base.length) || "/");
+      if (found) {
+        return {
+          route: { ...found.route, path: withBase(base, found.route.path) },
+          params: found.params,
+        };
+      }
+    }
+    const own = this.#match(method, path);
+    return own
+      ? { route: routeInfoOf(own.route), params: own.params }
+      : undefined;
   }
 
   #match(
     method: HttpMethod,
     path: string,
   ): { route: InternalRoute<State, Vars>; params: AnyParams } | null {
-    for (const r of this.#routes) {
-      if (r.method !== method) continue;
-      const m = path.match(r.re);
-      if (!m) continue;
-      const params: AnyParams = {};
-      for (let i = 0; i < r.keys.length; i++) {
-        params[r.keys[i]] = decodeURIComponent(m[i + 1] ?? "");
-      }
-      return { route: r, params };
+    // HEAD runs the GET handler unless a HEAD route is registered.
+    const m = this.#trie.lookup(method, path) ??
+      (method === "HEAD" ? this.#trie.lookup("GET", path) : null);
+    if (!m) return null;
+    const params: AnyParams = {};
+    for (let i = 0; i < m.route.keys.length; i++) {
+      params[m.route.keys[i]] = decodeURIComponent(m.values[i] ?? "");
     }
-    return null;
+    return { route: m.route, params };
   }
 
   #ctx(
@@ -1177,14 +2683,38 @@ export class Application<
     state: State,
     vars: Vars,
     requestId: string,
+    scope: RequestScope,
+    valid?: ValidatedRecord,
   ): HandlerCtx<string, State, Vars> {
     const initWith = (init?: ResponseInit) => init ?? {};
+    let requestCookies: Record<string, string> | undefined;
+    const readCookies = () =>
+      requestCookies ??= parseCookieHeader(req.headers.get("cookie"));
+    const secrets = () => {
+      if (this.#cookieSecrets.length === 0) {
+        throw new Error(
+          "Signed cookies require app.cookieSecrets([...]) to be configured",
+        );
+      }
+      return this.#cookieSecrets;
+    };
     return {
       req,
       url,
       params,
       state,
 
+      valid: (target) => {
+        if (!valid || !(target in valid)) {
+          throw new Error(
+            `c.valid("${String(target)}"): no ${
+              String(target)
+            } schema was validated for this route`,
+          );
+        }
+        return valid[target] as never;
+      },
+
       vars,
       getVar: (k) => vars[k],
       setVar: (k, v) => {
@@ -1192,6 +2722,10 @@ export class Application<
       },
 
       requestId,
+      remoteAddr: scope.remoteAddr,
+      route: scope.route,
+      apiVersion: scope.apiVersion,
+      shutdownSignal: scope.shutdownSignal,
 
       text: (body, init) =>
         textResponse(
@@ -1211,10 +2745,38 @@ export class Application<
           initWith(init).status ?? 200,
           initWith(init).headers,
         ),
+      stream: (body, init) =>
+        streamResponse(
+          body,
+          initWith(init).status ?? 200,
+          initWith(init).headers,
+          AbortSignal.any([req.signal, scope.shutdownSignal]),
+        ),
 
       query: (name) => url.searchParams.get(name),
       queryAll: () => url.searchParams,
 
+      getCookie: (name) => readCookies()[name],
+      getCookies: () => ({ ...readCookies() }),
+      setCookie: (name, value, opts) =>
+        scope.cookies.set(name, value, opts ?? {}),
+      deleteCookie: (name, opts) =>
+        scope.cookies.set(name, "", {
+          ...opts,
+          maxAge: 0,
+          expires: new Date(0),
+        }),
+      getSignedCookie: async (name) => {
+        const raw = readCookies()[name];
+        return raw === undefined
+          ? undefined
+          : await verifyCookieValue(name, raw, secrets());
+      },
+      setSignedCookie: async (name, value, opts) => {
+        const signed = await signCookieValue(name, value, secrets()[0]);
+        scope.cookies.set(name, signed, opts ?? {});
+      },
+
       readText: async () => await req.text(),
       readJson: async () => (await req.json()) as unknown,
       readJsonParsed: async <T>(parser: (u: unknown) => T) => {
@@ -1226,21 +2788,27 @@ export class Application<
         return schema.parse(u);
       },
       readFormData: async () => await req.formData(),
+      multipart: (limits) => multipartParts(req, limits),
+      readMultipart: (opts) => readMultipart(req, opts),
 
       sse: <E extends SseEventMap>(
         producer: (
           session: SseSession<E>,
           c: HandlerCtx<string, State, Vars>,
         ) => void | Promise<void>,
-        opts?: Omit<SseOptions, "signal">,
+        opts?: Omit<SseOptions, "signal" | "shutdownSignal">,
       ) => {
-        const session = sseSession<E>({ ...(opts ?? {}), signal: req.signal });
+        const session = sseSession<E>({
+          ...(opts ?? {}),
+          signal: req.signal,
+          shutdownSignal: scope.shutdownSignal,
+        });
         void (async () => {
           try {
             await session.ready;
             await producer(
               session,
-              this.#ctx(req, url, params, state, vars, requestId),
+              this.#ctx(req, url, params, state, vars, requestId, scope),
             );
           } catch (err) {
             const e = asError(err);
@@ -1296,7 +2864,9 @@ export class Application<
     routeMws?: RouteMiddleware<Path, State, Vars>[],
   ): this {
     const p = path.startsWith("/") ? path : `/${path}`;
-    const { re, keys } = compilePath(p);
+    assertDeprecationMeta(`${method}(${p})`, config?.meta);
+    const { re, keys, segments } = compilePath(p);
+    const schemas = config?.schemas;
 
     const handler = async (
       req: Request,
@@ -1305,7 +2875,9 @@ export class Application<
       state: State,
       vars: Vars,
       requestId: string,
+      scope: RequestScope,
     ) => {
+      const valid: ValidatedRecord = Object.create(null);
       const ctx = this.#ctx(
         req,
         url,
@@ -1313,6 +2885,8 @@ export class Application<
         state,
         vars,
         requestId,
+        scope,
+        valid,
       ) as unknown as HandlerCtx<
         Path,
         State,
@@ -1321,7 +2895,19 @@ export class Application<
 
       const routeChain = async (i: number): Promise<Response> => {
         if (!routeMws || i >= routeMws.length) {
-          return await h(ctx);
+          // Route middleware (auth, etc.) runs first; schemas gate the handler.
+          const invalid = await validateRouteRequest(
+            schemas,
+            req,
+            url,
+            params,
+            valid,
+          );
+          if (invalid) return invalid;
+          const res = await h(ctx);
+          return this.#validateResponses
+            ? await validateRouteResponse(schemas, res)
+            : res;
         }
         const mw = routeMws[i];
         return await mw(ctx, () => routeChain(i + 1));
@@ -1330,7 +2916,7 @@ export class Application<
       return await routeChain(0);
     };
 
-    this.#routes.push({
+    const route: InternalRoute<State, Vars> = {
       method,
       template: p,
       keys,
@@ -1338,7 +2924,11 @@ export class Application<
       handler,
       meta: config?.meta,
       schemas: config?.schemas,
-    });
+      calls: 0,
+    };
+    // Insert first so ambiguous templates throw before being recorded.
+    this.#trie.insert(route, segments);
+    this.#routes.push(route);
     return this;
   }
 }
@@ -1348,46 +2938,103 @@ export class RouteBuilder<
   Vars extends VarsRecord,
   Base extends string,
 > {
-  constructor(private app: Application<State, Vars>, private base: Base) {}
+  constructor(
+    private app: Application<State, Vars>,
+    private base: Base,
+    private group?: RouteGroupConfig,
+  ) {}
 
   get<Path extends string>(
     path: Path,
     h: Handler<JoinPath<Base, Path>, State, Vars>,
-  ): this {
-    const full = withBase(this.base, path) as JoinPath<Base, Path>;
-    this.app.get(full, h);
-    return this;
+  ): this;
+  get<Path extends string, S extends RouteSchemas>(
+    path: Path,
+    config: RouteConfig<S>,
+    h: Handler<JoinPath<Base, Path>, State, Vars, ValidatedOf<S>>,
+  ): this;
+  get(path: string, ...args: unknown[]): this {
+    return this.#add("get", path, args);
   }
   post<Path extends string>(
     path: Path,
     h: Handler<JoinPath<Base, Path>, State, Vars>,
-  ): this {
-    const full = withBase(this.base, path) as JoinPath<Base, Path>;
-    this.app.post(full, h);
-    return this;
+  ): this;
+  post<Path extends string, S extends RouteSchemas>(
+    path: Path,
+    config: RouteConfig<S>,
+    h: Handler<JoinPath<Base, Path>, State, Vars, ValidatedOf<S>>,
+  ): this;
+  post(path: string, ...args: unknown[]): this {
+    return this.#add("post", path, args);
   }
   put<Path extends string>(
     path: Path,
     h: Handler<JoinPath<Base, Path>, State, Vars>,
-  ): this {
-    const full = withBase(this.base, path) as JoinPath<Base, Path>;
-    this.app.put(full, h);
-    return this;
+  ): this;
+  put<Path extends string, S extends RouteSchemas>(
+    path: Path,
+    config: RouteConfig<S>,
+    h: Handler<JoinPath<Base, Path>, State, Vars, ValidatedOf<S>>,
+  ): this;
+  put(path: string, ...args: unknown[]): this {
+    return this.#add("put", path, args);
   }
   patch<Path extends string>(
     path: Path,
     h: Handler<JoinPath<Base, Path>, State, Vars>,
-  ): this {
-    const full = withBase(this.base, path) as JoinPath<Base, Path>;
-    this.app.patch(full, h);
-    return this;
+  ): this;
+  patch<Path extends string, S extends RouteSchemas>(
+    path: Path,
+    config: RouteConfig<S>,
+    h: Handler<JoinPath<Base, Path>, State, Vars, ValidatedOf<S>>,
+  ): this;
+  patch(path: string, ...args: unknown[]): this {
+    return this.#add("patch", path, args);
   }
   delete<Path extends string>(
     path: Path,
     h: Handler<JoinPath<Base, Path>, State, Vars>,
+  ): this;
+  delete<Path extends string, S extends RouteSchemas>(
+    path: Path,
+    config: RouteConfig<S>,
+    h: Handler<JoinPath<Base, Path>, State, Vars, ValidatedOf<S>>,
+  ): this;
+  delete(path: string, ...args: unknown[]): this {
+    return this.#add("delete", path, args);
+  }
+  ws<
+    Path extends string,
+    SIn extends WsMessageSchemas,
+    SOut extends WsMessageSchemas = WsMessageSchemas,
+  >(
+    path: Path,
+    route: WsRoute<JoinPath<Base, Path>, State, Vars, SIn, SOut>,
   ): this {
     const full = withBase(this.base, path) as JoinPath<Base, Path>;
-    this.app.delete(full, h);
+    const meta = this.#meta(route.meta);
+    this.app.ws(full, meta ? { ...route, meta } : route);
+    return this;
+  }
+
+  #meta(meta?: RouteMeta): RouteMeta | undefined {
+    const groupMeta = this.group?.meta;
+    return groupMeta ? { ...groupMeta, ...meta } : meta;
+  }
+
+  #add(
+    verb: "get" | "post" | "put" | "patch" | "delete",
+    path: string,
+    args: unknown[],
+  ): this {
+    const full = withBase(this.base, path);
+    const [config, h] = args.length > 1
+      ? [args[0] as RouteConfig, args[1] as Handler<string, State, Vars>]
+      : [undefined, args[0] as Handler<string, State, Vars>];
+    const meta = this.#meta(config?.meta);
+    if (!config && !meta) this.app[verb](full, h);
+    else this.app[verb](full, { ...config, meta }, h);
     return this;
   }
 }
@@ -1405,23 +3052,17 @@ export const notFoundPureTsUi = (req: Request, hintRoutes: string[]) => {
       url.pathname.endsWith(".html"));
 
   if (looksStatic) {
-    return textResponse(
-      [
-        "Not found.",
-        "",
-        "This server does not serve static files from disk.",
+    return new HttpProblem(404, {
+      detail: "This server does not serve static files from disk. " +
         "All browser assets must be requested as bundled modules.",
-        "",
-        "Known module endpoints:",
-        ...hintRoutes.map((r) => `  ${r}`),
-        "",
-        `Requested: ${req.method} ${url.pathname}`,
-      ].join("\n"),
-      404,
-    );
+      instance: url.pathname,
+      extensions: { moduleEndpoints: hintRoutes },
+    }).toResponse(req);
   }
 
-  return textResponse(`Not found: ${req.method} ${url.pathname}`, 404);
+  return new HttpProblem(404, {
+    detail: `No route for ${req.method} ${url.pathname}`,
+  }).toResponse(req);
 };
 
 /* =========================
@@ -9,12 +9,15 @@
 // - Bundling uses Deno.bundle which can require --unstable-bundle. Tests adapt.
 // - SSE is a streaming response: this test cancels the body when done.
 
+import { z } from "@zod";
 import {
   Application,
   composeMiddleware,
   cors,
+  deprecationReport,
   HandlerCtx,
   htmlResponse,
+  HttpProblem,
   jsonResponse,
   jsResponse,
   logger,
@@ -22,12 +25,22 @@ import {
   Middleware,
   notFoundPureTsUi,
   observe,
+  parseCookieHeader,
   requestIdHeader,
   RouteMiddleware,
+  serializeCookie,
+  ServerShutdown,
+  signCookieValue,
   sseEvery,
   sseSession,
+  streamResponse,
   textResponse,
 } from "./http.ts";
+import { etag } from "./http-etag.ts";
+import { createResponseCache } from "./http-response-cache.ts";
+import { actionSchemas, createCx } from "./interaction-html.ts";
+import { decodeCxEnvelope } from "./interaction.ts";
+import * as h from "../natural-html/elements.ts";
 
 const hostname = "127.0.0.1";
 
@@ -210,10 +223,145 @@ Deno.test("response helpers set correct content-type and body", async (t) => {
     if (r.headers.get("allow") !== "GET, POST") {
       throw new Error("allow mismatch");
     }
-    const body = await r.text();
-    if (!body.includes("Method not allowed.")) throw new Error("body missing");
-    if (!body.includes("Endpoint: /x")) {
-      throw new Error("body missing endpoint");
+    if (r.headers.get("content-type") !== "application/problem+json") {
+      throw new Error("content-type mismatch");
+    }
+    const body = await r.json();
+    if (body.title !== "Method Not Allowed" || body.status !== 405) {
+      throw new Error("problem body mismatch");
+    }
+    if (!body.detail.includes("/x")) throw new Error("body missing endpoint");
+    if (body.allowed.join(",") !== "GET,POST") {
+      throw new Error("allowed extension mismatch");
+    }
+  });
+});
+
+Deno.test("c.stream: progressive HTML, HEAD, and cancellation", async (t) => {
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+  let release!: () => void;
+  let slow = Promise.resolve();
+  app.get("/report", (c) =>
+    c.stream(h.renderStream([
+      h.doctype(),
+      h.html(
+        h.head(h.title("Report")),
+        h.body(h.main(h.deferred(slow.then(() => h.p("rows"))))),
+      ),
+    ])));
+  let finalized = false;
+  app.get("/log", (c) =>
+    c.stream(
+      (async function* () {
+        try {
+          yield "line 1\n";
+          yield new TextEncoder().encode("line 2\n");
+          await new Promise(() => {});
+        } finally {
+          finalized = true;
+        }
+      })(),
+      { headers: { "content-type": "text/plain; charset=utf-8" } },
+    ));
+  const decoder = new TextDecoder();
+
+  await t.step("shell is readable before deferred regions", async () => {
+    slow = new Promise((r) => release = r);
+    const r = await app.fetch(new Request("http://localhost/report"));
+    if (r.headers.get("content-type") !== "text/html; charset=utf-8") {
+      throw new Error("content-type mismatch");
+    }
+    const reader = r.body!.getReader();
+    const shell = decoder.decode((await reader.read()).value);
+    if (
+      shell !==
+        "<!doctype html><html><head><title>Report</title></head><body><main>"
+    ) {
+      throw new Error(`unexpected shell: ${shell}`);
+    }
+    release();
+    const rest = decoder.decode((await reader.read()).value);
+    if (rest !== "<p>rows</p></main></body></html>") {
+      throw new Error(`unexpected rest: ${rest}`);
+    }
+    if (!(await reader.read()).done) throw new Error("stream not closed");
+  });
+
+  await t.step("HEAD keeps headers without a body", async () => {
+    const r = await app.fetch(
+      new Request("http://localhost/report", { method: "HEAD" }),
+    );
+    if (r.status !== 200 || r.body !== null) {
+      throw new Error("HEAD should not stream a body");
+    }
+  });
+
+  await t.step("disconnect cancels the source", async () => {
+    const ac = new AbortController();
+    const r = await app.fetch(
+      new Request("http://localhost/log", { signal: ac.signal }),
+    );
+    if (r.headers.get("content-type") !== "text/plain; charset=utf-8") {
+      throw new Error("init headers should override content-type");
+    }
+    const reader = r.body!.getReader();
+    const first = decoder.decode((await reader.read()).value);
+    const second = decoder.decode((await reader.read()).value);
+    if (first + second !== "line 1\nline 2\n") {
+      throw new Error(`unexpected chunks: ${first}${second}`);
+    }
+    ac.abort();
+    if (!(await reader.read()).done) throw new Error("stream not ended");
+    if (!finalized) throw new Error("source was not cancelled");
+  });
+
+  await t.step(
+    "etag() and the response cache pass streams through",
+    async () => {
+      // deno-lint-ignore ban-types
+      type Empty = {};
+      const cached = Application.sharedState<Empty, Empty>({});
+      cached.use(
+        createResponseCache<Empty, Empty>({ ttlMs: 60_000 }).middleware(),
+      );
+      cached.use(etag<Empty, Empty>());
+      cached.get("/report", (c) =>
+        c.stream(h.renderStream([
+          h.doctype(),
+          h.html(h.body(h.main(h.deferred(slow.then(() => h.p("rows")))))),
+        ])));
+
+      slow = new Promise((r) => release = r);
+      const r = await cached.fetch(new Request("http://localhost/report"));
+      if (r.headers.get("cache-control") !== "no-store") {
+        throw new Error("streamed responses should default to no-store");
+      }
+      if (r.headers.get("etag") !== null) throw new Error("stream was hashed");
+      const reader = r.body!.getReader();
+      // Buffering middleware would hold the shell until `slow` resolves.
+      const first = await withTimeout(
+        reader.read(),
+        1000,
+        "shell was buffered",
+      );
+      if (!decoder.decode(first.value).startsWith("<!doctype html>")) {
+        throw new Error("unexpected first chunk");
+      }
+      release();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+    },
+  );
+
+  await t.step("streamResponse encodes string chunks", async () => {
+    const parts = async function* () {
+      yield* ["<p>", "x", "</p>"];
+    };
+    const r = streamResponse(parts(), 203);
+    if (r.status !== 203 || (await r.text()) !== "<p>x</p>") {
+      throw new Error("streamResponse mismatch");
     }
   });
 });
@@ -856,3 +1004,946 @@ Deno.test("invalid route patterns: multiple wildcards throw at registration", ()
     throw new Error("expected app.get('/a/*x/*y', ...) to throw");
   }
 });
+
+Deno.test("route trie: precedence, backtracking and ambiguity", async (t) => {
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+
+  // Registered params-first on purpose: precedence must not depend on order.
+  app.get("/users/:id", (c) => c.text(`user:${c.params.id}`));
+  app.delete("/users/:id", (c) => c.text(`deleted:${c.params.id}`));
+  app.get("/users/:id{[0-9]+}", (c) => c.text(`numeric:${c.params.id}`));
+  app.get("/users/new", (c) => c.text("new-form"));
+  app.get("/users/*rest", (c) => c.text(`rest:${c.params.rest}`));
+  app.get("/", (c) => c.text("root"));
+
+  const body = async (path: string, method = "GET") => {
+    const r = await app.fetch(
+      new Request(`http://localhost${path}`, { method }),
+    );
+    return `${r.status} ${await r.text()}`;
+  };
+
+  await t.step("static beats constrained beats plain param", async () => {
+    const cases: Array<[string, string]> = [
+      ["/users/new", "200 new-form"],
+      ["/users/42", "200 numeric:42"],
+      ["/users/alice", "200 user:alice"],
+      ["/users/a%20b", "200 user:a b"],
+      ["/users/alice/", "200 user:alice"],
+      ["/users/a/b/c", "200 rest:a/b/c"],
+      ["/", "200 root"],
+    ];
+    for (const [path, expected] of cases) {
+      const got = await body(path);
+      if (got !== expected) {
+        throw new Error(`${path}: expected "${expected}", got "${got}"`);
+      }
+    }
+  });
+
+  await t.step(
+    "backtracks when the static branch lacks the method",
+    async () => {
+      const got = await body("/users/new", "DELETE");
+      if (got !== "200 deleted:new") throw new Error(`unexpected: ${got}`);
+    },
+  );
+
+  await t.step(
+    "405 Allow is computed across all matching branches",
+    async () => {
+      const r = await app.fetch(
+        new Request("http://localhost/users/new", { method: "PUT" }),
+      );
+      await r.text();
+      if (r.status !== 405) throw new Error(`expected 405, got ${r.status}`);
+      if (r.headers.get("allow") !== "DELETE, GET, HEAD, OPTIONS") {
+        throw new Error(`allow mismatch: ${r.headers.get("allow")}`);
+      }
+    },
+  );
+
+  await t.step("ambiguous templates for the same method throw", () => {
+    const ambiguous = [
+      "/users/:userId",
+      "/users/:other{[0-9]+}",
+      "/users/:code{[0-9a-f]+}",
+      "/users/new/",
+      "/users/*other",
+    ];
+    for (const path of ambiguous) {
+      let threw = false;
+      try {
+        app.get(path, (c) => c.text("x"));
+      } catch (err) {
+        threw = String(err).includes("Ambiguous route");
+      }
+      if (!threw) throw new Error(`expected ${path} to be rejected`);
+    }
+
+    // Same shape under a different method is fine, and so are different
+    // constraints whose templates continue differently.
+    app.put("/users/:userId", (c) => c.text(`put:${c.params.userId}`));
+    app.put("/users/:code{[0-9a-f]+}", (c) => c.text(`put:${c.params.code}`));
+    app.get("/users/:code{[0-9a-f]+}/keys", (c) => c.text(c.params.code));
+  });
+
+  await t.step("constraints matching '/' span segments", async () => {
+    // deno-lint-ignore ban-types
+    const files = Application.sharedState<{}>({});
+    files.get("/files/:path{.+}", (c) => c.text(`file:${c.params.path}`));
+    files.get("/raw/:path{.+}/download", (c) => c.text(`raw:${c.params.path}`));
+    files.get("/years/:y{[0-9]{4}}", (c) => c.text(`year:${c.params.y}`));
+    const cases: Array<[string, string]> = [
+      ["/files/a/b/c.txt", "200 file:a/b/c.txt"],
+      ["/raw/a/b/download", "200 raw:a/b"],
+      ["/years/2024", "200 year:2024"],
+      ["/years/20/24", "404"],
+    ];
+    for (const [path, expected] of cases) {
+      const r = await files.fetch(new Request(`http://localhost${path}`));
+      const text = await r.text();
+      const got = r.status === 200 ? `200 ${text}` : String(r.status);
+      if (got !== expected) {
+        throw new Error(`${path}: expected "${expected}", got "${got}"`);
+      }
+    }
+  });
+
+  await t.step("rejected registrations do not appear in routes()", () => {
+    const templates = app.routes().map((r) => `${r.method} ${r.path}`);
+    if (templates.includes("GET /users/:userId")) {
+      throw new Error("ambiguous route leaked into routes()");
+    }
+    if (!templates.includes("PUT /users/:userId")) {
+      throw new Error("PUT route missing from routes()");
+    }
+  });
+});
+
+Deno.test("router: automatic HEAD, OPTIONS, and 405 across mounts", async (t) => {
+  // deno-lint-ignore ban-types
+  const child = Application.sharedState<{}>({});
+  let childGets = 0;
+  child.get("/items/:id", (c) => {
+    childGets++;
+    return c.json({ id: c.params.id }, {
+      headers: { etag: `"${c.params.id}"` },
+    });
+  });
+  child.put("/items/:id", (c) => c.text("updated"));
+  child.all(
+    "/probe",
+    (c) => new Response(null, { headers: { "x-probe": c.req.method } }),
+  );
+
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+  app.get("/page", (c) => c.html("<p>page</p>"));
+  app.post("/api/special", (c) => c.text("special"));
+  app.mount("/api", child);
+
+  const send = (path: string, method: string) =>
+    app.fetch(new Request(`http://localhost${path}`, { method }));
+
+  await t.step("HEAD runs the GET handler without a body", async () => {
+    const r = await send("/page", "HEAD");
+    if (r.status !== 200) throw new Error(`expected 200, got ${r.status}`);
+    if (!r.headers.get("content-type")?.startsWith("text/html")) {
+      throw new Error("content-type missing on HEAD");
+    }
+    if (r.body !== null) throw new Error("HEAD response has a body");
+
+    const m = await send("/api/items/7", "HEAD");
+    if (m.status !== 200 || m.headers.get("etag") !== '"7"') {
+      throw new Error(`mounted HEAD mismatch: ${m.status}`);
+    }
+    if (m.body !== null || childGets !== 1) {
+      throw new Error("mounted HEAD should run GET once without a body");
+    }
+    const probe = await send("/api/probe", "HEAD");
+    if (probe.headers.get("x-probe") !== "HEAD") {
+      throw new Error("explicit HEAD route should win");
+    }
+    const missing = await send("/nope", "HEAD");
+    if (missing.status !== 404 || missing.body !== null) {
+      throw new Error("HEAD 404 must not carry a body");
+    }
+  });
+
+  await t.step("OPTIONS answers with the computed Allow", async () => {
+    const r = await send("/page", "OPTIONS");
+    if (r.status !== 204 || r.headers.get("allow") !== "GET, HEAD, OPTIONS") {
+      throw new Error(`unexpected ${r.status} ${r.headers.get("allow")}`);
+    }
+    const m = await send("/api/items/7", "OPTIONS");
+    if (m.headers.get("allow") !== "GET, HEAD, OPTIONS, PUT") {
+      throw new Error(`mounted allow mismatch: ${m.headers.get("allow")}`);
+    }
+    const missing = await send("/nope", "OPTIONS");
+    await missing.body?.cancel();
+    if (missing.status !== 404) throw new Error("OPTIONS on unknown path");
+  });
+
+  await t.step("405 (not 404) when another method matches", async () => {
+    const r = await send("/page", "DELETE");
+    await r.body?.cancel();
+    if (r.status !== 405 || r.headers.get("allow") !== "GET, HEAD, OPTIONS") {
+      throw new Error(`unexpected ${r.status} ${r.headers.get("allow")}`);
+    }
+    const m = await send("/api/items/7", "DELETE");
+    await m.body?.cancel();
+    if (m.status !== 405) {
+      throw new Error(`mounted: expected 405, got ${m.status}`);
+    }
+  });
+
+  await t.step("parent routes under a mount still apply", async () => {
+    const r = await send("/api/special", "POST");
+    if ((await r.text()) !== "special") {
+      throw new Error("parent route shadowed");
+    }
+    const wrong = await send("/api/special", "GET");
+    await wrong.body?.cancel();
+    if (
+      wrong.status !== 405 || wrong.headers.get("allow") !== "OPTIONS, POST"
+    ) {
+      throw new Error(
+        `unexpected ${wrong.status} ${wrong.headers.get("allow")}`,
+      );
+    }
+  });
+});
+
+Deno.test("router: API versioning and deprecation headers", async (t) => {
+  const sunset = new Date(Date.UTC(2027, 0, 1));
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+  app.versioning({ versions: ["1", "2"] });
+  app.use(async (c, next) => {
+    if (c.req.headers.get("x-block")) return c.text("blocked", { status: 403 });
+    return await next();
+  });
+  app.route("/v1", {
+    meta: {
+      version: "1",
+      deprecated: new Date(Date.UTC(2026, 5, 1)),
+      sunset,
+      successorLink: "/v2/patients",
+    },
+  }, (r) => {
+    r.get("/patients", (c) => c.text(`v1 ${c.apiVersion}`));
+    r.get(
+      "/patients/:id",
+      { meta: { deprecationLink: "/docs/v1" } },
+      (c) => c.text(`v1 patient ${c.params.id}`),
+    );
+  });
+  app.route("/v2", { meta: { version: "2" } }, (r) => {
+    r.get("/patients", (c) => c.text(`v2 ${c.apiVersion}`));
+  });
+  app.get("/health", (c) => c.text(`ok ${c.apiVersion ?? "-"}`));
+
+  const send = (path: string, headers: HeadersInit = {}, method = "GET") =>
+    app.fetch(new Request(`http://localhost${path}`, { method, headers }));
+  const expectBody = async (r: Response, body: string) => {
+    const text = await r.text();
+    if (text !== body) throw new Error(`expected "${body}", got "${text}"`);
+  };
+
+  await t.step(
+    "prefix, header, media-type parameter, and default",
+    async () => {
+      const prefixed = await send("/v1/patients");
+      await expectBody(prefixed, "v1 1");
+      if (prefixed.headers.get("vary") !== null) {
+        throw new Error("explicit prefix should not vary");
+      }
+      if (prefixed.headers.get("api-version") !== "1") {
+        throw new Error("api-version not echoed");
+      }
+
+      await expectBody(await send("/patients", { "api-version": "1" }), "v1 1");
+      await expectBody(
+        await send("/patients", { accept: "application/json; version=1" }),
+        "v1 1",
+      );
+      // The header beats the media-type parameter.
+      await expectBody(
+        await send("/patients", {
+          "api-version": "2",
+          accept: "application/json;version=1",
+        }),
+        "v2 2",
+      );
+      const fallback = await send("/patients");
+      await expectBody(fallback, "v2 2");
+      if (fallback.headers.get("vary") !== "api-version, accept") {
+        throw new Error(`vary: ${fallback.headers.get("vary")}`);
+      }
+
+      const plain = await send("/health", { "api-version": "9" });
+      await expectBody(plain, "ok -");
+      if (plain.headers.get("api-version") !== null) {
+        throw new Error("unversioned routes are left alone");
+      }
+    },
+  );
+
+  await t.step("unsupported version is a 400 problem", async () => {
+    const r = await send("/patients", { "api-version": "7" });
+    const body = await r.json();
+    if (
+      r.status !== 400 ||
+      body.type !== "urn:continuux:problem:unsupported-api-version" ||
+      body.supported.join() !== "1,2"
+    ) {
+      throw new Error(`unexpected ${r.status} ${JSON.stringify(body)}`);
+    }
+  });
+
+  await t.step("deprecated routes send Deprecation, Sunset, Link", async () => {
+    const r = await send("/patients/4", { "api-version": "1" });
+    await expectBody(r, "v1 patient 4");
+    if (r.headers.get("deprecation") !== "@1780272000") {
+      throw new Error(`deprecation: ${r.headers.get("deprecation")}`);
+    }
+    if (r.headers.get("sunset") !== "Fri, 01 Jan 2027 00:00:00 GMT") {
+      throw new Error(`sunset: ${r.headers.get("sunset")}`);
+    }
+    if (
+      r.headers.get("link") !==
+        '</docs/v1>; rel="deprecation", </v2/patients>; rel="successor-version"'
+    ) {
+      throw new Error(`link: ${r.headers.get("link")}`);
+    }
+
+    const head = await send("/v1/patients", {}, "HEAD");
+    if (head.body !== null || head.headers.get("sunset") === null) {
+      throw new Error("HEAD should keep deprecation headers without a body");
+    }
+    const blocked = await send("/v1/patients", { "x-block": "1" });
+    await expectBody(blocked, "blocked");
+    if (blocked.headers.get("deprecation") === null) {
+      throw new Error("middleware short-circuits still signal deprecation");
+    }
+    const current = await send("/v2/patients");
+    await current.body?.cancel();
+    if (current.headers.get("deprecation") !== null) {
+      throw new Error("v2 is not deprecated");
+    }
+  });
+
+  await t.step("deprecationReport lists routes by call count", () => {
+    const report = deprecationReport(app.routes());
+    const rows = report.map((r) => `${r.method} ${r.path} ${r.calls}`);
+    // Prefix, header, media type, and HEAD reached /v1/patients; the
+    // middleware-blocked request never dispatched.
+    if (
+      rows.join(" | ") !==
+        "GET /v1/patients 4 | GET /v1/patients/:id 1"
+    ) {
+      throw new Error(`report: ${rows.join(" | ")}`);
+    }
+    const first = report[0];
+    if (
+      first.version !== "1" ||
+      first.deprecated !== "2026-06-01T00:00:00.000Z" ||
+      first.sunset !== sunset.toISOString() ||
+      first.successorLink !== "/v2/patients"
+    ) {
+      throw new Error(`report row: ${JSON.stringify(first)}`);
+    }
+  });
+
+  await t.step("versioning options are validated", () => {
+    // deno-lint-ignore ban-types
+    const other = Application.sharedState<{}>({});
+    for (
+      const opts of [{ versions: [] }, { versions: ["1"], defaultVersion: "2" }]
+    ) {
+      try {
+        other.versioning(opts);
+      } catch {
+        continue;
+      }
+      throw new Error(`accepted ${JSON.stringify(opts)}`);
+    }
+  });
+
+  await t.step("invalid deprecation dates fail at registration", () => {
+    // deno-lint-ignore ban-types
+    const other = Application.sharedState<{}>({});
+    for (
+      const meta of [
+        { deprecated: "next quarter" },
+        { deprecated: new Date("nope") },
+        { sunset: "soon" },
+        { sunset: 1780272000 as unknown as string },
+      ]
+    ) {
+      try {
+        other.get("/old", { meta }, (c) => c.text("old"));
+      } catch (err) {
+        if (!String(err).includes("GET(/old): meta.")) throw err;
+        continue;
+      }
+      throw new Error(`accepted ${JSON.stringify(meta)}`);
+    }
+    if (other.routes().length !== 0) throw new Error("route was recorded");
+  });
+});
+
+Deno.test("route schemas are enforced and exposed via c.valid", async (t) => {
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+
+  app.post(
+    "/orders/:id",
+    {
+      schemas: {
+        params: z.object({ id: z.coerce.number().int() }),
+        query: z.object({ tags: z.array(z.string()).optional() }),
+        json: z.object({ sku: z.string(), qty: z.number().min(1) }),
+      },
+    },
+    async (c) => {
+      // Compile-time: inferred from the schemas.
+      const id: number = c.valid("params").id;
+      const body: { sku: string; qty: number } = c.valid("json");
+      const tags: string[] | undefined = c.valid("query").tags;
+      // @ts-expect-error no response target on c.valid
+      void (() => c.valid("response"));
+      // The raw body is still readable.
+      const raw = await c.readJson() as { sku: string };
+      return c.json({ id, body, tags, raw: raw.sku });
+    },
+  );
+
+  // Plain parser functions are enforced too; inert metadata is not.
+  app.get(
+    "/inert/:id",
+    {
+      schemas: {
+        params: { kind: "inert" },
+        query: (u: unknown) => {
+          const q = u as { n?: string };
+          if (!q.n) throw new Error("n required");
+          return { n: Number(q.n) };
+        },
+      },
+    },
+    (c) => c.json({ n: c.valid("query").n + 1, id: c.params.id }),
+  );
+
+  app.get(
+    "/drift",
+    { schemas: { response: z.object({ ok: z.boolean() }) } },
+    (c) => c.json({ ok: "yes" }),
+  );
+
+  const send = (path: string, init?: RequestInit) =>
+    app.fetch(new Request(`http://localhost${path}`, init));
+  const post = (path: string, body: string) =>
+    send(path, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+    });
+
+  await t.step(
+    "valid request reaches the handler with parsed values",
+    async () => {
+      const r = await post(
+        "/orders/42?tags=a&tags=b",
+        JSON.stringify({ sku: "X", qty: 2 }),
+      );
+      if (r.status !== 200) throw new Error(`status ${r.status}`);
+      const j = await r.json();
+      if (j.id !== 42 || j.body.qty !== 2 || j.raw !== "X") {
+        throw new Error(`unexpected body ${JSON.stringify(j)}`);
+      }
+      if (JSON.stringify(j.tags) !== JSON.stringify(["a", "b"])) {
+        throw new Error(`tags mismatch ${JSON.stringify(j.tags)}`);
+      }
+    },
+  );
+
+  await t.step("bad params are a 400 listing issues", async () => {
+    const r = await post("/orders/abc", JSON.stringify({ sku: "X", qty: 2 }));
+    const j = await r.json();
+    if (r.status !== 400 || j.target !== "params") {
+      throw new Error(`unexpected ${r.status} ${JSON.stringify(j)}`);
+    }
+    if (j.issues[0].path[0] !== "id") throw new Error("issue path mismatch");
+  });
+
+  await t.step("malformed JSON is 400, schema mismatch is 422", async () => {
+    const bad = await post("/orders/1", "{nope");
+    const badJson = await bad.json();
+    if (bad.status !== 400 || badJson.issues[0].code !== "malformed_json") {
+      throw new Error(`unexpected ${bad.status} ${JSON.stringify(badJson)}`);
+    }
+
+    const r = await post("/orders/1", JSON.stringify({ sku: 1, qty: 0 }));
+    const j = await r.json();
+    if (r.status !== 422 || j.target !== "json") {
+      throw new Error(`unexpected ${r.status} ${JSON.stringify(j)}`);
+    }
+    const paths = j.issues.map((i: { path: string[] }) => i.path.join("."));
+    if (!paths.includes("sku") || !paths.includes("qty")) {
+      throw new Error(`issues mismatch ${JSON.stringify(j.issues)}`);
+    }
+  });
+
+  await t.step(
+    "parser functions enforced, inert metadata ignored",
+    async () => {
+      const ok = await send("/inert/a?n=2");
+      const j = await ok.json();
+      if (j.n !== 3 || j.id !== "a") throw new Error(JSON.stringify(j));
+
+      const r = await send("/inert/a");
+      const e = await r.json();
+      if (r.status !== 400 || e.issues[0].message !== "n required") {
+        throw new Error(`unexpected ${r.status} ${JSON.stringify(e)}`);
+      }
+    },
+  );
+
+  await t.step("response drift is only checked when enabled", async () => {
+    const off = await send("/drift");
+    await off.text();
+    if (off.status !== 200) throw new Error(`status ${off.status}`);
+
+    app.validateResponses();
+    const on = await send("/drift");
+    const j = await on.json();
+    if (on.status !== 500 || j.target !== "response") {
+      throw new Error(`unexpected ${on.status} ${JSON.stringify(j)}`);
+    }
+    app.validateResponses(false);
+  });
+});
+
+Deno.test("cookies: parse, serialize, merge and signed rotation", async (t) => {
+  await t.step("parse and serialize", () => {
+    const parsed = parseCookieHeader('a=1; b="x%20y"; a=2; bad; =z; c=%E0');
+    if (parsed.a !== "1" || parsed.b !== "x y" || parsed.c !== "%E0") {
+      throw new Error(`parse mismatch ${JSON.stringify(parsed)}`);
+    }
+
+    const sc = serializeCookie("theme", "dark mode", {
+      path: "/",
+      maxAge: 60,
+      httpOnly: true,
+      secure: true,
+      sameSite: "None",
+      partitioned: true,
+    });
+    const expected =
+      "theme=dark%20mode; Max-Age=60; Path=/; HttpOnly; Secure; SameSite=None; Partitioned";
+    if (sc !== expected) throw new Error(`serialize mismatch ${sc}`);
+
+    const throws = (fn: () => unknown, label: string) => {
+      try {
+        fn();
+      } catch {
+        return;
+      }
+      throw new Error(`expected throw: ${label}`);
+    };
+    throws(() => serializeCookie("a b", "x"), "bad name");
+    throws(() => serializeCookie("a", "x", { sameSite: "None" }), "None");
+    throws(() => serializeCookie("a", "x", { partitioned: true }), "CHIPS");
+    throws(
+      () => serializeCookie("__Host-a", "x", { secure: true, path: "/x" }),
+      "__Host-",
+    );
+  });
+
+  // deno-lint-ignore ban-types
+  const app = Application.sharedState<{}>({});
+  app.cookieSecrets(["new-secret", "old-secret"]);
+
+  app.use(async (c, next) => {
+    c.setCookie("seen", "mw", { path: "/" });
+    return await next();
+  });
+
+  app.get(
+    "/read",
+    (c) => c.json({ theme: c.getCookie("theme") ?? null, all: c.getCookies() }),
+  );
+
+  app.get("/set", (c) => {
+    c.setCookie("seen", "handler", { path: "/" });
+    c.deleteCookie("legacy", { path: "/" });
+    return Response.redirect("http://localhost/read", 302);
+  });
+
+  app.get("/signed/set", async (c) => {
+    await c.setSignedCookie("uid", "u.42", { httpOnly: true });
+    return c.text("ok");
+  });
+
+  app.get(
+    "/signed/get",
+    async (c) => c.json({ uid: (await c.getSignedCookie("uid")) ?? null }),
+  );
+
+  app.get("/boom", (c) => {
+    c.setCookie("err", "1");
+    throw new Error("boom");
+  });
+  app.onError((_err, c) => c.text("handled", { status: 500 }));
+
+  const send = (path: string, cookie?: string) =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        headers: cookie ? { cookie } : {},
+      }),
+    );
+
+  await t.step("handler reads request cookies", async () => {
+    const r = await send("/read", "theme=dark; other=1");
+    const j = await r.json();
+    if (j.theme !== "dark" || j.all.other !== "1") {
+      throw new Error(`unexpected ${JSON.stringify(j)}`);
+    }
+  });
+
+  await t.step(
+    "Set-Cookie merged into immutable responses, last write wins",
+    async () => {
+      const r = await send("/set");
+      await drain(r);
+      if (r.status !== 302) throw new Error(`status ${r.status}`);
+      const set = r.headers.getSetCookie();
+      if (set.length !== 2) throw new Error(`set-cookie ${set.join(" | ")}`);
+      if (set[0] !== "seen=handler; Path=/") throw new Error(set[0]);
+      if (!/^legacy=; Max-Age=0; Expires=Thu, 01 Jan 1970/.test(set[1])) {
+        throw new Error(set[1]);
+      }
+    },
+  );
+
+  await t.step("onError responses keep cookies", async () => {
+    const r = await send("/boom");
+    await drain(r);
+    const set = r.headers.getSetCookie();
+    if (r.status !== 500 || !set.includes("err=1")) {
+      throw new Error(`unexpected ${r.status} ${set.join(" | ")}`);
+    }
+  });
+
+  await t.step("signed cookies verify across key rotation", async () => {
+    const r = await send("/signed/set");
+    await drain(r);
+    const set = r.headers.getSetCookie().find((v) => v.startsWith("uid="))!;
+    const value = set.slice(0, set.indexOf(";"));
+    const ok = await (await send("/signed/get", value)).json();
+    if (ok.uid !== "u.42") throw new Error(`uid ${ok.uid}`);
+
+    const old = await signCookieValue("uid", "u.7", "old-secret");
+    const rotated = await (await send("/signed/get", `uid=${old}`)).json();
+    if (rotated.uid !== "u.7") throw new Error(`rotated ${rotated.uid}`);
+
+    const forged = await signCookieValue("uid", "u.1", "attacker");
+    const bad = await (await send("/signed/get", `uid=${forged}`)).json();
+    if (bad.uid !== null) throw new Error("forged cookie accepted");
+
+    const renamed = await signCookieValue("other", "u.1", "new-secret");
+    const moved = await (await send("/signed/get", `uid=${renamed}`)).json();
+    if (moved.uid !== null) throw new Error("cookie accepted under new name");
+  });
+});
+
+Deno.test("problem details: HttpProblem, negotiation, and defaults", async (t) => {
+  const app = Application.sharedState({});
+  app.get("/teapot", () => {
+    throw new HttpProblem(409, {
+      type: "https://example.test/problems/out-of-stock",
+      detail: "Item <b>42</b> is out of stock",
+      extensions: { sku: "42", status: "ignored" },
+      headers: { "retry-after": "30" },
+    });
+  });
+  app.get("/crash", () => {
+    throw new Error("db password is hunter2");
+  });
+  app.post("/only-post", (c) => c.text("ok"));
+
+  const send = (path: string, accept?: string, method = "GET") =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: accept ? { accept } : {},
+      }),
+    );
+
+  await t.step("thrown HttpProblem renders as problem+json", async () => {
+    const r = await send("/teapot");
+    if (r.status !== 409) throw new Error(`status ${r.status}`);
+    if (r.headers.get("content-type") !== "application/problem+json") {
+      throw new Error("content-type mismatch");
+    }
+    if (r.headers.get("retry-after") !== "30") throw new Error("headers lost");
+    const p = await r.json();
+    if (
+      p.type !== "https://example.test/problems/out-of-stock" ||
+      p.title !== "Conflict" || p.status !== 409 || p.sku !== "42"
+    ) throw new Error(`unexpected ${JSON.stringify(p)}`);
+  });
+
+  await t.step("browsers get an escaped HTML rendition", async () => {
+    const r = await send(
+      "/teapot",
+      "text/html,application/xhtml+xml,*/*;q=0.8",
+    );
+    if (!r.headers.get("content-type")!.startsWith("text/html")) {
+      throw new Error("expected html");
+    }
+    const html = await r.text();
+    if (!html.includes("<h1>Conflict</h1>")) throw new Error(html);
+    if (html.includes("<b>42</b>")) throw new Error("detail not escaped");
+  });
+
+  await t.step("unknown errors are opaque 500 problems", async () => {
+    const r = await send("/crash");
+    const p = await r.json();
+    if (r.status !== 500 || p.title !== "Internal Server Error") {
+      throw new Error(`unexpected ${JSON.stringify(p)}`);
+    }
+    if (JSON.stringify(p).includes("hunter2")) throw new Error("leaked");
+  });
+
+  await t.step("404 and 405 are problems too", async () => {
+    const missing = await send("/nope");
+    const p404 = await missing.json();
+    if (missing.status !== 404 || p404.detail !== "No route for GET /nope") {
+      throw new Error(`unexpected ${JSON.stringify(p404)}`);
+    }
+    const wrong = await send("/only-post");
+    const p405 = await wrong.json();
+    if (
+      wrong.status !== 405 || wrong.headers.get("allow") !== "OPTIONS, POST"
+    ) {
+      throw new Error(`unexpected ${JSON.stringify(p405)}`);
+    }
+  });
+
+  await t.step("cx handlers can throw HttpProblem", async () => {
+    const actions = actionSchemas({
+      save: (u: unknown) => decodeCxEnvelope(u),
+    });
+    const cx = createCx<
+      Record<string, never>,
+      Record<string, never>,
+      typeof actions
+    >(
+      actions,
+    );
+    const result = await cx.server.dispatchFromRequestJson(
+      new Request("http://localhost/cx", { method: "POST" }),
+      {
+        kind: "cx/interaction",
+        domEvent: "click",
+        spec: "action:save",
+        element: { tag: "button" },
+        client: {
+          sessionId: "s",
+          requestId: "r",
+          href: "http://localhost/",
+          pathname: "/",
+          search: "",
+          ts: 0,
+        },
+      },
+      {},
+      {},
+      {
+        save: () => {
+          throw new HttpProblem(409, { detail: "stale form" });
+        },
+      },
+    );
+    const r = cx.server.toResponse(result);
+    const p = await r.json();
+    if (r.status !== 409 || p.detail !== "stale form") {
+      throw new Error(`unexpected ${JSON.stringify(p)}`);
+    }
+
+    const plain = cx.server.toResponse({
+      ok: false,
+      status: 400,
+      message: "bad cx spec",
+    });
+    const pp = await plain.json();
+    if (pp.type !== "urn:continuux:problem:cx" || pp.detail !== "bad cx spec") {
+      throw new Error(`unexpected ${JSON.stringify(pp)}`);
+    }
+  });
+
+  await t.step("onError can delegate to HttpProblem.from", async () => {
+    const seen: unknown[] = [];
+    app.onError((err, c) => {
+      seen.push(err);
+      return HttpProblem.from(err).toResponse(c.req);
+    });
+    const r = await send("/teapot");
+    await r.body?.cancel();
+    if (r.status !== 409 || !(seen[0] instanceof HttpProblem)) {
+      throw new Error("onError did not see the problem");
+    }
+  });
+
+  await t.step("mounted child errors reach the parent", async () => {
+    const child = Application.sharedState({});
+    child.get("/boom", () => {
+      throw new Error("child failed");
+    });
+    const parent = Application.sharedState({});
+    const observed: unknown[] = [];
+    parent.use(observe({ onError: (_c, err) => observed.push(err) }));
+    parent.mount("/kid", child);
+    parent.onError((err, c) =>
+      c.text(`parent handled: ${(err as Error).message}`, { status: 500 })
+    );
+    const r = await parent.fetch(new Request("http://localhost/kid/boom"));
+    if ((await r.text()) !== "parent handled: child failed") {
+      throw new Error("parent onError did not run");
+    }
+    if ((observed[0] as Error)?.message !== "child failed") {
+      throw new Error("observe hooks did not see the child error");
+    }
+
+    // A child with its own onError still answers for itself.
+    child.onError((_err, c) => c.text("child handled", { status: 500 }));
+    const own = await parent.fetch(new Request("http://localhost/kid/boom"));
+    if ((await own.text()) !== "child handled") {
+      throw new Error("child onError should win");
+    }
+  });
+});
+
+Deno.test("serve: graceful shutdown drains SSE and in-flight requests", async (t) => {
+  const app = Application.sharedState({});
+  const reasons: unknown[] = [];
+  let slowDone = false;
+
+  app.get("/events", (c) =>
+    c.sse<{ tick: number }>(async (session) => {
+      await session.sendWhenReady("tick", 1);
+    }));
+  app.get("/slow", async (c) => {
+    await delay(100);
+    slowDone = true;
+    return c.text("slow ok");
+  });
+  app.get("/stuck", (c) =>
+    new Promise<Response>((resolve) => {
+      c.shutdownSignal.addEventListener("abort", () => {
+        reasons.push(c.shutdownSignal.reason);
+      });
+      c.req.signal.addEventListener("abort", () => {
+        resolve(c.text("aborted", { status: 503 }));
+      });
+    }));
+  const child = Application.sharedState({});
+  let childShutdown: unknown;
+  child.get("/events", (c) => {
+    c.shutdownSignal.addEventListener("abort", () => {
+      childShutdown = c.shutdownSignal.reason;
+    });
+    return c.sse<{ tick: number }>(async (session) => {
+      await session.sendWhenReady("tick", 2);
+    });
+  });
+  app.mount("/kid", child);
+
+  const server = app.serve({
+    hostname,
+    port: 0,
+    onListen: () => {},
+    signals: false,
+    reconnectMs: 250,
+  });
+  const baseUrl = `http://${hostname}:${(server.addr as Deno.NetAddr).port}`;
+
+  const events = await fetch(`${baseUrl}/events`);
+  const childEvents = await fetch(`${baseUrl}/kid/events`);
+  const slow = fetch(`${baseUrl}/slow`);
+  const stuck = fetch(`${baseUrl}/stuck`);
+  await delay(30);
+  if (server.inFlight() < 4) throw new Error("expected in-flight requests");
+
+  const done = server.shutdown({ graceMs: 300 });
+  if (server.shutdown() !== done) throw new Error("shutdown not idempotent");
+
+  await t.step("SSE clients get a final shutdown event", async () => {
+    const { text, messages } = await readSseUntil(
+      events,
+      ({ messages }) => messages.some((m) => m.event === "shutdown"),
+    );
+    await cancelQuietly(events);
+    if (!messages.some((m) => m.event === "tick")) {
+      throw new Error("missing tick event");
+    }
+    if (!text.includes("retry: 250")) throw new Error("missing retry hint");
+    const final = messages.find((m) => m.event === "shutdown");
+    if (final?.data !== '{"retryMs":250}') {
+      throw new Error("shutdown event data mismatch");
+    }
+  });
+
+  await t.step("mounted child apps drain with the parent", async () => {
+    const { messages } = await withTimeout(
+      readSseUntil(
+        childEvents,
+        ({ messages }) => messages.some((m) => m.event === "shutdown"),
+      ),
+      1500,
+      "child SSE shutdown",
+    );
+    await cancelQuietly(childEvents);
+    if (!messages.some((m) => m.event === "tick")) {
+      throw new Error("missing child tick event");
+    }
+    if (!(childShutdown instanceof ServerShutdown)) {
+      throw new Error("child shutdownSignal did not abort");
+    }
+  });
+
+  await t.step(
+    "in-flight requests finish within the grace period",
+    async () => {
+      const r = await withTimeout(slow, 1500, "slow request");
+      if ((await r.text()) !== "slow ok") throw new Error("slow body mismatch");
+      if (!slowDone) throw new Error("slow handler did not finish");
+    },
+  );
+
+  await t.step("requests past the grace period are aborted", async () => {
+    const r = await withTimeout(stuck, 1500, "stuck request");
+    if (r.status !== 503) throw new Error("stuck request not aborted");
+    await cancelQuietly(r);
+    if (!(reasons[0] instanceof ServerShutdown)) {
+      throw new Error("shutdownSignal reason mismatch");
+    }
+  });
+
+  await t.step("server finishes and stops accepting", async () => {
+    await withTimeout(done, 1500, "shutdown");
+    await withTimeout(server.finished, 1500, "finished");
+    if (server.inFlight() !== 0) throw new Error("in-flight not drained");
+    let refused = false;
+    try {
+      await (await fetch(`${baseUrl}/slow`)).body?.cancel();
+    } catch {
+      refused = true;
+    }
+    if (!refused) throw new Error("server still accepting connections");
+  });
+});
@@ -48,7 +48,8 @@
  * - `dispatchFromRequestJson` decodes and validates inbound envelopes, ensures
  *   the action prefix matches, validates payloads with the corresponding schema,
  *   then calls the matching typed handler.
- * - `toResponse` converts the handler result to an HTTP `Response` (204 on ok).
+ * - `toResponse` converts the handler result to an HTTP `Response` (204 on ok,
+ *   RFC 9457 problem+json on failure; handlers may throw `HttpProblem`).
  * - `uaModuleResponse` serves the browser UA module with the correct headers.
  *
  * 4) SSE hub (typed server -> client events)
@@ -78,7 +79,7 @@
 
 import type { Attrs, RawHtml } from "../natural-html/elements.ts";
 import { script, trustedRaw } from "../natural-html/elements.ts";
-import type { SseEventMap } from "./http.ts";
+import { HttpProblem, problemResponse, type SseEventMap } from "./http.ts";
 import type {
   CxDomEventName,
   CxHandlerResult,
@@ -90,6 +91,7 @@ import type {
 } from "./interaction.ts";
 import {
   createSseHub,
+  cxProblemResult,
   decodeCxEnvelope,
   userAgentAide,
 } from "./interaction.ts";
@@ -222,6 +224,7 @@ export type CxKit<
       sseWithCredentials?: boolean;
       postUrl?: string;
       sseUrl?: string;
+      headers?: Record<string, string>;
       attrs?: Attrs;
     }) => RawHtml;
 
@@ -310,7 +313,7 @@ export type CxKit<
       state: State,
       vars: Vars,
       handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>,
-      opts?: { sse?: CxSseHub<SseOut> },
+      opts?: { sse?: CxSseHub<SseOut>; sessionId?: string },
     ) => Promise<CxHandlerResult>;
 
     toResponse: (r: CxHandlerResult) => Response;
@@ -400,6 +403,8 @@ export const createCx = <
       sseWithCredentials?: boolean;
       postUrl?: string;
       sseUrl?: string;
+      /** Sent with every envelope POST, e.g. `c.vars.csrf.headers()`. */
+      headers?: Record<string, string>;
     } = {}): string => {
       // Delegate to interaction.ts aide for consistent boot snippet.
       // Then optionally layer in additional keys your browser UA supports.
@@ -421,6 +426,7 @@ export const createCx = <
         sseJsEventName: opts.sseJsEventName,
         ssePatchEventName: opts.ssePatchEventName,
         attrPrefix: opts.attrPrefix ?? config.attrPrefix,
+        headers: opts.headers,
       });
 
       return base;
@@ -438,6 +444,7 @@ export const createCx = <
       sseWithCredentials?: boolean;
       postUrl?: string;
       sseUrl?: string;
+      headers?: Record<string, string>;
       attrs?: Attrs;
     } = {}): RawHtml => {
       const code = html.bootModuleCode(opts);
@@ -533,7 +540,7 @@ export const createCx = <
       state: State,
       vars: Vars,
       handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>,
-      opts?: { sse?: CxSseHub<SseOut> },
+      opts?: { sse?: CxSseHub<SseOut>; sessionId?: string },
     ): Promise<CxHandlerResult> => {
       let cx: CxInbound;
       try {
@@ -590,7 +597,9 @@ export const createCx = <
         };
       }
 
-      const sessionId = cx.client.sessionId;
+      // A server-issued session id (e.g. from http-session.ts) wins over
+      // the client-supplied one so SSE sends reach the right connection.
+      const sessionId = opts?.sessionId ?? cx.client.sessionId;
       const requestId = cx.client.requestId;
 
       const ctx = {
@@ -612,6 +621,7 @@ export const createCx = <
           x: typeof ctx,
         ) => Promise<CxHandlerResult> | CxHandlerResult)(ctx);
       } catch (err) {
+        if (err instanceof HttpProblem) return cxProblemResult(err);
         const msg = String(
           err && (err as Error).message ? (err as Error).message : err,
         );
@@ -626,10 +636,11 @@ export const createCx = <
         }
         return new Response(null, { status: 204 });
       }
-      return new Response(r.message, {
-        status: r.status,
-        headers: { "content-type": "text/plain; charset=utf-8" },
+      const problem = r.problem ?? new HttpProblem(r.status, {
+        type: "urn:continuux:problem:cx",
+        detail: r.message,
       });
+      return problemResponse(problem, undefined, r.headers);
     },
 
     sseHub: (): CxSseHub<SseOut> => createSseHub<SseOut>(),
@@ -664,6 +675,7 @@ export const cxPostHandler = async <
     vars: Vars;
     handlers: CxActionHandlers<State, Vars, Schemas, SseOut, Prefix>;
     sse?: CxSseHub<SseOut>;
+    sessionId?: string;
   },
 ): Promise<CxHandlerResult> =>
   await cx.server.dispatchFromRequestJson(
@@ -672,7 +684,7 @@ export const cxPostHandler = async <
     args.state,
     args.vars,
     args.handlers,
-    { sse: args.sse },
+    { sse: args.sse, sessionId: args.sessionId },
   );
 
 /* =========================
@@ -70,12 +70,13 @@
  * through typed JavaScript instructions.
  */
 
-import type {
-  HandlerCtx,
-  Middleware,
-  SseEventMap,
-  SseOptions,
-  SseSession,
+import {
+  type HandlerCtx,
+  HttpProblem,
+  type Middleware,
+  type SseEventMap,
+  type SseOptions,
+  type SseSession,
 } from "./http.ts";
 import type {
   CxActionHandlers,
@@ -83,6 +84,8 @@ import type {
   CxKit,
 } from "./interaction-html.ts";
 import { cxPostHandler } from "./interaction-html.ts";
+import { metricsOf } from "./http-metrics.ts";
+import { traceOf } from "./http-trace.ts";
 
 export type AttrValue = string | number | boolean | null | undefined;
 export type Attrs = Record<string, AttrValue>;
@@ -180,7 +183,26 @@ export type CxHandlerCtx<State, Vars extends Record<string, unknown>> = {
 export type CxHandlerResult =
   | { ok: true }
   | { ok: true; headers?: HeadersInit }
-  | { ok: false; status: number; message: string };
+  | {
+    ok: false;
+    status: number;
+    message: string;
+    headers?: HeadersInit;
+    /** Rendered as-is by `toResponse`; otherwise one is built from status/message. */
+    problem?: HttpProblem;
+  };
+
+/**
+ * Failure result for an HttpProblem (thrown by, or returned from, a cx
+ * handler), keeping its status, headers, and problem details.
+ */
+export const cxProblemResult = (problem: HttpProblem): CxHandlerResult => ({
+  ok: false,
+  status: problem.status,
+  message: problem.detail ?? problem.title,
+  headers: problem.headers,
+  problem,
+});
 
 export type CxHandler<State, Vars extends Record<string, unknown>, T> = (
   ctx: CxHandlerCtx<State, Vars> & { data: T },
@@ -378,6 +400,7 @@ export const cxRouter = <
       try {
         return await r.handler(ctx as never);
       } catch (err) {
+        if (err instanceof HttpProblem) return cxProblemResult(err);
         const e = asError(err);
         return {
           ok: false,
@@ -771,6 +794,8 @@ export type UserAgentAide = {
     sseJsEventName?: string;
     ssePatchEventName?: string;
     attrPrefix?: string;
+    /** Sent with every envelope POST, e.g. `c.vars.csrf.headers()`. */
+    headers?: Record<string, string>;
   }) => string;
 };
 
@@ -830,6 +855,7 @@ export const userAgentAide = (
     sseJsEventName?: string;
     ssePatchEventName?: string;
     attrPrefix?: string;
+    headers?: Record<string, string>;
   } = {}): string => {
     const importUrl = opts.importUrl ?? cfg.defaultImportUrl ??
       "/browser-ua-aide.js";
@@ -877,6 +903,11 @@ export const userAgentAide = (
         `  preventDefaultSubmit: ${String(opts.preventDefaultSubmit)},`,
       );
     }
+    if (opts.headers && Object.keys(opts.headers).length) {
+      // Escape "<" so a header value can never close the inline <script>.
+      const json = JSON.stringify(opts.headers).replace(/</g, "\\u003c");
+      lines.push(`  headers: ${json},`);
+    }
 
     lines.push(`});`);
     return lines.join("\n");
@@ -958,6 +989,13 @@ export type CxMiddlewareBuilderMiddlewareOptions<
   onConnect?: (
     ctx: CxMiddlewareBuilderSessionContext<State, Vars, E>,
   ) => Promise<void> | void;
+  /**
+   * Server-side session id source (e.g. `(c) => c.vars.session.id` with
+   * http-session.ts). An id it returns is authoritative for both SSE
+   * registration and POST dispatch, and the client-supplied `sessionId` is
+   * ignored. When it returns null, the `sessionId` query parameter (SSE) and
+   * the envelope's `sessionId` (POST) are used as without it.
+   */
   sessionIdFrom?: (
     c: HandlerCtx<string, State, Vars>,
   ) => string | null;
@@ -1047,14 +1085,42 @@ export class CxMiddlewareBuilder<E extends SseEventMap> {
         action
       ) {
         const body = await c.readJson();
-        const result = await cxPostHandler(action.cx, {
-          req: c.req,
-          body,
-          state: c.state,
-          vars: c.vars,
-          handlers: action.handlers,
-          sse: this.hub,
-        });
+        const dispatch = () =>
+          cxPostHandler(action.cx, {
+            req: c.req,
+            body,
+            state: c.state,
+            vars: c.vars,
+            handlers: action.handlers,
+            sse: this.hub,
+            sessionId: opts.sessionIdFrom?.(c) || undefined,
+          });
+        // With tracing() active, each action dispatch gets its own span.
+        const trace = traceOf(c);
+        const rawSpec = (body as { spec?: unknown } | null)?.spec;
+        const spec = typeof rawSpec === "string" ? rawSpec : "dispatch";
+        const started = performance.now();
+        const result = trace
+          ? await trace.withSpan(`cx ${spec}`, async (span) => {
+            const r = await dispatch();
+            if (!r.ok) {
+              span.setAttribute("cx.status", r.status);
+              span.setStatus("error", r.message);
+            }
+            return r;
+          }, { attributes: { "cx.spec": spec } })
+          : await dispatch();
+        // With metrics() active, count by action name; specs that name no
+        // registered handler share one label so clients cannot add series.
+        const metrics = metricsOf(c);
+        if (metrics) {
+          const name = spec.split(":", 2)[1] ?? "";
+          metrics.cxAction(
+            Object.hasOwn(action.handlers, name) ? name : "unknown",
+            (performance.now() - started) / 1000,
+            result.ok ? undefined : result.status,
+          );
+        }
         return action.cx.server.toResponse(result);
       }
       return await next();
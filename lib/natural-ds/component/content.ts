@@ -4,6 +4,7 @@ import {
   NamingStrategy,
 } from "../../natural-html/design-system.ts";
 import * as h from "../../natural-html/elements.ts";
+import { localize } from "../../natural-html/i18n.ts";
 import {
   type Content,
   normalizeTabId,
@@ -11,6 +12,7 @@ import {
   renderContents,
   type RenderInput,
 } from "../../natural-html/patterns.ts";
+import { naturalDsMessages } from "./messages.ts";
 
 const contentStyles: ComponentStylesheets = [
   {
@@ -1133,12 +1135,14 @@ export const colorGrid = defineComponent<ColorGridProps, RenderInput>(
 
 export type FooterNavProps<Ctx extends object = RenderInput> = {
   readonly previous?: {
-    readonly label: string;
+    /** Default: the localized "Previous" label. */
+    readonly label?: string;
     readonly title: string;
     readonly href?: string;
   };
   readonly next?: {
-    readonly label: string;
+    /** Default: the localized "Next" label. */
+    readonly label?: string;
     readonly title: string;
     readonly href?: string;
   };
@@ -1147,20 +1151,32 @@ export type FooterNavProps<Ctx extends object = RenderInput> = {
 export const footerNav = defineComponent<FooterNavProps, RenderInput>(
   "FooterNav",
   contentStyles,
-  (_ctx, props) =>
+  (ctx, props) =>
     h.div(
       { class: "footer-nav" },
       props.previous
         ? h.a(
           { class: "footer-link prev", href: props.previous.href ?? "#" },
-          h.span({ class: "footer-label" }, props.previous.label),
+          h.span(
+            { class: "footer-label" },
+            props.previous.label ??
+              localize(
+                ctx.i18n,
+                naturalDsMessages,
+                "naturalDs.footerNav.previous",
+              ),
+          ),
           h.span({ class: "footer-title" }, props.previous.title),
         )
         : null,
       props.next
         ? h.a(
           { class: "footer-link next", href: props.next.href ?? "#" },
-          h.span({ class: "footer-label" }, props.next.label),
+          h.span(
+            { class: "footer-label" },
+            props.next.label ??
+              localize(ctx.i18n, naturalDsMessages, "naturalDs.footerNav.next"),
+          ),
           h.span({ class: "footer-title" }, props.next.title),
         )
         : null,
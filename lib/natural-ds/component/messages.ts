@@ -0,0 +1,54 @@
+import { defineCatalog } from "../../natural-html/i18n.ts";
+
+/**
+ * Built-in Natural DS labels, rendered through `localize(ctx.i18n, ...)` in
+ * the active translator's locale. Apps override individual labels by defining
+ * the same keys in their own catalogs; explicit props always win.
+ */
+export const naturalDsMessages = defineCatalog({
+  defaultLocale: "en",
+  messages: {
+    "naturalDs.searchBar.placeholder": "Search",
+    "naturalDs.sidebarHeader.toggleTheme": "Toggle theme",
+    "naturalDs.footerNav.previous": "Previous",
+    "naturalDs.footerNav.next": "Next",
+    "naturalDs.breadcrumbs.label": "Breadcrumb",
+  },
+  translations: {
+    es: {
+      "naturalDs.searchBar.placeholder": "Buscar",
+      "naturalDs.sidebarHeader.toggleTheme": "Cambiar tema",
+      "naturalDs.footerNav.previous": "Anterior",
+      "naturalDs.footerNav.next": "Siguiente",
+      "naturalDs.breadcrumbs.label": "Ruta de navegación",
+    },
+    fr: {
+      "naturalDs.searchBar.placeholder": "Rechercher",
+      "naturalDs.sidebarHeader.toggleTheme": "Changer de thème",
+      "naturalDs.footerNav.previous": "Précédent",
+      "naturalDs.footerNav.next": "Suivant",
+      "naturalDs.breadcrumbs.label": "Fil d’Ariane",
+    },
+    de: {
+      "naturalDs.searchBar.placeholder": "Suchen",
+      "naturalDs.sidebarHeader.toggleTheme": "Design wechseln",
+      "naturalDs.footerNav.previous": "Zurück",
+      "naturalDs.footerNav.next": "Weiter",
+      "naturalDs.breadcrumbs.label": "Brotkrumennavigation",
+    },
+    pt: {
+      "naturalDs.searchBar.placeholder": "Pesquisar",
+      "naturalDs.sidebarHeader.toggleTheme": "Alternar tema",
+      "naturalDs.footerNav.previous": "Anterior",
+      "naturalDs.footerNav.next": "Próximo",
+      "naturalDs.breadcrumbs.label": "Trilha de navegação",
+    },
+    ar: {
+      "naturalDs.searchBar.placeholder": "بحث",
+      "naturalDs.sidebarHeader.toggleTheme": "تبديل السمة",
+      "naturalDs.footerNav.previous": "السابق",
+      "naturalDs.footerNav.next": "التالي",
+      "naturalDs.breadcrumbs.label": "مسار التنقل",
+    },
+  },
+});
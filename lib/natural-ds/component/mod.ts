@@ -1,6 +1,7 @@
 export * from "./breadcrumbs.ts";
 export * from "./content.ts";
 export * from "./context-header.ts";
+export * from "./messages.ts";
 export * from "./sidebar.ts";
 export * from "./toc.ts";
 export * from "./pitch.ts";
@@ -5,12 +5,14 @@ import {
   NamingStrategy,
 } from "../../natural-html/design-system.ts";
 import * as h from "../../natural-html/elements.ts";
+import { localize } from "../../natural-html/i18n.ts";
 import {
   type Content,
   renderContent,
   renderContents,
   type RenderInput,
 } from "../../natural-html/patterns.ts";
+import { naturalDsMessages } from "./messages.ts";
 
 const sidebarStyles: ComponentStylesheets = [
   {
@@ -310,14 +312,22 @@ export const sidebarHeader = defineComponent<
         h.span(props.label),
       ),
       h.button(
-        { class: ctx.cls("theme-toggle"), "aria-label": "Toggle theme" },
+        {
+          class: ctx.cls("theme-toggle"),
+          "aria-label": localize(
+            ctx.i18n,
+            naturalDsMessages,
+            "naturalDs.sidebarHeader.toggleTheme",
+          ),
+        },
         renderContent(ctx, props.toggleIcon),
       ),
     ),
 );
 
 export type SearchBarProps<Ctx extends object = RenderInput> = {
-  readonly placeholder: string;
+  /** Default: the localized "Search" label. */
+  readonly placeholder?: string;
   readonly icon?: Content<Ctx, NamingStrategy>;
   readonly shortcut?: readonly string[];
 };
@@ -332,7 +342,15 @@ export const searchBar = defineComponent<SearchBarProps, RenderInput>(
       h.div(
         { class: ctx.cls("search-left") },
         renderContent(ctx, props.icon),
-        h.span({ class: ctx.cls("search-placeholder") }, props.placeholder),
+        h.span(
+          { class: ctx.cls("search-placeholder") },
+          props.placeholder ??
+            localize(
+              ctx.i18n,
+              naturalDsMessages,
+              "naturalDs.searchBar.placeholder",
+            ),
+        ),
       ),
       h.div(
         { class: ctx.cls("search-shortcut") },
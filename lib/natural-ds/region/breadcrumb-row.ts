@@ -5,7 +5,9 @@ import {
   slots,
 } from "../../natural-html/design-system.ts";
 import * as h from "../../natural-html/elements.ts";
+import { localize } from "../../natural-html/i18n.ts";
 import type { RenderInput } from "../../natural-html/patterns.ts";
+import { naturalDsMessages } from "../component/messages.ts";
 
 export const breadcrumbRowRegion = defineRegion({
   name: "BreadcrumbRow",
@@ -16,7 +18,11 @@ export const breadcrumbRowRegion = defineRegion({
     h.nav(
       {
         class: "breadcrumb-row",
-        "aria-label": "Breadcrumb",
+        "aria-label": localize(
+          ctx.i18n,
+          naturalDsMessages,
+          "naturalDs.breadcrumbs.label",
+        ),
         style: ctx.css({
           gridColumn: "2 / 4",
           gridRow: "2",
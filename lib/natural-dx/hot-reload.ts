@@ -26,6 +26,9 @@
  *
  * 3. Restarting the process (e.g., via `deno run --watch`) terminates the SSE stream,
  *    which triggers the injected watcher to reload the page automatically.
+ *    When the app is served with `app.serve()`, a graceful shutdown first sends a
+ *    `shutdown` event; the watcher then waits for the restarted server to accept
+ *    the reconnect before reloading.
  *
  * 4. Optionally trigger manual reloads from anywhere on the server:
  *
@@ -39,7 +42,12 @@
  * The hub exposes `assets` for advanced use (custom stream/reload paths or manual script
  * placement) and `broadcastReloadEvent()` for server-driven refreshes.
  */
-import type { Middleware, VarsRecord } from "../continuux/http.ts";
+import {
+  type Middleware,
+  ServerShutdown,
+  sseShutdownEvent,
+  type VarsRecord,
+} from "../continuux/http.ts";
 import type { RawHtml } from "../natural-html/elements.ts";
 import { scriptJs } from "../natural-html/elements.ts";
 
@@ -110,6 +118,7 @@ export function devExperience(
   const eventName = ${JSON.stringify(reloadEvent)};
   const initOptions = ${initOptionsLiteral};
   let reloadScheduled = false;
+  let serverRestarting = false;
   const log = (...args) => {
     if (typeof console === "object" && typeof console.debug === "function") {
       console.debug("[natural:reload]", ...args);
@@ -126,9 +135,15 @@ export function devExperience(
     : new EventSource(streamUrl);
   source.addEventListener("open", () => {
     log("connected to reload stream", streamUrl);
+    if (serverRestarting) reloadNow();
+  });
+  source.addEventListener(${JSON.stringify(sseShutdownEvent)}, () => {
+    log("server draining → reloading after reconnect");
+    serverRestarting = true;
   });
   source.addEventListener("error", (event) => {
     log("reload stream error", event);
+    if (serverRestarting) return;
     if (source.readyState === EventSource.CONNECTING) {
       log("reload stream reconnecting → forcing reload");
       reloadNow();
@@ -180,15 +195,44 @@ export function hotReloadAide<
   const assets = devExperience(options);
   const streamClients = new Set<ReadableStreamDefaultController<string>>();
 
-  function createReloadStream(): ReadableStream<string> {
+  function createReloadStream(
+    shutdownSignal: AbortSignal,
+  ): ReadableStream<string> {
     let controllerRef: ReadableStreamDefaultController<string> | null = null;
+    // A draining server tells the watcher it is restarting, so the next
+    // successful reconnect (not the disconnect itself) reloads the page.
+    const onShutdown = () => {
+      const controller = controllerRef;
+      if (!controller) return;
+      streamClients.delete(controller);
+      controllerRef = null;
+      const retry = shutdownSignal.reason instanceof ServerShutdown
+        ? shutdownSignal.reason.retryMs
+        : 1000;
+      try {
+        controller.enqueue(
+          assets.formatEvent(sseShutdownEvent, {
+            retry,
+            data: JSON.stringify({ retryMs: retry }),
+          }),
+        );
+        controller.close();
+      } catch {
+        // already closed
+      }
+    };
     return new ReadableStream({
       start(controller) {
         controllerRef = controller;
         streamClients.add(controller);
         controller.enqueue(": connected\n\n");
+        if (shutdownSignal.aborted) onShutdown();
+        else {
+          shutdownSignal.addEventListener("abort", onShutdown, { once: true });
+        }
       },
       cancel() {
+        shutdownSignal.removeEventListener("abort", onShutdown);
         if (controllerRef) {
           streamClients.delete(controllerRef);
           controllerRef = null;
@@ -263,7 +307,7 @@ export function hotReloadAide<
   const middleware: Middleware<State, Vars> = async (ctx, next) => {
     const url = new URL(ctx.req.url);
     if (ctx.req.method === "GET" && url.pathname === assets.streamPath) {
-      return new Response(createReloadStream(), {
+      return new Response(createReloadStream(ctx.shutdownSignal), {
         headers: DEFAULT_SSE_HEADERS,
       });
     }
@@ -173,6 +173,16 @@
  *
  * 3. Let the server expose ds.uaRoutes() and inject ds.uaHeadTags()
  *
+ * 4. Stream pages whose slots wait on slow data:
+ *
+ *   const stream = h.renderStream(ds.page("AppShell", renderCtx, {
+ *     slots: { content: ctx => h.deferred(loadRows().then(rows => table(ctx, rows))) },
+ *   }));
+ *
+ *   The head (with UA dependency tags) and shell flush immediately; deferred
+ *   slots follow in document order. Component styles and scripts registered
+ *   inside deferred content are not collected, since the head is already sent.
+ *
  * Philosophy
  * ----------
  * This module favors:
@@ -185,6 +195,7 @@
  */
 import * as h from "./elements.ts";
 import type { RawHtml, StyleAttributeEmitStrategy } from "./elements.ts";
+import type { Translator } from "./i18n.ts";
 import {
   browserUserAgentHeadTags,
   collectStyleAttributeCss,
@@ -250,6 +261,8 @@ type RenderCtxBase<N extends NamingStrategy = NamingStrategy> = {
   readonly scripts: ScriptRegistry;
   readonly trace: TraceSink;
   readonly policy: DsPolicies;
+  /** Active translator; components render built-in labels in its locale. */
+  readonly i18n?: Translator;
 };
 
 type EmptyObject = Record<PropertyKey, never>;
@@ -693,6 +706,8 @@ export type RenderOptionsFor<
   readonly slots: SlotBuilders<L["slots"], Ctx, NS>;
   readonly styleAttributeEmitStrategy?: StyleAttributeEmitStrategy;
   readonly scriptEmitStrategy?: ScriptEmitStrategy;
+  /** Exposed as `ctx.i18n`; `page()` also sets `<html lang dir>`. */
+  readonly i18n?: Translator;
 };
 
 type HeadSlotsFor<
@@ -845,6 +860,7 @@ export function createDesignSystem<
             options.slots,
             options.styleAttributeEmitStrategy,
             options.scriptEmitStrategy,
+            options.i18n,
           ),
         renderPretty: (layoutName, renderCtx, options) =>
           renderInternal(
@@ -859,6 +875,7 @@ export function createDesignSystem<
             options.slots,
             options.styleAttributeEmitStrategy,
             options.scriptEmitStrategy,
+            options.i18n,
           ),
         page: (layoutName, renderCtx, options) =>
           renderPageInternal(
@@ -877,6 +894,7 @@ export function createDesignSystem<
               | undefined,
             options.styleAttributeEmitStrategy,
             options.scriptEmitStrategy,
+            options.i18n,
           ),
       };
 
@@ -909,6 +927,7 @@ function renderInternal<Ctx extends object, NS extends NamingStrategy>(
   layoutSlots: Record<string, SlotBuilder<Ctx, NS>>,
   styleAttributeEmitStrategy?: StyleAttributeEmitStrategy,
   scriptEmitStrategy?: ScriptEmitStrategy,
+  i18n?: Translator,
 ): RawHtml {
   if (policy.rawPolicy) h.setRawPolicy(policy.rawPolicy);
 
@@ -929,6 +948,7 @@ function renderInternal<Ctx extends object, NS extends NamingStrategy>(
     scripts: createScriptRegistry(),
     trace,
     policy,
+    i18n,
   };
 
   const ctxBase: RenderCtx<Ctx, NS> = { ...renderCtx, ...ctxBaseFields };
@@ -988,6 +1008,7 @@ function renderPageInternal<Ctx extends object, NS extends NamingStrategy>(
   headSlotsIn: Record<string, SlotBuilder<Ctx, NS>> | undefined,
   styleAttributeEmitStrategy?: StyleAttributeEmitStrategy,
   scriptEmitStrategy?: ScriptEmitStrategy,
+  i18n?: Translator,
 ): RawHtml {
   if (policy.rawPolicy) h.setRawPolicy(policy.rawPolicy);
 
@@ -1008,6 +1029,7 @@ function renderPageInternal<Ctx extends object, NS extends NamingStrategy>(
     scripts: createScriptRegistry(),
     trace,
     policy,
+    i18n,
   };
 
   const ctxBase: RenderCtx<Ctx, NS> = { ...renderCtx, ...ctxBaseFields };
@@ -1092,10 +1114,14 @@ function renderPageInternal<Ctx extends object, NS extends NamingStrategy>(
   const bodyWithScripts = scriptPlan.bodyScripts.length > 0
     ? combineHast(body, ...scriptPlan.bodyScripts)
     : body;
-  const page = h.html(
-    h.head(...headChildren),
-    h.body(bodyWithScripts),
-  );
+  const head = h.head(...headChildren);
+  const page = i18n
+    ? h.html(
+      { lang: i18n.locale, dir: i18n.dir },
+      head,
+      h.body(bodyWithScripts),
+    )
+    : h.html(head, h.body(bodyWithScripts));
   const doc = h.doctype();
 
   return combineHast(doc, page);
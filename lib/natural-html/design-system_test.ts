@@ -576,3 +576,51 @@ Deno.test("fluent-ds: script contributions emit by hints", () => {
     `<!doctype html><html><head><script>console.log("layout");</script></head><body><div><main><div>Widget</div></main></div><script>console.log("widget");</script></body></html>`,
   );
 });
+
+Deno.test("fluent-ds: page streams shell first, deferred regions later", async () => {
+  const stats = defineRegion({
+    name: "Stats",
+    slots: slots({ required: ["body"] as const }),
+    render: (ctx, s) => h.div({ class: ctx.cls("stats") }, s.body(ctx)),
+  });
+  const shell = defineLayout({
+    name: "Shell",
+    slots: slots({ required: ["title", "stats"] as const }),
+    headSlots: slots({ required: ["title"] as const }),
+    render: (ctx: RenderCtx<RenderInput, NamingStrategy>, api, s) =>
+      h.main(
+        h.h1(s.title(ctx)),
+        api.region("Stats", { body: s.stats }),
+      ),
+  });
+  const ds = createDesignSystem<RenderInput>("stream", naming)
+    .policies({ wrappers: { enabled: false } })
+    .uaDependencies([h.uaDepCssRef("/_ua/stream.css", "/abs/stream.css")])
+    .region(stats)
+    .layout(shell)
+    .build();
+
+  let release!: () => void;
+  const loaded = new Promise<void>((r) => release = r);
+  const reader = h.renderStream(
+    ds.page("Shell", {}, {
+      headSlots: { title: () => h.text("Dashboard") },
+      slots: {
+        title: () => h.text("Dashboard"),
+        stats: () => h.deferred(loaded.then(() => h.p("42 visits"))),
+      },
+    }),
+  ).getReader();
+  const decoder = new TextDecoder();
+
+  assertEquals(
+    decoder.decode((await reader.read()).value),
+    '<!doctype html><html><head><link href="/_ua/stream.css" rel="stylesheet"><title>Dashboard</title></head><body><main><h1>Dashboard</h1><div class="region-stats">',
+  );
+  release();
+  assertEquals(
+    decoder.decode((await reader.read()).value),
+    "<p>42 visits</p></div></main></body></html>",
+  );
+  assertEquals((await reader.read()).done, true);
+});
@@ -15,8 +15,28 @@ import type {
   RawHtml,
   UaDependency,
 } from "./elements.ts";
+import { defineCatalog, localize, type Translator } from "./i18n.ts";
 import { z } from "@zod";
 
+/**
+ * Built-in dialog labels. Apps override them by defining the same keys in
+ * their own catalogs.
+ */
+export const dialogMessages = defineCatalog({
+  defaultLocale: "en",
+  messages: {
+    "dialog.submit": "Submit",
+    "dialog.cancel": "Cancel",
+  },
+  translations: {
+    es: { "dialog.submit": "Enviar", "dialog.cancel": "Cancelar" },
+    fr: { "dialog.submit": "Envoyer", "dialog.cancel": "Annuler" },
+    de: { "dialog.submit": "Absenden", "dialog.cancel": "Abbrechen" },
+    pt: { "dialog.submit": "Enviar", "dialog.cancel": "Cancelar" },
+    ar: { "dialog.submit": "إرسال", "dialog.cancel": "إلغاء" },
+  },
+});
+
 /**
  * Narrow the Zod object shape we can work with.
  */
@@ -265,6 +285,8 @@ export interface DialogRenderOptions<Schema extends DialogZodObject> {
     string | number | boolean | null | undefined
   >;
   readonly classes?: DialogClassNames;
+  /** Localizes default submit/cancel labels (see `dialogMessages`). */
+  readonly i18n?: Translator;
 }
 
 export interface Dialog<Schema extends DialogZodObject> {
@@ -695,7 +717,8 @@ function createDialogImpl<Schema extends DialogZodObject>(
         }
       }
 
-      const defaultSubmit = opts.submit?.label ?? "Submit";
+      const defaultSubmit = opts.submit?.label ??
+        localize(opts.i18n, dialogMessages, "dialog.submit");
       const submitAttrs = mergeAttrsWithClass(
         { type: "submit", class: effectiveClasses.actionPrimary },
         opts.submit?.attrs,
@@ -704,7 +727,8 @@ function createDialogImpl<Schema extends DialogZodObject>(
 
       let cancelNode: RawHtml | null = null;
       if (opts.cancel) {
-        const text = opts.cancel.label ?? "Cancel";
+        const text = opts.cancel.label ??
+          localize(opts.i18n, dialogMessages, "dialog.cancel");
         const baseCancel = opts.cancel.href
           ? { class: effectiveClasses.actionSecondary, href: opts.cancel.href }
           : { type: "button", class: effectiveClasses.actionSecondary };
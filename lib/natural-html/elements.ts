@@ -58,7 +58,18 @@
  * - `each(iterable, fn)` to build children from iterables with index support.
  * - `children(builder)` to author complex child trees with an emitter callback.
  *
- * 6) Minimal DOM interop contract
+ * 6) Progressive streaming
+ * - `deferred(promise)` marks a subtree whose content is still loading (slow
+ *   data in one region, for example). The marker is an ordinary node, so it
+ *   passes through regions, layouts, and `DesignSystem.page()` untouched.
+ * - `renderStream(parts)` returns a `ReadableStream<Uint8Array>` that flushes
+ *   everything before the first deferred subtree immediately (doctype, `<head>`
+ *   with UA dependency tags, and the page shell), then streams each deferred
+ *   subtree in document order as it resolves. No client script is needed.
+ * - `render()` does not wait: a deferred subtree serializes as an empty
+ *   `<!--deferred-->` comment.
+ *
+ * 7) Minimal DOM interop contract
  * - `DomNodeLike` exists as a structural type (`{ nodeType: number }`) to avoid `lib=dom` coupling.
  *   Server rendering does not accept DOM nodes as children; if a DOM node slips through, an error is thrown.
  *
@@ -705,6 +716,145 @@ export const renderPretty: RenderPretty = (...parts) => {
   return toHtmlPrettyFromNodes(nodes);
 };
 
+/* -----------------------------------------------------------------------------
+ * Progressive streaming
+ * -------------------------------------------------------------------------- */
+
+type DeferredComment = Comment & {
+  readonly data: { readonly deferred: Promise<Child> };
+};
+
+const deferredOf = (node: RootContent): Promise<Child> | undefined =>
+  node.type === "comment"
+    ? (node as Partial<DeferredComment>).data?.deferred
+    : undefined;
+
+/**
+ * A subtree that is still loading. `renderStream()` waits for it in document
+ * order; `render()` emits an empty `<!--deferred-->` placeholder instead.
+ * Rejections are reported by `renderStream()` (see `RenderStreamOptions`).
+ */
+export function deferred(content: PromiseLike<Child>): RawHtml {
+  const promise = Promise.resolve(content);
+  // Surfaced by renderStream(); never an unhandled rejection on its own.
+  promise.catch(() => {});
+  // Non-enumerable so renderPretty()'s structuredClone drops it quietly.
+  const data = Object.defineProperty({}, "deferred", { value: promise }) as {
+    readonly deferred: Promise<Child>;
+  };
+  const n: DeferredComment = { type: "comment", value: "deferred", data };
+  const nodes = [n as unknown as RootContent];
+  return { __rawHtml: toHtmlMinimizedFromNodes(nodes), __nodes: nodes };
+}
+
+export type RenderStreamOptions = {
+  /**
+   * Markup streamed in place of a deferred subtree that rejected. Without it
+   * the stream errors and the response is cut short.
+   */
+  readonly onError?: (error: unknown) => Child;
+};
+
+/**
+ * renderStream():
+ * - Same serialization as `render()`, emitted as UTF-8 chunks.
+ * - Markup up to the first `deferred()` subtree is one chunk, sent at once.
+ * - Deferred subtrees are awaited in document order (they load concurrently,
+ *   since their promises are already running) and may contain further
+ *   deferred subtrees.
+ * - Cancelling the stream stops waiting on remaining subtrees.
+ */
+export function renderStream(
+  parts: string | RawHtml | readonly (string | RawHtml)[],
+  opts: RenderStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const nodes: RootContent[] = [];
+  for (const p of Array.isArray(parts) ? parts : [parts]) {
+    if (typeof p === "string") nodes.push(...parseTrustedHtmlToNodes(p));
+    else if (p.__nodes) nodes.push(...p.__nodes);
+    else nodes.push(...parseTrustedHtmlToNodes(p.__rawHtml));
+  }
+
+  const hasDeferredCache = new WeakMap<RootContent, boolean>();
+  const hasDeferred = (node: RootContent): boolean => {
+    if (deferredOf(node)) return true;
+    if (node.type !== "element") return false;
+    let found = hasDeferredCache.get(node);
+    if (found === undefined) {
+      found = node.children.some((c) => hasDeferred(c as RootContent));
+      hasDeferredCache.set(node, found);
+    }
+    return found;
+  };
+
+  // Yields markup, and `undefined` where the buffered markup should be
+  // flushed before waiting on a deferred subtree.
+  async function* chunks(
+    list: readonly RootContent[],
+  ): AsyncGenerator<string | undefined> {
+    let run: RootContent[] = [];
+    for (const node of list) {
+      const pending = deferredOf(node);
+      if (!pending && !hasDeferred(node)) {
+        run.push(node);
+        continue;
+      }
+      if (run.length > 0) {
+        yield toHtmlMinimizedFromNodes(run);
+        run = [];
+      }
+      if (pending) {
+        yield undefined;
+        let content: Child;
+        try {
+          content = await pending;
+        } catch (err) {
+          if (!opts.onError) throw err;
+          content = opts.onError(err);
+        }
+        yield* chunks(childrenToHast([content]) as RootContent[]);
+        continue;
+      }
+      // An element with deferred descendants: open tag, children, close tag.
+      const element = node as Element;
+      const close = `</${element.tagName}>`;
+      const empty = toHtmlMinimizedFromNodes([
+        { ...element, children: [] } as RootContent,
+      ]);
+      yield empty.slice(0, empty.length - close.length);
+      yield* chunks(element.children as RootContent[]);
+      yield close;
+    }
+    if (run.length > 0) yield toHtmlMinimizedFromNodes(run);
+  }
+
+  const it = chunks(nodes);
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        let buffered = "";
+        for (;;) {
+          const { value, done } = await it.next();
+          if (value !== undefined) {
+            buffered += value;
+            continue;
+          }
+          if (buffered) controller.enqueue(encoder.encode(buffered));
+          if (done) controller.close();
+          if (buffered || done) return;
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    cancel() {
+      // Queued behind any deferred subtree being awaited; don't block on it.
+      it.return(undefined).catch(() => {});
+    },
+  });
+}
+
 // Safe script/style helpers: always embed as text, never parse as HTML
 export const scriptJs: (code: string, attrs?: Attrs) => RawHtml = (
   code,
@@ -470,3 +470,83 @@ Deno.test("browser user agent (UA) dependencies: normalize + head tags", async (
     );
   });
 });
+
+Deno.test("fluent-html: progressive streaming with deferred", async (t) => {
+  const decoder = new TextDecoder();
+  const read = async (stream: ReadableStream<Uint8Array>) => {
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(decoder.decode(chunk));
+    return chunks;
+  };
+
+  await t.step("without deferred parts it matches render()", async () => {
+    const page = [
+      F.doctype(),
+      F.html(F.head(F.title("T")), F.body(F.p({ class: "x" }, "a < b"))),
+    ];
+    const chunks = await read(F.renderStream(page));
+    assertEquals(chunks, [F.render(...page)]);
+  });
+
+  await t.step("shell first, deferred parts in document order", async () => {
+    let resolveSlow!: (v: F.Child) => void;
+    const slow = new Promise<F.Child>((r) => resolveSlow = r);
+    const page = F.html(
+      F.head(F.title("Report")),
+      F.body(
+        F.header("Shell"),
+        F.main(F.deferred(slow)),
+        F.aside(F.deferred(Promise.resolve(F.p("fast")))),
+        F.footer("End"),
+      ),
+    );
+
+    const reader = F.renderStream([F.doctype(), page]).getReader();
+    const first = decoder.decode((await reader.read()).value);
+    assertEquals(
+      first,
+      "<!doctype html><html><head><title>Report</title></head><body><header>Shell</header><main>",
+    );
+    // The fast part resolved first but still waits behind the slow one.
+    resolveSlow([
+      F.table(F.tr(F.td("row"))),
+      F.deferred(Promise.resolve("nested")),
+    ]);
+    const rest: string[] = [];
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      rest.push(decoder.decode(value));
+    }
+    assertEquals(
+      rest.join(""),
+      "<table><tr><td>row</td></tr></table>nested</main><aside><p>fast</p></aside><footer>End</footer></body></html>",
+    );
+    assertEquals(
+      F.render(page),
+      "<html><head><title>Report</title></head><body><header>Shell</header><main><!--deferred--></main><aside><!--deferred--></aside><footer>End</footer></body></html>",
+    );
+    assertEquals(
+      F.renderPretty(F.main(F.deferred(slow))).trim(),
+      "<main><!--deferred--></main>",
+    );
+  });
+
+  await t.step("rejections error the stream unless onError", async () => {
+    const failing = () => F.div(F.deferred(Promise.reject(new Error("boom"))));
+    const handled = await read(
+      F.renderStream(failing(), {
+        onError: (err) => F.p(`failed: ${(err as Error).message}`),
+      }),
+    );
+    assertEquals(handled.join(""), "<div><p>failed: boom</p></div>");
+
+    let error: unknown;
+    try {
+      await read(F.renderStream(failing()));
+    } catch (err) {
+      error = err;
+    }
+    assertEquals((error as Error).message, "boom");
+  });
+});
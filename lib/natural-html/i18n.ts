@@ -0,0 +1,728 @@
+/**
+ * @module lib/natural-html/i18n.ts
+ *
+ * Message catalogs, ICU-style message formatting, and locale negotiation for
+ * Natural HTML, Natural DS, and Continuux. Everything here is pure: catalogs
+ * are plain data, formatting is built on the runtime's `Intl` objects, and
+ * nothing reads request state or globals.
+ *
+ * Features:
+ * - `defineCatalog()` declares the default-locale messages (which fix the key
+ *   set at compile time) plus partial translations for other locales
+ * - ICU MessageFormat subset: `{name}`, `{n, number[, integer|percent|compact]}`,
+ *   `{d, date|time[, short|medium|long|full]}`, `{n, plural, ...}` with `=N`
+ *   exact matches, `offset:` and `#`, `{n, selectordinal, ...}`, and
+ *   `{v, select, ...}`; apostrophes quote literal braces
+ * - `createTranslator()` resolves keys through the locale chain
+ *   (`fr-CA` -> `fr` -> the catalog default) with later catalogs overriding
+ *   earlier ones, and exposes locale-aware number, date, relative time, and
+ *   list helpers plus the text direction
+ * - `parseAcceptLanguage()` / `negotiateLocale()` pick a supported locale from
+ *   client preferences, matching base languages when regions differ
+ * - `createI18n()` bundles catalogs and supported locales and caches one
+ *   translator per locale
+ * - `localize()` lets components render built-in labels from their own catalog
+ *   in the active translator's locale, while still honoring app overrides
+ *
+ * Usage:
+ *   const app = defineCatalog({
+ *     defaultLocale: "en",
+ *     messages: {
+ *       "inbox.count": "{n, plural, =0 {No messages} one {# message} other {# messages}}",
+ *     },
+ *     translations: {
+ *       fr: { "inbox.count": "{n, plural, =0 {Aucun message} one {# message} other {# messages}}" },
+ *     },
+ *   });
+ *   const i18n = createI18n({ catalogs: [app], locales: ["en", "fr"] });
+ *   const t = i18n.translator(i18n.negotiate(parseAcceptLanguage("fr-CA,fr;q=0.9")));
+ *   t.t("inbox.count", { n: 3 }); // "3 messages"
+ *   t.date(new Date(), "long");
+ */
+
+export type MessageValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | null
+  | undefined;
+
+export type MessageValues = Readonly<Record<string, MessageValue>>;
+
+export type Messages<K extends string = string> = {
+  readonly [Key in K]?: string;
+};
+
+export type MessageCatalog<K extends string = string> = {
+  readonly defaultLocale: string;
+  readonly messages: Readonly<Record<K, string>>;
+  readonly translations: { readonly [locale: string]: Messages<K> };
+};
+
+export type CatalogKey<C> = C extends MessageCatalog<infer K> ? K : never;
+
+export type DateStyle = "short" | "medium" | "long" | "full";
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface Translator<K extends string = string> {
+  readonly locale: string;
+  readonly dir: TextDirection;
+  /**
+   * Format the message for `key`; unknown keys render as the key itself.
+   * A method (not a property) so `Translator<"a">` is usable as `Translator`.
+   */
+  t(key: K, values?: MessageValues): string;
+  /** True when any catalog in the chain defines `key`. */
+  readonly has: (key: string) => boolean;
+  /** Format an ad-hoc ICU message in this locale. */
+  readonly format: (message: string, values?: MessageValues) => string;
+  readonly number: (
+    value: number | bigint,
+    opts?: Intl.NumberFormatOptions,
+  ) => string;
+  readonly date: (
+    value: Date | number,
+    opts?: DateStyle | Intl.DateTimeFormatOptions,
+  ) => string;
+  readonly time: (
+    value: Date | number,
+    opts?: DateStyle | Intl.DateTimeFormatOptions,
+  ) => string;
+  readonly relativeTime: (
+    value: number,
+    unit: Intl.RelativeTimeFormatUnit,
+    opts?: Intl.RelativeTimeFormatOptions,
+  ) => string;
+  readonly list: (
+    items: readonly string[],
+    opts?: Intl.ListFormatOptions,
+  ) => string;
+}
+
+export type TranslatorOptions = {
+  /** Called once per missing key and locale, e.g. to log gaps in a catalog. */
+  readonly onMissing?: (key: string, locale: string) => void;
+  /** Time zone for date/time helpers and `{d, date}` arguments. */
+  readonly timeZone?: string;
+};
+
+export class MessageFormatError extends Error {
+  constructor(message: string, readonly source: string) {
+    super(message);
+    this.name = "MessageFormatError";
+  }
+}
+
+/* -----------------------------------------------------------------------------
+ * Catalogs
+ * -------------------------------------------------------------------------- */
+
+export function defineCatalog<K extends string>(catalog: {
+  readonly defaultLocale: string;
+  readonly messages: Readonly<Record<K, string>>;
+  readonly translations?: { readonly [locale: string]: Messages<NoInfer<K>> };
+}): MessageCatalog<K> {
+  return {
+    defaultLocale: catalog.defaultLocale,
+    messages: catalog.messages,
+    translations: catalog.translations ?? {},
+  };
+}
+
+/** Locales a catalog has messages for, default locale first. */
+export const catalogLocales = (catalog: MessageCatalog): string[] => [
+  catalog.defaultLocale,
+  ...Object.keys(catalog.translations).filter((l) =>
+    l !== catalog.defaultLocale
+  ),
+];
+
+/**
+ * Fallback chain for a locale tag: `zh-Hant-TW` -> `zh-Hant-TW`, `zh-Hant`,
+ * `zh`.
+ */
+export const localeChain = (locale: string): string[] => {
+  const parts = locale.split("-");
+  const out: string[] = [];
+  for (let n = parts.length; n > 0; n--) out.push(parts.slice(0, n).join("-"));
+  return out;
+};
+
+const lookupMessage = (
+  catalog: MessageCatalog,
+  locale: string,
+  key: string,
+): string | undefined => {
+  const fromTranslations = catalog.translations[locale]?.[key];
+  if (fromTranslations !== undefined) return fromTranslations;
+  return locale === catalog.defaultLocale
+    ? (catalog.messages as Record<string, string>)[key]
+    : undefined;
+};
+
+const resolveMessage = (
+  catalogs: readonly MessageCatalog[],
+  chain: readonly string[],
+  key: string,
+): string | undefined => {
+  // Exact locale beats fallback locale; within a locale, later catalogs win.
+  for (const locale of chain) {
+    for (let i = catalogs.length - 1; i >= 0; i--) {
+      const msg = lookupMessage(catalogs[i], locale, key);
+      if (msg !== undefined) return msg;
+    }
+  }
+  for (let i = catalogs.length - 1; i >= 0; i--) {
+    const catalog = catalogs[i];
+    const msg = lookupMessage(catalog, catalog.defaultLocale, key);
+    if (msg !== undefined) return msg;
+  }
+  return undefined;
+};
+
+/* -----------------------------------------------------------------------------
+ * ICU message parsing
+ * -------------------------------------------------------------------------- */
+
+type MessagePart =
+  | string
+  | { readonly kind: "arg"; readonly name: string }
+  | { readonly kind: "pound" }
+  | {
+    readonly kind: "number";
+    readonly name: string;
+    readonly style?: string;
+  }
+  | {
+    readonly kind: "date" | "time";
+    readonly name: string;
+    readonly style?: string;
+  }
+  | {
+    readonly kind: "plural";
+    readonly name: string;
+    readonly ordinal: boolean;
+    readonly offset: number;
+    readonly options: Readonly<Record<string, MessagePart[]>>;
+  }
+  | {
+    readonly kind: "select";
+    readonly name: string;
+    readonly options: Readonly<Record<string, MessagePart[]>>;
+  };
+
+const identRe = /[^\s,{}#']/;
+
+function parseMessage(src: string): MessagePart[] {
+  let i = 0;
+
+  const fail = (why: string): never => {
+    throw new MessageFormatError(`${why} at offset ${i} in "${src}"`, src);
+  };
+  const skipWs = () => {
+    while (i < src.length && /\s/.test(src[i])) i++;
+  };
+  const ident = () => {
+    const start = i;
+    while (i < src.length && identRe.test(src[i])) i++;
+    if (i === start) fail("expected an identifier");
+    return src.slice(start, i);
+  };
+  const expect = (ch: string) => {
+    if (src[i] !== ch) fail(`expected "${ch}"`);
+    i++;
+  };
+
+  const parseParts = (inPlural: boolean, nested: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) parts.push(text);
+      text = "";
+    };
+    while (i < src.length) {
+      const ch = src[i];
+      if (ch === "'") {
+        const next = src[i + 1];
+        if (next === "'") {
+          text += "'";
+          i += 2;
+          continue;
+        }
+        if (next === "{" || next === "}" || (inPlural && next === "#")) {
+          const end = src.indexOf("'", i + 1);
+          const stop = end === -1 ? src.length : end;
+          text += src.slice(i + 1, stop);
+          i = stop + 1;
+          continue;
+        }
+        text += ch;
+        i++;
+        continue;
+      }
+      if (ch === "{") {
+        flush();
+        parts.push(parseArg(inPlural));
+        continue;
+      }
+      if (ch === "}") {
+        if (nested) break;
+        fail('unmatched "}"');
+      }
+      if (ch === "#" && inPlural) {
+        flush();
+        parts.push({ kind: "pound" });
+        i++;
+        continue;
+      }
+      text += ch;
+      i++;
+    }
+    flush();
+    return parts;
+  };
+
+  const parseOptions = (inPlural: boolean, plural: boolean) => {
+    const options: Record<string, MessagePart[]> = {};
+    let offset = 0;
+    for (;;) {
+      skipWs();
+      if (src[i] === "}" || i >= src.length) break;
+      if (plural && src.startsWith("offset:", i)) {
+        i += "offset:".length;
+        skipWs();
+        const n = Number(ident());
+        if (!Number.isFinite(n)) fail("invalid plural offset");
+        offset = n;
+        continue;
+      }
+      const selector = src[i] === "=" ? (i++, `=${ident()}`) : ident();
+      skipWs();
+      expect("{");
+      options[selector] = parseParts(inPlural, true);
+      expect("}");
+    }
+    if (!options.other) fail('missing "other" option');
+    return { options, offset };
+  };
+
+  const parseArg = (inPlural: boolean): MessagePart => {
+    expect("{");
+    skipWs();
+    const name = ident();
+    skipWs();
+    if (src[i] === "}") {
+      i++;
+      return { kind: "arg", name };
+    }
+    expect(",");
+    skipWs();
+    const type = ident();
+    skipWs();
+    let part: MessagePart;
+    if (type === "number" || type === "date" || type === "time") {
+      let style: string | undefined;
+      if (src[i] === ",") {
+        i++;
+        const end = src.indexOf("}", i);
+        if (end === -1) fail("unterminated argument");
+        style = src.slice(i, end).trim() || undefined;
+        i = end;
+      }
+      part = type === "number"
+        ? { kind: "number", name, style }
+        : { kind: type, name, style };
+    } else if (type === "plural" || type === "selectordinal") {
+      expect(",");
+      const { options, offset } = parseOptions(true, true);
+      part = {
+        kind: "plural",
+        name,
+        ordinal: type === "selectordinal",
+        offset,
+        options,
+      };
+    } else if (type === "select") {
+      expect(",");
+      part = {
+        kind: "select",
+        name,
+        options: parseOptions(inPlural, false).options,
+      };
+    } else {
+      return fail(`unknown argument type "${type}"`);
+    }
+    skipWs();
+    expect("}");
+    return part;
+  };
+
+  return parseParts(false, false);
+}
+
+/* -----------------------------------------------------------------------------
+ * Formatting
+ * -------------------------------------------------------------------------- */
+
+type Formatters = {
+  readonly number: (
+    value: number | bigint,
+    opts?: Intl.NumberFormatOptions,
+  ) => string;
+  readonly dateTime: (
+    value: Date | number,
+    opts: Intl.DateTimeFormatOptions,
+  ) => string;
+  readonly plural: (value: number, ordinal: boolean) => string;
+};
+
+const dateStyleOptions = (
+  field: "dateStyle" | "timeStyle",
+  opts: DateStyle | Intl.DateTimeFormatOptions | undefined,
+  fallback: DateStyle,
+): Intl.DateTimeFormatOptions =>
+  typeof opts === "string" ? { [field]: opts } : opts ?? { [field]: fallback };
+
+const numberStyleOptions = (
+  style: string | undefined,
+): Intl.NumberFormatOptions | undefined => {
+  switch (style) {
+    case undefined:
+      return undefined;
+    case "integer":
+      return { maximumFractionDigits: 0 };
+    case "percent":
+      return { style: "percent" };
+    case "compact":
+      return { notation: "compact" };
+    default:
+      if (style.startsWith("currency/")) {
+        return { style: "currency", currency: style.slice(9) };
+      }
+      return undefined;
+  }
+};
+
+function createFormatters(locale: string, timeZone?: string): Formatters {
+  const numbers = new Map<string, Intl.NumberFormat>();
+  const dates = new Map<string, Intl.DateTimeFormat>();
+  const plurals = new Map<boolean, Intl.PluralRules>();
+  return {
+    number: (value, opts) => {
+      const key = JSON.stringify(opts ?? {});
+      let f = numbers.get(key);
+      if (!f) numbers.set(key, f = new Intl.NumberFormat(locale, opts));
+      return f.format(value);
+    },
+    dateTime: (value, opts) => {
+      const key = JSON.stringify(opts);
+      let f = dates.get(key);
+      if (!f) {
+        dates.set(
+          key,
+          f = new Intl.DateTimeFormat(locale, { timeZone, ...opts }),
+        );
+      }
+      return f.format(value);
+    },
+    plural: (value, ordinal) => {
+      let rules = plurals.get(ordinal);
+      if (!rules) {
+        plurals.set(
+          ordinal,
+          rules = new Intl.PluralRules(locale, {
+            type: ordinal ? "ordinal" : "cardinal",
+          }),
+        );
+      }
+      return rules.select(value);
+    },
+  };
+}
+
+function formatParts(
+  parts: readonly MessagePart[],
+  values: MessageValues,
+  fmt: Formatters,
+  pound?: string,
+): string {
+  let out = "";
+  for (const part of parts) {
+    if (typeof part === "string") {
+      out += part;
+      continue;
+    }
+    if (part.kind === "pound") {
+      out += pound ?? "#";
+      continue;
+    }
+    const value = values[part.name];
+    if (value === undefined) {
+      out += `{${part.name}}`;
+      continue;
+    }
+    switch (part.kind) {
+      case "arg":
+        out += value instanceof Date
+          ? fmt.dateTime(value, { dateStyle: "medium" })
+          : typeof value === "number" || typeof value === "bigint"
+          ? fmt.number(value)
+          : String(value ?? "");
+        break;
+      case "number":
+        out += fmt.number(
+          typeof value === "bigint" ? value : Number(value),
+          numberStyleOptions(part.style),
+        );
+        break;
+      case "date":
+      case "time": {
+        const field = part.kind === "date" ? "dateStyle" : "timeStyle";
+        out += fmt.dateTime(
+          value instanceof Date ? value : new Date(Number(value)),
+          { [field]: (part.style as DateStyle | undefined) ?? "medium" },
+        );
+        break;
+      }
+      case "plural": {
+        const n = Number(value);
+        const exact = part.options[`=${n}`];
+        const adjusted = n - part.offset;
+        const branch = exact ??
+          part.options[fmt.plural(adjusted, part.ordinal)] ??
+          part.options.other;
+        out += formatParts(branch, values, fmt, fmt.number(adjusted));
+        break;
+      }
+      case "select":
+        out += formatParts(
+          part.options[String(value)] ?? part.options.other,
+          values,
+          fmt,
+          pound,
+        );
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Format a single ICU message. Prefer a translator's `format()` when
+ * formatting many messages; it caches parsed messages and `Intl` objects.
+ */
+export function formatMessage(
+  message: string,
+  values: MessageValues = {},
+  locale = "en",
+): string {
+  return formatParts(parseMessage(message), values, createFormatters(locale));
+}
+
+/* -----------------------------------------------------------------------------
+ * Translators
+ * -------------------------------------------------------------------------- */
+
+const rtlLanguages = new Set([
+  "ar",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+]);
+
+export const textDirection = (locale: string): TextDirection =>
+  rtlLanguages.has(locale.split("-")[0].toLowerCase()) ? "rtl" : "ltr";
+
+export function createTranslator<C extends MessageCatalog>(
+  locale: string,
+  catalogs: C | readonly C[],
+  opts: TranslatorOptions = {},
+): Translator<CatalogKey<C>> {
+  const list =
+    (Array.isArray(catalogs)
+      ? catalogs
+      : [catalogs]) as readonly MessageCatalog[];
+  const chain = localeChain(locale);
+  const fmt = createFormatters(locale, opts.timeZone);
+  const compiled = new Map<string, MessagePart[]>();
+  const reported = new Set<string>();
+
+  const format = (message: string, values: MessageValues = {}) => {
+    let parts = compiled.get(message);
+    if (!parts) compiled.set(message, parts = parseMessage(message));
+    return formatParts(parts, values, fmt);
+  };
+
+  return {
+    locale,
+    dir: textDirection(locale),
+    t: (key, values) => {
+      const message = resolveMessage(list, chain, key);
+      if (message === undefined) {
+        if (!reported.has(key)) {
+          reported.add(key);
+          opts.onMissing?.(key, locale);
+        }
+        return key;
+      }
+      return format(message, values);
+    },
+    has: (key) => resolveMessage(list, chain, key) !== undefined,
+    format,
+    number: (value, numberOpts) => fmt.number(value, numberOpts),
+    date: (value, dateOpts) =>
+      fmt.dateTime(value, dateStyleOptions("dateStyle", dateOpts, "medium")),
+    time: (value, timeOpts) =>
+      fmt.dateTime(value, dateStyleOptions("timeStyle", timeOpts, "short")),
+    relativeTime: (value, unit, rtOpts) =>
+      new Intl.RelativeTimeFormat(locale, rtOpts).format(value, unit),
+    list: (items, listOpts) =>
+      new Intl.ListFormat(locale, listOpts).format(items),
+  };
+}
+
+/**
+ * Render a key from a component's built-in catalog. App catalogs registered
+ * on the translator override it; otherwise the built-in catalog is read in
+ * the translator's locale (or its default locale without a translator).
+ */
+export function localize<K extends string>(
+  translator: Translator | undefined,
+  catalog: MessageCatalog<K>,
+  key: K,
+  values?: MessageValues,
+): string {
+  if (translator?.has(key)) return translator.t(key, values);
+  const locale = translator?.locale ?? catalog.defaultLocale;
+  const message = resolveMessage([catalog], localeChain(locale), key) ?? key;
+  return translator
+    ? translator.format(message, values)
+    : formatMessage(message, values, locale);
+}
+
+/* -----------------------------------------------------------------------------
+ * Locale negotiation
+ * -------------------------------------------------------------------------- */
+
+/** Canonical BCP 47 form of `tag`, or undefined when it is not a valid tag. */
+export const canonicalLocale = (tag: string): string | undefined => {
+  try {
+    return Intl.getCanonicalLocales(tag.trim())[0];
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Language ranges from an Accept-Language header, most preferred first.
+ * Ranges with q=0, the `*` wildcard, and malformed tags are dropped.
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return [];
+  const ranges: { tag: string; q: number; index: number }[] = [];
+  header.split(",").forEach((item, index) => {
+    const [rawTag, ...params] = item.trim().split(";");
+    if (!rawTag || rawTag === "*") return;
+    let q = 1;
+    for (const p of params) {
+      const [k, v] = p.trim().split("=");
+      if (k === "q") q = Number(v);
+    }
+    const tag = canonicalLocale(rawTag);
+    if (!tag || !(q > 0)) return;
+    ranges.push({ tag, q, index });
+  });
+  return ranges
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((r) => r.tag);
+}
+
+/**
+ * Pick the best supported locale for the requested ones: an exact match,
+ * then a shared prefix (`fr-CA` -> `fr`, `pt` -> `pt-BR`), in request order.
+ */
+export function negotiateLocale(
+  requested: readonly string[],
+  supported: readonly string[],
+  fallback: string,
+): string {
+  const lower = supported.map((s) => s.toLowerCase());
+  for (const want of requested) {
+    const tag = want.toLowerCase();
+    const exact = lower.indexOf(tag);
+    if (exact !== -1) return supported[exact];
+    for (const prefix of localeChain(tag).slice(1)) {
+      const idx = lower.indexOf(prefix);
+      if (idx !== -1) return supported[idx];
+    }
+    const language = tag.split("-")[0];
+    const regional = lower.findIndex((s) => s.split("-")[0] === language);
+    if (regional !== -1) return supported[regional];
+  }
+  return fallback;
+}
+
+export interface I18n<K extends string = string> {
+  readonly locales: readonly string[];
+  readonly defaultLocale: string;
+  /** Cached translator for a supported locale (others fall back). */
+  readonly translator: (locale: string) => Translator<K>;
+  readonly negotiate: (requested: readonly string[]) => string;
+  /** The supported locale `tag` names, if any (case-insensitive). */
+  readonly supported: (tag: string) => string | undefined;
+}
+
+export function createI18n<C extends MessageCatalog>(
+  opts: {
+    readonly catalogs: C | readonly C[];
+    /** Default: the locales the catalogs provide. */
+    readonly locales?: readonly string[];
+    /** Default: the first catalog's default locale. */
+    readonly defaultLocale?: string;
+  } & TranslatorOptions,
+): I18n<CatalogKey<C>> {
+  type K = CatalogKey<C>;
+  const catalogs =
+    (Array.isArray(opts.catalogs)
+      ? opts.catalogs
+      : [opts.catalogs]) as readonly C[];
+  if (catalogs.length === 0) throw new Error("createI18n: no catalogs");
+  const defaultLocale = opts.defaultLocale ?? catalogs[0].defaultLocale;
+  const locales = opts.locales ??
+    [...new Set(catalogs.flatMap((c) => catalogLocales(c)))];
+  if (!locales.includes(defaultLocale)) {
+    throw new Error(
+      `createI18n: default locale "${defaultLocale}" is not in locales`,
+    );
+  }
+  const lower = locales.map((l) => l.toLowerCase());
+  const supported = (tag: string) => {
+    const idx = lower.indexOf(tag.toLowerCase());
+    return idx === -1 ? undefined : locales[idx];
+  };
+  const translators = new Map<string, Translator<K>>();
+  return {
+    locales,
+    defaultLocale,
+    supported,
+    negotiate: (requested) =>
+      negotiateLocale(requested, locales, defaultLocale),
+    translator: (locale) => {
+      const key = supported(locale) ?? defaultLocale;
+      let t = translators.get(key);
+      if (!t) {
+        translators.set(key, t = createTranslator(key, catalogs, opts));
+      }
+      return t;
+    },
+  };
+}
@@ -0,0 +1,268 @@
+// lib/natural-html/i18n_test.ts
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "@zod";
+import {
+  createDesignSystem,
+  defineComponent,
+  defineLayout,
+  NamingStrategy,
+  RenderCtx,
+  slots,
+} from "./design-system.ts";
+import { createDialog, dialogMessages, inputField } from "./dialog.ts";
+import * as h from "./elements.ts";
+import {
+  createI18n,
+  createTranslator,
+  defineCatalog,
+  formatMessage,
+  localize,
+  MessageFormatError,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from "./i18n.ts";
+
+type RenderInput = Record<PropertyKey, never>;
+
+const naming: NamingStrategy = {
+  elemIdValue: (suggested) => suggested,
+  elemDataAttr: (suggestedKeyName) => `data-${suggestedKeyName}`,
+  className: (suggested) => suggested,
+};
+
+const inbox = defineCatalog({
+  defaultLocale: "en",
+  messages: {
+    "inbox.title": "Inbox",
+    "inbox.count":
+      "{n, plural, =0 {No messages} one {# message} other {# messages}}",
+    "inbox.greeting":
+      "{gender, select, female {Welcome, {name}} other {Hi {name}}}",
+    "inbox.rank":
+      "{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}",
+  },
+  translations: {
+    fr: {
+      "inbox.title": "Boîte de réception",
+      "inbox.count":
+        "{n, plural, =0 {Aucun message} one {# message} other {# messages}}",
+    },
+    "fr-CA": { "inbox.title": "Boîte aux lettres" },
+    de: {
+      "inbox.count":
+        "{n, plural, =0 {Keine Nachrichten} one {# Nachricht} other {# Nachrichten}}",
+    },
+  },
+});
+
+Deno.test("i18n: ICU message formatting", () => {
+  const count = "{n, plural, =0 {none} one {# item} other {# items}}";
+  assertEquals(formatMessage(count, { n: 0 }), "none");
+  assertEquals(formatMessage(count, { n: 1 }), "1 item");
+  assertEquals(formatMessage(count, { n: 1234 }), "1,234 items");
+  assertEquals(formatMessage(count, { n: 1234 }, "de"), "1.234 items");
+  // French treats 0 and 1 as "one".
+  assertEquals(
+    formatMessage(
+      "{n, plural, one {# pomme} other {# pommes}}",
+      { n: 0 },
+      "fr",
+    ),
+    "0 pomme",
+  );
+  assertEquals(
+    formatMessage(
+      "{n, plural, offset:1 =0 {nobody} =1 {{host}} one {{host} and # other} other {{host} and # others}}",
+      { n: 3, host: "Ada" },
+    ),
+    "Ada and 2 others",
+  );
+  assertEquals(
+    formatMessage(
+      "{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}",
+      {
+        n: 23,
+      },
+    ),
+    "23rd",
+  );
+  assertEquals(
+    formatMessage("{role, select, admin {Admin {name}} other {{name}}}", {
+      role: "admin",
+      name: "Grace",
+    }),
+    "Admin Grace",
+  );
+  assertEquals(
+    formatMessage("{share, number, percent} / {total, number, integer}", {
+      share: 0.25,
+      total: 9.6,
+    }),
+    "25% / 10",
+  );
+  assertEquals(
+    formatMessage("{price, number, currency/EUR}", { price: 5 }, "fr"),
+    "5,00 €",
+  );
+  assertEquals(
+    formatMessage("Use '{braces}' and it''s {missing}", {}),
+    "Use {braces} and it's {missing}",
+  );
+  assertThrows(
+    () => formatMessage("{n, plural, one {x}}", { n: 1 }),
+    MessageFormatError,
+    '"other"',
+  );
+  assertThrows(() => formatMessage("{n, wat}", {}), MessageFormatError);
+});
+
+Deno.test("i18n: translators, catalogs, and negotiation", async (t) => {
+  await t.step("locale chain and catalog overrides", () => {
+    const missing: string[] = [];
+    const frCa = createTranslator("fr-CA", inbox, {
+      onMissing: (key, locale) => missing.push(`${locale}:${key}`),
+    });
+    assertEquals(frCa.t("inbox.title"), "Boîte aux lettres");
+    assertEquals(frCa.t("inbox.count", { n: 2 }), "2 messages");
+    assertEquals(
+      frCa.t("inbox.greeting", { gender: "female", name: "Ada" }),
+      "Welcome, Ada",
+    );
+    assertEquals(frCa.dir, "ltr");
+
+    const overrides = defineCatalog({
+      defaultLocale: "en",
+      messages: { "inbox.title": "Messages" },
+    });
+    const en = createTranslator("en", [inbox, overrides]);
+    assertEquals(en.t("inbox.title"), "Messages");
+    // A translation in the requested locale still beats a later default.
+    assertEquals(
+      createTranslator("fr", [inbox, overrides]).t("inbox.title"),
+      "Boîte de réception",
+    );
+
+    const de = createTranslator("de", inbox, {
+      onMissing: (key, locale) => missing.push(`${locale}:${key}`),
+    });
+    assertEquals(de.t("inbox.count", { n: 0 }), "Keine Nachrichten");
+    // deno-lint-ignore no-explicit-any
+    assertEquals(de.t("inbox.nope" as any), "inbox.nope");
+    // deno-lint-ignore no-explicit-any
+    de.t("inbox.nope" as any);
+    assertEquals(missing, ["de:inbox.nope"]);
+  });
+
+  await t.step("number, date, relative time, and list helpers", () => {
+    const when = new Date(Date.UTC(2026, 9, 19, 14, 5));
+    const de = createTranslator("de", inbox, { timeZone: "UTC" });
+    assertEquals(de.number(1234.5), "1.234,5");
+    assertEquals(de.date(when, "long"), "19. Oktober 2026");
+    assertEquals(de.time(when), "14:05");
+    assertEquals(de.relativeTime(-1, "day", { numeric: "auto" }), "gestern");
+    assertEquals(de.list(["A", "B", "C"]), "A, B und C");
+    const es = createTranslator("es", inbox, { timeZone: "UTC" });
+    assertEquals(es.date(when, { month: "long" }), "octubre");
+    assertEquals(
+      es.format("{d, date, short}", { d: when }),
+      "19/10/26",
+    );
+    assertEquals(createTranslator("ar-EG", inbox).dir, "rtl");
+  });
+
+  await t.step("Accept-Language negotiation", () => {
+    assertEquals(
+      parseAcceptLanguage("fr-CA, de;q=0.9, *;q=0.5, en;q=0, pt-br;q=0.95"),
+      ["fr-CA", "pt-BR", "de"],
+    );
+    assertEquals(parseAcceptLanguage(null), []);
+    const supported = ["en", "es", "fr", "de", "pt-BR"];
+    assertEquals(negotiateLocale(["fr-CA"], supported, "en"), "fr");
+    assertEquals(negotiateLocale(["pt-PT"], supported, "en"), "pt-BR");
+    assertEquals(negotiateLocale(["ja", "DE"], supported, "en"), "de");
+    assertEquals(negotiateLocale(["ja"], supported, "en"), "en");
+
+    const i18n = createI18n({ catalogs: [inbox] });
+    assertEquals(i18n.locales, ["en", "fr", "fr-CA", "de"]);
+    assertEquals(i18n.negotiate(parseAcceptLanguage("fr-BE,fr;q=0.8")), "fr");
+    assertEquals(i18n.translator("FR").locale, "fr");
+    assertEquals(i18n.translator("ja").locale, "en");
+    assertEquals(i18n.translator("fr") === i18n.translator("fr"), true);
+    assertThrows(() =>
+      createI18n({ catalogs: [inbox], locales: ["fr"], defaultLocale: "en" })
+    );
+  });
+});
+
+Deno.test("i18n: dialogs and design-system pages render localized", () => {
+  const schema = z.object({ name: z.string() });
+  const dialog = createDialog("profile", schema)
+    .field("name", { label: "Name", renderer: inputField() })
+    .build();
+  const labels = (html: string) =>
+    [...html.matchAll(/<(?:button)[^>]*>([^<]*)<\/button>/g)].map((m) => m[1]);
+
+  assertEquals(labels(dialog.render({ cancel: {} }).__rawHtml), [
+    "Cancel",
+    "Submit",
+  ]);
+  const fr = createTranslator("fr", dialogMessages);
+  assertEquals(
+    labels(dialog.render({ cancel: {}, i18n: fr }).__rawHtml),
+    ["Annuler", "Envoyer"],
+  );
+  // A translator without dialog keys still localizes the built-in labels.
+  const es = createTranslator("es", inbox);
+  assertEquals(localize(es, dialogMessages, "dialog.submit"), "Enviar");
+  // App catalogs override built-ins, and explicit labels win over both.
+  const custom = createTranslator("es", [
+    inbox,
+    defineCatalog({
+      defaultLocale: "en",
+      messages: { "dialog.submit": "Save" },
+      translations: { es: { "dialog.submit": "Guardar" } },
+    }),
+  ]);
+  assertEquals(
+    labels(dialog.render({ i18n: custom }).__rawHtml),
+    ["Guardar"],
+  );
+  assertEquals(
+    labels(dialog.render({ i18n: custom, submit: { label: "OK" } }).__rawHtml),
+    ["OK"],
+  );
+
+  const title = defineComponent<{ n: number }, RenderInput>(
+    "Title",
+    (ctx, props) =>
+      h.h1(
+        ctx.i18n?.t("inbox.count", { n: props.n }) ?? String(props.n),
+      ),
+  );
+  const layout = defineLayout({
+    name: "Page",
+    slots: slots({ required: ["content"] as const }),
+    render: (ctx: RenderCtx<RenderInput, NamingStrategy>, _api, s) =>
+      h.main(s.content(ctx)),
+  });
+  const ds = createDesignSystem<RenderInput>("i18n", naming)
+    .policies({ wrappers: { enabled: false } })
+    .layout(layout)
+    .build();
+  const page = (i18n?: ReturnType<typeof createTranslator>) =>
+    h.render(
+      ds.page("Page", {}, {
+        i18n,
+        slots: { content: (ctx) => title(ctx, { n: 3 }) },
+      }),
+    );
+
+  assertEquals(
+    page(createTranslator("de", inbox)),
+    '<!doctype html><html dir="ltr" lang="de"><head></head><body><main><h1>3 Nachrichten</h1></main></body></html>',
+  );
+  assertEquals(
+    page(),
+    "<!doctype html><html><head></head><body><main><h1>3</h1></main></body></html>",
+  );
+});
@@ -65,6 +65,7 @@ import {
   httpProxyFromManifest,
   type ProxyManifestRoute,
 } from "../../../lib/continuux/http-proxy.ts";
+import { createResponseCache } from "../../../lib/continuux/http-response-cache.ts";
 import { icons } from "../../../lib/natural-html/assets.ts";
 
 type State = Record<string, never>;
@@ -73,6 +74,14 @@ type Vars = Record<string, never>;
 const app = Application.sharedState<State, Vars>({});
 const ds = naturalDesignSystem();
 
+// Guide pages are static per URL, so renders are cached server-side and
+// refreshed in the background once stale.
+const pageCache = createResponseCache<State, Vars>({
+  ttlMs: 5 * 60_000,
+  staleWhileRevalidateMs: 60 * 60_000,
+  tags: ["guide"],
+});
+
 const GITHUB_PROXY_HOST = "127.0.0.1";
 const GITHUB_PROXY_PORT = 7600;
 const GITHUB_PROXY_BASE_URL =
@@ -1557,6 +1566,8 @@ app.use(async (c, next) => {
   return await next();
 });
 
+app.use(pageCache.middleware());
+
 app.get("/", (c) => htmlResponse(pageHtml(c.req)));
 app.get("/pitch", (c) => htmlResponse(pitchPageHtml(c.req)));
 